@@ -12,9 +12,24 @@ import {
 } from "@raycast/api";
 import React, { useState, useEffect } from "react";
 import { parseSSHConfig } from "./utils/sshConfig";
+import { getDaemonHosts } from "./utils/daemonHosts";
+import { DaemonListSection } from "./components/DaemonListSection";
 import { executeRemoteLs } from "./utils/ssh";
+import {
+  executeDaemonList,
+  formatDaemonUrl,
+  isRsyncDaemon,
+} from "./utils/rsyncDaemon";
 import { validateRemotePath, validateHostConfig } from "./utils/validation";
-import { SSHHostConfig, RemoteFile } from "./types/server";
+import {
+  SSHHostConfig,
+  RsyncDaemonConfig,
+  HostConfig,
+  RemoteFile,
+} from "./types/server";
+import { getTimeoutPreferences } from "./utils/preferences";
+import { getHostDefaults } from "./utils/hostDefaults";
+import { usesSudo } from "./utils/rsyncPath";
 
 /**
  * Main browse command component
@@ -22,6 +37,7 @@ import { SSHHostConfig, RemoteFile } from "./types/server";
  */
 export default function Command() {
   const [hosts, setHosts] = useState<SSHHostConfig[]>([]);
+  const [daemons, setDaemons] = useState<RsyncDaemonConfig[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -32,8 +48,10 @@ export default function Command() {
   async function loadHosts() {
     try {
       const parsedHosts = parseSSHConfig();
+      const savedDaemons = await getDaemonHosts();
+      setDaemons(savedDaemons);
 
-      if (parsedHosts.length === 0) {
+      if (parsedHosts.length === 0 && savedDaemons.length === 0) {
         const errorMsg = "No host entries found in SSH config file";
         setError(errorMsg);
         console.warn("SSH config parsed but no hosts found");
@@ -85,6 +103,11 @@ export default function Command() {
           }
         />
       ))}
+      <DaemonListSection
+        daemons={daemons}
+        actionTitle="Browse Remote Files"
+        target={(daemon) => <RemotePathForm hostConfig={daemon} />}
+      />
     </List>
   );
 }
@@ -93,13 +116,25 @@ export default function Command() {
  * Remote path input form
  * Allows user to specify path to browse on remote server
  */
-function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
-  const [remotePath, setRemotePath] = useState<string>("~");
+function RemotePathForm({ hostConfig }: { hostConfig: HostConfig }) {
+  // Daemon paths are relative to the module
+  const defaultPath = isRsyncDaemon(hostConfig) ? "/" : "~";
+  const [remotePath, setRemotePath] = useState<string>(defaultPath);
   const [remotePathError, setRemotePathError] = useState<string | undefined>();
+  const [sudo, setSudo] = useState<boolean>(false);
   const { push } = useNavigation();
 
+  // Hosts that transfer through sudo are listed through sudo by default
+  useEffect(() => {
+    if (!isRsyncDaemon(hostConfig)) {
+      getHostDefaults(hostConfig.host).then((defaults) =>
+        setSudo(usesSudo(defaults.rsyncPath)),
+      );
+    }
+  }, [hostConfig.host]);
+
   async function handleSubmit(values: { remotePath: string }) {
-    const remotePathValue = values.remotePath.trim() || "~";
+    const remotePathValue = values.remotePath.trim() || defaultPath;
 
     // Validate remote path
     const remoteValidation = validateRemotePath(remotePathValue);
@@ -133,6 +168,7 @@ function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
       <RemoteFileListLoader
         hostConfig={hostConfig}
         remotePath={remotePathValue}
+        sudo={sudo}
       />,
     );
   }
@@ -145,7 +181,7 @@ function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
           <Action
             title="Browse Directory"
             onAction={async () => {
-              const remotePathValue = remotePath.trim() || "~";
+              const remotePathValue = remotePath.trim() || defaultPath;
 
               const remoteValidation = validateRemotePath(remotePathValue);
               if (!remoteValidation.valid) {
@@ -176,6 +212,7 @@ function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
                 <RemoteFileListLoader
                   hostConfig={hostConfig}
                   remotePath={remotePathValue}
+                  sudo={sudo}
                 />,
               );
             }}
@@ -186,7 +223,11 @@ function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
       <Form.TextField
         id="remotePath"
         title="Remote Path"
-        placeholder="~ or /path/to/directory"
+        placeholder={
+          isRsyncDaemon(hostConfig)
+            ? "/ or /path/inside/module"
+            : "~ or /path/to/directory"
+        }
         value={remotePath}
         onChange={(value: string) => {
           setRemotePath(value);
@@ -195,6 +236,15 @@ function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
         error={remotePathError}
         info="Enter the directory path on the remote server to browse"
       />
+      {!isRsyncDaemon(hostConfig) && (
+        <Form.Checkbox
+          id="sudo"
+          label="List with sudo"
+          value={sudo}
+          onChange={setSudo}
+          info="Run ls through sudo -n to browse root-only directories. sudo must not need a password for ls"
+        />
+      )}
       <Form.Description
         title="Host Details"
         text={`Browsing: ${hostConfig.host}${hostConfig.hostName ? ` (${hostConfig.hostName})` : ""}`}
@@ -205,6 +255,9 @@ function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
       {hostConfig.port && (
         <Form.Description title="Port" text={hostConfig.port.toString()} />
       )}
+      {isRsyncDaemon(hostConfig) && (
+        <Form.Description title="Module" text={formatDaemonUrl(hostConfig)} />
+      )}
     </Form>
   );
 }
@@ -216,9 +269,11 @@ function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
 function RemoteFileListLoader({
   hostConfig,
   remotePath,
+  sudo = false,
 }: {
-  hostConfig: SSHHostConfig;
+  hostConfig: HostConfig;
   remotePath: string;
+  sudo?: boolean; // List SSH hosts through passwordless sudo
 }) {
   const [files, setFiles] = useState<RemoteFile[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -235,10 +290,23 @@ function RemoteFileListLoader({
     console.log("Loading remote files:", {
       host: hostConfig.host,
       remotePath,
+      sudo,
     });
 
     try {
-      const remoteFiles = await executeRemoteLs(hostConfig, remotePath);
+      // Daemon modules are listed with rsync itself, SSH hosts with ls
+      const remoteFiles = isRsyncDaemon(hostConfig)
+        ? await executeDaemonList(
+            hostConfig,
+            remotePath,
+            getTimeoutPreferences(),
+          )
+        : await executeRemoteLs(
+            hostConfig,
+            remotePath,
+            getTimeoutPreferences(),
+            sudo,
+          );
       setFiles(remoteFiles);
 
       if (remoteFiles.length === 0) {
@@ -284,6 +352,7 @@ function RemoteFileListLoader({
       remotePath={remotePath}
       files={files}
       isLoading={isLoading}
+      sudo={sudo}
     />
   );
 }
@@ -297,11 +366,13 @@ function RemoteFileList({
   remotePath,
   files,
   isLoading,
+  sudo,
 }: {
-  hostConfig: SSHHostConfig;
+  hostConfig: HostConfig;
   remotePath: string;
   files: RemoteFile[];
   isLoading?: boolean;
+  sudo?: boolean; // Passed on to the directories opened from the list
 }) {
   return (
     <List searchBarPlaceholder="Search files..." isLoading={isLoading}>
@@ -328,6 +399,7 @@ function RemoteFileList({
                             ? `${remotePath}${file.name}`
                             : `${remotePath}/${file.name}`
                         }
+                        sudo={sudo}
                       />
                     }
                   />
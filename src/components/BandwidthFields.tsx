@@ -0,0 +1,53 @@
+import { Form } from "@raycast/api";
+import React, { useEffect, useState } from "react";
+import { getHostDefaults } from "../utils/hostDefaults";
+import { formatBandwidthLimit } from "../utils/bandwidth";
+
+interface BandwidthFieldsProps {
+  host: string; // SSH host alias whose stored default prefills the limit
+}
+
+/**
+ * Bandwidth limit fields for the transfer forms
+ * Field ids match BandwidthFormValues; the limit is prefilled from the host default
+ */
+export function BandwidthFields({ host }: BandwidthFieldsProps) {
+  const [bandwidthLimit, setBandwidthLimit] = useState<string>("");
+  const [hostDefault, setHostDefault] = useState<number | undefined>();
+  const [rememberBandwidthLimit, setRememberBandwidthLimit] =
+    useState<boolean>(false);
+
+  useEffect(() => {
+    getHostDefaults(host).then((defaults) => {
+      setHostDefault(defaults.bandwidthLimit);
+      if (defaults.bandwidthLimit) {
+        setBandwidthLimit(String(defaults.bandwidthLimit));
+      }
+    });
+  }, [host]);
+
+  return (
+    <>
+      <Form.Separator />
+      <Form.TextField
+        id="bandwidthLimit"
+        title="Bandwidth Limit"
+        placeholder="No limit"
+        value={bandwidthLimit}
+        onChange={setBandwidthLimit}
+        info="Maximum transfer rate (rsync --bwlimit). Plain numbers are KB/s; K, M and G suffixes are accepted (e.g. 500K, 10M). Leave empty or 0 for no limit."
+      />
+      <Form.Checkbox
+        id="rememberBandwidthLimit"
+        label={
+          hostDefault
+            ? `Remember for ${host} (currently ${formatBandwidthLimit(hostDefault)})`
+            : `Remember for ${host}`
+        }
+        value={rememberBandwidthLimit}
+        onChange={setRememberBandwidthLimit}
+        info="Use this limit by default whenever this host is chosen. Saving an empty limit clears the host default."
+      />
+    </>
+  );
+}
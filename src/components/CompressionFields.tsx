@@ -0,0 +1,84 @@
+import { Form } from "@raycast/api";
+import React, { useEffect, useState } from "react";
+import { CompressionMode } from "../types/server";
+import { getHostDefaults } from "../utils/hostDefaults";
+
+interface CompressionFieldsProps {
+  host: string; // Host alias whose LAN flag is shown and saved
+}
+
+/**
+ * Compression fields for the transfer forms
+ * Field ids match CompressionFormValues; a LAN host hides the other fields
+ */
+export function CompressionFields({ host }: CompressionFieldsProps) {
+  const [lanHost, setLanHost] = useState<boolean>(false);
+  const [compression, setCompression] = useState<string>(
+    CompressionMode.DEFAULT,
+  );
+  const [compressLevel, setCompressLevel] = useState<string>("");
+  const [skipMediaCompression, setSkipMediaCompression] =
+    useState<boolean>(false);
+
+  useEffect(() => {
+    getHostDefaults(host).then((defaults) =>
+      setLanHost(defaults.lanHost ?? false),
+    );
+  }, [host]);
+
+  return (
+    <>
+      <Form.Separator />
+      <Form.Checkbox
+        id="lanHost"
+        title="Compression"
+        label={`${host} is on my LAN, never compress`}
+        value={lanHost}
+        onChange={setLanHost}
+        info="Saved for this host. Compressing costs more CPU time than it saves on a fast local network, so transfers with this host run without -z"
+      />
+      {!lanHost && (
+        <Form.Dropdown
+          id="compression"
+          title="Algorithm"
+          value={compression}
+          onChange={setCompression}
+          info="zstd, lz4 and zlib need rsync 3.2.0+ on both sides (--compress-choice); otherwise the default compression is used"
+        >
+          <Form.Dropdown.Item
+            value={CompressionMode.DEFAULT}
+            title="Default (-z, negotiated)"
+          />
+          <Form.Dropdown.Item value={CompressionMode.ZSTD} title="zstd" />
+          <Form.Dropdown.Item
+            value={CompressionMode.LZ4}
+            title="lz4 (fastest)"
+          />
+          <Form.Dropdown.Item value={CompressionMode.ZLIB} title="zlib" />
+          <Form.Dropdown.Item value={CompressionMode.OFF} title="Off" />
+        </Form.Dropdown>
+      )}
+      {!lanHost &&
+        compression !== CompressionMode.OFF &&
+        compression !== CompressionMode.LZ4 && (
+          <Form.TextField
+            id="compressLevel"
+            title="Compression Level"
+            placeholder="Algorithm default"
+            value={compressLevel}
+            onChange={setCompressLevel}
+            info="--compress-level: 1 to 9, or up to 22 for zstd. Higher levels shrink data more at the cost of CPU time"
+          />
+        )}
+      {!lanHost && compression !== CompressionMode.OFF && (
+        <Form.Checkbox
+          id="skipMediaCompression"
+          label="Don't compress media and archives"
+          value={skipMediaCompression}
+          onChange={setSkipMediaCompression}
+          info="Send photos, video, audio and archives uncompressed (--skip-compress), since they do not shrink further. rsync only honors this list with zlib compression"
+        />
+      )}
+    </>
+  );
+}
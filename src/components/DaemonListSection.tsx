@@ -0,0 +1,43 @@
+import { List, ActionPanel, Action, Icon } from "@raycast/api";
+import React from "react";
+import { RsyncDaemonConfig } from "../types/server";
+import { formatDaemonUrl } from "../utils/rsyncDaemon";
+
+interface DaemonListSectionProps {
+  daemons: RsyncDaemonConfig[];
+  actionTitle: string;
+  target: (daemon: RsyncDaemonConfig) => React.ReactNode; // View pushed for the chosen endpoint
+}
+
+/**
+ * Host list section with the saved rsync daemon endpoints
+ * Shown below the SSH hosts of the transfer and browse commands; renders
+ * nothing until an endpoint has been added with Manage Rsync Daemons
+ */
+export function DaemonListSection({
+  daemons,
+  actionTitle,
+  target,
+}: DaemonListSectionProps) {
+  if (daemons.length === 0) {
+    return null;
+  }
+
+  return (
+    <List.Section title="Rsync Daemons">
+      {daemons.map((daemon) => (
+        <List.Item
+          key={`daemon:${daemon.host}`}
+          icon={Icon.HardDrive}
+          title={daemon.host}
+          subtitle={formatDaemonUrl(daemon)}
+          actions={
+            <ActionPanel>
+              <Action.Push title={actionTitle} target={target(daemon)} />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List.Section>
+  );
+}
@@ -6,9 +6,16 @@ import React from "react";
 interface FileListProps {
   files: string[];
   onRemove: (filePath: string) => void;
+  actions?: React.ReactNode; // Shown for every file, before Remove
+  navigationTitle?: string;
 }
 
-export function FileList({ files, onRemove }: FileListProps) {
+export function FileList({
+  files,
+  onRemove,
+  actions,
+  navigationTitle,
+}: FileListProps) {
   const getFileIcon = (filePath: string): Icon => {
     try {
       const stats = statSync(filePath);
@@ -36,7 +43,7 @@ export function FileList({ files, onRemove }: FileListProps) {
   };
 
   return (
-    <List>
+    <List navigationTitle={navigationTitle}>
       {files.map((filePath) => (
         <List.Item
           key={filePath}
@@ -46,6 +53,7 @@ export function FileList({ files, onRemove }: FileListProps) {
           accessories={[{ text: filePath }]}
           actions={
             <ActionPanel>
+              {actions}
               <Action
                 title="Remove"
                 icon={Icon.Trash}
@@ -0,0 +1,33 @@
+import { Form } from "@raycast/api";
+import React, { useState } from "react";
+import { LARGE_FILE_PARTIAL_DIR } from "../utils/resume";
+
+/**
+ * Large file fields for the transfer forms
+ * Field ids match LargeFileFormValues
+ */
+export function LargeFileFields() {
+  const [largeFileMode, setLargeFileMode] = useState<boolean>(false);
+  const [appendVerify, setAppendVerify] = useState<boolean>(false);
+
+  return (
+    <>
+      <Form.Separator />
+      <Form.Checkbox
+        id="largeFileMode"
+        title="Large Files"
+        label="Resumable large file mode"
+        value={largeFileMode}
+        onChange={setLargeFileMode}
+        info={`Keep partially transferred files in ${LARGE_FILE_PARTIAL_DIR} inside the destination (--partial-dir) until they are complete. An interrupted transfer is saved so Resume Interrupted Transfers can restart it with the same options, continuing from the partial files`}
+      />
+      <Form.Checkbox
+        id="appendVerify"
+        label="Append to growing files (--append-verify)"
+        value={appendVerify}
+        onChange={setAppendVerify}
+        info="Only send the data added to files that are longer than their destination copy, then verify the whole file. Destination files of the same size or longer are skipped, so only use this for files that only grow, such as logs or disk images being written"
+      />
+    </>
+  );
+}
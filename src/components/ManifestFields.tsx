@@ -0,0 +1,38 @@
+import { Form } from "@raycast/api";
+import React, { useState } from "react";
+
+interface ManifestFieldsProps {
+  sourceDescription: string; // Where manifest paths are resolved, e.g. "the local directory"
+}
+
+/**
+ * Manifest fields for the transfer forms
+ * Field ids match ManifestFormValues; a file and a pasted list can be combined
+ */
+export function ManifestFields({ sourceDescription }: ManifestFieldsProps) {
+  const [manifestFile, setManifestFile] = useState<string[]>([]);
+  const [manifest, setManifest] = useState<string>("");
+
+  return (
+    <>
+      <Form.Separator />
+      <Form.FilePicker
+        id="manifestFile"
+        title="Manifest File"
+        allowMultipleSelection={false}
+        canChooseDirectories={false}
+        value={manifestFile}
+        onChange={setManifestFile}
+        info={`Optional text file listing the paths to transfer, one per line, relative to ${sourceDescription} (rsync --files-from). Lines starting with # or ; are ignored`}
+      />
+      <Form.TextArea
+        id="manifest"
+        title="Manifest"
+        placeholder={"docs/guide.pdf\nassets/logo.png"}
+        value={manifest}
+        onChange={setManifest}
+        info={`Or paste the paths to transfer, one per line, relative to ${sourceDescription}. Only these paths are transferred (listed directories with their contents); every entry is checked before the transfer starts`}
+      />
+    </>
+  );
+}
@@ -0,0 +1,107 @@
+import { Form } from "@raycast/api";
+import React, { useEffect, useState } from "react";
+import { getHostDefaults } from "../utils/hostDefaults";
+import { formatOwnershipOptions } from "../utils/ownership";
+
+interface OwnershipFieldsProps {
+  host: string; // Host alias whose stored default prefills the options
+  destinationDescription: string; // Where files are written, e.g. "the server"
+}
+
+/**
+ * Advanced permission and ownership fields for the transfer forms
+ * Field ids match OwnershipFormValues; the options are prefilled from the host default
+ */
+export function OwnershipFields({
+  host,
+  destinationDescription,
+}: OwnershipFieldsProps) {
+  const [chmod, setChmod] = useState<string>("");
+  const [chown, setChown] = useState<string>("");
+  const [preservePermissions, setPreservePermissions] = useState<boolean>(true);
+  const [preserveOwner, setPreserveOwner] = useState<boolean>(true);
+  const [preserveGroup, setPreserveGroup] = useState<boolean>(true);
+  const [numericIds, setNumericIds] = useState<boolean>(false);
+  const [hostDefault, setHostDefault] = useState<string>("");
+  const [rememberOwnership, setRememberOwnership] = useState<boolean>(false);
+
+  useEffect(() => {
+    getHostDefaults(host).then(({ ownership }) => {
+      setHostDefault(formatOwnershipOptions(ownership));
+      if (ownership) {
+        setChmod(ownership.chmod ?? "");
+        setChown(ownership.chown ?? "");
+        setPreservePermissions(ownership.preservePermissions ?? true);
+        setPreserveOwner(ownership.preserveOwner ?? true);
+        setPreserveGroup(ownership.preserveGroup ?? true);
+        setNumericIds(ownership.numericIds ?? false);
+      }
+    });
+  }, [host]);
+
+  return (
+    <>
+      <Form.Separator />
+      <Form.Description
+        title="Advanced"
+        text={`Permissions and ownership of the files written to ${destinationDescription}`}
+      />
+      <Form.TextField
+        id="chmod"
+        title="Chmod Rules"
+        placeholder="D755,F644"
+        value={chmod}
+        onChange={setChmod}
+        info="Permission rules applied to transferred files (rsync --chmod), separated by commas. Prefix a rule with D for directories or F for files; octal (755) and symbolic (go-w) rules are accepted"
+      />
+      <Form.TextField
+        id="chown"
+        title="Owner"
+        placeholder="user:group"
+        value={chown}
+        onChange={setChown}
+        info={`Owner and group of transferred files (rsync --chown, rsync 3.1.0+): user, user:group or :group. Only root can change the owner, so ${destinationDescription} has to run rsync as root`}
+      />
+      <Form.Checkbox
+        id="preservePermissions"
+        title="Preserve"
+        label="Permissions"
+        value={preservePermissions}
+        onChange={setPreservePermissions}
+        info="Copy source permissions (included in -a). Turn off to use the default permissions of the destination (--no-perms)"
+      />
+      <Form.Checkbox
+        id="preserveOwner"
+        label="Owner"
+        value={preserveOwner}
+        onChange={setPreserveOwner}
+        info="Copy the source owner when running as root (included in -a). Turn off to add --no-owner"
+      />
+      <Form.Checkbox
+        id="preserveGroup"
+        label="Group"
+        value={preserveGroup}
+        onChange={setPreserveGroup}
+        info="Copy the source group (included in -a). Turn off to add --no-group"
+      />
+      <Form.Checkbox
+        id="numericIds"
+        label="Numeric user and group IDs"
+        value={numericIds}
+        onChange={setNumericIds}
+        info="Keep user and group IDs instead of matching owners by name (--numeric-ids)"
+      />
+      <Form.Checkbox
+        id="rememberOwnership"
+        label={
+          hostDefault
+            ? `Remember for ${host} (currently ${hostDefault})`
+            : `Remember for ${host}`
+        }
+        value={rememberOwnership}
+        onChange={setRememberOwnership}
+        info="Use these options by default whenever this host is chosen. Saving the defaults of -a clears the host default."
+      />
+    </>
+  );
+}
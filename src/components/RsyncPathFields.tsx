@@ -0,0 +1,52 @@
+import { Form } from "@raycast/api";
+import React, { useEffect, useState } from "react";
+import { getHostDefaults } from "../utils/hostDefaults";
+import { SUDO_RSYNC_PATH } from "../utils/rsyncPath";
+
+interface RsyncPathFieldsProps {
+  host: string; // SSH host alias whose stored default prefills the path
+}
+
+/**
+ * Remote rsync path fields for the transfer forms
+ * Field ids match RsyncPathFormValues; the path is prefilled from the host default
+ */
+export function RsyncPathFields({ host }: RsyncPathFieldsProps) {
+  const [rsyncPath, setRsyncPath] = useState<string>("");
+  const [hostDefault, setHostDefault] = useState<string | undefined>();
+  const [rememberRsyncPath, setRememberRsyncPath] = useState<boolean>(false);
+
+  useEffect(() => {
+    getHostDefaults(host).then((defaults) => {
+      setHostDefault(defaults.rsyncPath);
+      if (defaults.rsyncPath) {
+        setRsyncPath(defaults.rsyncPath);
+      }
+    });
+  }, [host]);
+
+  return (
+    <>
+      <Form.Separator />
+      <Form.TextField
+        id="rsyncPath"
+        title="Remote Rsync Path"
+        placeholder="rsync"
+        value={rsyncPath}
+        onChange={setRsyncPath}
+        info={`Command that starts rsync on the server (rsync --rsync-path). Use "${SUDO_RSYNC_PATH}" to write root-owned paths; it is tried once before the transfer, so sudo must not need a password.`}
+      />
+      <Form.Checkbox
+        id="rememberRsyncPath"
+        label={
+          hostDefault
+            ? `Remember for ${host} (currently ${hostDefault})`
+            : `Remember for ${host}`
+        }
+        value={rememberRsyncPath}
+        onChange={setRememberRsyncPath}
+        info="Use this remote rsync path by default whenever this host is chosen. Saving an empty path clears the host default."
+      />
+    </>
+  );
+}
@@ -0,0 +1,57 @@
+import { Form } from "@raycast/api";
+import React, { useState } from "react";
+import { TimeoutOptions } from "../types/server";
+
+interface TimeoutFieldsProps {
+  defaults: TimeoutOptions;
+}
+
+/**
+ * Per-transfer timeout override fields for the transfer forms
+ * Field ids match TimeoutFormValues; values are prefilled from preferences
+ */
+export function TimeoutFields({ defaults }: TimeoutFieldsProps) {
+  const [connectTimeout, setConnectTimeout] = useState<string>(
+    String(defaults.connectTimeout ?? ""),
+  );
+  const [ioTimeout, setIoTimeout] = useState<string>(
+    String(defaults.ioTimeout ?? ""),
+  );
+  const [overallTimeoutMinutes, setOverallTimeoutMinutes] = useState<string>(
+    defaults.overallTimeout ? String(defaults.overallTimeout / 60) : "",
+  );
+
+  return (
+    <>
+      <Form.Separator />
+      <Form.Description
+        title="Timeouts"
+        text="Override the timeouts from preferences for this transfer"
+      />
+      <Form.TextField
+        id="connectTimeout"
+        title="Connect Timeout (s)"
+        placeholder="10"
+        value={connectTimeout}
+        onChange={setConnectTimeout}
+        info="How long to wait for the SSH connection. 0 disables the timeout."
+      />
+      <Form.TextField
+        id="ioTimeout"
+        title="Idle Timeout (s)"
+        placeholder="120"
+        value={ioTimeout}
+        onChange={setIoTimeout}
+        info="Stop the transfer when no data has moved for this long (rsync --timeout). 0 disables the timeout."
+      />
+      <Form.TextField
+        id="overallTimeoutMinutes"
+        title="Time Limit (min)"
+        placeholder="No limit"
+        value={overallTimeoutMinutes}
+        onChange={setOverallTimeoutMinutes}
+        info="Optional wall-clock limit for the whole transfer. Leave empty for no limit."
+      />
+    </>
+  );
+}
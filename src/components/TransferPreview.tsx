@@ -0,0 +1,187 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  Color,
+  showToast,
+  Toast,
+} from "@raycast/api";
+import React, { useState, useEffect } from "react";
+import { TransferOptions, ItemizedChange, ChangeKind } from "../types/server";
+import { executeRsyncPreview } from "../utils/rsync";
+import { summarizeChanges } from "../utils/itemize";
+
+interface TransferPreviewProps {
+  options: TransferOptions;
+  onConfirm: () => Promise<void>;
+}
+
+/** Display order, titles and icons of the change groups */
+const CHANGE_GROUPS: {
+  kind: ChangeKind;
+  title: string;
+  icon: { source: Icon; tintColor: Color };
+}[] = [
+  {
+    kind: ChangeKind.CREATED,
+    title: "New",
+    icon: { source: Icon.PlusCircle, tintColor: Color.Green },
+  },
+  {
+    kind: ChangeKind.UPDATED,
+    title: "Updated",
+    icon: { source: Icon.ArrowClockwise, tintColor: Color.Blue },
+  },
+  {
+    kind: ChangeKind.DELETED,
+    title: "Deleted",
+    icon: { source: Icon.Trash, tintColor: Color.Red },
+  },
+  {
+    kind: ChangeKind.ATTRIBUTES,
+    title: "Attributes Only",
+    icon: { source: Icon.Pencil, tintColor: Color.SecondaryText },
+  },
+];
+
+/**
+ * Dry-run preview of a transfer
+ * Lists the itemized changes grouped by kind and lets the user confirm the real transfer
+ */
+export function TransferPreview({ options, onConfirm }: TransferPreviewProps) {
+  const [changes, setChanges] = useState<ItemizedChange[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // The command that actually ran, known once the dry run has finished
+  const [previewCommand, setPreviewCommand] = useState<string>();
+
+  useEffect(() => {
+    loadPreview();
+  }, []);
+
+  async function loadPreview() {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const result = await executeRsyncPreview(options);
+      setPreviewCommand(result.command);
+
+      if (result.success) {
+        setChanges(result.changes || []);
+      } else {
+        console.error("Preview failed:", result.message);
+        setError(result.message);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Preview Failed",
+          message: result.message,
+        });
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Unknown error occurred";
+      console.error("Preview error:", err);
+      setError(errorMessage);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  const totals = summarizeChanges(changes);
+  const summary = CHANGE_GROUPS.map(
+    (group) => `${totals[group.kind]} ${group.title.toLowerCase()}`,
+  ).join(", ");
+
+  const actions = (
+    <ActionPanel>
+      <Action
+        title="Confirm Transfer"
+        icon={Icon.CheckCircle}
+        onAction={onConfirm}
+      />
+      <Action
+        title="Refresh Preview"
+        icon={Icon.Repeat}
+        onAction={loadPreview}
+      />
+      {previewCommand && (
+        <Action.CopyToClipboard title="Copy Command" content={previewCommand} />
+      )}
+    </ActionPanel>
+  );
+
+  if (error) {
+    return (
+      <List>
+        <List.EmptyView
+          title="Preview Failed"
+          description={error}
+          actions={
+            <ActionPanel>
+              <Action title="Retry" onAction={loadPreview} />
+              {previewCommand && (
+                <Action.CopyToClipboard
+                  title="Copy Command"
+                  content={previewCommand}
+                />
+              )}
+            </ActionPanel>
+          }
+        />
+      </List>
+    );
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={isLoading ? "Preview Changes" : `Preview: ${summary}`}
+      searchBarPlaceholder="Filter changes..."
+    >
+      <List.Section title="Command">
+        <List.Item
+          title={previewCommand ?? "Running dry run..."}
+          icon={Icon.Terminal}
+          actions={actions}
+        />
+      </List.Section>
+      {!isLoading && changes.length === 0 && (
+        <List.Section title="Changes">
+          <List.Item
+            title="No Changes"
+            subtitle="Source and destination are already in sync"
+            icon={Icon.CheckCircle}
+            actions={actions}
+          />
+        </List.Section>
+      )}
+      {CHANGE_GROUPS.map((group) => {
+        const groupChanges = changes.filter(
+          (change) => change.kind === group.kind,
+        );
+        if (groupChanges.length === 0) {
+          return null;
+        }
+        return (
+          <List.Section
+            key={group.kind}
+            title={group.title}
+            subtitle={`${groupChanges.length} item(s)`}
+          >
+            {groupChanges.map((change, index) => (
+              <List.Item
+                key={`${change.path}-${index}`}
+                title={change.path}
+                icon={change.isDirectory ? Icon.Folder : group.icon}
+                accessories={[{ text: change.itemizeCode }]}
+                actions={actions}
+              />
+            ))}
+          </List.Section>
+        );
+      })}
+    </List>
+  );
+}
@@ -0,0 +1,252 @@
+import { Detail, ActionPanel, Action, Icon, popToRoot } from "@raycast/api";
+import React from "react";
+import { basename } from "path";
+import {
+  RsyncResult,
+  RsyncStats,
+  SnapshotResult,
+  SourceResult,
+  TransferVerification,
+} from "../types/server";
+import {
+  formatBytes,
+  formatElapsedTime,
+  formatStatsSummary,
+} from "../utils/rsyncStats";
+
+interface TransferResultProps {
+  title: string;
+  result: RsyncResult;
+}
+
+/**
+ * Builds the metadata panel for transfer statistics
+ */
+function StatsMetadata({ stats }: { stats: RsyncStats }) {
+  return (
+    <Detail.Metadata>
+      <Detail.Metadata.Label
+        title="Files Transferred"
+        text={`${stats.filesTransferred} of ${stats.filesConsidered}`}
+      />
+      {stats.filesCreated !== undefined && (
+        <Detail.Metadata.Label
+          title="Files Created"
+          text={String(stats.filesCreated)}
+        />
+      )}
+      {stats.filesDeleted !== undefined && (
+        <Detail.Metadata.Label
+          title="Files Deleted"
+          text={String(stats.filesDeleted)}
+        />
+      )}
+      <Detail.Metadata.Separator />
+      <Detail.Metadata.Label
+        title="Total Size"
+        text={formatBytes(stats.totalSize)}
+      />
+      <Detail.Metadata.Label
+        title="Transferred Size"
+        text={formatBytes(stats.transferredSize)}
+      />
+      <Detail.Metadata.Label
+        title="Literal Data"
+        text={formatBytes(stats.literalData)}
+      />
+      <Detail.Metadata.Label
+        title="Matched Data"
+        text={formatBytes(stats.matchedData)}
+      />
+      <Detail.Metadata.Separator />
+      <Detail.Metadata.Label
+        title="Bytes Sent"
+        text={formatBytes(stats.bytesSent)}
+      />
+      <Detail.Metadata.Label
+        title="Bytes Received"
+        text={formatBytes(stats.bytesReceived)}
+      />
+      {stats.speedup !== undefined && (
+        <Detail.Metadata.Label
+          title="Speedup"
+          text={stats.speedup.toFixed(2)}
+        />
+      )}
+      <Detail.Metadata.Label
+        title="Duration"
+        text={formatElapsedTime(stats.durationMs)}
+      />
+    </Detail.Metadata>
+  );
+}
+
+/**
+ * Builds the warnings section for a partial transfer
+ * @param result - Partial transfer result
+ * @returns Markdown listing the skipped files and the suggested fix
+ */
+function buildWarningsMarkdown(result: RsyncResult): string {
+  const files = result.affectedFiles ?? [];
+  return [
+    "## ⚠️ Warnings",
+    files.length > 0
+      ? `${files.length} file(s) could not be transferred:`
+      : "Some files could not be transferred.",
+    files.map((file) => `- \`${file}\``).join("\n"),
+    result.remediation ?? "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Builds the verification section
+ * @param verification - Outcome of the SHA-256 comparison
+ * @returns Markdown stating the outcome and listing mismatched files
+ */
+function buildVerificationMarkdown(verification: TransferVerification): string {
+  if (verification.error) {
+    return ["## ❌ Verification Failed", verification.error].join("\n\n");
+  }
+  if (verification.mismatches.length === 0) {
+    return [
+      "## ✅ Verified",
+      `SHA-256 matches for all ${verification.filesChecked} transferred file(s).`,
+    ].join("\n\n");
+  }
+
+  const describeHash = (hash?: string) =>
+    hash ? `\`${hash.slice(0, 12)}…\`` : "unreadable";
+  return [
+    "## ❌ Verification Failed",
+    `${verification.mismatches.length} of ${verification.filesChecked} transferred file(s) do not match:`,
+    [
+      "| File | Local SHA-256 | Remote SHA-256 |",
+      "| --- | --- | --- |",
+      ...verification.mismatches.map(
+        ({ path, localHash, remoteHash }) =>
+          `| \`${path}\` | ${describeHash(localHash)} | ${describeHash(remoteHash)} |`,
+      ),
+    ].join("\n"),
+    "Run the transfer again with checksum comparison to resend these files.",
+  ].join("\n\n");
+}
+
+/**
+ * Builds the per-source section of a multi-source upload
+ * @param sources - Outcome of each source
+ * @returns Markdown table with the files transferred and skipped per source
+ */
+function buildSourcesMarkdown(sources: SourceResult[]): string {
+  return [
+    "## Sources",
+    [
+      "| Source | Transferred | Skipped |",
+      "| --- | --- | --- |",
+      ...sources.map(
+        ({ path, filesTransferred, skippedFiles }) =>
+          `| \`${basename(path)}\` | ${filesTransferred} file(s) | ${skippedFiles.length > 0 ? `⚠️ ${skippedFiles.length} file(s)` : "—"} |`,
+      ),
+    ].join("\n"),
+  ].join("\n\n");
+}
+
+/**
+ * Builds the snapshot section
+ * @param snapshot - Snapshot created by the run
+ * @returns Markdown with the snapshot location, its link base and pruned snapshots
+ */
+function buildSnapshotMarkdown(snapshot: SnapshotResult): string {
+  return [
+    "## Snapshot",
+    `Created \`${snapshot.location}\`.`,
+    snapshot.linkedTo
+      ? `Unchanged files are hard-linked to \`${snapshot.linkedTo}\`.`
+      : "This is the first snapshot, so every file was copied.",
+    snapshot.pruned.length > 0
+      ? [
+          `Pruned ${snapshot.pruned.length} old snapshot(s):`,
+          ...snapshot.pruned.map((name) => `- \`${name}\``),
+        ].join("\n")
+      : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Result view shown after a transfer completes
+ * Displays the parsed rsync statistics so the user can see whether anything moved,
+ * and the skipped files when the transfer was only partially successful
+ */
+export function TransferResult({ title, result }: TransferResultProps) {
+  const { stats } = result;
+
+  const markdown = [
+    `# ${title}`,
+    stats ? `**${formatStatsSummary(stats)}**` : result.message,
+    stats && stats.filesTransferred === 0 && !result.partial
+      ? "Nothing needed to be transferred, the destination was already up to date."
+      : "",
+    result.partial ? buildWarningsMarkdown(result) : "",
+    result.sources ? buildSourcesMarkdown(result.sources) : "",
+    result.snapshot ? buildSnapshotMarkdown(result.snapshot) : "",
+    result.verification ? buildVerificationMarkdown(result.verification) : "",
+    result.backupLocation
+      ? `## Backups\n\nOverwritten and deleted files (if any) were moved to \`${result.backupLocation}\`.`
+      : "",
+    result.warnings && result.warnings.length > 0
+      ? ["## Notes", ...result.warnings.map((warning) => `- ${warning}`)].join(
+          "\n",
+        )
+      : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+  return (
+    <Detail
+      navigationTitle={title}
+      markdown={markdown}
+      metadata={stats ? <StatsMetadata stats={stats} /> : undefined}
+      actions={
+        <ActionPanel>
+          <Action title="Done" icon={Icon.CheckCircle} onAction={popToRoot} />
+          {result.stdout && (
+            <Action.CopyToClipboard
+              title="Copy Rsync Output"
+              content={result.stdout}
+            />
+          )}
+          {result.snapshot && (
+            <Action.CopyToClipboard
+              title="Copy Snapshot Location"
+              content={result.snapshot.location}
+            />
+          )}
+          {result.backupLocation && (
+            <Action.CopyToClipboard
+              title="Copy Backup Location"
+              content={result.backupLocation}
+            />
+          )}
+          {result.verification && result.verification.mismatches.length > 0 && (
+            <Action.CopyToClipboard
+              title="Copy Mismatched Files"
+              content={result.verification.mismatches
+                .map(({ path }) => path)
+                .join("\n")}
+            />
+          )}
+          {result.affectedFiles && result.affectedFiles.length > 0 && (
+            <Action.CopyToClipboard
+              title="Copy Skipped Files"
+              content={result.affectedFiles.join("\n")}
+            />
+          )}
+        </ActionPanel>
+      }
+    />
+  );
+}
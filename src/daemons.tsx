@@ -0,0 +1,243 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Form,
+  Icon,
+  showToast,
+  Toast,
+  Alert,
+  confirmAlert,
+  useNavigation,
+  Keyboard,
+} from "@raycast/api";
+import React, { useState, useEffect } from "react";
+import { RsyncDaemonConfig } from "./types/server";
+import {
+  getDaemonHosts,
+  saveDaemonHost,
+  removeDaemonHost,
+} from "./utils/daemonHosts";
+import { formatDaemonUrl, parseDaemonUrl } from "./utils/rsyncDaemon";
+import { validateDaemonConfig } from "./utils/validation";
+
+/**
+ * Manage rsync daemons command component
+ * Lists the saved rsync:// endpoints, which the upload, download and browse
+ * commands offer next to the SSH hosts
+ */
+export default function Command() {
+  const [daemons, setDaemons] = useState<RsyncDaemonConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadDaemons();
+  }, []);
+
+  async function loadDaemons() {
+    try {
+      setDaemons(await getDaemonHosts());
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleRemove(daemon: RsyncDaemonConfig) {
+    const confirmed = await confirmAlert({
+      title: `Remove ${daemon.host}?`,
+      message: "Files on the daemon are not affected.",
+      primaryAction: { title: "Remove", style: Alert.ActionStyle.Destructive },
+    });
+    if (!confirmed) {
+      return;
+    }
+
+    setDaemons(await removeDaemonHost(daemon.host));
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Daemon Removed",
+      message: daemon.host,
+    });
+  }
+
+  const addAction = (
+    <Action.Push
+      title="Add Rsync Daemon"
+      icon={Icon.Plus}
+      shortcut={Keyboard.Shortcut.Common.New}
+      target={<DaemonForm daemons={daemons} onSave={setDaemons} />}
+    />
+  );
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search rsync daemons...">
+      <List.EmptyView
+        title="No Rsync Daemons"
+        description="Add an rsync:// endpoint to transfer to a daemon module without SSH"
+        actions={<ActionPanel>{addAction}</ActionPanel>}
+      />
+      {daemons.map((daemon) => (
+        <List.Item
+          key={daemon.host}
+          icon={Icon.HardDrive}
+          title={daemon.host}
+          subtitle={formatDaemonUrl(daemon)}
+          accessories={[{ text: daemon.passwordFile ? "Password file" : "" }]}
+          actions={
+            <ActionPanel>
+              <Action.Push
+                title="Edit Rsync Daemon"
+                icon={Icon.Pencil}
+                target={
+                  <DaemonForm
+                    daemon={daemon}
+                    daemons={daemons}
+                    onSave={setDaemons}
+                  />
+                }
+              />
+              {addAction}
+              <Action
+                title="Remove Rsync Daemon"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={Keyboard.Shortcut.Common.Remove}
+                onAction={() => handleRemove(daemon)}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+/**
+ * Values submitted by the daemon form
+ */
+interface DaemonFormValues {
+  name: string;
+  url: string;
+  passwordFile: string[]; // Form.FilePicker value
+}
+
+/**
+ * Add or edit form for an rsync daemon endpoint
+ */
+function DaemonForm({
+  daemon,
+  daemons,
+  onSave,
+}: {
+  daemon?: RsyncDaemonConfig; // Endpoint being edited, undefined when adding
+  daemons: RsyncDaemonConfig[];
+  onSave: (daemons: RsyncDaemonConfig[]) => void;
+}) {
+  const { pop } = useNavigation();
+  const [name, setName] = useState<string>(daemon?.host ?? "");
+  const [url, setUrl] = useState<string>(daemon ? formatDaemonUrl(daemon) : "");
+  const [passwordFile, setPasswordFile] = useState<string[]>(
+    daemon?.passwordFile ? [daemon.passwordFile] : [],
+  );
+  const [urlError, setUrlError] = useState<string | undefined>();
+
+  async function handleSubmit(values: DaemonFormValues) {
+    const nameValue = values.name.trim();
+
+    // Validate URL
+    const { endpoint, error: urlParseError } = parseDaemonUrl(values.url);
+    if (!endpoint) {
+      console.error("Daemon URL validation failed:", urlParseError);
+      setUrlError(urlParseError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Daemon URL",
+        message: urlParseError,
+      });
+      return;
+    }
+
+    // Names identify endpoints in host lists and storage
+    if (
+      nameValue !== daemon?.host &&
+      daemons.some(({ host }) => host === nameValue)
+    ) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Name",
+        message: `An rsync daemon named "${nameValue}" already exists`,
+      });
+      return;
+    }
+
+    const [passwordFileValue] = values.passwordFile ?? [];
+    const config: RsyncDaemonConfig = {
+      host: nameValue,
+      ...endpoint,
+      passwordFile: passwordFileValue || undefined,
+    };
+
+    const validation = validateDaemonConfig(config);
+    if (!validation.valid) {
+      console.error("Daemon validation failed:", validation.error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Rsync Daemon",
+        message: validation.error,
+      });
+      return;
+    }
+
+    onSave(await saveDaemonHost(config, daemon?.host));
+    await showToast({
+      style: Toast.Style.Success,
+      title: daemon ? "Daemon Updated" : "Daemon Added",
+      message: config.host,
+    });
+    pop();
+  }
+
+  return (
+    <Form
+      navigationTitle={daemon ? `Edit ${daemon.host}` : "Add Rsync Daemon"}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm
+            title="Save Rsync Daemon"
+            onSubmit={handleSubmit}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="name"
+        title="Name"
+        placeholder="NAS Backups"
+        value={name}
+        onChange={setName}
+        info="Shown in the host lists of the upload, download and browse commands"
+      />
+      <Form.TextField
+        id="url"
+        title="Daemon URL"
+        placeholder="rsync://user@nas.local:873/backups"
+        value={url}
+        onChange={(value: string) => {
+          setUrl(value);
+          setUrlError(undefined);
+        }}
+        error={urlError}
+        info="rsync://[user@]host[:port]/module. Transfer and browse paths are relative to the module"
+      />
+      <Form.FilePicker
+        id="passwordFile"
+        title="Password File"
+        allowMultipleSelection={false}
+        canChooseDirectories={false}
+        value={passwordFile}
+        onChange={setPasswordFile}
+        info="Optional file holding only the daemon password (--password-file). rsync refuses files readable by other users, so run chmod 600 on it"
+      />
+    </Form>
+  );
+}
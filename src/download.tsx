@@ -5,20 +5,78 @@ import {
   Form,
   showToast,
   Toast,
-  popToRoot,
   useNavigation,
+  Icon,
 } from "@raycast/api";
 import React, { useState, useEffect } from "react";
 import { parseSSHConfig } from "./utils/sshConfig";
+import { getDaemonHosts } from "./utils/daemonHosts";
+import { isRsyncDaemon, formatDaemonUrl } from "./utils/rsyncDaemon";
+import { DaemonListSection } from "./components/DaemonListSection";
 import { executeRsync } from "./utils/rsync";
-import { validateRemotePath, validateHostConfig } from "./utils/validation";
+import {
+  validateRemoteSources,
+  validateHostConfig,
+  validateBackupDir,
+  validateRsyncPath,
+} from "./utils/validation";
 import {
   SSHHostConfig,
+  RsyncDaemonConfig,
+  HostConfig,
   TransferDirection,
   TransferOptions,
-  RsyncOptions,
+  ComparisonMode,
 } from "./types/server";
-import { getRsyncPreferences } from "./utils/preferences";
+import {
+  getRsyncPreferences,
+  getTimeoutPreferences,
+  getRetryPreferences,
+} from "./utils/preferences";
+import { parseFilterRules, formatFilterRules } from "./utils/filterRules";
+import { TransferPreview } from "./components/TransferPreview";
+import { TimeoutFields } from "./components/TimeoutFields";
+import { BandwidthFields } from "./components/BandwidthFields";
+import { RsyncPathFields } from "./components/RsyncPathFields";
+import { OwnershipFields } from "./components/OwnershipFields";
+import { CompressionFields } from "./components/CompressionFields";
+import { LargeFileFields } from "./components/LargeFileFields";
+import { ManifestFields } from "./components/ManifestFields";
+import { TransferResult } from "./components/TransferResult";
+import {
+  TimeoutFormValues,
+  parseTimeoutOverrides,
+  resolveTimeouts,
+} from "./utils/timeouts";
+import {
+  BandwidthFormValues,
+  parseBandwidthLimit,
+  formatBandwidthLimit,
+} from "./utils/bandwidth";
+import { rememberLanHost, updateHostDefaults } from "./utils/hostDefaults";
+import { RsyncPathFormValues } from "./utils/rsyncPath";
+import {
+  OwnershipFormValues,
+  formatOwnershipOptions,
+  readOwnershipFormValues,
+} from "./utils/ownership";
+import {
+  CompressionFormValues,
+  readCompressionFormValues,
+} from "./utils/compression";
+import { LargeFileFormValues, readLargeFileFormValues } from "./utils/resume";
+import {
+  recordInterruptedTransfer,
+  removeInterruptedTransfer,
+} from "./utils/interruptedTransfers";
+import {
+  ManifestFormValues,
+  readManifestFormValues,
+  findMissingManifestEntries,
+  formatMissingEntries,
+} from "./utils/manifest";
+import { DEFAULT_BACKUP_DIR } from "./utils/backup";
+import { parseRemotePaths } from "./utils/sources";
 
 /**
  * Main download command component
@@ -26,6 +84,7 @@ import { getRsyncPreferences } from "./utils/preferences";
  */
 export default function Command() {
   const [hosts, setHosts] = useState<SSHHostConfig[]>([]);
+  const [daemons, setDaemons] = useState<RsyncDaemonConfig[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -36,8 +95,10 @@ export default function Command() {
   async function loadHosts() {
     try {
       const parsedHosts = parseSSHConfig();
+      const savedDaemons = await getDaemonHosts();
+      setDaemons(savedDaemons);
 
-      if (parsedHosts.length === 0) {
+      if (parsedHosts.length === 0 && savedDaemons.length === 0) {
         const errorMsg = "No host entries found in SSH config file";
         setError(errorMsg);
         console.warn("SSH config parsed but no hosts found");
@@ -89,6 +150,11 @@ export default function Command() {
           }
         />
       ))}
+      <DaemonListSection
+        daemons={daemons}
+        actionTitle="Enter Remote Path"
+        target={(daemon) => <RemotePathForm hostConfig={daemon} />}
+      />
     </List>
   );
 }
@@ -97,15 +163,16 @@ export default function Command() {
  * Remote path input form
  * Allows user to specify source path on remote server
  */
-function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
+function RemotePathForm({ hostConfig }: { hostConfig: HostConfig }) {
   const [remotePath, setRemotePath] = useState<string>("");
   const [remotePathError, setRemotePathError] = useState<string | undefined>();
   const { push } = useNavigation();
 
   async function handleSubmit(values: { remotePath: string }) {
-    const remotePathValue = values.remotePath.trim();
+    const remotePaths = parseRemotePaths(values.remotePath);
 
-    const remoteValidation = validateRemotePath(remotePathValue);
+    // Name clashes are checked once the user has chosen whether to keep the remote paths
+    const remoteValidation = validateRemoteSources(remotePaths, true);
     if (!remoteValidation.valid) {
       console.error("Remote path validation failed:", remoteValidation.error);
       setRemotePathError(remoteValidation.error);
@@ -130,9 +197,7 @@ function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
       return;
     }
 
-    push(
-      <LocalPathForm hostConfig={hostConfig} remotePath={remotePathValue} />,
-    );
+    push(<LocalPathForm hostConfig={hostConfig} remotePaths={remotePaths} />);
   }
 
   return (
@@ -143,17 +208,17 @@ function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
         </ActionPanel>
       }
     >
-      <Form.TextField
+      <Form.TextArea
         id="remotePath"
-        title="Remote Path"
-        placeholder="/path/to/remote/file"
+        title="Remote Paths"
+        placeholder={"/path/to/remote/file\n/path/to/remote/directory"}
         value={remotePath}
         onChange={(value: string) => {
           setRemotePath(value);
           setRemotePathError(undefined);
         }}
         error={remotePathError}
-        info="Enter the path to the file or directory on the remote server"
+        info="Enter the paths to the files or directories on the remote server, one per line. All of them are downloaded in a single transfer"
       />
       <Form.Description
         title="Host Details"
@@ -165,29 +230,62 @@ function RemotePathForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
       {hostConfig.port && (
         <Form.Description title="Port" text={hostConfig.port.toString()} />
       )}
-      {hostConfig.identityFile && (
-        <Form.Description
-          title="Identity File"
-          text={hostConfig.identityFile}
-        />
+      {isRsyncDaemon(hostConfig) ? (
+        <Form.Description title="Module" text={formatDaemonUrl(hostConfig)} />
+      ) : (
+        hostConfig.identityFile && (
+          <Form.Description
+            title="Identity File"
+            text={hostConfig.identityFile}
+          />
+        )
       )}
     </Form>
   );
 }
 
+/**
+ * Values submitted by the transfer form
+ */
+interface TransferFormValues
+  extends
+    TimeoutFormValues,
+    BandwidthFormValues,
+    RsyncPathFormValues,
+    OwnershipFormValues,
+    CompressionFormValues,
+    LargeFileFormValues,
+    ManifestFormValues {
+  localPath: string;
+  preserveRelativePaths: boolean;
+  humanReadable: boolean;
+  progress: boolean;
+  deleteExtra: boolean;
+  backup: boolean;
+  backupDir: string;
+  createDestinationPath: boolean;
+  preserveXattrs: boolean;
+  comparisonMode: ComparisonMode;
+  verifyAfterTransfer: boolean;
+  filterRules: string;
+}
+
 /**
  * Local destination path form
  * Allows user to specify destination directory on local system
  */
 function LocalPathForm({
   hostConfig,
-  remotePath,
+  remotePaths,
 }: {
-  hostConfig: SSHHostConfig;
-  remotePath: string;
+  hostConfig: HostConfig;
+  remotePaths: string[];
 }) {
   const [localPath, setLocalPath] = useState<string>("");
+  const [preserveRelativePaths, setPreserveRelativePaths] =
+    useState<boolean>(false);
   const [localPathError, setLocalPathError] = useState<string | undefined>();
+  const { push } = useNavigation();
 
   // Initialize rsync options with global preferences
   const defaultRsyncOptions = getRsyncPreferences();
@@ -200,13 +298,30 @@ function LocalPathForm({
   const [deleteExtra, setDeleteExtra] = useState<boolean>(
     defaultRsyncOptions.delete ?? false,
   );
+  // Backups are the safety net for --delete, so they default to on with it
+  const [backup, setBackup] = useState<boolean>(
+    defaultRsyncOptions.delete ?? false,
+  );
+  const [backupDir, setBackupDir] = useState<string>("");
+  const [createDestinationPath, setCreateDestinationPath] =
+    useState<boolean>(false);
+  const [preserveXattrs, setPreserveXattrs] = useState<boolean>(false);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>(
+    ComparisonMode.DEFAULT,
+  );
+  const [verifyAfterTransfer, setVerifyAfterTransfer] =
+    useState<boolean>(false);
+  const [filterRules, setFilterRules] = useState<string>(
+    formatFilterRules(defaultRsyncOptions.filterRules ?? []),
+  );
 
-  async function handleSubmit(values: {
-    localPath: string;
-    humanReadable: boolean;
-    progress: boolean;
-    deleteExtra: boolean;
-  }) {
+  /**
+   * Validates the form input and builds the transfer options
+   * @returns Transfer options, or null if validation failed
+   */
+  async function buildTransferOptions(
+    values: TransferFormValues,
+  ): Promise<TransferOptions | null> {
     const localPathValue = values.localPath.trim();
 
     if (!localPathValue) {
@@ -217,11 +332,14 @@ function LocalPathForm({
         title: "Invalid Local Path",
         message: "Please enter a destination path for the downloaded files",
       });
-      return;
+      return null;
     }
 
-    // Validate remote path
-    const remoteValidation = validateRemotePath(remotePath);
+    // Validate remote paths
+    const remoteValidation = validateRemoteSources(
+      remotePaths,
+      values.preserveRelativePaths,
+    );
     if (!remoteValidation.valid) {
       console.error("Remote path validation failed:", remoteValidation.error);
       await showToast({
@@ -229,7 +347,7 @@ function LocalPathForm({
         title: "Invalid Remote Path",
         message: remoteValidation.error || "The remote path format is invalid",
       });
-      return;
+      return null;
     }
 
     // Validate host config
@@ -243,59 +361,309 @@ function LocalPathForm({
           hostValidation.error ||
           "The host configuration is incomplete or invalid",
       });
-      return;
+      return null;
+    }
+
+    // Validate timeout overrides
+    const { timeouts, error: timeoutError } = parseTimeoutOverrides(values);
+    if (timeoutError) {
+      console.error("Timeout validation failed:", timeoutError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Timeout",
+        message: timeoutError,
+      });
+      return null;
+    }
+
+    // Validate backup directory
+    const backupDirValidation = validateBackupDir(values.backupDir ?? "");
+    if (values.backup && !backupDirValidation.valid) {
+      console.error(
+        "Backup directory validation failed:",
+        backupDirValidation.error,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Backup Directory",
+        message: backupDirValidation.error,
+      });
+      return null;
+    }
+
+    // Validate bandwidth limit
+    const bandwidthLimit = parseBandwidthLimit(values.bandwidthLimit);
+    if (Number.isNaN(bandwidthLimit)) {
+      console.error(
+        "Bandwidth limit validation failed:",
+        values.bandwidthLimit,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Bandwidth Limit",
+        message: "Enter a rate such as 500 (KB/s), 500K or 10M",
+      });
+      return null;
+    }
+    if (values.rememberBandwidthLimit) {
+      await updateHostDefaults(hostConfig.host, {
+        bandwidthLimit: bandwidthLimit || undefined,
+      });
     }
 
-    // Execute transfer using form values
-    await executeTransfer(hostConfig, remotePath, localPathValue, {
-      humanReadable: values.humanReadable,
-      progress: values.progress,
-      delete: values.deleteExtra,
+    // Validate remote rsync path
+    const rsyncPath = values.rsyncPath?.trim() ?? "";
+    const rsyncPathValidation = validateRsyncPath(rsyncPath);
+    if (!rsyncPathValidation.valid) {
+      console.error(
+        "Remote rsync path validation failed:",
+        rsyncPathValidation.error,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Remote Rsync Path",
+        message: rsyncPathValidation.error,
+      });
+      return null;
+    }
+    if (values.rememberRsyncPath) {
+      await updateHostDefaults(hostConfig.host, {
+        rsyncPath: rsyncPath || undefined,
+      });
+    }
+
+    // Validate permission and ownership options
+    const { options: ownership, error: ownershipError } =
+      readOwnershipFormValues(values);
+    if (!ownership) {
+      console.error("Ownership validation failed:", ownershipError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Permission Options",
+        message: ownershipError,
+      });
+      return null;
+    }
+    if (values.rememberOwnership) {
+      await updateHostDefaults(hostConfig.host, {
+        ownership: formatOwnershipOptions(ownership) ? ownership : undefined,
+      });
+    }
+
+    // Validate compression
+    const { options: compression, error: compressionError } =
+      readCompressionFormValues(values);
+    if (!compression) {
+      console.error("Compression validation failed:", compressionError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Compression",
+        message: compressionError,
+      });
+      return null;
+    }
+    await rememberLanHost(hostConfig.host, values.lanHost ?? false);
+
+    // Validate manifest
+    const { entries: manifestEntries, error: manifestError } =
+      readManifestFormValues(values);
+    if (manifestError) {
+      console.error("Manifest validation failed:", manifestError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Manifest",
+        message: manifestError,
+      });
+      return null;
+    }
+    if (manifestEntries && remotePaths.length > 1) {
+      console.error("Manifest needs a single source directory:", remotePaths);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Manifest",
+        message:
+          "A manifest lists paths inside one directory, so enter that directory as the only remote path",
+      });
+      return null;
+    }
+
+    const options: TransferOptions = {
+      hostConfig,
+      localPath: localPathValue,
+      remotePath: remotePaths[0],
+      remotePaths,
+      direction: TransferDirection.DOWNLOAD,
+      rsyncOptions: {
+        filesFrom: manifestEntries,
+        relative: values.preserveRelativePaths,
+        humanReadable: values.humanReadable,
+        progress: values.progress,
+        delete: values.deleteExtra,
+        backup: values.backup,
+        backupDir: values.backupDir,
+        createDestinationPath: values.createDestinationPath,
+        preserveXattrs: values.preserveXattrs,
+        comparisonMode: values.comparisonMode,
+        verifyAfterTransfer: values.verifyAfterTransfer,
+        bandwidthLimit,
+        rsyncPath: rsyncPath || undefined,
+        ...ownership,
+        ...compression,
+        ...readLargeFileFormValues(values),
+        filterRules: parseFilterRules(values.filterRules),
+      },
+      timeouts: resolveTimeouts(getTimeoutPreferences(), timeouts),
+      retry: getRetryPreferences(),
+    };
+
+    // Check the manifest against the source before anything is transferred
+    if (manifestEntries && !(await checkManifestEntries(options))) {
+      return null;
+    }
+
+    return options;
+  }
+
+  /**
+   * Checks that every manifest entry exists on the source side
+   * @returns True if the transfer can start
+   */
+  async function checkManifestEntries(
+    options: TransferOptions,
+  ): Promise<boolean> {
+    const checkToast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Checking manifest...",
+      message: `${options.rsyncOptions?.filesFrom?.length} path(s)`,
     });
+
+    try {
+      const missing = await findMissingManifestEntries(options);
+      if (missing.length === 0) {
+        await checkToast.hide();
+        return true;
+      }
+      console.error("Manifest entries not found:", missing);
+      checkToast.style = Toast.Style.Failure;
+      checkToast.title = `${missing.length} Manifest Path(s) Not Found`;
+      checkToast.message = formatMissingEntries(missing);
+    } catch (err) {
+      const errorMessage =
+        (err as { stderr?: string }).stderr?.trim() ||
+        (err instanceof Error ? err.message : "Unknown error occurred");
+      console.error("Manifest check failed:", err);
+      checkToast.style = Toast.Style.Failure;
+      checkToast.title = "Could Not Check Manifest";
+      checkToast.message = errorMessage;
+    }
+    return false;
   }
 
-  async function executeTransfer(
-    hostConfig: SSHHostConfig,
-    remotePath: string,
-    localPath: string,
-    rsyncOptions: RsyncOptions,
-  ) {
-    // Show initial progress toast
-    await showToast({
+  async function handleSubmit(values: TransferFormValues) {
+    const options = await buildTransferOptions(values);
+    if (options) {
+      // Execute transfer using form values
+      await executeTransfer(options);
+    }
+  }
+
+  async function handlePreview(values: TransferFormValues) {
+    const options = await buildTransferOptions(values);
+    if (options) {
+      // Confirming from the preview runs the exact same transfer options
+      push(
+        <TransferPreview
+          options={options}
+          onConfirm={() => executeTransfer(options)}
+        />,
+      );
+    }
+  }
+
+  async function executeTransfer(options: TransferOptions) {
+    const { localPath } = options;
+    const bandwidthLimit = options.rsyncOptions?.bandwidthLimit;
+    const downloadSource =
+      remotePaths.length > 1
+        ? `${remotePaths.length} paths from ${hostConfig.host}`
+        : `from ${hostConfig.host}`;
+
+    const abortController = new AbortController();
+
+    // Show initial progress toast; it stays on screen and offers cancellation
+    const progressToast = await showToast({
       style: Toast.Style.Animated,
       title: "Transferring files...",
-      message: `Downloading from ${hostConfig.host}`,
+      message: bandwidthLimit
+        ? `Downloading ${downloadSource} (limited to ${formatBandwidthLimit(bandwidthLimit)})`
+        : `Downloading ${downloadSource}`,
+      primaryAction: {
+        title: "Cancel Transfer",
+        onAction: () => abortController.abort(),
+      },
     });
 
     console.log("Starting download:", {
       host: hostConfig.host,
-      remotePath,
+      remotePaths,
       localPath,
     });
 
     try {
-      const options: TransferOptions = {
-        hostConfig,
-        localPath,
-        remotePath,
-        direction: TransferDirection.DOWNLOAD,
-        rsyncOptions,
-      };
-
       // Progress callback to update toast in real-time
-      const progressCallback = async (progressMessage: string) => {
-        await showToast({
-          style: Toast.Style.Animated,
-          title: "Transferring files...",
-          message: progressMessage,
-        });
+      const progressCallback = (progressMessage: string) => {
+        progressToast.message = progressMessage;
       };
 
-      const result = await executeRsync(options, progressCallback);
+      const result = await executeRsync(
+        options,
+        progressCallback,
+        abortController.signal,
+      );
 
-      if (result.success) {
+      // Interrupted transfers are kept for Resume Interrupted Transfers
+      if (result.resumable) {
+        await recordInterruptedTransfer(options, result.message);
+      } else if (result.success || result.partial) {
+        await removeInterruptedTransfer(options);
+      }
+      const resumeAction = result.resumable
+        ? {
+            title: "Resume Transfer",
+            onAction: () => executeTransfer(options),
+          }
+        : undefined;
+
+      if (result.cancelled) {
+        console.log("Download cancelled");
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Download Cancelled",
+          message: result.message,
+          primaryAction: resumeAction,
+        });
+      } else if (
+        result.success &&
+        result.verification &&
+        (result.verification.error || result.verification.mismatches.length > 0)
+      ) {
+        console.error("Download verification failed:", result.verification);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Download Verification Failed",
+          message:
+            result.verification.error ??
+            `${result.verification.mismatches.length} file(s) do not match`,
+        });
+        push(
+          <TransferResult
+            title="Download Verification Failed"
+            result={result}
+          />,
+        );
+      } else if (result.success) {
         console.log("Download completed successfully");
-        // Show formatted rsync output message (includes file sizes and progress if flags enabled)
+        // Show the statistics summary (falls back to rsync's last output lines)
         await showToast({
           style: Toast.Style.Success,
           title: "Download Successful",
@@ -305,14 +673,29 @@ function LocalPathForm({
         if (result.stdout) {
           console.log("Rsync output:", result.stdout);
         }
-        // Close the extension after successful download
-        await popToRoot();
+        // Show the transfer statistics
+        push(<TransferResult title="Download Successful" result={result} />);
+      } else if (result.partial) {
+        console.warn("Download completed with warnings:", result.stderr);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Download Completed with Warnings",
+          message: result.message,
+        });
+        push(
+          <TransferResult
+            title="Download Completed with Warnings"
+            result={result}
+          />,
+        );
       } else {
         console.error("Download failed:", result.message);
+        // Skipped options may explain the failure (e.g. a missing destination without --mkpath)
         await showToast({
           style: Toast.Style.Failure,
           title: "Download Failed",
-          message: result.message,
+          message: [result.message, ...(result.warnings ?? [])].join("\n"),
+          primaryAction: resumeAction,
         });
       }
     } catch (err) {
@@ -332,6 +715,11 @@ function LocalPathForm({
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Download" onSubmit={handleSubmit} />
+          <Action.SubmitForm
+            title="Preview Changes"
+            icon={Icon.Eye}
+            onSubmit={handlePreview}
+          />
         </ActionPanel>
       }
     >
@@ -347,7 +735,17 @@ function LocalPathForm({
         error={localPathError}
         info="Enter the destination directory on your local system"
       />
-      <Form.Description title="Remote Path" text={remotePath} />
+      <Form.Description
+        title={remotePaths.length > 1 ? "Remote Paths" : "Remote Path"}
+        text={remotePaths.join("\n")}
+      />
+      <Form.Checkbox
+        id="preserveRelativePaths"
+        label="Preserve remote paths (--relative)"
+        value={preserveRelativePaths}
+        onChange={setPreserveRelativePaths}
+        info="Recreate the full remote path of each item below the destination (e.g. /srv/app/logs becomes DEST/srv/app/logs) instead of placing every item directly in it. Insert /./ to choose where the kept part starts, e.g. /srv/./app/logs becomes DEST/app/logs"
+      />
       <Form.Description
         title="Host"
         text={`${hostConfig.host}${hostConfig.hostName ? ` (${hostConfig.hostName})` : ""}`}
@@ -375,9 +773,92 @@ function LocalPathForm({
         id="deleteExtra"
         label="Delete extraneous files (--delete)"
         value={deleteExtra}
-        onChange={setDeleteExtra}
+        onChange={(value: boolean) => {
+          setDeleteExtra(value);
+          if (value) {
+            setBackup(true);
+          }
+        }}
         info="Delete files in destination that don't exist in source (use with caution)"
       />
+      <Form.Checkbox
+        id="backup"
+        label="Back up overwritten and deleted files (--backup)"
+        value={backup}
+        onChange={setBackup}
+        info="Move files that would be overwritten or deleted into a timestamped backup directory on the destination, so a mistaken sync can be reverted by hand. Turned on whenever --delete is checked"
+      />
+      {backup && (
+        <Form.TextField
+          id="backupDir"
+          title="Backup Directory"
+          placeholder={DEFAULT_BACKUP_DIR}
+          value={backupDir}
+          onChange={setBackupDir}
+          info="Directory on the destination side (--backup-dir), absolute or relative to the destination. {timestamp} is replaced with the transfer start time"
+        />
+      )}
+      <Form.Checkbox
+        id="createDestinationPath"
+        label="Create missing destination folders (--mkpath)"
+        value={createDestinationPath}
+        onChange={setCreateDestinationPath}
+        info="Create the destination path if it does not exist yet. Needs rsync 3.2.3 or newer on both machines; skipped with a warning otherwise"
+      />
+      <Form.Checkbox
+        id="preserveXattrs"
+        label="Preserve extended attributes (-X)"
+        value={preserveXattrs}
+        onChange={setPreserveXattrs}
+        info="Copy extended attributes such as macOS Finder tags. Needs xattr support on both machines; skipped with a warning otherwise"
+      />
+      <Form.Dropdown
+        id="comparisonMode"
+        title="Compare Files By"
+        value={comparisonMode}
+        onChange={(value: string) => setComparisonMode(value as ComparisonMode)}
+        info="How rsync decides which files changed. Checksums (-c) read every file on both sides but are immune to clock skew; size only (--size-only) ignores modification times"
+      >
+        <Form.Dropdown.Item
+          value={ComparisonMode.DEFAULT}
+          title="Modification time and size"
+        />
+        <Form.Dropdown.Item
+          value={ComparisonMode.CHECKSUM}
+          title="Checksum (-c)"
+        />
+        <Form.Dropdown.Item
+          value={ComparisonMode.SIZE_ONLY}
+          title="Size only (--size-only)"
+        />
+      </Form.Dropdown>
+      {!isRsyncDaemon(hostConfig) && (
+        <Form.Checkbox
+          id="verifyAfterTransfer"
+          label="Verify after transfer (SHA-256)"
+          value={verifyAfterTransfer}
+          onChange={setVerifyAfterTransfer}
+          info="Compare the SHA-256 of every transferred file locally and on the server, and list any mismatches"
+        />
+      )}
+      <Form.TextArea
+        id="filterRules"
+        title="Filter Rules"
+        placeholder={"- node_modules/\n- .git/\n+ *.log"}
+        value={filterRules}
+        onChange={setFilterRules}
+        info="One rule per line, applied in order: '+ PATTERN' includes, '- PATTERN' (or a bare pattern) excludes, other rsync filter rules such as ':- .gitignore' are passed to --filter"
+      />
+      <ManifestFields sourceDescription="the remote directory" />
+      <BandwidthFields host={hostConfig.host} />
+      <CompressionFields host={hostConfig.host} />
+      <LargeFileFields />
+      {!isRsyncDaemon(hostConfig) && <RsyncPathFields host={hostConfig.host} />}
+      <OwnershipFields
+        host={hostConfig.host}
+        destinationDescription="this Mac"
+      />
+      <TimeoutFields defaults={getTimeoutPreferences()} />
     </Form>
   );
 }
@@ -58,7 +58,7 @@ describe("Download E2E Flow", () => {
       direction: TransferDirection.DOWNLOAD,
     };
 
-    const command = buildRsyncCommand(options);
+    const command = buildRsyncCommand(options).display;
     expect(command).toContain("rsync");
     expect(command).toContain("-a");
     // Host alias is now escaped with single quotes
@@ -133,7 +133,7 @@ describe("Download E2E Flow", () => {
       direction: TransferDirection.DOWNLOAD,
     };
 
-    const command = buildRsyncCommand(options);
+    const command = buildRsyncCommand(options).display;
     expect(command).toContain("-a");
     expect(command).toContain(remoteDir);
   });
@@ -182,10 +182,12 @@ describe("Download E2E Flow", () => {
       direction: TransferDirection.DOWNLOAD,
     };
 
-    const command = buildRsyncCommand(options);
+    const command = buildRsyncCommand(options).display;
 
     // Verify command structure (now uses single quotes for escaping)
-    expect(command).toMatch(/^rsync -e 'ssh -F .+' -avz 'backup':.+ .+$/);
+    expect(command).toMatch(
+      /^rsync -e 'ssh -F .+' -avz --protect-args 'backup':.+ .+$/,
+    );
     expect(command).toContain("'/backup/data.tar.gz'");
     // For downloads, local destination should have trailing slash to ensure directory is created
     expect(command).toContain(`'${testLocalDir}/'`);
@@ -27,7 +27,7 @@ describe("Rsync Options E2E", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Base flags are combined into -avz
       expect(command).toContain("-avz");
@@ -53,7 +53,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Flag should be included in the combined flags string (e.g., -avzh)
       expect(command).toMatch(/-[avz]+h/);
@@ -70,7 +70,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Flag should be included in the combined flags string (e.g., -avzP)
       expect(command).toMatch(/-[avz]+P/);
@@ -87,7 +87,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       expect(command).toContain("--delete");
     });
@@ -105,7 +105,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Combined short flags should include h and P (e.g., -avzhP)
       expect(command).toMatch(/-[avz]+hP/);
@@ -127,7 +127,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Extract the flags part (between -e and paths)
       // Command now uses single quotes for escaping
@@ -159,7 +159,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Should include both progress and human-readable flags
       expect(command).toMatch(/-[avz]+hP/);
@@ -182,7 +182,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Command now uses single quotes for escaping
       expect(command).toMatch(
@@ -205,11 +205,11 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Command now uses single quotes for escaping
       expect(command).toMatch(
-        /^rsync -e 'ssh -F .+' -[avz]+hP --delete 'testserver':.+ .+$/,
+        /^rsync -e 'ssh -F .+' -[avz]+hP --delete --protect-args 'testserver':.+ .+$/,
       );
       expect(command).toContain("'testserver':");
       expect(command).toContain("'/remote/source'");
@@ -230,7 +230,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
       expect(command).toMatch(/-[avz]+h/);
       expect(command).toContain(configPath);
     });
@@ -246,7 +246,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
       expect(command).toMatch(/-[avz]+P/);
       expect(command).toContain(configPath);
     });
@@ -262,7 +262,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
       expect(command).toContain("--delete");
       expect(command).toContain(configPath);
     });
@@ -280,7 +280,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
       expect(command).toMatch(/-[avz]+h/);
       expect(command).not.toContain("P");
       expect(command).not.toContain("--delete");
@@ -300,7 +300,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Verify command structure: rsync -e 'ssh -F config' flags source dest
       // Command now uses single quotes for escaping
@@ -320,7 +320,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // --delete should appear after short flags
       expect(command).toMatch(/-avz --delete/);
@@ -339,7 +339,7 @@ describe("Rsync Options E2E", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Should have short flags combined, then long flags
       expect(command).toMatch(/-[avz]+hP --delete/);
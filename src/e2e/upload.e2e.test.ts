@@ -72,7 +72,7 @@ describe("Upload E2E Flow", () => {
       direction: TransferDirection.UPLOAD,
     };
 
-    const command = buildRsyncCommand(options);
+    const command = buildRsyncCommand(options).display;
     expect(command).toContain("rsync");
     expect(command).toContain("-a");
     // Host alias is now escaped with single quotes
@@ -177,7 +177,7 @@ describe("Upload E2E Flow", () => {
       direction: TransferDirection.UPLOAD,
     };
 
-    const command = buildRsyncCommand(options);
+    const command = buildRsyncCommand(options).display;
     expect(command).toContain("-a");
     expect(command).toContain(testSubDir);
   });
@@ -197,7 +197,7 @@ describe("Upload E2E Flow", () => {
       direction: TransferDirection.UPLOAD,
     };
 
-    const command = buildRsyncCommand(options);
+    const command = buildRsyncCommand(options).display;
 
     // Verify command structure (now uses single quotes for escaping)
     expect(command).toMatch(/^rsync -e 'ssh -F .+' -avz .+ 'production':.+$/);
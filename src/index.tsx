@@ -2,12 +2,17 @@
  * Main entry point for the Raycast Rsync Extension
  *
  * This file serves as the central export point for all commands in the extension.
- * The extension provides three main commands:
+ * The extension provides eight main commands:
  * 1. Upload Files via Rsync - Transfer files from local system to remote servers
  * 2. Download Files via Rsync - Transfer files from remote servers to local system
  * 3. Browse Remote Files - Browse and list files on remote servers
+ * 4. Snapshot Backup Via Rsync - Back up a directory into dated, hard-linked snapshots
+ * 5. Transfer Between Hosts Via Rsync - Copy files from one remote server to another
+ * 6. Sync Local Folders Via Rsync - Mirror local folders to external drives and mounted volumes
+ * 7. Resume Interrupted Transfers - Restart interrupted transfers with their original options
+ * 8. Manage Rsync Daemons - Save rsync:// daemon modules used alongside SSH hosts
  *
- * All commands integrate with the user's SSH config file (~/.ssh/config) to
+ * The remote commands integrate with the user's SSH config file (~/.ssh/config) to
  * provide a seamless experience for selecting and connecting to remote servers.
  */
 
@@ -19,3 +24,18 @@ export { default as download } from "./download";
 
 // Export browse command
 export { default as browse } from "./browse";
+
+// Export snapshot command
+export { default as snapshot } from "./snapshot";
+
+// Export remote-to-remote transfer command
+export { default as transfer } from "./transfer";
+
+// Export local sync command
+export { default as sync } from "./sync";
+
+// Export interrupted transfer resume command
+export { default as resume } from "./resume";
+
+// Export rsync daemon management command
+export { default as daemons } from "./daemons";
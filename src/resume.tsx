@@ -0,0 +1,169 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Icon,
+  showToast,
+  Toast,
+  useNavigation,
+  Keyboard,
+} from "@raycast/api";
+import React, { useState, useEffect } from "react";
+import { InterruptedTransfer, TransferOptions } from "./types/server";
+import { executeRsync } from "./utils/rsync";
+import { describeTransfer } from "./utils/resume";
+import { getLanHosts } from "./utils/hostDefaults";
+import {
+  getInterruptedTransfers,
+  recordInterruptedTransfer,
+  removeInterruptedTransfer,
+} from "./utils/interruptedTransfers";
+import { TransferResult } from "./components/TransferResult";
+
+/**
+ * Resume interrupted transfers command component
+ * Lists uploads and downloads that stopped midway and reruns them with the
+ * exact options they were started with, so rsync continues from the partial files
+ */
+export default function Command() {
+  const [transfers, setTransfers] = useState<InterruptedTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { push } = useNavigation();
+
+  useEffect(() => {
+    loadTransfers();
+  }, []);
+
+  async function loadTransfers() {
+    try {
+      setTransfers(await getInterruptedTransfers());
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  async function handleRemove(options: TransferOptions) {
+    setTransfers(await removeInterruptedTransfer(options));
+    await showToast({
+      style: Toast.Style.Success,
+      title: "Transfer Removed",
+      message: "Partial files stay on the destination",
+    });
+  }
+
+  async function resumeTransfer(options: TransferOptions) {
+    const abortController = new AbortController();
+    const description = describeTransfer(options);
+
+    // Progress toast stays on screen and offers cancellation
+    const progressToast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Resuming transfer...",
+      message: description,
+      primaryAction: {
+        title: "Cancel Transfer",
+        onAction: () => abortController.abort(),
+      },
+    });
+
+    console.log("Resuming transfer:", description);
+
+    try {
+      // The LAN flag may have changed since the transfer was interrupted; the
+      // stored options stay unchanged so the record is found again afterwards
+      const result = await executeRsync(
+        {
+          ...options,
+          lanHosts: await getLanHosts([options.hostConfig.host]),
+        },
+        (progressMessage: string) => {
+          progressToast.message = progressMessage;
+        },
+        abortController.signal,
+      );
+
+      if (result.resumable) {
+        await recordInterruptedTransfer(options, result.message);
+      } else if (result.success || result.partial) {
+        await removeInterruptedTransfer(options);
+      }
+      setTransfers(await getInterruptedTransfers());
+
+      if (result.success || result.partial) {
+        const title = result.success
+          ? "Transfer Resumed"
+          : "Transfer Completed with Warnings";
+        await showToast({
+          style: result.success ? Toast.Style.Success : Toast.Style.Failure,
+          title,
+          message: result.message,
+        });
+        push(<TransferResult title={title} result={result} />);
+      } else {
+        console.error("Resumed transfer failed:", result.message);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: result.cancelled ? "Transfer Cancelled" : "Transfer Failed",
+          message: [result.message, ...(result.warnings ?? [])].join("\n"),
+          primaryAction: result.resumable
+            ? {
+                title: "Resume Transfer",
+                onAction: () => resumeTransfer(options),
+              }
+            : undefined,
+        });
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Unknown error occurred";
+      console.error("Resume error:", err);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Transfer Failed",
+        message: errorMessage,
+      });
+    }
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      searchBarPlaceholder="Search interrupted transfers..."
+    >
+      <List.EmptyView
+        title="No Interrupted Transfers"
+        description="Uploads and downloads that stop midway with partial files kept (large file mode, -P or automatic retries) are listed here"
+      />
+      {transfers.map((transfer) => (
+        <List.Item
+          key={transfer.id}
+          icon={Icon.Pause}
+          title={describeTransfer(transfer.options)}
+          subtitle={transfer.options.direction}
+          accessories={[
+            {
+              date: new Date(transfer.interruptedAt),
+              tooltip: transfer.reason,
+            },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action
+                title="Resume Transfer"
+                icon={Icon.Play}
+                onAction={() => resumeTransfer(transfer.options)}
+              />
+              <Action
+                title="Remove from List"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={Keyboard.Shortcut.Common.Remove}
+                onAction={() => handleRemove(transfer.options)}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
@@ -0,0 +1,426 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Form,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import React, { useState, useEffect } from "react";
+import { statSync } from "fs";
+import { parseSSHConfig } from "./utils/sshConfig";
+import { expandHomeDir } from "./utils/rsync";
+import {
+  validateLocalPath,
+  validateRemotePath,
+  validateHostConfig,
+} from "./utils/validation";
+import { SSHHostConfig, SnapshotBackupOptions } from "./types/server";
+import {
+  getRsyncPreferences,
+  getTimeoutPreferences,
+  getRetryPreferences,
+} from "./utils/preferences";
+import { parseFilterRules, formatFilterRules } from "./utils/filterRules";
+import { TimeoutFields } from "./components/TimeoutFields";
+import { BandwidthFields } from "./components/BandwidthFields";
+import { TransferResult } from "./components/TransferResult";
+import {
+  TimeoutFormValues,
+  parseTimeoutOverrides,
+  resolveTimeouts,
+} from "./utils/timeouts";
+import {
+  BandwidthFormValues,
+  parseBandwidthLimit,
+  formatBandwidthLimit,
+} from "./utils/bandwidth";
+import { getLanHosts, updateHostDefaults } from "./utils/hostDefaults";
+import {
+  DEFAULT_RETENTION,
+  LATEST_LINK,
+  executeSnapshotBackup,
+  parseRetentionPolicy,
+} from "./utils/snapshot";
+
+/**
+ * Snapshot backup command component
+ * Displays list of SSH hosts from config file
+ */
+export default function Command() {
+  const [hosts, setHosts] = useState<SSHHostConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHosts();
+  }, []);
+
+  async function loadHosts() {
+    try {
+      const parsedHosts = parseSSHConfig();
+
+      if (parsedHosts.length === 0) {
+        const errorMsg = "No host entries found in SSH config file";
+        setError(errorMsg);
+        console.warn("SSH config parsed but no hosts found");
+      } else {
+        setHosts(parsedHosts);
+        console.log(`Loaded ${parsedHosts.length} SSH host(s)`);
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to parse SSH config";
+      console.error("Error loading SSH hosts:", err);
+      setError(errorMessage);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Error Loading SSH Config",
+        message: errorMessage,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  if (error) {
+    return (
+      <List>
+        <List.EmptyView title="Error Loading SSH Config" description={error} />
+      </List>
+    );
+  }
+
+  return (
+    <List isLoading={isLoading} searchBarPlaceholder="Search hosts...">
+      {hosts.map((host: SSHHostConfig) => (
+        <List.Item
+          key={host.host}
+          title={host.host}
+          subtitle={host.hostName}
+          accessories={[
+            { text: host.user ? `User: ${host.user}` : "" },
+            { text: host.port ? `Port: ${host.port}` : "" },
+          ]}
+          actions={
+            <ActionPanel>
+              <Action.Push
+                title="Configure Snapshot Backup"
+                target={<SnapshotForm hostConfig={host} />}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+/**
+ * Values submitted by the snapshot form
+ */
+interface SnapshotFormValues extends TimeoutFormValues, BandwidthFormValues {
+  localPath: string;
+  snapshotRoot: string;
+  keepDaily: string;
+  keepWeekly: string;
+  humanReadable: boolean;
+  progress: boolean;
+  filterRules: string;
+}
+
+/**
+ * Snapshot backup form
+ * Allows user to choose the local directory, the remote snapshot root and the retention
+ */
+function SnapshotForm({ hostConfig }: { hostConfig: SSHHostConfig }) {
+  const { push } = useNavigation();
+
+  // Initialize rsync options with global preferences
+  const defaultRsyncOptions = getRsyncPreferences();
+  const [localPath, setLocalPath] = useState<string>("");
+  const [snapshotRoot, setSnapshotRoot] = useState<string>("");
+  const [keepDaily, setKeepDaily] = useState<string>(
+    String(DEFAULT_RETENTION.daily),
+  );
+  const [keepWeekly, setKeepWeekly] = useState<string>(
+    String(DEFAULT_RETENTION.weekly),
+  );
+  const [humanReadable, setHumanReadable] = useState<boolean>(
+    defaultRsyncOptions.humanReadable ?? false,
+  );
+  const [progress, setProgress] = useState<boolean>(
+    defaultRsyncOptions.progress ?? false,
+  );
+  const [filterRules, setFilterRules] = useState<string>(
+    formatFilterRules(defaultRsyncOptions.filterRules ?? []),
+  );
+
+  /**
+   * Validates the form input and builds the snapshot options
+   * @returns Snapshot options, or null if validation failed
+   */
+  async function buildSnapshotOptions(
+    values: SnapshotFormValues,
+  ): Promise<SnapshotBackupOptions | null> {
+    const localPathValue = values.localPath.trim();
+    const snapshotRootValue = values.snapshotRoot.trim();
+
+    // Validate local directory
+    const expandedLocalPath = expandHomeDir(localPathValue);
+    const localValidation = validateLocalPath(expandedLocalPath);
+    if (!localValidation.valid || !statSync(expandedLocalPath).isDirectory()) {
+      console.error("Local path validation failed:", localValidation.error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Local Directory",
+        message: localValidation.valid
+          ? "Snapshots back up a directory, not a single file"
+          : localValidation.error,
+      });
+      return null;
+    }
+
+    // Validate snapshot root
+    const remoteValidation = validateRemotePath(snapshotRootValue);
+    if (!remoteValidation.valid) {
+      console.error("Snapshot root validation failed:", remoteValidation.error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Snapshot Directory",
+        message: remoteValidation.error || "The remote path format is invalid",
+      });
+      return null;
+    }
+
+    // Validate host config
+    const hostValidation = validateHostConfig(hostConfig);
+    if (!hostValidation.valid) {
+      console.error("Host config validation failed:", hostValidation.error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Host Configuration",
+        message:
+          hostValidation.error ||
+          "The host configuration is incomplete or invalid",
+      });
+      return null;
+    }
+
+    // Validate retention
+    const { policy, error: retentionError } = parseRetentionPolicy(values);
+    if (!policy) {
+      console.error("Retention validation failed:", retentionError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Retention",
+        message: retentionError,
+      });
+      return null;
+    }
+
+    // Validate timeout overrides
+    const { timeouts, error: timeoutError } = parseTimeoutOverrides(values);
+    if (timeoutError) {
+      console.error("Timeout validation failed:", timeoutError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Timeout",
+        message: timeoutError,
+      });
+      return null;
+    }
+
+    // Validate bandwidth limit
+    const bandwidthLimit = parseBandwidthLimit(values.bandwidthLimit);
+    if (Number.isNaN(bandwidthLimit)) {
+      console.error(
+        "Bandwidth limit validation failed:",
+        values.bandwidthLimit,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Bandwidth Limit",
+        message: "Enter a rate such as 500 (KB/s), 500K or 10M",
+      });
+      return null;
+    }
+    if (values.rememberBandwidthLimit) {
+      await updateHostDefaults(hostConfig.host, {
+        bandwidthLimit: bandwidthLimit || undefined,
+      });
+    }
+
+    return {
+      hostConfig,
+      localPath: localPathValue,
+      snapshotRoot: snapshotRootValue,
+      retention: policy,
+      rsyncOptions: {
+        humanReadable: values.humanReadable,
+        progress: values.progress,
+        bandwidthLimit,
+        filterRules: parseFilterRules(values.filterRules),
+      },
+      timeouts: resolveTimeouts(getTimeoutPreferences(), timeouts),
+      retry: getRetryPreferences(),
+      lanHosts: await getLanHosts([hostConfig.host]),
+    };
+  }
+
+  async function handleSubmit(values: SnapshotFormValues) {
+    const options = await buildSnapshotOptions(values);
+    if (options) {
+      await executeSnapshot(options);
+    }
+  }
+
+  async function executeSnapshot(options: SnapshotBackupOptions) {
+    const abortController = new AbortController();
+    const bandwidthLimit = options.rsyncOptions?.bandwidthLimit;
+
+    // Show initial progress toast; it stays on screen and offers cancellation
+    const progressToast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Creating snapshot...",
+      message: bandwidthLimit
+        ? `Backing up to ${hostConfig.host} (limited to ${formatBandwidthLimit(bandwidthLimit)})`
+        : `Backing up to ${hostConfig.host}`,
+      primaryAction: {
+        title: "Cancel Snapshot",
+        onAction: () => abortController.abort(),
+      },
+    });
+
+    console.log("Starting snapshot backup:", {
+      host: hostConfig.host,
+      localPath: options.localPath,
+      snapshotRoot: options.snapshotRoot,
+    });
+
+    try {
+      const result = await executeSnapshotBackup(
+        options,
+        (progressMessage: string) => {
+          progressToast.message = progressMessage;
+        },
+        abortController.signal,
+      );
+
+      if (result.cancelled) {
+        console.log("Snapshot cancelled");
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Snapshot Cancelled",
+          message: result.message,
+        });
+      } else if (result.success) {
+        console.log("Snapshot completed successfully");
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Snapshot Created",
+          message: result.snapshot?.location ?? result.message,
+        });
+        push(<TransferResult title="Snapshot Created" result={result} />);
+      } else {
+        console.error("Snapshot failed:", result.message);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Snapshot Failed",
+          message: [result.message, ...(result.warnings ?? [])].join("\n"),
+        });
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Unknown error occurred";
+      console.error("Snapshot error:", err);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Snapshot Failed",
+        message: errorMessage,
+      });
+    }
+  }
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Create Snapshot" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.TextField
+        id="localPath"
+        title="Local Directory"
+        placeholder="/path/to/local/directory"
+        value={localPath}
+        onChange={setLocalPath}
+        info="The directory to back up"
+      />
+      <Form.TextField
+        id="snapshotRoot"
+        title="Snapshot Directory"
+        placeholder="~/snapshots/my-project"
+        value={snapshotRoot}
+        onChange={setSnapshotRoot}
+        info={`Remote directory that holds one dated directory per snapshot and a "${LATEST_LINK}" symlink to the newest one. Created if missing`}
+      />
+      <Form.Description
+        title="Host"
+        text={`${hostConfig.host}${hostConfig.hostName ? ` (${hostConfig.hostName})` : ""}`}
+      />
+      <Form.Separator />
+      <Form.Description
+        title="Retention"
+        text="Older snapshots are deleted after each successful run; the newest is always kept"
+      />
+      <Form.TextField
+        id="keepDaily"
+        title="Daily Snapshots"
+        placeholder={String(DEFAULT_RETENTION.daily)}
+        value={keepDaily}
+        onChange={setKeepDaily}
+        info="Keep the newest snapshot of this many recent days"
+      />
+      <Form.TextField
+        id="keepWeekly"
+        title="Weekly Snapshots"
+        placeholder={String(DEFAULT_RETENTION.weekly)}
+        value={keepWeekly}
+        onChange={setKeepWeekly}
+        info="Keep the newest snapshot of this many recent weeks"
+      />
+      <Form.Separator />
+      <Form.Description
+        title="Rsync Options"
+        text="Unchanged files are hard-linked against the previous snapshot (--link-dest)"
+      />
+      <Form.Checkbox
+        id="humanReadable"
+        label="Human-readable file sizes (-h)"
+        value={humanReadable}
+        onChange={setHumanReadable}
+        info="Display file sizes in human-readable format (e.g., 1.5M, 500K)"
+      />
+      <Form.Checkbox
+        id="progress"
+        label="Show progress (-P)"
+        value={progress}
+        onChange={setProgress}
+        info="Display progress information and support partial transfers"
+      />
+      <Form.TextArea
+        id="filterRules"
+        title="Filter Rules"
+        placeholder={"- node_modules/\n- .git/\n+ *.log"}
+        value={filterRules}
+        onChange={setFilterRules}
+        info="One rule per line, applied in order: '+ PATTERN' includes, '- PATTERN' (or a bare pattern) excludes, other rsync filter rules such as ':- .gitignore' are passed to --filter"
+      />
+      <BandwidthFields host={hostConfig.host} />
+      <TimeoutFields defaults={getTimeoutPreferences()} />
+    </Form>
+  );
+}
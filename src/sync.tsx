@@ -0,0 +1,480 @@
+import {
+  ActionPanel,
+  Action,
+  Form,
+  showToast,
+  Toast,
+  getSelectedFinderItems,
+  useNavigation,
+  Icon,
+} from "@raycast/api";
+import React, { useState, useEffect, useMemo } from "react";
+import { executeRsync, expandHomeDir, LOCAL_HOST } from "./utils/rsync";
+import {
+  validateLocalSources,
+  validateLocalDestination,
+  validateBackupDir,
+} from "./utils/validation";
+import {
+  TransferDirection,
+  TransferOptions,
+  ComparisonMode,
+} from "./types/server";
+import {
+  getRsyncPreferences,
+  getTimeoutPreferences,
+  getRetryPreferences,
+} from "./utils/preferences";
+import { parseFilterRules, formatFilterRules } from "./utils/filterRules";
+import { detectIgnoreFiles } from "./utils/ignoreFiles";
+import { TransferPreview } from "./components/TransferPreview";
+import { TransferResult } from "./components/TransferResult";
+import { resolveTimeouts } from "./utils/timeouts";
+import { DEFAULT_BACKUP_DIR } from "./utils/backup";
+
+/**
+ * Tolerance for the 2-second timestamp precision of FAT and exFAT
+ */
+const FAT_MODIFY_WINDOW_SECONDS = 1;
+
+/**
+ * Values submitted by the sync form
+ */
+interface SyncFormValues {
+  localPaths: string[]; // Form.FilePicker value
+  destinationPath: string[]; // Form.FilePicker value
+  humanReadable: boolean;
+  progress: boolean;
+  deleteExtra: boolean;
+  backup: boolean;
+  backupDir: string;
+  comparisonMode: ComparisonMode;
+  fatTimestamps: boolean;
+  noPermissions: boolean;
+  noOwner: boolean;
+  omitDirTimes: boolean;
+  filterRules: string;
+  honorIgnoreFiles: boolean;
+}
+
+/**
+ * Local sync command component
+ * Mirrors local files and folders to another local path, such as an external
+ * drive or a mounted network volume, without a remote shell
+ */
+export default function Command() {
+  const [localPaths, setLocalPaths] = useState<string[]>([]);
+  const [destinationPath, setDestinationPath] = useState<string[]>([]);
+  const { push } = useNavigation();
+
+  // Initialize rsync options with global preferences
+  const defaultRsyncOptions = getRsyncPreferences();
+  const [humanReadable, setHumanReadable] = useState<boolean>(
+    defaultRsyncOptions.humanReadable ?? false,
+  );
+  const [progress, setProgress] = useState<boolean>(
+    defaultRsyncOptions.progress ?? false,
+  );
+  const [deleteExtra, setDeleteExtra] = useState<boolean>(
+    defaultRsyncOptions.delete ?? false,
+  );
+  // Backups are the safety net for --delete, so they default to on with it
+  const [backup, setBackup] = useState<boolean>(
+    defaultRsyncOptions.delete ?? false,
+  );
+  const [backupDir, setBackupDir] = useState<string>("");
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>(
+    ComparisonMode.DEFAULT,
+  );
+  const [fatTimestamps, setFatTimestamps] = useState<boolean>(false);
+  const [noPermissions, setNoPermissions] = useState<boolean>(false);
+  const [noOwner, setNoOwner] = useState<boolean>(false);
+  const [omitDirTimes, setOmitDirTimes] = useState<boolean>(false);
+  const [filterRules, setFilterRules] = useState<string>(
+    formatFilterRules(defaultRsyncOptions.filterRules ?? []),
+  );
+
+  // Ignore files next to the sources; honored by default when any are found
+  const detectedIgnoreFiles = useMemo(
+    () => [
+      ...new Set(
+        localPaths.flatMap((localPath) =>
+          detectIgnoreFiles(expandHomeDir(localPath)),
+        ),
+      ),
+    ],
+    [localPaths],
+  );
+  const [honorIgnoreFiles, setHonorIgnoreFiles] = useState<boolean>(false);
+  useEffect(() => {
+    setHonorIgnoreFiles(detectedIgnoreFiles.length > 0);
+  }, [detectedIgnoreFiles]);
+
+  // Items selected in Finder become the sources
+  useEffect(() => {
+    getSelectedFinderItems()
+      .then((finderItems) => {
+        if (finderItems.length > 0) {
+          setLocalPaths(finderItems.map((item) => item.path));
+          console.log(`Selected ${finderItems.length} item(s) from Finder`);
+        }
+      })
+      .catch((err) => {
+        // Expected when Finder is not the frontmost application
+        console.log("No Finder selection, sources are chosen manually:", err);
+      });
+  }, []);
+
+  /**
+   * Validates the form input and builds the transfer options
+   * @returns Transfer options, or null if validation failed
+   */
+  async function buildTransferOptions(
+    values: SyncFormValues,
+  ): Promise<TransferOptions | null> {
+    const sources = values.localPaths ?? [];
+    const [destinationPathValue = ""] = values.destinationPath ?? [];
+
+    // Validate sources
+    const localValidation = validateLocalSources(sources);
+    if (!localValidation.valid) {
+      console.error("Local path validation failed:", localValidation.error);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Source",
+        message: localValidation.error,
+      });
+      return null;
+    }
+
+    // Validate destination
+    const destinationValidation = validateLocalDestination(
+      destinationPathValue,
+      sources,
+    );
+    if (!destinationValidation.valid) {
+      console.error(
+        "Destination validation failed:",
+        destinationValidation.error,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Destination",
+        message: destinationValidation.error,
+      });
+      return null;
+    }
+
+    // Validate backup directory
+    const backupDirValidation = validateBackupDir(values.backupDir ?? "");
+    if (values.backup && !backupDirValidation.valid) {
+      console.error(
+        "Backup directory validation failed:",
+        backupDirValidation.error,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Backup Directory",
+        message: backupDirValidation.error,
+      });
+      return null;
+    }
+
+    return {
+      hostConfig: LOCAL_HOST,
+      localPath: sources[0],
+      localPaths: sources,
+      remotePath: "",
+      destinationPath: destinationPathValue,
+      direction: TransferDirection.LOCAL,
+      rsyncOptions: {
+        humanReadable: values.humanReadable,
+        progress: values.progress,
+        delete: values.deleteExtra,
+        backup: values.backup,
+        backupDir: values.backupDir,
+        comparisonMode: values.comparisonMode,
+        modifyWindow: values.fatTimestamps
+          ? FAT_MODIFY_WINDOW_SECONDS
+          : undefined,
+        preservePermissions: !values.noPermissions,
+        preserveOwner: !values.noOwner,
+        preserveGroup: !values.noOwner,
+        omitDirTimes: values.omitDirTimes,
+        filterRules: parseFilterRules(values.filterRules),
+        honorIgnoreFiles: values.honorIgnoreFiles,
+      },
+      // Only the idle timeout and time limit apply without a connection
+      timeouts: resolveTimeouts(getTimeoutPreferences()),
+      retry: getRetryPreferences(),
+    };
+  }
+
+  async function handleSubmit(values: SyncFormValues) {
+    const options = await buildTransferOptions(values);
+    if (options) {
+      await executeTransfer(options);
+    }
+  }
+
+  async function handlePreview(values: SyncFormValues) {
+    const options = await buildTransferOptions(values);
+    if (options) {
+      // Confirming from the preview runs the exact same transfer options
+      push(
+        <TransferPreview
+          options={options}
+          onConfirm={() => executeTransfer(options)}
+        />,
+      );
+    }
+  }
+
+  async function executeTransfer(options: TransferOptions) {
+    const sources = options.localPaths ?? [options.localPath];
+    const syncTarget =
+      sources.length > 1
+        ? `${sources.length} items to ${options.destinationPath}`
+        : `to ${options.destinationPath}`;
+
+    const abortController = new AbortController();
+
+    // Show initial progress toast; it stays on screen and offers cancellation
+    const progressToast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Syncing files...",
+      message: `Syncing ${syncTarget}`,
+      primaryAction: {
+        title: "Cancel Sync",
+        onAction: () => abortController.abort(),
+      },
+    });
+
+    console.log("Starting local sync:", {
+      localPaths: sources,
+      destinationPath: options.destinationPath,
+    });
+
+    try {
+      // Progress callback to update toast in real-time
+      const progressCallback = (progressMessage: string) => {
+        progressToast.message = progressMessage;
+      };
+
+      const result = await executeRsync(
+        options,
+        progressCallback,
+        abortController.signal,
+      );
+
+      if (result.cancelled) {
+        console.log("Sync cancelled");
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Sync Cancelled",
+          message: result.message,
+        });
+      } else if (result.success) {
+        console.log("Sync completed successfully");
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Sync Successful",
+          message: result.message,
+        });
+        if (result.stdout) {
+          console.log("Rsync output:", result.stdout);
+        }
+        push(<TransferResult title="Sync Successful" result={result} />);
+      } else if (result.partial) {
+        console.warn("Sync completed with warnings:", result.stderr);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Sync Completed with Warnings",
+          message: result.message,
+        });
+        push(
+          <TransferResult
+            title="Sync Completed with Warnings"
+            result={result}
+          />,
+        );
+      } else {
+        console.error("Sync failed:", result.message);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Sync Failed",
+          message: [result.message, ...(result.warnings ?? [])].join("\n"),
+        });
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Unknown error occurred";
+      console.error("Sync error:", err);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Sync Failed",
+        message: errorMessage,
+      });
+    }
+  }
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Sync" onSubmit={handleSubmit} />
+          <Action.SubmitForm
+            title="Preview Changes"
+            icon={Icon.Eye}
+            onSubmit={handlePreview}
+          />
+        </ActionPanel>
+      }
+    >
+      <Form.FilePicker
+        id="localPaths"
+        title="Source"
+        allowMultipleSelection
+        canChooseDirectories
+        value={localPaths}
+        onChange={setLocalPaths}
+        info="Files and folders to sync. Items selected in Finder before opening this command are filled in. Folders are created inside the destination under their own name"
+      />
+      <Form.FilePicker
+        id="destinationPath"
+        title="Destination"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        value={destinationPath}
+        onChange={setDestinationPath}
+        info="Folder to sync into, for example on an external drive in /Volumes or a mounted network share"
+      />
+      <Form.Separator />
+      <Form.Description
+        title="Rsync Options"
+        text="Configure options for this sync"
+      />
+      <Form.Checkbox
+        id="humanReadable"
+        label="Human-readable file sizes (-h)"
+        value={humanReadable}
+        onChange={setHumanReadable}
+        info="Display file sizes in human-readable format (e.g., 1.5M, 500K)"
+      />
+      <Form.Checkbox
+        id="progress"
+        label="Show progress (-P)"
+        value={progress}
+        onChange={setProgress}
+        info="Display progress information and support partial transfers"
+      />
+      <Form.Checkbox
+        id="deleteExtra"
+        label="Delete extraneous files (--delete)"
+        value={deleteExtra}
+        onChange={(value: boolean) => {
+          setDeleteExtra(value);
+          if (value) {
+            setBackup(true);
+          }
+        }}
+        info="Delete files in destination that don't exist in source (use with caution)"
+      />
+      <Form.Checkbox
+        id="backup"
+        label="Back up overwritten and deleted files (--backup)"
+        value={backup}
+        onChange={setBackup}
+        info="Move files that would be overwritten or deleted into a timestamped backup directory in the destination, so a mistaken sync can be reverted by hand. Turned on whenever --delete is checked"
+      />
+      {backup && (
+        <Form.TextField
+          id="backupDir"
+          title="Backup Directory"
+          placeholder={DEFAULT_BACKUP_DIR}
+          value={backupDir}
+          onChange={setBackupDir}
+          info="Directory for the backups (--backup-dir), absolute or relative to the destination. {timestamp} is replaced with the sync start time"
+        />
+      )}
+      <Form.Dropdown
+        id="comparisonMode"
+        title="Compare Files By"
+        value={comparisonMode}
+        onChange={(value: string) => setComparisonMode(value as ComparisonMode)}
+        info="How rsync decides which files changed. Checksums (-c) read every file on both sides but are immune to clock skew; size only (--size-only) ignores modification times"
+      >
+        <Form.Dropdown.Item
+          value={ComparisonMode.DEFAULT}
+          title="Modification time and size"
+        />
+        <Form.Dropdown.Item
+          value={ComparisonMode.CHECKSUM}
+          title="Checksum (-c)"
+        />
+        <Form.Dropdown.Item
+          value={ComparisonMode.SIZE_ONLY}
+          title="Size only (--size-only)"
+        />
+      </Form.Dropdown>
+      <Form.Separator />
+      <Form.Description
+        title="Removable Filesystems"
+        text="For destinations formatted as FAT, exFAT or network shares without Unix permissions"
+      />
+      <Form.Checkbox
+        id="fatTimestamps"
+        label="Tolerate coarse timestamps (--modify-window=1)"
+        value={fatTimestamps}
+        onChange={setFatTimestamps}
+        info="FAT and exFAT store modification times in 2-second steps, so without this every file looks changed and is copied again on each sync"
+      />
+      <Form.Checkbox
+        id="noPermissions"
+        label="Skip permissions (--no-perms)"
+        value={noPermissions}
+        onChange={setNoPermissions}
+        info="Do not copy file permissions, which the destination filesystem cannot store"
+      />
+      <Form.Checkbox
+        id="noOwner"
+        label="Skip owner and group (--no-owner --no-group)"
+        value={noOwner}
+        onChange={setNoOwner}
+        info="Do not copy file ownership, which the destination filesystem cannot store"
+      />
+      <Form.Checkbox
+        id="omitDirTimes"
+        label="Skip folder modification times (--omit-dir-times)"
+        value={omitDirTimes}
+        onChange={setOmitDirTimes}
+        info="Do not set folder modification times, which some filesystems and network shares reject"
+      />
+      <Form.Separator />
+      <Form.TextArea
+        id="filterRules"
+        title="Filter Rules"
+        placeholder={"- node_modules/\n- .git/\n+ *.log"}
+        value={filterRules}
+        onChange={setFilterRules}
+        info="One rule per line, applied in order: '+ PATTERN' includes, '- PATTERN' (or a bare pattern) excludes, other rsync filter rules such as ':- .gitignore' are passed to --filter"
+      />
+      <Form.Checkbox
+        id="honorIgnoreFiles"
+        label="Honor .gitignore and .rsyncignore"
+        value={honorIgnoreFiles}
+        onChange={setHonorIgnoreFiles}
+        info="Skip files matched by .gitignore/.rsyncignore in the synced folder, its subfolders, and its parents up to the repository root"
+      />
+      <Form.Description
+        title="Detected Ignore Files"
+        text={
+          detectedIgnoreFiles.length > 0
+            ? detectedIgnoreFiles.join("\n")
+            : "None found (nested ignore files are still honored when enabled)"
+        }
+      />
+    </Form>
+  );
+}
@@ -0,0 +1,598 @@
+import {
+  List,
+  ActionPanel,
+  Action,
+  Form,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import React, { useState, useEffect } from "react";
+import { parseSSHConfig } from "./utils/sshConfig";
+import {
+  validateRemotePath,
+  validateHostConfig,
+  validateBackupDir,
+} from "./utils/validation";
+import {
+  SSHHostConfig,
+  TransferDirection,
+  TransferOptions,
+  ComparisonMode,
+  RemoteTransferStrategy,
+} from "./types/server";
+import {
+  getRsyncPreferences,
+  getTimeoutPreferences,
+  getRetryPreferences,
+} from "./utils/preferences";
+import { parseFilterRules, formatFilterRules } from "./utils/filterRules";
+import { TimeoutFields } from "./components/TimeoutFields";
+import { BandwidthFields } from "./components/BandwidthFields";
+import { TransferResult } from "./components/TransferResult";
+import {
+  TimeoutFormValues,
+  parseTimeoutOverrides,
+  resolveTimeouts,
+} from "./utils/timeouts";
+import {
+  BandwidthFormValues,
+  parseBandwidthLimit,
+  formatBandwidthLimit,
+} from "./utils/bandwidth";
+import { getLanHosts, updateHostDefaults } from "./utils/hostDefaults";
+import { DEFAULT_BACKUP_DIR } from "./utils/backup";
+import { executeRemoteTransfer } from "./utils/remoteTransfer";
+
+/**
+ * Remote-to-remote transfer command component
+ * Displays list of SSH hosts from config file to pick the source host
+ */
+export default function Command() {
+  const [hosts, setHosts] = useState<SSHHostConfig[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHosts();
+  }, []);
+
+  async function loadHosts() {
+    try {
+      const parsedHosts = parseSSHConfig();
+
+      if (parsedHosts.length === 0) {
+        const errorMsg = "No host entries found in SSH config file";
+        setError(errorMsg);
+        console.warn("SSH config parsed but no hosts found");
+      } else {
+        setHosts(parsedHosts);
+        console.log(`Loaded ${parsedHosts.length} SSH host(s)`);
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to parse SSH config";
+      console.error("Error loading SSH hosts:", err);
+      setError(errorMessage);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Error Loading SSH Config",
+        message: errorMessage,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  if (error) {
+    return (
+      <List>
+        <List.EmptyView title="Error Loading SSH Config" description={error} />
+      </List>
+    );
+  }
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle="Choose Source Host"
+      searchBarPlaceholder="Search source hosts..."
+    >
+      {hosts.map((host: SSHHostConfig) => (
+        <HostItem
+          key={host.host}
+          host={host}
+          actionTitle="Choose Destination Host"
+          target={<DestinationHostList sourceHostConfig={host} hosts={hosts} />}
+        />
+      ))}
+    </List>
+  );
+}
+
+/**
+ * Host list item with a single push action
+ */
+function HostItem({
+  host,
+  actionTitle,
+  target,
+}: {
+  host: SSHHostConfig;
+  actionTitle: string;
+  target: React.ReactNode;
+}) {
+  return (
+    <List.Item
+      title={host.host}
+      subtitle={host.hostName}
+      accessories={[
+        { text: host.user ? `User: ${host.user}` : "" },
+        { text: host.port ? `Port: ${host.port}` : "" },
+      ]}
+      actions={
+        <ActionPanel>
+          <Action.Push title={actionTitle} target={target} />
+        </ActionPanel>
+      }
+    />
+  );
+}
+
+/**
+ * Destination host list
+ * Shows the same SSH hosts again to pick where the files go
+ */
+function DestinationHostList({
+  sourceHostConfig,
+  hosts,
+}: {
+  sourceHostConfig: SSHHostConfig;
+  hosts: SSHHostConfig[];
+}) {
+  return (
+    <List
+      navigationTitle={`Transfer from ${sourceHostConfig.host}`}
+      searchBarPlaceholder="Search destination hosts..."
+    >
+      {hosts.map((host: SSHHostConfig) => (
+        <HostItem
+          key={host.host}
+          host={host}
+          actionTitle="Enter Paths"
+          target={
+            <TransferForm
+              sourceHostConfig={sourceHostConfig}
+              destinationHostConfig={host}
+            />
+          }
+        />
+      ))}
+    </List>
+  );
+}
+
+/**
+ * Values submitted by the transfer form
+ */
+interface TransferFormValues extends TimeoutFormValues, BandwidthFormValues {
+  sourcePath: string;
+  destinationPath: string;
+  strategy: RemoteTransferStrategy;
+  humanReadable: boolean;
+  progress: boolean;
+  deleteExtra: boolean;
+  backup: boolean;
+  backupDir: string;
+  createDestinationPath: boolean;
+  comparisonMode: ComparisonMode;
+  filterRules: string;
+}
+
+/**
+ * Describes a host for the form
+ * @param hostConfig - SSH host configuration
+ * @returns Host alias followed by its host name, if any
+ */
+function describeHost(hostConfig: SSHHostConfig): string {
+  return `${hostConfig.host}${hostConfig.hostName ? ` (${hostConfig.hostName})` : ""}`;
+}
+
+/**
+ * Remote-to-remote transfer form
+ * Allows user to specify the source and destination paths and how the files travel
+ */
+function TransferForm({
+  sourceHostConfig,
+  destinationHostConfig,
+}: {
+  sourceHostConfig: SSHHostConfig;
+  destinationHostConfig: SSHHostConfig;
+}) {
+  const { push } = useNavigation();
+
+  // Initialize rsync options with global preferences
+  const defaultRsyncOptions = getRsyncPreferences();
+  const [sourcePath, setSourcePath] = useState<string>("");
+  const [destinationPath, setDestinationPath] = useState<string>("");
+  const [strategy, setStrategy] = useState<RemoteTransferStrategy>(
+    RemoteTransferStrategy.DIRECT,
+  );
+  const [humanReadable, setHumanReadable] = useState<boolean>(
+    defaultRsyncOptions.humanReadable ?? false,
+  );
+  const [progress, setProgress] = useState<boolean>(
+    defaultRsyncOptions.progress ?? false,
+  );
+  const [deleteExtra, setDeleteExtra] = useState<boolean>(
+    defaultRsyncOptions.delete ?? false,
+  );
+  // Backups are the safety net for --delete, so they default to on with it
+  const [backup, setBackup] = useState<boolean>(
+    defaultRsyncOptions.delete ?? false,
+  );
+  const [backupDir, setBackupDir] = useState<string>("");
+  const [createDestinationPath, setCreateDestinationPath] =
+    useState<boolean>(false);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>(
+    ComparisonMode.DEFAULT,
+  );
+  const [filterRules, setFilterRules] = useState<string>(
+    formatFilterRules(defaultRsyncOptions.filterRules ?? []),
+  );
+
+  /**
+   * Validates the form input and builds the transfer options
+   * @returns Transfer options, or null if validation failed
+   */
+  async function buildTransferOptions(
+    values: TransferFormValues,
+  ): Promise<TransferOptions | null> {
+    const sourcePathValue = values.sourcePath.trim();
+    const destinationPathValue = values.destinationPath.trim();
+
+    // Validate both remote paths
+    for (const [title, path] of [
+      ["Invalid Source Path", sourcePathValue],
+      ["Invalid Destination Path", destinationPathValue],
+    ]) {
+      const pathValidation = validateRemotePath(path);
+      if (!pathValidation.valid) {
+        console.error("Remote path validation failed:", pathValidation.error);
+        await showToast({
+          style: Toast.Style.Failure,
+          title,
+          message: pathValidation.error || "The remote path format is invalid",
+        });
+        return null;
+      }
+    }
+
+    // Validate both host configs
+    for (const hostConfig of [sourceHostConfig, destinationHostConfig]) {
+      const hostValidation = validateHostConfig(hostConfig);
+      if (!hostValidation.valid) {
+        console.error("Host config validation failed:", hostValidation.error);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Invalid Host Configuration",
+          message:
+            hostValidation.error ||
+            "The host configuration is incomplete or invalid",
+        });
+        return null;
+      }
+    }
+
+    // Validate timeout overrides
+    const { timeouts, error: timeoutError } = parseTimeoutOverrides(values);
+    if (timeoutError) {
+      console.error("Timeout validation failed:", timeoutError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Timeout",
+        message: timeoutError,
+      });
+      return null;
+    }
+
+    // Validate backup directory
+    const backupDirValidation = validateBackupDir(values.backupDir ?? "");
+    if (values.backup && !backupDirValidation.valid) {
+      console.error(
+        "Backup directory validation failed:",
+        backupDirValidation.error,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Backup Directory",
+        message: backupDirValidation.error,
+      });
+      return null;
+    }
+
+    // Validate bandwidth limit
+    const bandwidthLimit = parseBandwidthLimit(values.bandwidthLimit);
+    if (Number.isNaN(bandwidthLimit)) {
+      console.error(
+        "Bandwidth limit validation failed:",
+        values.bandwidthLimit,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Bandwidth Limit",
+        message: "Enter a rate such as 500 (KB/s), 500K or 10M",
+      });
+      return null;
+    }
+    if (values.rememberBandwidthLimit) {
+      await updateHostDefaults(sourceHostConfig.host, {
+        bandwidthLimit: bandwidthLimit || undefined,
+      });
+    }
+
+    return {
+      hostConfig: sourceHostConfig,
+      localPath: "",
+      remotePath: sourcePathValue,
+      destinationHostConfig,
+      destinationPath: destinationPathValue,
+      direction: TransferDirection.REMOTE_TO_REMOTE,
+      rsyncOptions: {
+        humanReadable: values.humanReadable,
+        progress: values.progress,
+        delete: values.deleteExtra,
+        backup: values.backup,
+        backupDir: values.backupDir,
+        createDestinationPath: values.createDestinationPath,
+        comparisonMode: values.comparisonMode,
+        bandwidthLimit,
+        filterRules: parseFilterRules(values.filterRules),
+      },
+      timeouts: resolveTimeouts(getTimeoutPreferences(), timeouts),
+      retry: getRetryPreferences(),
+      lanHosts: await getLanHosts([
+        sourceHostConfig.host,
+        destinationHostConfig.host,
+      ]),
+    };
+  }
+
+  async function handleSubmit(values: TransferFormValues) {
+    const options = await buildTransferOptions(values);
+    if (options) {
+      await executeTransfer(options, values.strategy);
+    }
+  }
+
+  async function executeTransfer(
+    options: TransferOptions,
+    transferStrategy: RemoteTransferStrategy,
+  ) {
+    const bandwidthLimit = options.rsyncOptions?.bandwidthLimit;
+    const route = `${sourceHostConfig.host} to ${destinationHostConfig.host}${
+      transferStrategy === RemoteTransferStrategy.RELAY ? " via this Mac" : ""
+    }`;
+
+    const abortController = new AbortController();
+
+    // Show initial progress toast; it stays on screen and offers cancellation
+    const progressToast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Transferring files...",
+      message: bandwidthLimit
+        ? `Copying from ${route} (limited to ${formatBandwidthLimit(bandwidthLimit)})`
+        : `Copying from ${route}`,
+      primaryAction: {
+        title: "Cancel Transfer",
+        onAction: () => abortController.abort(),
+      },
+    });
+
+    console.log("Starting remote-to-remote transfer:", {
+      source: sourceHostConfig.host,
+      sourcePath: options.remotePath,
+      destination: destinationHostConfig.host,
+      destinationPath: options.destinationPath,
+      strategy: transferStrategy,
+    });
+
+    try {
+      // Progress callback to update toast in real-time
+      const progressCallback = (progressMessage: string) => {
+        progressToast.message = progressMessage;
+      };
+
+      const result = await executeRemoteTransfer(
+        options,
+        transferStrategy,
+        progressCallback,
+        abortController.signal,
+      );
+
+      if (result.cancelled) {
+        console.log("Transfer cancelled");
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Transfer Cancelled",
+          message: result.message,
+        });
+      } else if (result.success) {
+        console.log("Transfer completed successfully");
+        await showToast({
+          style: Toast.Style.Success,
+          title: "Transfer Successful",
+          message: result.message,
+        });
+        push(<TransferResult title="Transfer Successful" result={result} />);
+      } else if (result.partial) {
+        console.warn("Transfer completed with warnings:", result.stderr);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Transfer Completed with Warnings",
+          message: result.message,
+        });
+        push(
+          <TransferResult
+            title="Transfer Completed with Warnings"
+            result={result}
+          />,
+        );
+      } else {
+        console.error("Transfer failed:", result.message);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Transfer Failed",
+          message: [result.message, ...(result.warnings ?? [])].join("\n"),
+        });
+      }
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Unknown error occurred";
+      console.error("Transfer error:", err);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Transfer Failed",
+        message: errorMessage,
+      });
+    }
+  }
+
+  return (
+    <Form
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Transfer" onSubmit={handleSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description
+        title="Source Host"
+        text={describeHost(sourceHostConfig)}
+      />
+      <Form.TextField
+        id="sourcePath"
+        title="Source Path"
+        placeholder="/path/on/source/server"
+        value={sourcePath}
+        onChange={setSourcePath}
+        info="File or directory to copy from the source host"
+      />
+      <Form.Description
+        title="Destination Host"
+        text={describeHost(destinationHostConfig)}
+      />
+      <Form.TextField
+        id="destinationPath"
+        title="Destination Path"
+        placeholder="/path/on/destination/server"
+        value={destinationPath}
+        onChange={setDestinationPath}
+        info="Directory on the destination host the source is copied into"
+      />
+      <Form.Dropdown
+        id="strategy"
+        title="Route"
+        value={strategy}
+        onChange={(value: string) =>
+          setStrategy(value as RemoteTransferStrategy)
+        }
+        info="Direct: rsync runs on the source host and connects to the destination by its host name, using your SSH agent (forwarded with ssh -A). The destination must be reachable from the source and accept a key loaded in your agent. Relay: the files are downloaded to a temporary folder on this Mac and then uploaded, for hosts that cannot reach each other. Needs local disk space for the whole source"
+      >
+        <Form.Dropdown.Item
+          value={RemoteTransferStrategy.DIRECT}
+          title="Direct (source host connects to destination)"
+        />
+        <Form.Dropdown.Item
+          value={RemoteTransferStrategy.RELAY}
+          title="Relay through this Mac"
+        />
+      </Form.Dropdown>
+      <Form.Separator />
+      <Form.Description
+        title="Rsync Options"
+        text="Configure options for this transfer"
+      />
+      <Form.Checkbox
+        id="humanReadable"
+        label="Human-readable file sizes (-h)"
+        value={humanReadable}
+        onChange={setHumanReadable}
+        info="Display file sizes in human-readable format (e.g., 1.5M, 500K)"
+      />
+      <Form.Checkbox
+        id="progress"
+        label="Show progress (-P)"
+        value={progress}
+        onChange={setProgress}
+        info="Display progress information and support partial transfers"
+      />
+      <Form.Checkbox
+        id="deleteExtra"
+        label="Delete extraneous files (--delete)"
+        value={deleteExtra}
+        onChange={(value: boolean) => {
+          setDeleteExtra(value);
+          if (value) {
+            setBackup(true);
+          }
+        }}
+        info="Delete files in destination that don't exist in source (use with caution)"
+      />
+      <Form.Checkbox
+        id="backup"
+        label="Back up overwritten and deleted files (--backup)"
+        value={backup}
+        onChange={setBackup}
+        info="Move files that would be overwritten or deleted into a timestamped backup directory on the destination host, so a mistaken sync can be reverted by hand. Turned on whenever --delete is checked"
+      />
+      {backup && (
+        <Form.TextField
+          id="backupDir"
+          title="Backup Directory"
+          placeholder={DEFAULT_BACKUP_DIR}
+          value={backupDir}
+          onChange={setBackupDir}
+          info="Directory on the destination host (--backup-dir), absolute or relative to the destination. {timestamp} is replaced with the transfer start time"
+        />
+      )}
+      <Form.Checkbox
+        id="createDestinationPath"
+        label="Create missing destination folders (--mkpath)"
+        value={createDestinationPath}
+        onChange={setCreateDestinationPath}
+        info="Create the destination path if it does not exist yet. Needs rsync 3.2.3 or newer on both hosts; skipped with a warning otherwise"
+      />
+      <Form.Dropdown
+        id="comparisonMode"
+        title="Compare Files By"
+        value={comparisonMode}
+        onChange={(value: string) => setComparisonMode(value as ComparisonMode)}
+        info="How rsync decides which files changed. Checksums (-c) read every file on both sides but are immune to clock skew; size only (--size-only) ignores modification times"
+      >
+        <Form.Dropdown.Item
+          value={ComparisonMode.DEFAULT}
+          title="Modification time and size"
+        />
+        <Form.Dropdown.Item
+          value={ComparisonMode.CHECKSUM}
+          title="Checksum (-c)"
+        />
+        <Form.Dropdown.Item
+          value={ComparisonMode.SIZE_ONLY}
+          title="Size only (--size-only)"
+        />
+      </Form.Dropdown>
+      <Form.TextArea
+        id="filterRules"
+        title="Filter Rules"
+        placeholder={"- node_modules/\n- .git/\n+ *.log"}
+        value={filterRules}
+        onChange={setFilterRules}
+        info="One rule per line, applied in order: '+ PATTERN' includes, '- PATTERN' (or a bare pattern) excludes, other rsync filter rules such as ':- .gitignore' are passed to --filter"
+      />
+      <BandwidthFields host={sourceHostConfig.host} />
+      <TimeoutFields defaults={getTimeoutPreferences()} />
+    </Form>
+  );
+}
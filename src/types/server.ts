@@ -10,12 +10,39 @@ export interface SSHHostConfig {
   proxyJump?: string; // Jump host configuration
 }
 
+/**
+ * rsync daemon endpoint (rsync://[user@]host[:port]/module), kept in extension storage
+ */
+export interface RsyncDaemonConfig {
+  host: string; // Name shown in host lists, unique among daemon endpoints
+  hostName: string; // Daemon hostname or IP
+  port?: number; // Daemon port (default 873)
+  module: string; // Module the transfer paths are relative to
+  user?: string; // Daemon username, for modules with "auth users"
+  passwordFile?: string; // Local file holding the daemon password (--password-file)
+}
+
+/**
+ * Host a transfer connects to: an SSH host or an rsync daemon module
+ */
+export type HostConfig = SSHHostConfig | RsyncDaemonConfig;
+
 /**
  * Direction of file transfer
  */
 export enum TransferDirection {
   UPLOAD = "upload",
   DOWNLOAD = "download",
+  REMOTE_TO_REMOTE = "remote-to-remote",
+  LOCAL = "local", // Between two local paths, e.g. to an external drive or mounted volume
+}
+
+/**
+ * How a remote-to-remote transfer moves the files
+ */
+export enum RemoteTransferStrategy {
+  DIRECT = "direct", // rsync runs on the source host and connects to the destination
+  RELAY = "relay", // Files are downloaded to a local temporary directory, then uploaded
 }
 
 /**
@@ -25,17 +52,186 @@ export interface RsyncOptions {
   humanReadable?: boolean; // -h: human-readable file sizes
   delete?: boolean; // --delete: delete extraneous files from destination
   progress?: boolean; // -P: show progress and support partial transfers
+  partial?: boolean; // --partial: keep partially transferred files (implied by -P and --partial-dir)
+  partialDir?: string; // --partial-dir: keep partial files here (relative to the destination) until they are complete
+  appendVerify?: boolean; // --append-verify: append to shorter destination files, then verify the whole file
+  dryRun?: boolean; // --dry-run: perform a trial run with no changes made
+  itemizeChanges?: boolean; // --itemize-changes: output a change-summary for all updates
+  filterRules?: FilterRule[]; // --include/--exclude/--filter rules, applied in order
+  honorIgnoreFiles?: boolean; // Uploads only: apply .gitignore/.rsyncignore as merge filters
+  stats?: boolean; // --stats: print transfer statistics (always enabled by executeRsync)
+  overallProgress?: boolean; // --info=progress2: whole-transfer progress (rsync 3.1+, detected by executeRsync)
+  createDestinationPath?: boolean; // --mkpath: create missing destination directories (rsync 3.2.3+)
+  relative?: boolean; // --relative: recreate the source paths below the destination
+  filesFrom?: string[]; // --files-from: transfer only these paths (relative to the source directory), sent on stdin
+  preserveXattrs?: boolean; // -X: preserve extended attributes
+  preservePermissions?: boolean; // false adds --no-perms, for filesystems without Unix permissions (default true via -a)
+  preserveOwner?: boolean; // false adds --no-owner, for filesystems without Unix ownership (default true via -a)
+  preserveGroup?: boolean; // false adds --no-group (default true via -a)
+  chmod?: string; // --chmod: permission rules applied on the destination, e.g. "D755,F644"
+  chown?: string; // --chown: owner and group on the destination, "user", "user:group" or ":group" (rsync 3.1.0+)
+  numericIds?: boolean; // --numeric-ids: keep user and group ids instead of mapping them by name
+  omitDirTimes?: boolean; // --omit-dir-times: do not set directory modification times
+  modifyWindow?: number; // --modify-window: modification times this many seconds apart count as equal (1 for FAT/exFAT)
+  protectArgs?: boolean; // --protect-args: keep paths away from the remote shell (default on when both sides run rsync 3.0+)
+  bandwidthLimit?: number; // --bwlimit in KB/s; unset or 0 means unlimited
+  compression?: CompressionMode; // Unset compresses with -z and lets rsync pick the algorithm
+  compressLevel?: number; // --compress-level for the chosen algorithm
+  skipCompress?: string[]; // --skip-compress: file suffixes sent uncompressed (replaces rsync's built-in list)
+  rsyncPath?: string; // --rsync-path: command that starts rsync on the remote side, e.g. "sudo -n rsync"
+  backup?: boolean; // --backup: keep overwritten and deleted files
+  linkDest?: string; // --link-dest: hard-link unchanged files against this directory (relative to the destination)
+  backupDir?: string; // --backup-dir on the destination side; relative to the destination, {timestamp} is replaced
+  comparisonMode?: ComparisonMode; // How rsync decides which files changed
+  verifyAfterTransfer?: boolean; // Not an rsync flag: compare SHA-256 of transferred files afterwards
+}
+
+/**
+ * Compression of the data sent over the network
+ */
+export enum CompressionMode {
+  DEFAULT = "default", // -z: rsync negotiates the algorithm
+  ZSTD = "zstd", // -z --compress-choice=zstd (rsync 3.2.0+)
+  LZ4 = "lz4", // -z --compress-choice=lz4 (rsync 3.2.0+), fast with a low ratio
+  ZLIB = "zlib", // -z --compress-choice=zlib (rsync 3.2.0+)
+  OFF = "off", // No -z, for fast networks and incompressible data
+}
+
+/**
+ * How rsync decides whether a file needs to be transferred
+ */
+export enum ComparisonMode {
+  DEFAULT = "default", // Modification time and size
+  CHECKSUM = "checksum", // -c: full-file checksums, immune to clock skew
+  SIZE_ONLY = "size-only", // --size-only: ignore modification times
+}
+
+/**
+ * Permission and ownership options of a transfer (the Advanced section of the transfer forms)
+ */
+export type OwnershipOptions = Pick<
+  RsyncOptions,
+  | "chmod"
+  | "chown"
+  | "preservePermissions"
+  | "preserveOwner"
+  | "preserveGroup"
+  | "numericIds"
+>;
+
+/**
+ * Transfer defaults remembered per host, keyed by the SSH host alias
+ */
+export interface HostDefaults {
+  bandwidthLimit?: number; // KB/s
+  rsyncPath?: string; // Remote rsync command, e.g. "sudo -n rsync"
+  ownership?: OwnershipOptions; // Only the options that differ from -a
+  lanHost?: boolean; // Fast local network: transfers never compress
+}
+
+/**
+ * rsync invocation built from transfer options
+ */
+export interface RsyncCommand {
+  program?: string; // Executable to spawn, rsync unless the transfer runs on a remote host
+  args: string[]; // Arguments for the program, which is spawned without a shell
+  display: string; // Shell-quoted rendering for logs, previews and copying
+}
+
+/**
+ * Type of an rsync filter rule
+ */
+export enum FilterRuleType {
+  INCLUDE = "include", // --include=PATTERN
+  EXCLUDE = "exclude", // --exclude=PATTERN
+  FILTER = "filter", // --filter=RULE (raw rsync filter rule, e.g. ":- .gitignore")
+}
+
+/**
+ * Single include/exclude/filter rule; rsync applies the first matching rule
+ */
+export interface FilterRule {
+  type: FilterRuleType;
+  pattern: string;
 }
 
 /**
  * Options for rsync transfer operation
  */
 export interface TransferOptions {
-  hostConfig: SSHHostConfig;
+  hostConfig: HostConfig; // LOCAL_HOST for local transfers
   localPath: string;
+  localPaths?: string[]; // Every source of a multi-source upload or local transfer (localPath is the first)
   remotePath: string;
+  remotePaths?: string[]; // Every source of a multi-path download (remotePath is the first)
+  destinationHostConfig?: SSHHostConfig; // Remote-to-remote: host receiving the files (hostConfig is the source)
+  destinationPath?: string; // Remote-to-remote: path on the destination host (remotePath is the source); local: destination directory
   direction: TransferDirection;
   rsyncOptions?: RsyncOptions;
+  timeouts?: TimeoutOptions; // Unset timeouts are not applied
+  retry?: RetryPolicy; // Unset runs rsync once
+  lanHosts?: string[]; // Host aliases marked as on the LAN; transfers with them run uncompressed
+}
+
+/**
+ * Transfer that stopped before finishing, kept so it can be resumed
+ */
+export interface InterruptedTransfer {
+  id: string;
+  options: TransferOptions; // Rerun unchanged, so rsync picks up the partial files
+  interruptedAt: string; // ISO 8601 timestamp
+  reason: string; // Message of the interrupted run
+}
+
+/**
+ * Snapshots kept when pruning: the newest snapshot of each of the most recent
+ * days and weeks that have one (the newest snapshot is always kept)
+ */
+export interface RetentionPolicy {
+  daily: number;
+  weekly: number;
+}
+
+/**
+ * Options for a snapshot backup of a local directory
+ */
+export interface SnapshotBackupOptions {
+  hostConfig: SSHHostConfig;
+  localPath: string; // Local directory to back up
+  snapshotRoot: string; // Remote directory holding the dated snapshots and "latest"
+  retention: RetentionPolicy;
+  rsyncOptions?: RsyncOptions;
+  timeouts?: TimeoutOptions;
+  retry?: RetryPolicy;
+  lanHosts?: string[];
+}
+
+/**
+ * Outcome of a snapshot backup
+ */
+export interface SnapshotResult {
+  name: string; // Dated directory of the new snapshot
+  location: string; // host:path of the new snapshot
+  linkedTo?: string; // Previous snapshot unchanged files were hard-linked against
+  pruned: string[]; // Snapshots removed by the retention policy
+}
+
+/**
+ * Timeouts for transfers and remote commands, in seconds (0 disables a timeout)
+ */
+export interface TimeoutOptions {
+  connectTimeout?: number; // SSH ConnectTimeout (--contimeout for rsync daemons)
+  ioTimeout?: number; // rsync --timeout: give up when no data moves for this long
+  overallTimeout?: number; // Wall-clock limit for the whole transfer
+}
+
+/**
+ * Automatic retries of transfers that fail on transient network errors
+ */
+export interface RetryPolicy {
+  maxAttempts: number; // Runs including the first; 1 disables retries
+  baseDelay: number; // Seconds before the first retry, doubled for each further retry
+  retryableKinds?: RsyncErrorKind[]; // Defaults to lost connections and stalls; authentication and path errors are never retried
 }
 
 /**
@@ -43,9 +239,131 @@ export interface TransferOptions {
  */
 export interface RsyncResult {
   success: boolean;
+  cancelled?: boolean; // Transfer was stopped by the user before completing
+  partial?: boolean; // Transfer finished but some files were skipped (exit codes 23/24)
+  resumable?: boolean; // Stopped midway with partial files kept, so rerunning the same options resumes
+  attempts?: number; // Runs it took, set when the transfer was retried
   message: string;
+  command?: string; // Command line that rsync ran with, after capability adaptation
+  warnings?: string[]; // Requested options that were adapted to the rsync capabilities
+  errorKind?: RsyncErrorKind; // Set when the transfer failed or was partial
+  remediation?: string; // Suggested fix for errorKind
+  affectedFiles?: string[]; // Files named in rsync's error output
   stdout?: string; // rsync output messages
   stderr?: string;
+  changes?: ItemizedChange[]; // Parsed --itemize-changes output (dry-run previews)
+  stats?: RsyncStats; // Parsed --stats output
+  verification?: TransferVerification; // Set when verifyAfterTransfer was requested
+  backupLocation?: string; // Where overwritten and deleted files were moved
+  snapshot?: SnapshotResult; // Set by snapshot backups
+  sources?: SourceResult[]; // Per-source outcome of a multi-source upload
+}
+
+/**
+ * Outcome of one source of a multi-source upload
+ */
+export interface SourceResult {
+  path: string; // Local source as passed to rsync
+  filesTransferred: number; // Files created or updated on the destination
+  skippedFiles: string[]; // Files under this source that rsync could not transfer
+}
+
+/**
+ * Outcome of the post-transfer SHA-256 comparison
+ */
+export interface TransferVerification {
+  filesChecked: number;
+  mismatches: VerificationMismatch[];
+  error?: string; // Set when the check could not run (e.g. SSH failure)
+}
+
+/**
+ * A transferred file whose local and remote SHA-256 differ or could not be read
+ */
+export interface VerificationMismatch {
+  path: string; // Path relative to the transfer root
+  localHash?: string; // Undefined if the local file could not be read
+  remoteHash?: string; // Undefined if the remote file could not be read
+}
+
+/**
+ * A transferred file with its local and remote location
+ */
+export interface VerificationTarget {
+  path: string; // Path relative to the transfer root
+  localPath: string;
+  remotePath: string; // May start with ~/ (expanded on the remote side)
+}
+
+/**
+ * Transfer statistics parsed from rsync --stats output (sizes in bytes)
+ */
+export interface RsyncStats {
+  filesConsidered: number; // Number of files (including directories)
+  filesTransferred: number; // Number of regular files transferred
+  filesCreated?: number; // Not reported by rsync < 3.1
+  filesDeleted?: number; // Not reported by rsync < 3.1
+  totalSize: number; // Total size of all considered files
+  transferredSize: number; // Total size of transferred files
+  literalData: number; // Data sent as-is
+  matchedData: number; // Data reconstructed from the existing destination
+  bytesSent: number;
+  bytesReceived: number;
+  speedup?: number;
+  durationMs: number; // Wall-clock duration measured around the rsync process
+}
+
+/**
+ * Classification of an rsync failure, derived from the exit code and stderr
+ */
+export enum RsyncErrorKind {
+  SYNTAX = "syntax", // 1: syntax or usage error
+  PROTOCOL_INCOMPATIBLE = "protocol-incompatible", // 2, 4: incompatible versions or unsupported action
+  FILE_SELECTION = "file-selection", // 3: errors selecting input/output files or dirs
+  STARTUP = "startup", // 5: error starting client-server protocol
+  SOCKET_IO = "socket-io", // 10: error in socket I/O
+  FILE_IO = "file-io", // 11: error in file I/O
+  PROTOCOL_STREAM = "protocol-stream", // 12: error in rsync protocol data stream
+  IPC = "ipc", // 14: error in IPC code
+  INTERRUPTED = "interrupted", // 20: received SIGUSR1 or SIGINT
+  PARTIAL_TRANSFER = "partial-transfer", // 23: partial transfer due to error
+  VANISHED_SOURCE_FILES = "vanished-source-files", // 24: source files vanished during transfer
+  MAX_DELETE = "max-delete", // 25: --max-delete limit stopped deletions
+  IO_TIMEOUT = "io-timeout", // 30: timeout in data send/receive
+  CONNECTION_TIMEOUT = "connection-timeout", // 35 or SSH connect timeout
+  OVERALL_TIMEOUT = "overall-timeout", // Stopped by the overall time limit
+  RSYNC_NOT_FOUND = "rsync-not-found", // 127: rsync missing (usually on the remote side)
+  AUTHENTICATION = "authentication", // SSH authentication failed
+  SUDO_PASSWORD_REQUIRED = "sudo-password-required", // sudo in the remote rsync path asked for a password
+  DAEMON_AUTHENTICATION = "daemon-authentication", // rsync daemon rejected the user or password
+  DAEMON_MODULE_NOT_FOUND = "daemon-module-not-found", // rsync daemon has no such module
+  HOST_KEY_VERIFICATION = "host-key-verification", // SSH host key not trusted
+  CONNECTION_FAILED = "connection-failed", // Host unreachable, refused or unresolvable
+  CONNECTION_LOST = "connection-lost", // 255: SSH connection closed unexpectedly
+  FILE_NOT_FOUND = "file-not-found", // Source path does not exist
+  PERMISSION_DENIED = "permission-denied", // Filesystem permission error
+  DISK_FULL = "disk-full", // No space left or quota exceeded
+  UNKNOWN = "unknown",
+}
+
+/**
+ * Kind of change reported by rsync --itemize-changes
+ */
+export enum ChangeKind {
+  CREATED = "created",
+  UPDATED = "updated",
+  DELETED = "deleted",
+  ATTRIBUTES = "attributes",
+}
+
+/**
+ * Single change parsed from an rsync --itemize-changes line
+ */
+export interface ItemizedChange {
+  kind: ChangeKind;
+  path: string; // Path relative to the transfer root
+  isDirectory: boolean;
+  itemizeCode: string; // Raw YXcstpoguax string (or "*deleting")
 }
 
 /**
@@ -58,3 +376,59 @@ export interface RemoteFile {
   permissions?: string;
   modifiedDate?: string;
 }
+
+/**
+ * Version of an rsync binary
+ */
+export interface RsyncVersion {
+  major: number;
+  minor: number;
+  patch: number;
+}
+
+/**
+ * rsync implementation reported by `rsync --version`
+ */
+export enum RsyncImplementation {
+  SAMBA = "rsync", // rsync.samba.org (Linux, Homebrew, macOS up to 14)
+  OPENRSYNC = "openrsync", // OpenBSD rewrite shipped by newer macOS
+}
+
+/**
+ * Optional rsync features the extension adapts its flags to
+ */
+export enum RsyncFeature {
+  PROTECT_ARGS = "protect-args", // --protect-args (-s)
+  PROGRESS2 = "progress2", // --info=progress2
+  MKPATH = "mkpath", // --mkpath
+  ICONV = "iconv", // --iconv filename conversion
+  ZSTD = "zstd", // zstd compression
+  LZ4 = "lz4", // lz4 compression
+  COMPRESS_CHOICE = "compress-choice", // --compress-choice, so zlib can be chosen (rsync 3.2.0+)
+  XATTRS = "xattrs", // -X extended attributes
+  CHOWN = "chown", // --chown (rsync 3.1.0+)
+  APPEND_VERIFY = "append-verify", // --append-verify (rsync 3.0.0+)
+  SKIP_COMPRESS = "skip-compress", // --skip-compress (rsync 3.0.0+)
+  PARTIAL_DIR = "partial-dir", // --partial-dir (rsync 2.6.0+, not openrsync)
+}
+
+/**
+ * Parsed `rsync --version` of one side of a transfer
+ */
+export interface RsyncCapabilities {
+  implementation: RsyncImplementation;
+  version?: RsyncVersion; // openrsync reports the samba version it is compatible with
+  features: RsyncFeature[];
+}
+
+/**
+ * Whole-transfer progress parsed from --info=progress2 output
+ */
+export interface TransferProgress {
+  bytesTransferred: number; // Bytes done so far across all files
+  percent: number;
+  rate: string; // As printed by rsync, e.g. "12.34MB/s"
+  eta: string; // h:mm:ss; rsync prints the elapsed time on the final line
+  filesRemaining?: number; // Files left to check (to-chk), when reported
+  filesTotal?: number;
+}
@@ -6,23 +6,81 @@ import {
   showToast,
   Toast,
   getSelectedFinderItems,
-  popToRoot,
+  useNavigation,
+  Icon,
 } from "@raycast/api";
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
+import { statSync } from "fs";
 import { parseSSHConfig } from "./utils/sshConfig";
-import { executeRsync } from "./utils/rsync";
+import { getDaemonHosts } from "./utils/daemonHosts";
+import { isRsyncDaemon, formatDaemonUrl } from "./utils/rsyncDaemon";
+import { DaemonListSection } from "./components/DaemonListSection";
+import { executeRsync, expandHomeDir } from "./utils/rsync";
 import {
-  validateLocalPath,
+  validateLocalSources,
   validateRemotePath,
   validateHostConfig,
+  validateBackupDir,
+  validateRsyncPath,
 } from "./utils/validation";
 import {
   SSHHostConfig,
+  RsyncDaemonConfig,
+  HostConfig,
   TransferDirection,
   TransferOptions,
-  RsyncOptions,
+  ComparisonMode,
 } from "./types/server";
-import { getRsyncPreferences } from "./utils/preferences";
+import {
+  getRsyncPreferences,
+  getTimeoutPreferences,
+  getRetryPreferences,
+} from "./utils/preferences";
+import { parseFilterRules, formatFilterRules } from "./utils/filterRules";
+import { detectIgnoreFiles } from "./utils/ignoreFiles";
+import { TransferPreview } from "./components/TransferPreview";
+import { FileList } from "./components/FileList";
+import { TimeoutFields } from "./components/TimeoutFields";
+import { BandwidthFields } from "./components/BandwidthFields";
+import { RsyncPathFields } from "./components/RsyncPathFields";
+import { OwnershipFields } from "./components/OwnershipFields";
+import { CompressionFields } from "./components/CompressionFields";
+import { LargeFileFields } from "./components/LargeFileFields";
+import { ManifestFields } from "./components/ManifestFields";
+import { TransferResult } from "./components/TransferResult";
+import {
+  TimeoutFormValues,
+  parseTimeoutOverrides,
+  resolveTimeouts,
+} from "./utils/timeouts";
+import {
+  BandwidthFormValues,
+  parseBandwidthLimit,
+  formatBandwidthLimit,
+} from "./utils/bandwidth";
+import { rememberLanHost, updateHostDefaults } from "./utils/hostDefaults";
+import { RsyncPathFormValues } from "./utils/rsyncPath";
+import {
+  OwnershipFormValues,
+  formatOwnershipOptions,
+  readOwnershipFormValues,
+} from "./utils/ownership";
+import {
+  CompressionFormValues,
+  readCompressionFormValues,
+} from "./utils/compression";
+import { LargeFileFormValues, readLargeFileFormValues } from "./utils/resume";
+import {
+  recordInterruptedTransfer,
+  removeInterruptedTransfer,
+} from "./utils/interruptedTransfers";
+import {
+  ManifestFormValues,
+  readManifestFormValues,
+  findMissingManifestEntries,
+  formatMissingEntries,
+} from "./utils/manifest";
+import { DEFAULT_BACKUP_DIR } from "./utils/backup";
 
 /**
  * Main upload command component
@@ -30,6 +88,7 @@ import { getRsyncPreferences } from "./utils/preferences";
  */
 export default function Command() {
   const [hosts, setHosts] = useState<SSHHostConfig[]>([]);
+  const [daemons, setDaemons] = useState<RsyncDaemonConfig[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -40,8 +99,10 @@ export default function Command() {
   async function loadHosts() {
     try {
       const parsedHosts = parseSSHConfig();
+      const savedDaemons = await getDaemonHosts();
+      setDaemons(savedDaemons);
 
-      if (parsedHosts.length === 0) {
+      if (parsedHosts.length === 0 && savedDaemons.length === 0) {
         const errorMsg = "No host entries found in SSH config file";
         setError(errorMsg);
         console.warn("SSH config parsed but no hosts found");
@@ -93,6 +154,11 @@ export default function Command() {
           }
         />
       ))}
+      <DaemonListSection
+        daemons={daemons}
+        actionTitle="Select Files to Upload"
+        target={(daemon) => <FileSelectionView hostConfig={daemon} />}
+      />
     </List>
   );
 }
@@ -101,8 +167,9 @@ export default function Command() {
  * File selection view
  * Allows user to select local files to upload
  */
-function FileSelectionView({ hostConfig }: { hostConfig: SSHHostConfig }) {
+function FileSelectionView({ hostConfig }: { hostConfig: HostConfig }) {
   const [selectedPath, setSelectedPath] = useState<string>("");
+  const [finderPaths, setFinderPaths] = useState<string[]>([]);
   const [isSelecting, setIsSelecting] = useState(false);
 
   async function selectFiles() {
@@ -112,9 +179,9 @@ function FileSelectionView({ hostConfig }: { hostConfig: SSHHostConfig }) {
       const finderItems = await getSelectedFinderItems();
 
       if (finderItems.length > 0) {
-        // Use the first selected item
-        setSelectedPath(finderItems[0].path);
-        console.log("Selected file from Finder:", finderItems[0].path);
+        // Upload every selected item; the list lets the user drop some first
+        setFinderPaths(finderItems.map((item) => item.path));
+        console.log(`Selected ${finderItems.length} item(s) from Finder`);
       } else {
         // No items selected, fall back to manual entry
         setSelectedPath(""); // Reset and show form
@@ -147,6 +214,31 @@ function FileSelectionView({ hostConfig }: { hostConfig: SSHHostConfig }) {
     selectFiles();
   }, []);
 
+  // Removing every Finder item falls back to manual entry
+  if (finderPaths.length > 0) {
+    return (
+      <FileList
+        files={finderPaths}
+        navigationTitle={`Upload ${finderPaths.length} Item(s) to ${hostConfig.host}`}
+        onRemove={(filePath: string) =>
+          setFinderPaths((paths) => paths.filter((path) => path !== filePath))
+        }
+        actions={
+          <Action.Push
+            title="Continue"
+            icon={Icon.ArrowRight}
+            target={
+              <RemotePathForm
+                hostConfig={hostConfig}
+                localPaths={finderPaths}
+              />
+            }
+          />
+        }
+      />
+    );
+  }
+
   return (
     <Form
       isLoading={isSelecting}
@@ -157,7 +249,7 @@ function FileSelectionView({ hostConfig }: { hostConfig: SSHHostConfig }) {
             target={
               <RemotePathForm
                 hostConfig={hostConfig}
-                localPath={selectedPath}
+                localPaths={[selectedPath]}
               />
             }
           />
@@ -182,29 +274,60 @@ function FileSelectionView({ hostConfig }: { hostConfig: SSHHostConfig }) {
       {hostConfig.port && (
         <Form.Description title="Port" text={hostConfig.port.toString()} />
       )}
-      {hostConfig.identityFile && (
-        <Form.Description
-          title="Identity File"
-          text={hostConfig.identityFile}
-        />
+      {isRsyncDaemon(hostConfig) ? (
+        <Form.Description title="Module" text={formatDaemonUrl(hostConfig)} />
+      ) : (
+        hostConfig.identityFile && (
+          <Form.Description
+            title="Identity File"
+            text={hostConfig.identityFile}
+          />
+        )
       )}
     </Form>
   );
 }
 
+/**
+ * Values submitted by the transfer form
+ */
+interface TransferFormValues
+  extends
+    TimeoutFormValues,
+    BandwidthFormValues,
+    RsyncPathFormValues,
+    OwnershipFormValues,
+    CompressionFormValues,
+    LargeFileFormValues,
+    ManifestFormValues {
+  remotePath: string;
+  humanReadable: boolean;
+  progress: boolean;
+  deleteExtra: boolean;
+  backup: boolean;
+  backupDir: string;
+  createDestinationPath: boolean;
+  preserveXattrs: boolean;
+  comparisonMode: ComparisonMode;
+  verifyAfterTransfer: boolean;
+  filterRules: string;
+  honorIgnoreFiles: boolean;
+}
+
 /**
  * Remote path input form
  * Allows user to specify destination path on remote server
  */
 function RemotePathForm({
   hostConfig,
-  localPath,
+  localPaths,
 }: {
-  hostConfig: SSHHostConfig;
-  localPath: string;
+  hostConfig: HostConfig;
+  localPaths: string[];
 }) {
   const [remotePath, setRemotePath] = useState<string>("");
   const [remotePathError, setRemotePathError] = useState<string | undefined>();
+  const { push } = useNavigation();
 
   // Initialize rsync options with global preferences
   const defaultRsyncOptions = getRsyncPreferences();
@@ -217,17 +340,49 @@ function RemotePathForm({
   const [deleteExtra, setDeleteExtra] = useState<boolean>(
     defaultRsyncOptions.delete ?? false,
   );
+  // Backups are the safety net for --delete, so they default to on with it
+  const [backup, setBackup] = useState<boolean>(
+    defaultRsyncOptions.delete ?? false,
+  );
+  const [backupDir, setBackupDir] = useState<string>("");
+  const [createDestinationPath, setCreateDestinationPath] =
+    useState<boolean>(false);
+  const [preserveXattrs, setPreserveXattrs] = useState<boolean>(false);
+  const [comparisonMode, setComparisonMode] = useState<ComparisonMode>(
+    ComparisonMode.DEFAULT,
+  );
+  const [verifyAfterTransfer, setVerifyAfterTransfer] =
+    useState<boolean>(false);
+  const [filterRules, setFilterRules] = useState<string>(
+    formatFilterRules(defaultRsyncOptions.filterRules ?? []),
+  );
 
-  async function handleSubmit(values: {
-    remotePath: string;
-    humanReadable: boolean;
-    progress: boolean;
-    deleteExtra: boolean;
-  }) {
+  // Ignore files next to the sources; honored by default when any are found
+  const detectedIgnoreFiles = useMemo(
+    () => [
+      ...new Set(
+        localPaths.flatMap((localPath) =>
+          detectIgnoreFiles(expandHomeDir(localPath)),
+        ),
+      ),
+    ],
+    [localPaths],
+  );
+  const [honorIgnoreFiles, setHonorIgnoreFiles] = useState<boolean>(
+    detectedIgnoreFiles.length > 0,
+  );
+
+  /**
+   * Validates the form input and builds the transfer options
+   * @returns Transfer options, or null if validation failed
+   */
+  async function buildTransferOptions(
+    values: TransferFormValues,
+  ): Promise<TransferOptions | null> {
     const remotePathValue = values.remotePath.trim();
 
-    // Validate local path
-    const localValidation = validateLocalPath(localPath);
+    // Validate local paths
+    const localValidation = validateLocalSources(localPaths);
     if (!localValidation.valid) {
       console.error("Local path validation failed:", localValidation.error);
       await showToast({
@@ -237,7 +392,7 @@ function RemotePathForm({
           localValidation.error ||
           "The specified local file or directory does not exist",
       });
-      return;
+      return null;
     }
 
     // Validate remote path
@@ -250,7 +405,7 @@ function RemotePathForm({
         title: "Invalid Remote Path",
         message: remoteValidation.error || "The remote path format is invalid",
       });
-      return;
+      return null;
     }
 
     // Validate host config
@@ -264,59 +419,310 @@ function RemotePathForm({
           hostValidation.error ||
           "The host configuration is incomplete or invalid",
       });
-      return;
+      return null;
+    }
+
+    // Validate timeout overrides
+    const { timeouts, error: timeoutError } = parseTimeoutOverrides(values);
+    if (timeoutError) {
+      console.error("Timeout validation failed:", timeoutError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Timeout",
+        message: timeoutError,
+      });
+      return null;
+    }
+
+    // Validate backup directory
+    const backupDirValidation = validateBackupDir(values.backupDir ?? "");
+    if (values.backup && !backupDirValidation.valid) {
+      console.error(
+        "Backup directory validation failed:",
+        backupDirValidation.error,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Backup Directory",
+        message: backupDirValidation.error,
+      });
+      return null;
+    }
+
+    // Validate bandwidth limit
+    const bandwidthLimit = parseBandwidthLimit(values.bandwidthLimit);
+    if (Number.isNaN(bandwidthLimit)) {
+      console.error(
+        "Bandwidth limit validation failed:",
+        values.bandwidthLimit,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Bandwidth Limit",
+        message: "Enter a rate such as 500 (KB/s), 500K or 10M",
+      });
+      return null;
+    }
+    if (values.rememberBandwidthLimit) {
+      await updateHostDefaults(hostConfig.host, {
+        bandwidthLimit: bandwidthLimit || undefined,
+      });
+    }
+
+    // Validate remote rsync path
+    const rsyncPath = values.rsyncPath?.trim() ?? "";
+    const rsyncPathValidation = validateRsyncPath(rsyncPath);
+    if (!rsyncPathValidation.valid) {
+      console.error(
+        "Remote rsync path validation failed:",
+        rsyncPathValidation.error,
+      );
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Remote Rsync Path",
+        message: rsyncPathValidation.error,
+      });
+      return null;
+    }
+    if (values.rememberRsyncPath) {
+      await updateHostDefaults(hostConfig.host, {
+        rsyncPath: rsyncPath || undefined,
+      });
+    }
+
+    // Validate permission and ownership options
+    const { options: ownership, error: ownershipError } =
+      readOwnershipFormValues(values);
+    if (!ownership) {
+      console.error("Ownership validation failed:", ownershipError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Permission Options",
+        message: ownershipError,
+      });
+      return null;
+    }
+    if (values.rememberOwnership) {
+      await updateHostDefaults(hostConfig.host, {
+        ownership: formatOwnershipOptions(ownership) ? ownership : undefined,
+      });
+    }
+
+    // Validate compression
+    const { options: compression, error: compressionError } =
+      readCompressionFormValues(values);
+    if (!compression) {
+      console.error("Compression validation failed:", compressionError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Compression",
+        message: compressionError,
+      });
+      return null;
+    }
+    await rememberLanHost(hostConfig.host, values.lanHost ?? false);
+
+    // Validate manifest
+    const { entries: manifestEntries, error: manifestError } =
+      readManifestFormValues(values);
+    if (manifestError) {
+      console.error("Manifest validation failed:", manifestError);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Manifest",
+        message: manifestError,
+      });
+      return null;
+    }
+    if (
+      manifestEntries &&
+      (localPaths.length > 1 ||
+        !statSync(expandHomeDir(localPaths[0])).isDirectory())
+    ) {
+      console.error("Manifest needs a single source directory:", localPaths);
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid Manifest",
+        message:
+          "A manifest lists paths inside one directory, so select that directory as the only local path",
+      });
+      return null;
     }
 
-    // Execute transfer using form values
-    await executeTransfer(hostConfig, localPath, remotePathValue, {
-      humanReadable: values.humanReadable,
-      progress: values.progress,
-      delete: values.deleteExtra,
+    const options: TransferOptions = {
+      hostConfig,
+      localPath: localPaths[0],
+      localPaths,
+      remotePath: remotePathValue,
+      direction: TransferDirection.UPLOAD,
+      rsyncOptions: {
+        filesFrom: manifestEntries,
+        humanReadable: values.humanReadable,
+        progress: values.progress,
+        delete: values.deleteExtra,
+        backup: values.backup,
+        backupDir: values.backupDir,
+        createDestinationPath: values.createDestinationPath,
+        preserveXattrs: values.preserveXattrs,
+        comparisonMode: values.comparisonMode,
+        verifyAfterTransfer: values.verifyAfterTransfer,
+        bandwidthLimit,
+        rsyncPath: rsyncPath || undefined,
+        ...ownership,
+        ...compression,
+        ...readLargeFileFormValues(values),
+        filterRules: parseFilterRules(values.filterRules),
+        honorIgnoreFiles: values.honorIgnoreFiles,
+      },
+      timeouts: resolveTimeouts(getTimeoutPreferences(), timeouts),
+      retry: getRetryPreferences(),
+    };
+
+    // Check the manifest against the source before anything is transferred
+    if (manifestEntries && !(await checkManifestEntries(options))) {
+      return null;
+    }
+
+    return options;
+  }
+
+  /**
+   * Checks that every manifest entry exists on the source side
+   * @returns True if the transfer can start
+   */
+  async function checkManifestEntries(
+    options: TransferOptions,
+  ): Promise<boolean> {
+    const checkToast = await showToast({
+      style: Toast.Style.Animated,
+      title: "Checking manifest...",
+      message: `${options.rsyncOptions?.filesFrom?.length} path(s)`,
     });
+
+    try {
+      const missing = await findMissingManifestEntries(options);
+      if (missing.length === 0) {
+        await checkToast.hide();
+        return true;
+      }
+      console.error("Manifest entries not found:", missing);
+      checkToast.style = Toast.Style.Failure;
+      checkToast.title = `${missing.length} Manifest Path(s) Not Found`;
+      checkToast.message = formatMissingEntries(missing);
+    } catch (err) {
+      const errorMessage =
+        (err as { stderr?: string }).stderr?.trim() ||
+        (err instanceof Error ? err.message : "Unknown error occurred");
+      console.error("Manifest check failed:", err);
+      checkToast.style = Toast.Style.Failure;
+      checkToast.title = "Could Not Check Manifest";
+      checkToast.message = errorMessage;
+    }
+    return false;
+  }
+
+  async function handleSubmit(values: TransferFormValues) {
+    const options = await buildTransferOptions(values);
+    if (options) {
+      // Execute transfer using form values
+      await executeTransfer(options);
+    }
   }
 
-  async function executeTransfer(
-    hostConfig: SSHHostConfig,
-    localPath: string,
-    remotePath: string,
-    rsyncOptions: RsyncOptions,
-  ) {
-    // Show initial progress toast
-    await showToast({
+  async function handlePreview(values: TransferFormValues) {
+    const options = await buildTransferOptions(values);
+    if (options) {
+      // Confirming from the preview runs the exact same transfer options
+      push(
+        <TransferPreview
+          options={options}
+          onConfirm={() => executeTransfer(options)}
+        />,
+      );
+    }
+  }
+
+  async function executeTransfer(options: TransferOptions) {
+    const { remotePath } = options;
+    const bandwidthLimit = options.rsyncOptions?.bandwidthLimit;
+    const uploadTarget =
+      localPaths.length > 1
+        ? `${localPaths.length} items to ${hostConfig.host}`
+        : `to ${hostConfig.host}`;
+
+    const abortController = new AbortController();
+
+    // Show initial progress toast; it stays on screen and offers cancellation
+    const progressToast = await showToast({
       style: Toast.Style.Animated,
       title: "Transferring files...",
-      message: `Uploading to ${hostConfig.host}`,
+      message: bandwidthLimit
+        ? `Uploading ${uploadTarget} (limited to ${formatBandwidthLimit(bandwidthLimit)})`
+        : `Uploading ${uploadTarget}`,
+      primaryAction: {
+        title: "Cancel Transfer",
+        onAction: () => abortController.abort(),
+      },
     });
 
     console.log("Starting upload:", {
       host: hostConfig.host,
-      localPath,
+      localPaths,
       remotePath,
     });
 
     try {
-      const options: TransferOptions = {
-        hostConfig,
-        localPath,
-        remotePath,
-        direction: TransferDirection.UPLOAD,
-        rsyncOptions,
-      };
-
       // Progress callback to update toast in real-time
-      const progressCallback = async (progressMessage: string) => {
-        await showToast({
-          style: Toast.Style.Animated,
-          title: "Transferring files...",
-          message: progressMessage,
-        });
+      const progressCallback = (progressMessage: string) => {
+        progressToast.message = progressMessage;
       };
 
-      const result = await executeRsync(options, progressCallback);
+      const result = await executeRsync(
+        options,
+        progressCallback,
+        abortController.signal,
+      );
 
-      if (result.success) {
+      // Interrupted transfers are kept for Resume Interrupted Transfers
+      if (result.resumable) {
+        await recordInterruptedTransfer(options, result.message);
+      } else if (result.success || result.partial) {
+        await removeInterruptedTransfer(options);
+      }
+      const resumeAction = result.resumable
+        ? {
+            title: "Resume Transfer",
+            onAction: () => executeTransfer(options),
+          }
+        : undefined;
+
+      if (result.cancelled) {
+        console.log("Upload cancelled");
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Upload Cancelled",
+          message: result.message,
+          primaryAction: resumeAction,
+        });
+      } else if (
+        result.success &&
+        result.verification &&
+        (result.verification.error || result.verification.mismatches.length > 0)
+      ) {
+        console.error("Upload verification failed:", result.verification);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Upload Verification Failed",
+          message:
+            result.verification.error ??
+            `${result.verification.mismatches.length} file(s) do not match`,
+        });
+        push(
+          <TransferResult title="Upload Verification Failed" result={result} />,
+        );
+      } else if (result.success) {
         console.log("Upload completed successfully");
-        // Show formatted rsync output message (includes file sizes and progress if flags enabled)
+        // Show the statistics summary (falls back to rsync's last output lines)
         await showToast({
           style: Toast.Style.Success,
           title: "Upload Successful",
@@ -326,14 +732,29 @@ function RemotePathForm({
         if (result.stdout) {
           console.log("Rsync output:", result.stdout);
         }
-        // Close the extension after successful upload
-        await popToRoot();
+        // Show the transfer statistics
+        push(<TransferResult title="Upload Successful" result={result} />);
+      } else if (result.partial) {
+        console.warn("Upload completed with warnings:", result.stderr);
+        await showToast({
+          style: Toast.Style.Failure,
+          title: "Upload Completed with Warnings",
+          message: result.message,
+        });
+        push(
+          <TransferResult
+            title="Upload Completed with Warnings"
+            result={result}
+          />,
+        );
       } else {
         console.error("Upload failed:", result.message);
+        // Skipped options may explain the failure (e.g. a missing destination without --mkpath)
         await showToast({
           style: Toast.Style.Failure,
           title: "Upload Failed",
-          message: result.message,
+          message: [result.message, ...(result.warnings ?? [])].join("\n"),
+          primaryAction: resumeAction,
         });
       }
     } catch (err) {
@@ -353,6 +774,11 @@ function RemotePathForm({
       actions={
         <ActionPanel>
           <Action.SubmitForm title="Upload" onSubmit={handleSubmit} />
+          <Action.SubmitForm
+            title="Preview Changes"
+            icon={Icon.Eye}
+            onSubmit={handlePreview}
+          />
         </ActionPanel>
       }
     >
@@ -368,7 +794,10 @@ function RemotePathForm({
         error={remotePathError}
         info="Enter the destination path on the remote server"
       />
-      <Form.Description title="Local Path" text={localPath} />
+      <Form.Description
+        title={localPaths.length > 1 ? "Local Paths" : "Local Path"}
+        text={localPaths.join("\n")}
+      />
       <Form.Description
         title="Host"
         text={`${hostConfig.host}${hostConfig.hostName ? ` (${hostConfig.hostName})` : ""}`}
@@ -396,9 +825,107 @@ function RemotePathForm({
         id="deleteExtra"
         label="Delete extraneous files (--delete)"
         value={deleteExtra}
-        onChange={setDeleteExtra}
+        onChange={(value: boolean) => {
+          setDeleteExtra(value);
+          if (value) {
+            setBackup(true);
+          }
+        }}
         info="Delete files in destination that don't exist in source (use with caution)"
       />
+      <Form.Checkbox
+        id="backup"
+        label="Back up overwritten and deleted files (--backup)"
+        value={backup}
+        onChange={setBackup}
+        info="Move files that would be overwritten or deleted into a timestamped backup directory on the destination, so a mistaken sync can be reverted by hand. Turned on whenever --delete is checked"
+      />
+      {backup && (
+        <Form.TextField
+          id="backupDir"
+          title="Backup Directory"
+          placeholder={DEFAULT_BACKUP_DIR}
+          value={backupDir}
+          onChange={setBackupDir}
+          info="Directory on the destination side (--backup-dir), absolute or relative to the destination. {timestamp} is replaced with the transfer start time"
+        />
+      )}
+      <Form.Checkbox
+        id="createDestinationPath"
+        label="Create missing destination folders (--mkpath)"
+        value={createDestinationPath}
+        onChange={setCreateDestinationPath}
+        info="Create the destination path if it does not exist yet. Needs rsync 3.2.3 or newer on both machines; skipped with a warning otherwise"
+      />
+      <Form.Checkbox
+        id="preserveXattrs"
+        label="Preserve extended attributes (-X)"
+        value={preserveXattrs}
+        onChange={setPreserveXattrs}
+        info="Copy extended attributes such as macOS Finder tags. Needs xattr support on both machines; skipped with a warning otherwise"
+      />
+      <Form.Dropdown
+        id="comparisonMode"
+        title="Compare Files By"
+        value={comparisonMode}
+        onChange={(value: string) => setComparisonMode(value as ComparisonMode)}
+        info="How rsync decides which files changed. Checksums (-c) read every file on both sides but are immune to clock skew; size only (--size-only) ignores modification times"
+      >
+        <Form.Dropdown.Item
+          value={ComparisonMode.DEFAULT}
+          title="Modification time and size"
+        />
+        <Form.Dropdown.Item
+          value={ComparisonMode.CHECKSUM}
+          title="Checksum (-c)"
+        />
+        <Form.Dropdown.Item
+          value={ComparisonMode.SIZE_ONLY}
+          title="Size only (--size-only)"
+        />
+      </Form.Dropdown>
+      {!isRsyncDaemon(hostConfig) && (
+        <Form.Checkbox
+          id="verifyAfterTransfer"
+          label="Verify after transfer (SHA-256)"
+          value={verifyAfterTransfer}
+          onChange={setVerifyAfterTransfer}
+          info="Compare the SHA-256 of every transferred file locally and on the server, and list any mismatches"
+        />
+      )}
+      <Form.TextArea
+        id="filterRules"
+        title="Filter Rules"
+        placeholder={"- node_modules/\n- .git/\n+ *.log"}
+        value={filterRules}
+        onChange={setFilterRules}
+        info="One rule per line, applied in order: '+ PATTERN' includes, '- PATTERN' (or a bare pattern) excludes, other rsync filter rules such as ':- .gitignore' are passed to --filter"
+      />
+      <Form.Checkbox
+        id="honorIgnoreFiles"
+        label="Honor .gitignore and .rsyncignore"
+        value={honorIgnoreFiles}
+        onChange={setHonorIgnoreFiles}
+        info="Skip files matched by .gitignore/.rsyncignore in the uploaded directory, its subdirectories, and its parents up to the repository root. Anchored patterns (such as /build) in parent directories are matched against the directory they are written in; ones using wildcards in leading directories are skipped"
+      />
+      <Form.Description
+        title="Detected Ignore Files"
+        text={
+          detectedIgnoreFiles.length > 0
+            ? detectedIgnoreFiles.join("\n")
+            : "None found (nested ignore files are still honored when enabled)"
+        }
+      />
+      <ManifestFields sourceDescription="the local directory" />
+      <BandwidthFields host={hostConfig.host} />
+      <CompressionFields host={hostConfig.host} />
+      <LargeFileFields />
+      {!isRsyncDaemon(hostConfig) && <RsyncPathFields host={hostConfig.host} />}
+      <OwnershipFields
+        host={hostConfig.host}
+        destinationDescription="the server"
+      />
+      <TimeoutFields defaults={getTimeoutPreferences()} />
     </Form>
   );
 }
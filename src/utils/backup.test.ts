@@ -0,0 +1,132 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_BACKUP_DIR,
+  formatBackupTimestamp,
+  resolveBackupDir,
+  buildBackupProtectRule,
+  describeBackupLocation,
+} from "./backup";
+import { TransferDirection, TransferOptions } from "../types/server";
+
+describe("Backups", () => {
+  const startTime = new Date(2024, 2, 5, 14, 7, 9);
+
+  describe("formatBackupTimestamp", () => {
+    it("should format a sortable local timestamp without colons", () => {
+      expect(formatBackupTimestamp(startTime)).toBe("2024-03-05_14-07-09");
+    });
+  });
+
+  describe("resolveBackupDir", () => {
+    it("should use the default directory when none is configured", () => {
+      expect(DEFAULT_BACKUP_DIR).toContain("{timestamp}");
+      expect(resolveBackupDir(undefined, startTime)).toBe(
+        ".rsync-backups/2024-03-05_14-07-09",
+      );
+      expect(resolveBackupDir("  ", startTime)).toBe(
+        ".rsync-backups/2024-03-05_14-07-09",
+      );
+    });
+
+    it("should replace every timestamp placeholder", () => {
+      expect(resolveBackupDir("/srv/backups/{timestamp}", startTime)).toBe(
+        "/srv/backups/2024-03-05_14-07-09",
+      );
+      expect(resolveBackupDir("old", startTime)).toBe("old");
+    });
+  });
+
+  describe("buildBackupProtectRule", () => {
+    it("should protect the top-level directory of a relative backup directory", () => {
+      expect(buildBackupProtectRule(".rsync-backups/2024-03-05")).toBe(
+        "P /.rsync-backups/",
+      );
+      expect(buildBackupProtectRule("./old")).toBe("P /old/");
+    });
+
+    it("should protect every run when the top-level directory is timestamped", () => {
+      expect(buildBackupProtectRule("backup-{timestamp}")).toBe("P /backup-*/");
+      expect(buildBackupProtectRule("{timestamp}/files")).toBe("P /*/");
+      expect(buildBackupProtectRule("")).toBe("P /.rsync-backups/");
+    });
+
+    it("should not protect directories outside the destination", () => {
+      expect(buildBackupProtectRule("/srv/backups/2024")).toBeUndefined();
+      expect(buildBackupProtectRule("../backups")).toBeUndefined();
+    });
+  });
+
+  describe("describeBackupLocation", () => {
+    const options: TransferOptions = {
+      hostConfig: { host: "production" },
+      localPath: "/local/site",
+      remotePath: "/var/www/",
+      direction: TransferDirection.UPLOAD,
+    };
+
+    it("should prefix remote backup locations with the host", () => {
+      expect(
+        describeBackupLocation(options, ".rsync-backups/1", "/var/www/"),
+      ).toBe("production:/var/www/.rsync-backups/1");
+      expect(describeBackupLocation(options, "/srv/backups", "/var/www/")).toBe(
+        "production:/srv/backups",
+      );
+    });
+
+    it("should resolve local backup locations for downloads", () => {
+      expect(
+        describeBackupLocation(
+          { ...options, direction: TransferDirection.DOWNLOAD },
+          ".rsync-backups/1",
+          "/local/downloads/",
+        ),
+      ).toBe("/local/downloads/.rsync-backups/1");
+    });
+
+    it("should place remote-to-remote backups on the destination host", () => {
+      expect(
+        describeBackupLocation(
+          {
+            ...options,
+            destinationHostConfig: { host: "mirror" },
+            destinationPath: "/srv/www",
+            direction: TransferDirection.REMOTE_TO_REMOTE,
+          },
+          ".rsync-backups/1",
+          "/srv/www/",
+        ),
+      ).toBe("mirror:/srv/www/.rsync-backups/1");
+    });
+
+    it("should resolve local backup locations for local transfers", () => {
+      expect(
+        describeBackupLocation(
+          {
+            ...options,
+            destinationPath: "/Volumes/USB",
+            direction: TransferDirection.LOCAL,
+          },
+          ".rsync-backups/1",
+          "/Volumes/USB/",
+        ),
+      ).toBe("/Volumes/USB/.rsync-backups/1");
+    });
+
+    it("should describe daemon backup locations as module URLs", () => {
+      expect(
+        describeBackupLocation(
+          {
+            ...options,
+            hostConfig: {
+              host: "NAS",
+              hostName: "nas.local",
+              module: "backups",
+            },
+          },
+          ".rsync-backups/1",
+          "/site/",
+        ),
+      ).toBe("rsync://nas.local/backups/site/.rsync-backups/1");
+    });
+  });
+});
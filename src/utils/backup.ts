@@ -0,0 +1,93 @@
+import { isAbsolute, join, posix } from "path";
+import { TransferDirection, TransferOptions } from "../types/server";
+import { formatDaemonUrl, isRsyncDaemon } from "./rsyncDaemon";
+
+/**
+ * Default backup directory, relative to the destination
+ */
+export const DEFAULT_BACKUP_DIR = ".rsync-backups/{timestamp}";
+
+/**
+ * Placeholder replaced with the transfer start time
+ */
+const TIMESTAMP_PLACEHOLDER = /\{timestamp\}/g;
+
+/**
+ * Formats a date for backup directory names
+ * @param date - Transfer start time
+ * @returns Local time such as "2024-03-05_14-07-09" (sortable, no colons)
+ */
+export function formatBackupTimestamp(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    `_${pad(date.getHours())}-${pad(date.getMinutes())}-${pad(date.getSeconds())}`
+  );
+}
+
+/**
+ * Resolves the backup directory of a transfer
+ * @param template - Configured directory; empty uses the default
+ * @param date - Transfer start time
+ * @returns Directory with {timestamp} replaced
+ */
+export function resolveBackupDir(
+  template: string | undefined,
+  date: Date = new Date(),
+): string {
+  const trimmedTemplate = (template ?? "").trim() || DEFAULT_BACKUP_DIR;
+  return trimmedTemplate.replace(
+    TIMESTAMP_PLACEHOLDER,
+    formatBackupTimestamp(date),
+  );
+}
+
+/**
+ * Builds the filter rule that keeps --delete away from a backup directory
+ * inside the destination, so earlier backups are never deleted
+ * A timestamp in the top-level directory becomes a wildcard, so the rule
+ * covers the directories of earlier runs too
+ * @param template - Configured directory before {timestamp} is replaced; empty uses the default
+ * @returns Protect rule for its top-level directory, or undefined if it lies outside
+ */
+export function buildBackupProtectRule(
+  template: string | undefined,
+): string | undefined {
+  const backupDir = (template ?? "").trim() || DEFAULT_BACKUP_DIR;
+  if (backupDir.startsWith("/")) {
+    return undefined;
+  }
+  const topLevel = backupDir
+    .replace(/^\.\//, "")
+    .split("/")[0]
+    .replace(TIMESTAMP_PLACEHOLDER, "*");
+  return topLevel && topLevel !== ".." ? `P /${topLevel}/` : undefined;
+}
+
+/**
+ * Describes where backups of a transfer end up
+ * @param options - Transfer options
+ * @param backupDir - Resolved backup directory
+ * @param destinationDir - Normalized destination directory
+ * @returns Location such as "server:/var/www/.rsync-backups/2024-03-05_14-07-09"
+ */
+export function describeBackupLocation(
+  options: TransferOptions,
+  backupDir: string,
+  destinationDir: string,
+): string {
+  if (
+    options.direction === TransferDirection.DOWNLOAD ||
+    options.direction === TransferDirection.LOCAL
+  ) {
+    return isAbsolute(backupDir) ? backupDir : join(destinationDir, backupDir);
+  }
+  const remoteDir = backupDir.startsWith("/")
+    ? backupDir
+    : posix.join(destinationDir, backupDir);
+  // Remote-to-remote transfers keep their backups on the destination host
+  const host = options.destinationHostConfig ?? options.hostConfig;
+  return isRsyncDaemon(host)
+    ? formatDaemonUrl(host, remoteDir)
+    : `${host.host}:${remoteDir}`;
+}
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { parseBandwidthLimit, formatBandwidthLimit } from "./bandwidth";
+
+describe("Bandwidth Limits", () => {
+  describe("parseBandwidthLimit", () => {
+    it("should treat plain numbers as KB/s", () => {
+      expect(parseBandwidthLimit("500")).toBe(500);
+      expect(parseBandwidthLimit(" 0 ")).toBe(0);
+    });
+
+    it("should accept K, M and G suffixes", () => {
+      expect(parseBandwidthLimit("500K")).toBe(500);
+      expect(parseBandwidthLimit("10M")).toBe(10240);
+      expect(parseBandwidthLimit("1.5m")).toBe(1536);
+      expect(parseBandwidthLimit("1G")).toBe(1048576);
+      expect(parseBandwidthLimit("10 MB/s")).toBe(10240);
+    });
+
+    it("should return undefined for empty input", () => {
+      expect(parseBandwidthLimit("")).toBeUndefined();
+      expect(parseBandwidthLimit(undefined)).toBeUndefined();
+    });
+
+    it("should return NaN for invalid input", () => {
+      expect(parseBandwidthLimit("fast")).toBeNaN();
+      expect(parseBandwidthLimit("-5")).toBeNaN();
+      expect(parseBandwidthLimit("10T")).toBeNaN();
+    });
+  });
+
+  describe("formatBandwidthLimit", () => {
+    it("should format limits in KB/s or MB/s", () => {
+      expect(formatBandwidthLimit(500)).toBe("500 KB/s");
+      expect(formatBandwidthLimit(10240)).toBe("10 MB/s");
+      expect(formatBandwidthLimit(1536)).toBe("1.5 MB/s");
+    });
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Units accepted in a bandwidth limit, in KB (rsync --bwlimit uses 1024-byte units)
+ */
+const UNIT_MULTIPLIERS: Record<string, number> = {
+  k: 1,
+  m: 1024,
+  g: 1024 * 1024,
+};
+
+/**
+ * Raw bandwidth inputs from a transfer form
+ */
+export interface BandwidthFormValues {
+  bandwidthLimit?: string; // KB/s, or with a K/M/G suffix
+  rememberBandwidthLimit?: boolean; // Save the limit as the host default
+}
+
+/**
+ * Parses a bandwidth limit entered by the user
+ * @param value - Raw input such as "500", "500K", "10M" or "1.5M" (plain numbers are KB/s)
+ * @returns Limit in KB/s, undefined if empty, or NaN if invalid
+ */
+export function parseBandwidthLimit(
+  value: string | undefined,
+): number | undefined {
+  const trimmedValue = (value ?? "").trim();
+  if (trimmedValue === "") {
+    return undefined;
+  }
+
+  const match = trimmedValue.match(
+    /^(\d+(?:\.\d+)?)\s*([kmg])?(?:i?b(?:\/s)?)?$/i,
+  );
+  if (!match) {
+    return NaN;
+  }
+
+  const unit = (match[2] ?? "k").toLowerCase();
+  return Math.round(Number(match[1]) * UNIT_MULTIPLIERS[unit]);
+}
+
+/**
+ * Formats a bandwidth limit for display
+ * @param limit - Limit in KB/s
+ * @returns Limit such as "500 KB/s" or "10 MB/s"
+ */
+export function formatBandwidthLimit(limit: number): string {
+  if (limit >= 1024) {
+    const megabytes = limit / 1024;
+    return `${Number.isInteger(megabytes) ? megabytes : megabytes.toFixed(1)} MB/s`;
+  }
+  return `${limit} KB/s`;
+}
@@ -0,0 +1,461 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  parseRsyncCapabilities,
+  describeRsync,
+  adaptRsyncOptions,
+  needsRemoteCapabilities,
+  getLocalCapabilities,
+  getRemoteCapabilities,
+  clearCapabilitiesCache,
+} from "./capabilities";
+import {
+  CompressionMode,
+  RsyncCapabilities,
+  RsyncFeature,
+  RsyncImplementation,
+  SSHHostConfig,
+} from "../types/server";
+import { execFile } from "child_process";
+import { executeRemoteCommand } from "./ssh";
+
+vi.mock("child_process", async () => {
+  const actual =
+    await vi.importActual<typeof import("child_process")>("child_process");
+  return {
+    ...actual,
+    execFile: vi.fn(),
+  };
+});
+
+vi.mock("./ssh", () => ({
+  executeRemoteCommand: vi.fn(),
+}));
+
+// In-memory LocalStorage, so stored capabilities outlive the session cache
+const storage = vi.hoisted(() => new Map<string, string>());
+vi.mock("@raycast/api", () => ({
+  LocalStorage: {
+    getItem: vi.fn(async (key: string) => storage.get(key)),
+    setItem: vi.fn(async (key: string, value: string) => {
+      storage.set(key, value);
+    }),
+    removeItem: vi.fn(async (key: string) => {
+      storage.delete(key);
+    }),
+    allItems: vi.fn(async () => Object.fromEntries(storage)),
+  },
+}));
+
+const RSYNC_3_2_7_OUTPUT = `rsync  version 3.2.7  protocol version 31
+Copyright (C) 1996-2022 by Andrew Tridgell, Wayne Davison, and others.
+Web site: https://rsync.samba.org/
+Capabilities:
+    64-bit files, 64-bit inums, 64-bit timestamps, 64-bit long ints,
+    socketpairs, symlinks, symtimes, hardlinks, hardlink-specials,
+    hardlink-symlinks, IPv6, atimes, batchfiles, inplace, append, ACLs,
+    xattrs, optional secluded-args, iconv, prealloc, stop-at, no crtimes
+Optimizations:
+    SIMD-roll, no asm-roll, openssl-crypto, no asm-MD5
+Checksum list:
+    xxh128 xxh3 xxh64 (xxhash) md5 md4 sha1 none
+Compress list:
+    zstd lz4 zlibx zlib none
+Daemon auth list:
+    sha512 sha256 sha1 md5 md4
+
+rsync comes with ABSOLUTELY NO WARRANTY.`;
+
+const RSYNC_3_1_3_OUTPUT = `rsync  version 3.1.3  protocol version 31
+Copyright (C) 1996-2018 by Andrew Tridgell, Wayne Davison, and others.
+Web site: http://rsync.samba.org/
+Capabilities:
+    64-bit files, 64-bit inums, 64-bit timestamps, 64-bit long ints,
+    socketpairs, hardlinks, symlinks, IPv6, batchfiles, inplace,
+    append, ACLs, xattrs, iconv, symtimes, prealloc`;
+
+const RSYNC_2_6_9_OUTPUT = `rsync  version 2.6.9  protocol version 29
+Copyright (C) 1996-2006 by Andrew Tridgell, Wayne Davison, and others.
+<http://rsync.samba.org/>
+Capabilities: 64-bit files, socketpairs, hard links, symlinks, batchfiles,
+              inplace, IPv6, 64-bit system inums, 64-bit internal inums`;
+
+const OPENRSYNC_OUTPUT = `openrsync: protocol version 29
+rsync version 2.6.9 compatible`;
+
+describe("Rsync Capabilities", () => {
+  const mockHostConfig: SSHHostConfig = {
+    host: "testserver",
+    hostName: "example.com",
+  };
+
+  describe("parseRsyncCapabilities", () => {
+    it("should parse rsync 3.2.7 with all features", () => {
+      expect(parseRsyncCapabilities(RSYNC_3_2_7_OUTPUT)).toEqual({
+        implementation: RsyncImplementation.SAMBA,
+        version: { major: 3, minor: 2, patch: 7 },
+        features: [
+          RsyncFeature.PROTECT_ARGS,
+          RsyncFeature.APPEND_VERIFY,
+          RsyncFeature.SKIP_COMPRESS,
+          RsyncFeature.PARTIAL_DIR,
+          RsyncFeature.PROGRESS2,
+          RsyncFeature.MKPATH,
+          RsyncFeature.CHOWN,
+          RsyncFeature.ICONV,
+          RsyncFeature.ZSTD,
+          RsyncFeature.LZ4,
+          RsyncFeature.COMPRESS_CHOICE,
+          RsyncFeature.XATTRS,
+        ],
+      });
+    });
+
+    it("should parse rsync 3.1.3 without mkpath and zstd", () => {
+      expect(parseRsyncCapabilities(RSYNC_3_1_3_OUTPUT)?.features).toEqual([
+        RsyncFeature.PROTECT_ARGS,
+        RsyncFeature.APPEND_VERIFY,
+        RsyncFeature.SKIP_COMPRESS,
+        RsyncFeature.PARTIAL_DIR,
+        RsyncFeature.PROGRESS2,
+        RsyncFeature.CHOWN,
+        RsyncFeature.ICONV,
+        RsyncFeature.XATTRS,
+      ]);
+    });
+
+    it("should parse the macOS rsync 2.6.9 without optional features", () => {
+      const capabilities = parseRsyncCapabilities(RSYNC_2_6_9_OUTPUT);
+      expect(capabilities?.version).toEqual({ major: 2, minor: 6, patch: 9 });
+      expect(capabilities?.features).toEqual([RsyncFeature.PARTIAL_DIR]);
+    });
+
+    it("should not treat disabled capabilities as available", () => {
+      const output = RSYNC_3_2_7_OUTPUT.replace(
+        "xattrs, optional",
+        "no xattrs, optional",
+      ).replace("iconv, prealloc", "no iconv, prealloc");
+
+      const features = parseRsyncCapabilities(output)?.features;
+      expect(features).not.toContain(RsyncFeature.XATTRS);
+      expect(features).not.toContain(RsyncFeature.ICONV);
+    });
+
+    it("should recognise openrsync", () => {
+      expect(parseRsyncCapabilities(OPENRSYNC_OUTPUT)).toEqual({
+        implementation: RsyncImplementation.OPENRSYNC,
+        version: { major: 2, minor: 6, patch: 9 },
+        features: [],
+      });
+    });
+
+    it("should return undefined for other output", () => {
+      expect(parseRsyncCapabilities("bash: rsync: command not found")).toBe(
+        undefined,
+      );
+    });
+  });
+
+  describe("describeRsync", () => {
+    it("should describe the implementation and version", () => {
+      expect(describeRsync(parseRsyncCapabilities(RSYNC_3_1_3_OUTPUT)!)).toBe(
+        "rsync 3.1.3",
+      );
+      expect(describeRsync(parseRsyncCapabilities(OPENRSYNC_OUTPUT)!)).toBe(
+        "openrsync",
+      );
+    });
+  });
+
+  describe("adaptRsyncOptions", () => {
+    const modern = parseRsyncCapabilities(RSYNC_3_2_7_OUTPUT);
+    const older = parseRsyncCapabilities(RSYNC_3_1_3_OUTPUT);
+    const openrsync = parseRsyncCapabilities(OPENRSYNC_OUTPUT);
+    const legacy = parseRsyncCapabilities(RSYNC_2_6_9_OUTPUT);
+
+    it("should keep options supported on both sides", () => {
+      const { options, warnings } = adaptRsyncOptions(
+        { createDestinationPath: true, preserveXattrs: true },
+        modern,
+        modern,
+      );
+
+      expect(options.createDestinationPath).toBe(true);
+      expect(options.preserveXattrs).toBe(true);
+      expect(warnings).toEqual([]);
+    });
+
+    it("should disable options one side does not support and warn", () => {
+      const { options, warnings } = adaptRsyncOptions(
+        { createDestinationPath: true, preserveXattrs: true },
+        openrsync,
+        older,
+      );
+
+      expect(options.createDestinationPath).toBe(false);
+      expect(options.preserveXattrs).toBe(false);
+      expect(warnings).toHaveLength(2);
+      expect(warnings[0]).toContain("local openrsync and remote rsync 3.1.3");
+      expect(warnings[1]).toContain("local openrsync");
+      expect(warnings[1]).not.toContain("remote");
+    });
+
+    it("should drop --chown when one side is older than rsync 3.1.0", () => {
+      const { options, warnings } = adaptRsyncOptions(
+        { chown: "www-data:www-data", numericIds: true },
+        modern,
+        openrsync,
+      );
+
+      expect(options.chown).toBeUndefined();
+      expect(options.numericIds).toBe(true);
+      expect(warnings).toEqual([
+        "Setting the owner (--chown, rsync 3.1.0+) is not supported by the remote openrsync, so it was skipped.",
+      ]);
+    });
+
+    it("should fall back to the default compression without --compress-choice", () => {
+      const { options, warnings } = adaptRsyncOptions(
+        { compression: CompressionMode.ZSTD, compressLevel: 15 },
+        modern,
+        older,
+      );
+
+      expect(options.compression).toBe(CompressionMode.DEFAULT);
+      expect(options.compressLevel).toBeUndefined();
+      expect(warnings).toEqual([
+        "zstd compression (--compress-choice) is not supported by the remote rsync 3.1.3, so the default compression was used.",
+      ]);
+    });
+
+    it("should keep a compression algorithm both sides support", () => {
+      const { options, warnings } = adaptRsyncOptions(
+        { compression: CompressionMode.LZ4, skipCompress: ["jpg"] },
+        modern,
+        modern,
+      );
+
+      expect(options.compression).toBe(CompressionMode.LZ4);
+      expect(options.skipCompress).toEqual(["jpg"]);
+      expect(warnings).toEqual([]);
+    });
+
+    it("should drop --append-verify and --skip-compress for rsync before 3.0.0", () => {
+      const { options, warnings } = adaptRsyncOptions(
+        { appendVerify: true, skipCompress: ["jpg"] },
+        modern,
+        legacy,
+      );
+
+      expect(options.appendVerify).toBe(false);
+      expect(options.skipCompress).toBeUndefined();
+      expect(warnings).toEqual([
+        "Appending to growing files (--append-verify, rsync 3.0.0+) is not supported by the remote rsync 2.6.9, so it was skipped.",
+        "Sending media and archives uncompressed (--skip-compress, rsync 3.0.0+) is not supported by the remote rsync 2.6.9, so it was skipped.",
+      ]);
+    });
+
+    it("should keep partial files in place when --partial-dir is missing", () => {
+      const { options, warnings } = adaptRsyncOptions(
+        { partialDir: ".rsync-partial" },
+        openrsync,
+        legacy,
+      );
+
+      expect(options.partialDir).toBeUndefined();
+      expect(options.partial).toBe(true);
+      expect(warnings).toEqual([
+        "A separate folder for partial files (--partial-dir) is not supported by the local openrsync, so partial files are kept in place (--partial).",
+      ]);
+    });
+
+    it("should assume an unknown side supports the option", () => {
+      const { options, warnings } = adaptRsyncOptions(
+        { createDestinationPath: true },
+        modern,
+        undefined,
+      );
+
+      expect(options.createDestinationPath).toBe(true);
+      expect(warnings).toEqual([]);
+    });
+
+    it("should only protect arguments when both sides support it", () => {
+      expect(adaptRsyncOptions({}, modern, modern).options.protectArgs).toBe(
+        undefined,
+      );
+
+      const { options, warnings } = adaptRsyncOptions({}, modern, legacy);
+
+      expect(options.protectArgs).toBe(false);
+      expect(warnings).toEqual([]);
+    });
+
+    it("should silently fall back from whole-transfer progress", () => {
+      const { options, warnings } = adaptRsyncOptions(
+        { progress: true, overallProgress: true },
+        openrsync,
+      );
+
+      expect(options.overallProgress).toBe(false);
+      expect(warnings).toEqual([]);
+    });
+  });
+
+  describe("needsRemoteCapabilities", () => {
+    it("should only probe the remote side for dependent options", () => {
+      expect(
+        needsRemoteCapabilities({
+          delete: true,
+          progress: true,
+          protectArgs: false,
+        }),
+      ).toBe(false);
+      expect(needsRemoteCapabilities({ delete: true })).toBe(true);
+      expect(
+        needsRemoteCapabilities({ preserveXattrs: true, protectArgs: false }),
+      ).toBe(true);
+      expect(
+        needsRemoteCapabilities({ chown: "deploy", protectArgs: false }),
+      ).toBe(true);
+      expect(
+        needsRemoteCapabilities({ appendVerify: true, protectArgs: false }),
+      ).toBe(true);
+      expect(
+        needsRemoteCapabilities({
+          partialDir: ".rsync-partial",
+          protectArgs: false,
+        }),
+      ).toBe(true);
+      expect(
+        needsRemoteCapabilities({
+          compression: CompressionMode.ZLIB,
+          protectArgs: false,
+        }),
+      ).toBe(true);
+      expect(
+        needsRemoteCapabilities({
+          compression: CompressionMode.OFF,
+          protectArgs: false,
+        }),
+      ).toBe(false);
+      expect(needsRemoteCapabilities(undefined)).toBe(true);
+    });
+  });
+
+  describe("probing", () => {
+    beforeEach(async () => {
+      vi.clearAllMocks();
+      await clearCapabilitiesCache();
+    });
+
+    it("should probe the local rsync once and cache the result", async () => {
+      (execFile as any).mockImplementation(
+        (_file: string, _args: string[], _options: any, callback: any) =>
+          callback(null, { stdout: RSYNC_3_2_7_OUTPUT, stderr: "" }),
+      );
+
+      const first = await getLocalCapabilities();
+      const second = await getLocalCapabilities();
+
+      expect(first?.version).toEqual({ major: 3, minor: 2, patch: 7 });
+      expect(second).toBe(first);
+      expect(execFile).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(execFile).mock.calls[0].slice(0, 2)).toEqual([
+        "rsync",
+        ["--version"],
+      ]);
+    });
+
+    it("should probe each remote host over SSH and cache per host", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: RSYNC_3_1_3_OUTPUT,
+        stderr: "",
+      });
+      const otherHost: SSHHostConfig = { host: "otherserver" };
+
+      const capabilities: (RsyncCapabilities | undefined)[] = [
+        await getRemoteCapabilities(mockHostConfig),
+        await getRemoteCapabilities(mockHostConfig),
+        await getRemoteCapabilities(otherHost),
+      ];
+
+      expect(capabilities[0]?.version?.minor).toBe(1);
+      expect(executeRemoteCommand).toHaveBeenCalledTimes(2);
+      expect(executeRemoteCommand).toHaveBeenCalledWith(
+        mockHostConfig,
+        "rsync --version",
+        undefined,
+      );
+    });
+
+    it("should not cache failed probes", async () => {
+      vi.mocked(executeRemoteCommand)
+        .mockRejectedValueOnce(new Error("Connection refused"))
+        .mockResolvedValueOnce({ stdout: RSYNC_3_2_7_OUTPUT, stderr: "" });
+
+      expect(await getRemoteCapabilities(mockHostConfig)).toBeUndefined();
+      expect(await getRemoteCapabilities(mockHostConfig)).toBeDefined();
+      expect(executeRemoteCommand).toHaveBeenCalledTimes(2);
+    });
+
+    it("should keep remote capabilities for later commands", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: RSYNC_3_1_3_OUTPUT,
+        stderr: "",
+      });
+
+      const probed = await getRemoteCapabilities(mockHostConfig);
+      // A new command starts with an empty session cache
+      await clearCapabilitiesCache(mockHostConfig);
+      expect(storage.has("rsyncCapabilities:ssh:testserver")).toBe(false);
+      await getRemoteCapabilities(mockHostConfig);
+      const stored = storage.get("rsyncCapabilities:ssh:testserver");
+
+      expect(JSON.parse(stored ?? "{}").capabilities).toEqual(probed);
+      expect(executeRemoteCommand).toHaveBeenCalledTimes(2);
+    });
+
+    it("should use stored remote capabilities instead of probing", async () => {
+      const capabilities = parseRsyncCapabilities(RSYNC_3_2_7_OUTPUT);
+      storage.set(
+        "rsyncCapabilities:ssh:testserver",
+        JSON.stringify({ version: 2, probedAt: Date.now(), capabilities }),
+      );
+
+      expect(await getRemoteCapabilities(mockHostConfig)).toEqual(capabilities);
+      expect(executeRemoteCommand).not.toHaveBeenCalled();
+    });
+
+    it("should probe again when stored capabilities are outdated", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: RSYNC_3_2_7_OUTPUT,
+        stderr: "",
+      });
+      const capabilities = parseRsyncCapabilities(RSYNC_3_1_3_OUTPUT);
+      const dayAgo = Date.now() - 25 * 60 * 60 * 1000;
+
+      for (const entry of [
+        { version: 2, probedAt: dayAgo, capabilities },
+        { version: 1, probedAt: Date.now(), capabilities },
+      ]) {
+        await clearCapabilitiesCache();
+        storage.set("rsyncCapabilities:ssh:testserver", JSON.stringify(entry));
+        expect(
+          (await getRemoteCapabilities(mockHostConfig))?.version?.minor,
+        ).toBe(2);
+      }
+      expect(executeRemoteCommand).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only keep the local probe for the session", async () => {
+      (execFile as any).mockImplementation(
+        (_file: string, _args: string[], _options: any, callback: any) =>
+          callback(null, { stdout: RSYNC_3_2_7_OUTPUT, stderr: "" }),
+      );
+
+      await getLocalCapabilities();
+
+      expect(storage.size).toBe(0);
+    });
+  });
+});
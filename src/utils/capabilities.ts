@@ -0,0 +1,530 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import {
+  CompressionMode,
+  RsyncCapabilities,
+  RsyncFeature,
+  RsyncImplementation,
+  RsyncOptions,
+  SSHHostConfig,
+  TimeoutOptions,
+} from "../types/server";
+import { executeRemoteCommand } from "./ssh";
+import {
+  parseRsyncVersion,
+  isVersionAtLeast,
+  supportsOverallProgress,
+} from "./rsyncVersion";
+
+const execFileAsync = promisify(execFile);
+
+/** Time allowed for the local `rsync --version` to answer */
+const LOCAL_PROBE_TIMEOUT_MS = 5000;
+
+/** Cache key of the local machine (remote hosts are keyed by their alias) */
+const LOCAL_CACHE_KEY = "local";
+
+/** Probed capabilities per host, kept for the session */
+const capabilitiesCache = new Map<
+  string,
+  Promise<RsyncCapabilities | undefined>
+>();
+
+/** Storage key prefix of remote capabilities kept between commands */
+const STORAGE_KEY_PREFIX = "rsyncCapabilities:";
+
+/** How long stored remote capabilities are used before the host is probed again */
+const STORED_CAPABILITIES_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Version of the stored capabilities; raised whenever parsing learns new
+ * features, so hosts probed by an older version are probed again
+ */
+const STORED_CAPABILITIES_VERSION = 2;
+
+/**
+ * Remote capabilities as kept in LocalStorage
+ */
+interface StoredCapabilities {
+  version: number; // STORED_CAPABILITIES_VERSION when stored
+  probedAt: number; // Epoch milliseconds
+  capabilities: RsyncCapabilities;
+}
+
+/**
+ * Options that need a feature on both sides of the transfer
+ */
+const OPTION_REQUIREMENTS: {
+  option:
+    | "createDestinationPath"
+    | "preserveXattrs"
+    | "chown"
+    | "appendVerify"
+    | "skipCompress";
+  feature: RsyncFeature;
+  label: string;
+}[] = [
+  {
+    option: "createDestinationPath",
+    feature: RsyncFeature.MKPATH,
+    label: "Creating missing destination folders (--mkpath, rsync 3.2.3+)",
+  },
+  {
+    option: "preserveXattrs",
+    feature: RsyncFeature.XATTRS,
+    label: "Preserving extended attributes (-X)",
+  },
+  {
+    option: "chown",
+    feature: RsyncFeature.CHOWN,
+    label: "Setting the owner (--chown, rsync 3.1.0+)",
+  },
+  {
+    option: "appendVerify",
+    feature: RsyncFeature.APPEND_VERIFY,
+    label: "Appending to growing files (--append-verify, rsync 3.0.0+)",
+  },
+  {
+    option: "skipCompress",
+    feature: RsyncFeature.SKIP_COMPRESS,
+    label:
+      "Sending media and archives uncompressed (--skip-compress, rsync 3.0.0+)",
+  },
+];
+
+/**
+ * Feature each compression algorithm needs on both sides
+ */
+const COMPRESSION_FEATURES: Partial<Record<CompressionMode, RsyncFeature>> = {
+  [CompressionMode.ZSTD]: RsyncFeature.ZSTD,
+  [CompressionMode.LZ4]: RsyncFeature.LZ4,
+  [CompressionMode.ZLIB]: RsyncFeature.COMPRESS_CHOICE,
+};
+
+/**
+ * Reads a comma separated list that follows a heading
+ * The list starts after "Heading:" and continues on indented lines
+ * @param output - `rsync --version` output
+ * @param heading - Heading such as "Capabilities"
+ * @returns Lower-cased entries of the list
+ */
+function readList(output: string, heading: string): string[] {
+  const lines = output.split("\n");
+  const start = lines.findIndex((line) => line.startsWith(`${heading}:`));
+  if (start === -1) {
+    return [];
+  }
+
+  const listLines = [lines[start].slice(heading.length + 1)];
+  for (const line of lines.slice(start + 1)) {
+    if (!/^\s+\S/.test(line)) break;
+    listLines.push(line);
+  }
+
+  return listLines
+    .join(",")
+    .split(",")
+    .map((entry) => entry.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Parses `rsync --version` output into a version and feature list
+ * Handles samba rsync 2.6.9 to 3.3 and openrsync
+ * @param output - `rsync --version` output
+ * @returns Parsed capabilities, or undefined if the output is not from rsync
+ */
+export function parseRsyncCapabilities(
+  output: string,
+): RsyncCapabilities | undefined {
+  const isOpenrsync = /^openrsync/im.test(output);
+  const version = parseRsyncVersion(output);
+
+  if (!isOpenrsync && !version) {
+    return undefined;
+  }
+
+  if (isOpenrsync) {
+    // openrsync implements a subset of rsync 2.6.9 and lists no capabilities
+    return {
+      implementation: RsyncImplementation.OPENRSYNC,
+      version,
+      features: [],
+    };
+  }
+
+  const capabilities = readList(output, "Capabilities");
+  const compressors = readList(output, "Compress list").flatMap((entry) =>
+    entry.split(/\s+/),
+  );
+  const features: RsyncFeature[] = [];
+
+  if (version && isVersionAtLeast(version, 3, 0)) {
+    features.push(
+      RsyncFeature.PROTECT_ARGS,
+      RsyncFeature.APPEND_VERIFY,
+      RsyncFeature.SKIP_COMPRESS,
+    );
+  }
+  if (version && isVersionAtLeast(version, 2, 6)) {
+    features.push(RsyncFeature.PARTIAL_DIR);
+  }
+  if (supportsOverallProgress(version)) {
+    features.push(RsyncFeature.PROGRESS2);
+  }
+  if (version && isVersionAtLeast(version, 3, 2, 3)) {
+    features.push(RsyncFeature.MKPATH);
+  }
+  if (version && isVersionAtLeast(version, 3, 1)) {
+    features.push(RsyncFeature.CHOWN);
+  }
+  // Disabled features are listed with a "no " prefix, e.g. "no iconv"
+  if (capabilities.includes("iconv")) {
+    features.push(RsyncFeature.ICONV);
+  }
+  if (compressors.includes("zstd")) {
+    features.push(RsyncFeature.ZSTD);
+  }
+  if (compressors.includes("lz4")) {
+    features.push(RsyncFeature.LZ4);
+  }
+  // Only rsync 3.2.0+ prints a compress list, and it has --compress-choice
+  if (compressors.includes("zlib")) {
+    features.push(RsyncFeature.COMPRESS_CHOICE);
+  }
+  if (capabilities.includes("xattrs")) {
+    features.push(RsyncFeature.XATTRS);
+  }
+
+  return { implementation: RsyncImplementation.SAMBA, version, features };
+}
+
+/**
+ * Describes the rsync of one side for warnings
+ * @param capabilities - Probed capabilities
+ * @returns Description such as "rsync 3.1.3" or "openrsync"
+ */
+export function describeRsync(capabilities: RsyncCapabilities): string {
+  if (capabilities.implementation === RsyncImplementation.OPENRSYNC) {
+    return "openrsync";
+  }
+  const { version } = capabilities;
+  return version
+    ? `rsync ${version.major}.${version.minor}.${version.patch}`
+    : "rsync";
+}
+
+/**
+ * Checks whether probed capabilities include a feature
+ * @param capabilities - Probed capabilities, undefined if the probe failed
+ * @param feature - Feature to check
+ * @returns True if the feature is known to be available
+ */
+export function hasFeature(
+  capabilities: RsyncCapabilities | undefined,
+  feature: RsyncFeature,
+): boolean {
+  return capabilities?.features.includes(feature) ?? false;
+}
+
+/**
+ * Loads Raycast's LocalStorage on first use
+ * Outside Raycast (e.g. in end-to-end tests) it is unavailable, and probe
+ * results are only kept for the session
+ * @returns LocalStorage, or undefined if the Raycast API cannot be loaded
+ */
+async function loadLocalStorage(): Promise<
+  typeof import("@raycast/api").LocalStorage | undefined
+> {
+  try {
+    return (await import("@raycast/api")).LocalStorage;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads capabilities stored by an earlier command
+ * @param key - Cache key
+ * @returns Stored capabilities, undefined if none were stored, they are outdated or unreadable
+ */
+async function readStoredCapabilities(
+  key: string,
+): Promise<RsyncCapabilities | undefined> {
+  const localStorage = await loadLocalStorage();
+  const stored = await localStorage?.getItem<string>(STORAGE_KEY_PREFIX + key);
+  if (!stored) {
+    return undefined;
+  }
+
+  try {
+    const entry = JSON.parse(stored) as StoredCapabilities;
+    return entry.version === STORED_CAPABILITIES_VERSION &&
+      Date.now() - entry.probedAt < STORED_CAPABILITIES_TTL_MS
+      ? entry.capabilities
+      : undefined;
+  } catch (error) {
+    console.error(`Ignoring unreadable rsync capabilities (${key}):`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Stores probed capabilities for later commands
+ * A failure only costs a probe next time, so it is logged and ignored
+ * @param key - Cache key
+ * @param capabilities - Probed capabilities
+ */
+async function storeCapabilities(
+  key: string,
+  capabilities: RsyncCapabilities,
+): Promise<void> {
+  const entry: StoredCapabilities = {
+    version: STORED_CAPABILITIES_VERSION,
+    probedAt: Date.now(),
+    capabilities,
+  };
+  try {
+    const localStorage = await loadLocalStorage();
+    await localStorage?.setItem(
+      STORAGE_KEY_PREFIX + key,
+      JSON.stringify(entry),
+    );
+  } catch (error) {
+    console.warn(`Could not store rsync capabilities (${key}):`, error);
+  }
+}
+
+/**
+ * Probes and caches the rsync capabilities of a host
+ * Failed probes are not cached so the next transfer tries again
+ * @param key - Cache key
+ * @param probe - Runs `rsync --version` and returns its stdout
+ * @param persist - Also keep the result in LocalStorage for later commands
+ * @returns Probed capabilities, or undefined if the probe failed
+ */
+function getCachedCapabilities(
+  key: string,
+  probe: () => Promise<string>,
+  persist = false,
+): Promise<RsyncCapabilities | undefined> {
+  const cached = capabilitiesCache.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const capabilities = (async () => {
+    const stored = persist ? await readStoredCapabilities(key) : undefined;
+    if (stored) {
+      return stored;
+    }
+
+    const probed = parseRsyncCapabilities(await probe());
+    if (persist && probed) {
+      await storeCapabilities(key, probed);
+    }
+    return probed;
+  })().catch((error) => {
+    console.error(`Failed to detect rsync capabilities (${key}):`, error);
+    capabilitiesCache.delete(key);
+    return undefined;
+  });
+  capabilitiesCache.set(key, capabilities);
+  return capabilities;
+}
+
+/**
+ * Detects the capabilities of the local rsync
+ * The local probe is cheap and rsync may be upgraded at any time, so its result
+ * is only kept for the session
+ * @returns Local capabilities, or undefined if rsync could not be probed
+ */
+export function getLocalCapabilities(): Promise<RsyncCapabilities | undefined> {
+  return getCachedCapabilities(LOCAL_CACHE_KEY, async () => {
+    const { stdout } = await execFileAsync("rsync", ["--version"], {
+      timeout: LOCAL_PROBE_TIMEOUT_MS,
+    });
+    return stdout;
+  });
+}
+
+/**
+ * Detects the capabilities of the rsync on a remote host over SSH
+ * Results are kept in LocalStorage for a day, so later commands skip the probe
+ * @param hostConfig - SSH host configuration
+ * @param timeouts - Optional timeouts for the SSH connection
+ * @returns Remote capabilities, or undefined if rsync could not be probed
+ */
+export function getRemoteCapabilities(
+  hostConfig: SSHHostConfig,
+  timeouts?: TimeoutOptions,
+): Promise<RsyncCapabilities | undefined> {
+  return getCachedCapabilities(
+    `ssh:${hostConfig.host}`,
+    async () => {
+      const { stdout } = await executeRemoteCommand(
+        hostConfig,
+        "rsync --version",
+        timeouts,
+      );
+      return stdout;
+    },
+    true,
+  );
+}
+
+/**
+ * Forgets probed capabilities, including stored ones, e.g. after rsync was upgraded
+ * @param hostConfig - Host to forget; omit to clear every host
+ */
+export async function clearCapabilitiesCache(
+  hostConfig?: SSHHostConfig,
+): Promise<void> {
+  const localStorage = await loadLocalStorage();
+  if (hostConfig) {
+    capabilitiesCache.delete(`ssh:${hostConfig.host}`);
+    await localStorage?.removeItem(
+      `${STORAGE_KEY_PREFIX}ssh:${hostConfig.host}`,
+    );
+    return;
+  }
+
+  capabilitiesCache.clear();
+  if (localStorage) {
+    const storedKeys = Object.keys(await localStorage.allItems()).filter(
+      (key) => key.startsWith(STORAGE_KEY_PREFIX),
+    );
+    await Promise.all(storedKeys.map((key) => localStorage.removeItem(key)));
+  }
+}
+
+/**
+ * Checks whether any requested option depends on the remote capabilities
+ * @param options - Rsync options
+ * @returns True if the remote side has to be probed before the transfer
+ */
+export function needsRemoteCapabilities(options?: RsyncOptions): boolean {
+  return (
+    // --protect-args is sent unless turned off, and rsync before 3.0.0 rejects it
+    (options?.protectArgs ?? true) ||
+    OPTION_REQUIREMENTS.some(({ option }) => options?.[option]) ||
+    Boolean(options?.partialDir) ||
+    (options?.compression !== undefined &&
+      COMPRESSION_FEATURES[options.compression] !== undefined)
+  );
+}
+
+/**
+ * Lists the sides of a transfer that lack a feature
+ * @param feature - Feature to check
+ * @param local - Local capabilities
+ * @param remote - Remote capabilities
+ * @returns Description such as "local openrsync and remote rsync 3.1.3", undefined if both sides may support it
+ */
+function describeUnsupportedSides(
+  feature: RsyncFeature,
+  local?: RsyncCapabilities,
+  remote?: RsyncCapabilities,
+): string | undefined {
+  const unsupported = [
+    { side: "local", capabilities: local },
+    { side: "remote", capabilities: remote },
+  ].filter(
+    ({ capabilities }) => capabilities && !hasFeature(capabilities, feature),
+  );
+
+  if (unsupported.length === 0) {
+    return undefined;
+  }
+  return unsupported
+    .map(
+      ({ side, capabilities }) =>
+        `${side} ${describeRsync(capabilities as RsyncCapabilities)}`,
+    )
+    .join(" and ");
+}
+
+/**
+ * Adapts rsync options to the capabilities of both sides
+ * Unsupported options are disabled with a warning; an unknown side (failed
+ * probe) is assumed to support everything so rsync reports the real error
+ * @param options - Requested rsync options
+ * @param local - Local capabilities
+ * @param remote - Remote capabilities
+ * @returns Options that fit both sides and warnings for what was disabled
+ */
+export function adaptRsyncOptions(
+  options: RsyncOptions,
+  local?: RsyncCapabilities,
+  remote?: RsyncCapabilities,
+): { options: RsyncOptions; warnings: string[] } {
+  const adapted: RsyncOptions = { ...options };
+  const warnings: string[] = [];
+
+  // Whole-transfer progress is only about local output, so it falls back silently
+  if (
+    adapted.overallProgress &&
+    local &&
+    !hasFeature(local, RsyncFeature.PROGRESS2)
+  ) {
+    adapted.overallProgress = false;
+  }
+
+  // Without --protect-args, remote paths are escaped for the remote shell instead
+  if (
+    (adapted.protectArgs ?? true) &&
+    describeUnsupportedSides(RsyncFeature.PROTECT_ARGS, local, remote)
+  ) {
+    adapted.protectArgs = false;
+  }
+
+  for (const { option, feature, label } of OPTION_REQUIREMENTS) {
+    if (!adapted[option]) {
+      continue;
+    }
+
+    const sides = describeUnsupportedSides(feature, local, remote);
+    if (sides) {
+      // Switches are turned off, values such as --chown are dropped
+      Object.assign(adapted, {
+        [option]: typeof adapted[option] === "boolean" ? false : undefined,
+      });
+      warnings.push(
+        `${label} is not supported by the ${sides}, so it was skipped.`,
+      );
+    }
+  }
+
+  // Without --partial-dir, partial files are kept in place instead
+  if (adapted.partialDir) {
+    const sides = describeUnsupportedSides(
+      RsyncFeature.PARTIAL_DIR,
+      local,
+      remote,
+    );
+    if (sides) {
+      warnings.push(
+        `A separate folder for partial files (--partial-dir) is not supported by the ${sides}, so partial files are kept in place (--partial).`,
+      );
+      adapted.partialDir = undefined;
+      adapted.partial = true;
+    }
+  }
+
+  // A compression algorithm one side lacks falls back to the negotiated one;
+  // its level may not fit the fallback, so it is dropped too
+  const compressionFeature =
+    adapted.compression && COMPRESSION_FEATURES[adapted.compression];
+  if (compressionFeature) {
+    const sides = describeUnsupportedSides(compressionFeature, local, remote);
+    if (sides) {
+      warnings.push(
+        `${adapted.compression} compression (--compress-choice) is not supported by the ${sides}, so the default compression was used.`,
+      );
+      adapted.compression = CompressionMode.DEFAULT;
+      adapted.compressLevel = undefined;
+    }
+  }
+
+  return { options: adapted, warnings };
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect } from "vitest";
+import {
+  MEDIA_SKIP_COMPRESS_SUFFIXES,
+  isLanTransfer,
+  readCompressionFormValues,
+  withoutCompression,
+} from "./compression";
+import {
+  CompressionMode,
+  TransferDirection,
+  TransferOptions,
+} from "../types/server";
+
+describe("Compression", () => {
+  describe("readCompressionFormValues", () => {
+    it("should compress with the negotiated default", () => {
+      expect(readCompressionFormValues({})).toEqual({
+        options: {
+          compression: CompressionMode.DEFAULT,
+          compressLevel: undefined,
+          skipCompress: undefined,
+        },
+      });
+    });
+
+    it("should never compress for a LAN host", () => {
+      expect(
+        readCompressionFormValues({
+          lanHost: true,
+          compression: CompressionMode.ZSTD,
+          compressLevel: "19",
+          skipMediaCompression: true,
+        }),
+      ).toEqual({ options: { compression: CompressionMode.OFF } });
+    });
+
+    it("should ignore the other fields when compression is off", () => {
+      expect(
+        readCompressionFormValues({
+          compression: CompressionMode.OFF,
+          compressLevel: "abc",
+        }),
+      ).toEqual({ options: { compression: CompressionMode.OFF } });
+    });
+
+    it("should read the level and the media preset", () => {
+      expect(
+        readCompressionFormValues({
+          compression: CompressionMode.ZSTD,
+          compressLevel: " 19 ",
+          skipMediaCompression: true,
+        }).options,
+      ).toEqual({
+        compression: CompressionMode.ZSTD,
+        compressLevel: 19,
+        skipCompress: MEDIA_SKIP_COMPRESS_SUFFIXES,
+      });
+    });
+
+    it("should check the level against the algorithm", () => {
+      expect(
+        readCompressionFormValues({
+          compression: CompressionMode.ZLIB,
+          compressLevel: "12",
+        }).error,
+      ).toBe("Compression level must be a whole number from 1 to 9");
+      expect(
+        readCompressionFormValues({
+          compression: CompressionMode.ZSTD,
+          compressLevel: "2.5",
+        }).error,
+      ).toBe("Compression level must be a whole number from 1 to 22");
+      expect(
+        readCompressionFormValues({
+          compression: CompressionMode.LZ4,
+          compressLevel: "1",
+        }).error,
+      ).toBe("lz4 compression has no levels");
+    });
+
+    it("should reject unknown algorithms", () => {
+      expect(readCompressionFormValues({ compression: "brotli" }).error).toBe(
+        "Unknown compression: brotli",
+      );
+    });
+  });
+
+  describe("MEDIA_SKIP_COMPRESS_SUFFIXES", () => {
+    it("should list bare lower-case suffixes", () => {
+      for (const suffix of MEDIA_SKIP_COMPRESS_SUFFIXES) {
+        expect(suffix).toMatch(/^[a-z0-9]+$/);
+      }
+    });
+  });
+
+  describe("isLanTransfer", () => {
+    const options: TransferOptions = {
+      hostConfig: { host: "nas" },
+      localPath: "/local/photos",
+      remotePath: "/volume1/photos",
+      direction: TransferDirection.UPLOAD,
+      lanHosts: ["nas"],
+    };
+
+    it("should match transfers with a LAN host", () => {
+      expect(isLanTransfer(options)).toBe(true);
+      expect(isLanTransfer({ ...options, hostConfig: { host: "web1" } })).toBe(
+        false,
+      );
+      expect(isLanTransfer({ ...options, lanHosts: undefined })).toBe(false);
+    });
+
+    it("should require both hosts of a remote-to-remote transfer", () => {
+      const remoteToRemote: TransferOptions = {
+        ...options,
+        direction: TransferDirection.REMOTE_TO_REMOTE,
+        destinationHostConfig: { host: "backup" },
+      };
+
+      expect(isLanTransfer(remoteToRemote)).toBe(false);
+      expect(
+        isLanTransfer({ ...remoteToRemote, lanHosts: ["nas", "backup"] }),
+      ).toBe(true);
+    });
+  });
+
+  describe("withoutCompression", () => {
+    it("should drop the options that only apply with compression", () => {
+      expect(
+        withoutCompression({
+          delete: true,
+          compression: CompressionMode.ZSTD,
+          compressLevel: 3,
+          skipCompress: ["jpg"],
+        }),
+      ).toEqual({
+        delete: true,
+        compression: CompressionMode.OFF,
+        compressLevel: undefined,
+        skipCompress: undefined,
+      });
+    });
+  });
+});
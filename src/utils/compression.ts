@@ -0,0 +1,179 @@
+import {
+  CompressionMode,
+  RsyncOptions,
+  TransferDirection,
+  TransferOptions,
+} from "../types/server";
+
+/**
+ * Suffixes of media and archive files, which do not shrink when compressed again
+ * rsync matches them case-insensitively; the list replaces rsync's built-in one
+ */
+export const MEDIA_SKIP_COMPRESS_SUFFIXES = [
+  // Images
+  "jpg",
+  "jpeg",
+  "png",
+  "gif",
+  "webp",
+  "heic",
+  "heif",
+  "avif",
+  // Video
+  "mp4",
+  "m4v",
+  "mov",
+  "mkv",
+  "webm",
+  "avi",
+  "mpg",
+  "mpeg",
+  // Audio
+  "mp3",
+  "m4a",
+  "aac",
+  "flac",
+  "ogg",
+  "opus",
+  // Archives and packages
+  "zip",
+  "gz",
+  "tgz",
+  "bz2",
+  "tbz",
+  "xz",
+  "txz",
+  "zst",
+  "7z",
+  "rar",
+  "dmg",
+  "iso",
+  "jar",
+  "apk",
+  // Zipped documents
+  "docx",
+  "xlsx",
+  "pptx",
+];
+
+/**
+ * Accepted --compress-level range per compression mode, undefined without levels
+ * The negotiated default may pick zstd or zlib, so it is limited to zlib's range
+ */
+const COMPRESS_LEVEL_RANGES: Record<
+  CompressionMode,
+  [number, number] | undefined
+> = {
+  [CompressionMode.DEFAULT]: [1, 9],
+  [CompressionMode.ZSTD]: [1, 22],
+  [CompressionMode.LZ4]: undefined,
+  [CompressionMode.ZLIB]: [1, 9],
+  [CompressionMode.OFF]: undefined,
+};
+
+/**
+ * Raw compression inputs from a transfer form
+ */
+export interface CompressionFormValues {
+  compression?: string; // CompressionMode dropdown value
+  compressLevel?: string; // Empty uses the algorithm's default level
+  skipMediaCompression?: boolean; // Send media and archives uncompressed
+  lanHost?: boolean; // Stored per host: never compress
+}
+
+/**
+ * Reads and validates the compression fields of a transfer form
+ * A LAN host is never compressed, whatever else the form holds
+ * @param values - Form values
+ * @returns Compression options, or an error message
+ */
+export function readCompressionFormValues(values: CompressionFormValues): {
+  options?: Pick<
+    RsyncOptions,
+    "compression" | "compressLevel" | "skipCompress"
+  >;
+  error?: string;
+} {
+  if (values.lanHost) {
+    return { options: { compression: CompressionMode.OFF } };
+  }
+
+  const compression = (values.compression ??
+    CompressionMode.DEFAULT) as CompressionMode;
+  if (!Object.values(CompressionMode).includes(compression)) {
+    return { error: `Unknown compression: ${values.compression}` };
+  }
+  if (compression === CompressionMode.OFF) {
+    return { options: { compression } };
+  }
+
+  const levelValue = values.compressLevel?.trim() ?? "";
+  const range = COMPRESS_LEVEL_RANGES[compression];
+  let compressLevel: number | undefined;
+  if (levelValue !== "") {
+    if (!range) {
+      return { error: `${compression} compression has no levels` };
+    }
+    compressLevel = Number(levelValue);
+    const [min, max] = range;
+    if (
+      !Number.isInteger(compressLevel) ||
+      compressLevel < min ||
+      compressLevel > max
+    ) {
+      return {
+        error: `Compression level must be a whole number from ${min} to ${max}`,
+      };
+    }
+  }
+
+  return {
+    options: {
+      compression,
+      compressLevel,
+      skipCompress: values.skipMediaCompression
+        ? MEDIA_SKIP_COMPRESS_SUFFIXES
+        : undefined,
+    },
+  };
+}
+
+/**
+ * Whether a transfer only crosses the LAN, so it should run uncompressed
+ * A direct remote-to-remote transfer runs between the two hosts, so both have
+ * to be LAN hosts; local transfers are never compressed by rsync anyway
+ * @param options - Transfer options
+ * @returns True when the remote end of the transfer is in options.lanHosts
+ */
+export function isLanTransfer(options: TransferOptions): boolean {
+  const lanHosts = options.lanHosts ?? [];
+
+  switch (options.direction) {
+    case TransferDirection.UPLOAD:
+    case TransferDirection.DOWNLOAD:
+      return lanHosts.includes(options.hostConfig.host);
+    case TransferDirection.REMOTE_TO_REMOTE:
+      return (
+        lanHosts.includes(options.hostConfig.host) &&
+        lanHosts.includes(
+          (options.destinationHostConfig ?? options.hostConfig).host,
+        )
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Turns compression off, dropping the options that only apply with it
+ * @param options - Rsync options
+ * @returns Options without -z
+ */
+export function withoutCompression(options?: RsyncOptions): RsyncOptions {
+  return {
+    ...options,
+    compression: CompressionMode.OFF,
+    compressLevel: undefined,
+    skipCompress: undefined,
+  };
+}
@@ -0,0 +1,66 @@
+import { LocalStorage } from "@raycast/api";
+import { RsyncDaemonConfig } from "../types/server";
+
+/**
+ * Storage key of the rsync daemon endpoint list
+ */
+const STORAGE_KEY = "rsyncDaemons";
+
+/**
+ * Reads the saved rsync daemon endpoints
+ * @returns Endpoints in the order they were added, empty if none were saved or the entry is unreadable
+ */
+export async function getDaemonHosts(): Promise<RsyncDaemonConfig[]> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(stored) as RsyncDaemonConfig[];
+  } catch (error) {
+    console.error("Ignoring unreadable rsync daemon list:", error);
+    return [];
+  }
+}
+
+/**
+ * Adds an endpoint, or replaces the one it was edited from
+ * @param daemon - Endpoint to save
+ * @param previousName - Name of the edited endpoint, if it is being edited
+ * @returns Updated endpoint list
+ */
+export async function saveDaemonHost(
+  daemon: RsyncDaemonConfig,
+  previousName?: string,
+): Promise<RsyncDaemonConfig[]> {
+  const daemons = await getDaemonHosts();
+  const index = daemons.findIndex(
+    ({ host }) => host === (previousName ?? daemon.host),
+  );
+  const updated =
+    index === -1
+      ? [...daemons, daemon]
+      : daemons.map((existing, i) => (i === index ? daemon : existing));
+
+  await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  return updated;
+}
+
+/**
+ * Removes an endpoint
+ * @param name - Name of the endpoint
+ * @returns Updated endpoint list
+ */
+export async function removeDaemonHost(
+  name: string,
+): Promise<RsyncDaemonConfig[]> {
+  const updated = (await getDaemonHosts()).filter(({ host }) => host !== name);
+
+  if (updated.length === 0) {
+    await LocalStorage.removeItem(STORAGE_KEY);
+  } else {
+    await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(updated));
+  }
+  return updated;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseFilterRules,
+  parseFilterRulePreference,
+  formatFilterRules,
+  buildFilterArgs,
+} from "./filterRules";
+import { FilterRuleType } from "../types/server";
+
+describe("Filter Rules", () => {
+  describe("parseFilterRules", () => {
+    it("should parse include and exclude rules in order", () => {
+      const rules = parseFilterRules("+ *.log\n- node_modules/\n- .git/");
+
+      expect(rules).toEqual([
+        { type: FilterRuleType.INCLUDE, pattern: "*.log" },
+        { type: FilterRuleType.EXCLUDE, pattern: "node_modules/" },
+        { type: FilterRuleType.EXCLUDE, pattern: ".git/" },
+      ]);
+    });
+
+    it("should treat bare patterns as excludes", () => {
+      const rules = parseFilterRules("dist\nbuild/");
+
+      expect(rules).toEqual([
+        { type: FilterRuleType.EXCLUDE, pattern: "dist" },
+        { type: FilterRuleType.EXCLUDE, pattern: "build/" },
+      ]);
+    });
+
+    it("should pass other rsync filter rules through as raw filters", () => {
+      const rules = parseFilterRules(":- .gitignore\nP /data\n-/ /abs\n!");
+
+      expect(rules).toEqual([
+        { type: FilterRuleType.FILTER, pattern: ":- .gitignore" },
+        { type: FilterRuleType.FILTER, pattern: "P /data" },
+        { type: FilterRuleType.FILTER, pattern: "-/ /abs" },
+        { type: FilterRuleType.FILTER, pattern: "!" },
+      ]);
+    });
+
+    it("should skip blank lines and comments", () => {
+      const rules = parseFilterRules("\n# build output\n  - dist  \n\n");
+
+      expect(rules).toEqual([
+        { type: FilterRuleType.EXCLUDE, pattern: "dist" },
+      ]);
+    });
+
+    it("should keep spaces inside patterns", () => {
+      const rules = parseFilterRules("- My Documents/");
+
+      expect(rules[0].pattern).toBe("My Documents/");
+    });
+  });
+
+  describe("parseFilterRulePreference", () => {
+    it("should split rules on semicolons and keep commas in patterns", () => {
+      const rules = parseFilterRulePreference(
+        "- node_modules/; + *.{jpg,png};dist",
+      );
+
+      expect(rules).toEqual([
+        { type: FilterRuleType.EXCLUDE, pattern: "node_modules/" },
+        { type: FilterRuleType.INCLUDE, pattern: "*.{jpg,png}" },
+        { type: FilterRuleType.EXCLUDE, pattern: "dist" },
+      ]);
+    });
+
+    it("should unescape literal semicolons", () => {
+      const rules = parseFilterRulePreference("- a\\;b; - c");
+
+      expect(rules.map((rule) => rule.pattern)).toEqual(["a;b", "c"]);
+    });
+
+    it("should return no rules for an empty value", () => {
+      expect(parseFilterRulePreference("")).toEqual([]);
+    });
+  });
+
+  describe("formatFilterRules", () => {
+    it("should round-trip parsed rules", () => {
+      const text = "+ *.log\n- node_modules/\n:- .gitignore";
+
+      expect(formatFilterRules(parseFilterRules(text))).toBe(text);
+    });
+  });
+
+  describe("buildFilterArgs", () => {
+    it("should build rsync arguments", () => {
+      const args = buildFilterArgs([
+        { type: FilterRuleType.INCLUDE, pattern: "*.log" },
+        { type: FilterRuleType.EXCLUDE, pattern: "node_modules/" },
+        { type: FilterRuleType.FILTER, pattern: ":- .gitignore" },
+      ]);
+
+      expect(args).toEqual([
+        "--include=*.log",
+        "--exclude=node_modules/",
+        "--filter=:- .gitignore",
+      ]);
+    });
+
+    it("should skip empty patterns", () => {
+      expect(
+        buildFilterArgs([{ type: FilterRuleType.EXCLUDE, pattern: "  " }]),
+      ).toEqual([]);
+    });
+  });
+});
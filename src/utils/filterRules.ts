@@ -0,0 +1,99 @@
+import { FilterRule, FilterRuleType } from "../types/server";
+
+/**
+ * Matches a raw rsync filter rule such as ":- .gitignore", "P /keep", "-/ abs" or "!"
+ * These are passed through unchanged with --filter
+ */
+const RAW_FILTER_RULE =
+  /^(?:!|clear|(?:[:.PRHS]|[+-][/!Censwrpx,]+|merge|dir-merge|protect|risk|hide|show)[-+/!Censwrpx,]*\s+\S.*)$/;
+
+/**
+ * Parses filter rules from text, one rule per line
+ *
+ * Supported syntax:
+ * - "+ PATTERN" includes matching files
+ * - "- PATTERN" excludes matching files
+ * - any other rsync filter rule (e.g. ":- .gitignore", "P /data") is passed to --filter
+ * - a bare PATTERN is treated as an exclude
+ * - blank lines and lines starting with "#" are ignored
+ *
+ * @param text - Rules text (newline separated)
+ * @returns Ordered array of filter rules
+ */
+export function parseFilterRules(text: string): FilterRule[] {
+  const rules: FilterRule[] = [];
+
+  for (const line of text.split("\n")) {
+    const trimmedLine = line.trim();
+
+    // Skip empty lines and comments
+    if (!trimmedLine || trimmedLine.startsWith("#")) {
+      continue;
+    }
+
+    const includeExcludeMatch = trimmedLine.match(/^([+-])\s+(.+)$/);
+    if (includeExcludeMatch) {
+      rules.push({
+        type:
+          includeExcludeMatch[1] === "+"
+            ? FilterRuleType.INCLUDE
+            : FilterRuleType.EXCLUDE,
+        pattern: includeExcludeMatch[2],
+      });
+    } else if (RAW_FILTER_RULE.test(trimmedLine)) {
+      rules.push({ type: FilterRuleType.FILTER, pattern: trimmedLine });
+    } else {
+      rules.push({ type: FilterRuleType.EXCLUDE, pattern: trimmedLine });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Parses filter rules from a single-line preference value
+ * Rules are separated by ";" because commas appear in patterns such as
+ * "*.{jpg,png}"; a literal semicolon is written as "\;"
+ * @param text - Preference value, e.g. "- node_modules/; + *.{jpg,png}"
+ * @returns Ordered array of filter rules
+ */
+export function parseFilterRulePreference(text: string): FilterRule[] {
+  return parseFilterRules(
+    text
+      .split(/(?<!\\);/)
+      .map((rule) => rule.replace(/\\;/g, ";"))
+      .join("\n"),
+  );
+}
+
+/**
+ * Formats filter rules back into the text syntax accepted by parseFilterRules
+ * @param rules - Filter rules
+ * @returns Rules text, one rule per line
+ */
+export function formatFilterRules(rules: FilterRule[]): string {
+  return rules
+    .map((rule) => {
+      switch (rule.type) {
+        case FilterRuleType.INCLUDE:
+          return `+ ${rule.pattern}`;
+        case FilterRuleType.EXCLUDE:
+          return `- ${rule.pattern}`;
+        default:
+          return rule.pattern;
+      }
+    })
+    .join("\n");
+}
+
+/**
+ * Builds rsync arguments for filter rules (unescaped)
+ * Order is preserved because rsync uses the first rule that matches
+ * @param rules - Filter rules
+ * @returns Array of rsync arguments such as "--exclude=node_modules/"
+ */
+export function buildFilterArgs(rules: FilterRule[]): string[] {
+  return rules
+    .filter((rule) => rule.pattern.trim() !== "")
+    .map((rule) => `--${rule.type}=${rule.pattern}`);
+}
@@ -0,0 +1,82 @@
+import { LocalStorage } from "@raycast/api";
+import { HostDefaults } from "../types/server";
+
+/**
+ * Storage key of the defaults of one host
+ * @param host - SSH host alias
+ */
+function storageKey(host: string): string {
+  return `hostDefaults:${host}`;
+}
+
+/**
+ * Reads the transfer defaults remembered for a host
+ * @param host - SSH host alias
+ * @returns Stored defaults, empty if none were saved or the entry is unreadable
+ */
+export async function getHostDefaults(host: string): Promise<HostDefaults> {
+  const stored = await LocalStorage.getItem<string>(storageKey(host));
+  if (!stored) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(stored) as HostDefaults;
+  } catch (error) {
+    console.error(`Ignoring unreadable defaults for ${host}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Reads which of the given hosts are marked as on the LAN
+ * @param hosts - SSH host aliases
+ * @returns Aliases whose stored defaults set lanHost
+ */
+export async function getLanHosts(hosts: string[]): Promise<string[]> {
+  const defaults = await Promise.all(hosts.map(getHostDefaults));
+  return hosts.filter((_, index) => defaults[index].lanHost);
+}
+
+/**
+ * Saves the LAN flag of a host when it differs from the stored one
+ * @param host - SSH host alias
+ * @param lanHost - Whether the host is on the LAN
+ */
+export async function rememberLanHost(
+  host: string,
+  lanHost: boolean,
+): Promise<void> {
+  const { lanHost: stored = false } = await getHostDefaults(host);
+  if (lanHost !== stored) {
+    await updateHostDefaults(host, { lanHost: lanHost || undefined });
+  }
+}
+
+/**
+ * Updates the transfer defaults remembered for a host
+ * Fields set to undefined are removed; the entry is dropped once it is empty
+ * @param host - SSH host alias
+ * @param defaults - Fields to change
+ */
+export async function updateHostDefaults(
+  host: string,
+  defaults: HostDefaults,
+): Promise<void> {
+  const merged: HostDefaults = {
+    ...(await getHostDefaults(host)),
+    ...defaults,
+  };
+  const entries = Object.entries(merged).filter(
+    ([, value]) => value !== undefined,
+  );
+
+  if (entries.length === 0) {
+    await LocalStorage.removeItem(storageKey(host));
+  } else {
+    await LocalStorage.setItem(
+      storageKey(host),
+      JSON.stringify(Object.fromEntries(entries)),
+    );
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { detectIgnoreFiles, buildIgnoreFileRules } from "./ignoreFiles";
+import { FilterRuleType } from "../types/server";
+
+describe("Ignore Files", () => {
+  let testDir: string;
+  let repoDir: string;
+  let projectDir: string;
+
+  beforeEach(() => {
+    // repo/.git, repo/.gitignore, repo/project/.rsyncignore, repo/project/file.txt
+    testDir = fs.mkdtempSync(path.join(os.tmpdir(), "rsync-ignore-test-"));
+    repoDir = path.join(testDir, "repo");
+    projectDir = path.join(repoDir, "project");
+    fs.mkdirSync(path.join(repoDir, ".git"), { recursive: true });
+    fs.mkdirSync(projectDir, { recursive: true });
+    fs.writeFileSync(path.join(repoDir, ".gitignore"), "node_modules/\n");
+    fs.writeFileSync(path.join(projectDir, ".rsyncignore"), "*.tmp\n");
+    fs.writeFileSync(path.join(projectDir, "file.txt"), "content");
+  });
+
+  afterEach(() => {
+    fs.rmSync(testDir, { recursive: true, force: true });
+  });
+
+  describe("detectIgnoreFiles", () => {
+    it("should detect ignore files up to the repository root", () => {
+      expect(detectIgnoreFiles(projectDir)).toEqual([
+        path.join(projectDir, ".rsyncignore"),
+        path.join(repoDir, ".gitignore"),
+      ]);
+    });
+
+    it("should use the containing directory for file sources", () => {
+      expect(detectIgnoreFiles(path.join(projectDir, "file.txt"))).toEqual([
+        path.join(projectDir, ".rsyncignore"),
+        path.join(repoDir, ".gitignore"),
+      ]);
+    });
+
+    it("should not look above the repository root", () => {
+      fs.writeFileSync(path.join(testDir, ".gitignore"), "*\n");
+
+      expect(detectIgnoreFiles(projectDir)).not.toContain(
+        path.join(testDir, ".gitignore"),
+      );
+    });
+
+    it("should only check the source directory outside a repository", () => {
+      fs.rmSync(path.join(repoDir, ".git"), { recursive: true });
+
+      expect(detectIgnoreFiles(projectDir)).toEqual([
+        path.join(projectDir, ".rsyncignore"),
+      ]);
+    });
+
+    it("should handle trailing slashes", () => {
+      expect(detectIgnoreFiles(`${projectDir}/`)).toHaveLength(2);
+    });
+  });
+
+  describe("buildIgnoreFileRules", () => {
+    it("should add per-directory merges and merge parent ignore files", () => {
+      const rules = buildIgnoreFileRules(
+        projectDir,
+        detectIgnoreFiles(projectDir),
+      );
+
+      expect(rules).toEqual([
+        { type: FilterRuleType.FILTER, pattern: ":- .rsyncignore" },
+        { type: FilterRuleType.FILTER, pattern: ":- .gitignore" },
+        {
+          type: FilterRuleType.FILTER,
+          pattern: `.- ${path.join(repoDir, ".gitignore")}`,
+        },
+      ]);
+    });
+
+    it("should rewrite anchored patterns of ignore files above the transfer root", () => {
+      // Uploading repo/project/app makes repo/project the transfer root
+      const appDir = path.join(projectDir, "app");
+      fs.mkdirSync(appDir);
+      fs.writeFileSync(
+        path.join(repoDir, ".gitignore"),
+        [
+          "# build output",
+          "/project/app/build/",
+          "/dist",
+          "node_modules/",
+          "docs/*.md",
+          "/*/app/tmp",
+          "!keep.log",
+        ].join("\n"),
+      );
+
+      const rules = buildIgnoreFileRules(appDir, detectIgnoreFiles(appDir));
+
+      expect(rules).toEqual([
+        { type: FilterRuleType.FILTER, pattern: ":- .rsyncignore" },
+        { type: FilterRuleType.FILTER, pattern: ":- .gitignore" },
+        {
+          type: FilterRuleType.FILTER,
+          pattern: `.- ${path.join(projectDir, ".rsyncignore")}`,
+        },
+        { type: FilterRuleType.EXCLUDE, pattern: "/app/build/" },
+        { type: FilterRuleType.EXCLUDE, pattern: "node_modules/" },
+      ]);
+    });
+
+    it("should merge the containing directory's ignore files for file sources", () => {
+      const filePath = path.join(projectDir, "file.txt");
+      const rules = buildIgnoreFileRules(filePath, detectIgnoreFiles(filePath));
+
+      expect(rules.map((rule) => rule.pattern)).toContain(
+        `.- ${path.join(projectDir, ".rsyncignore")}`,
+      );
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { existsSync, readFileSync, statSync } from "fs";
+import { dirname, join, relative, resolve, sep } from "path";
+import { FilterRule, FilterRuleType } from "../types/server";
+
+/**
+ * Names of ignore files honored for uploads, in precedence order
+ */
+export const IGNORE_FILE_NAMES = [".rsyncignore", ".gitignore"];
+
+/**
+ * Returns the directory an upload source lives in (the source itself if it is a directory)
+ * @param localPath - Local upload source (already ~-expanded)
+ * @returns Directory path
+ */
+function getSourceDirectory(localPath: string): string {
+  const resolvedPath = resolve(localPath);
+  try {
+    if (statSync(resolvedPath).isDirectory()) {
+      return resolvedPath;
+    }
+  } catch {
+    // Fall through and use the parent directory
+  }
+  return dirname(resolvedPath);
+}
+
+/**
+ * Detects ignore files that apply to an upload source
+ * Looks in the source directory and in every parent up to the repository root
+ * (the first directory containing .git). Outside a repository only the source
+ * directory itself is checked.
+ * @param localPath - Local upload source (already ~-expanded)
+ * @returns Absolute paths of detected ignore files, nearest directory first
+ */
+export function detectIgnoreFiles(localPath: string): string[] {
+  const sourceDirectory = getSourceDirectory(localPath);
+  const directories: string[] = [];
+
+  let currentDirectory = sourceDirectory;
+  while (true) {
+    directories.push(currentDirectory);
+    if (existsSync(join(currentDirectory, ".git"))) {
+      break;
+    }
+    const parentDirectory = dirname(currentDirectory);
+    if (parentDirectory === currentDirectory) {
+      // Reached the filesystem root without finding a repository
+      directories.splice(1);
+      break;
+    }
+    currentDirectory = parentDirectory;
+  }
+
+  const detected: string[] = [];
+  for (const directory of directories) {
+    for (const name of IGNORE_FILE_NAMES) {
+      const ignoreFile = join(directory, name);
+      if (existsSync(ignoreFile)) {
+        detected.push(ignoreFile);
+      }
+    }
+  }
+
+  return detected;
+}
+
+/**
+ * Whether a pattern component contains glob characters
+ */
+function hasWildcard(component: string): boolean {
+  return /[*?[]/.test(component);
+}
+
+/**
+ * Converts an ignore file from a directory above the transfer root into exclude
+ * rules for that root
+ *
+ * git anchors patterns with a slash at the start or in the middle to the directory
+ * holding the ignore file, while rsync anchors them to the transfer root. Such
+ * patterns are rewritten relative to the transfer root; ones pointing outside it,
+ * or whose leading directories contain wildcards, are skipped. Patterns without a
+ * slash match at any depth in both and are kept as they are.
+ *
+ * @param ignoreFile - Ignore file above the transfer root
+ * @param transferRoot - Directory rsync's anchored patterns are relative to
+ * @returns Exclude rules, in file order
+ */
+function readAncestorIgnoreRules(
+  ignoreFile: string,
+  transferRoot: string,
+): FilterRule[] {
+  let content: string;
+  try {
+    content = readFileSync(ignoreFile, "utf-8");
+  } catch (error) {
+    console.warn("Could not read ignore file:", ignoreFile, error);
+    return [];
+  }
+
+  const rootComponents = relative(dirname(ignoreFile), transferRoot).split(sep);
+  const rules: FilterRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    // Comments and negations (which an exclude list cannot express) are skipped
+    if (line === "" || line.startsWith("#") || line.startsWith("!")) {
+      continue;
+    }
+    const pattern = line.replace(/^\\([#!])/, "$1");
+
+    const directoryOnly = pattern.endsWith("/") ? "/" : "";
+    const path = pattern.slice(0, pattern.length - directoryOnly.length);
+    if (!path.includes("/") || path.startsWith("**/")) {
+      rules.push({ type: FilterRuleType.EXCLUDE, pattern });
+      continue;
+    }
+
+    const components = path.replace(/^\//, "").split("/");
+    const leading = components.slice(0, rootComponents.length);
+    if (
+      components.length <= rootComponents.length ||
+      leading.some(
+        (component, index) =>
+          hasWildcard(component) || component !== rootComponents[index],
+      )
+    ) {
+      continue;
+    }
+
+    rules.push({
+      type: FilterRuleType.EXCLUDE,
+      pattern: `/${components.slice(rootComponents.length).join("/")}${directoryOnly}`,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Builds rsync filter rules that apply ignore files to an upload
+ *
+ * Every ignore file name becomes a per-directory merge (":- NAME"), so rsync reads
+ * it in each directory it traverses, like git does for nested .gitignore files.
+ * Ignore files in the transfer root are merged once (".- PATH") because rsync
+ * never traverses that directory itself. Ignore files further up are converted
+ * into exclude rules with their anchored patterns rewritten for the transfer
+ * root (see readAncestorIgnoreRules).
+ *
+ * Note: rsync's exclude-only merge does not support git's "!" negation lines.
+ *
+ * @param localPath - Local upload source (already ~-expanded)
+ * @param detectedFiles - Result of detectIgnoreFiles for the same source
+ * @returns Filter rules to append after the user's own rules
+ */
+export function buildIgnoreFileRules(
+  localPath: string,
+  detectedFiles: string[],
+): FilterRule[] {
+  // When uploading a directory, its own ignore files are picked up by the
+  // per-directory merge. When uploading a single file, rsync never reads the
+  // containing directory, so its ignore files are merged explicitly as well.
+  const sourceDirectory = getSourceDirectory(localPath);
+  const isDirectorySource = sourceDirectory === resolve(localPath);
+  // A directory is uploaded as itself, so paths in the transfer start with its name
+  const transferRoot = isDirectorySource
+    ? dirname(sourceDirectory)
+    : sourceDirectory;
+
+  const ancestorRules: FilterRule[] = detectedFiles
+    .filter(
+      (ignoreFile) =>
+        !isDirectorySource || dirname(ignoreFile) !== sourceDirectory,
+    )
+    .flatMap((ignoreFile) =>
+      dirname(ignoreFile) === transferRoot
+        ? [{ type: FilterRuleType.FILTER, pattern: `.- ${ignoreFile}` }]
+        : readAncestorIgnoreRules(ignoreFile, transferRoot),
+    );
+
+  const perDirectoryRules: FilterRule[] = IGNORE_FILE_NAMES.map((name) => ({
+    type: FilterRuleType.FILTER,
+    pattern: `:- ${name}`,
+  }));
+
+  return [...perDirectoryRules, ...ancestorRules];
+}
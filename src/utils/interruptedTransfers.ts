@@ -0,0 +1,85 @@
+import { LocalStorage } from "@raycast/api";
+import { randomUUID } from "crypto";
+import { InterruptedTransfer, TransferOptions } from "../types/server";
+
+/**
+ * Storage key of the interrupted transfer list
+ */
+const STORAGE_KEY = "interruptedTransfers";
+
+/**
+ * Reads the recorded interrupted transfers
+ * @returns Transfers, most recently interrupted first; empty if none were recorded or the entry is unreadable
+ */
+export async function getInterruptedTransfers(): Promise<
+  InterruptedTransfer[]
+> {
+  const stored = await LocalStorage.getItem<string>(STORAGE_KEY);
+  if (!stored) {
+    return [];
+  }
+
+  try {
+    return JSON.parse(stored) as InterruptedTransfer[];
+  } catch (error) {
+    console.error("Ignoring unreadable interrupted transfer list:", error);
+    return [];
+  }
+}
+
+/**
+ * Writes the interrupted transfer list, dropping the entry once it is empty
+ * @param transfers - Transfers to keep
+ */
+async function saveInterruptedTransfers(
+  transfers: InterruptedTransfer[],
+): Promise<void> {
+  if (transfers.length === 0) {
+    await LocalStorage.removeItem(STORAGE_KEY);
+  } else {
+    await LocalStorage.setItem(STORAGE_KEY, JSON.stringify(transfers));
+  }
+}
+
+/**
+ * Records an interrupted transfer so it can be resumed with the same options
+ * A transfer interrupted again replaces its earlier record
+ * @param options - Options of the interrupted transfer
+ * @param reason - Message of the interrupted run
+ */
+export async function recordInterruptedTransfer(
+  options: TransferOptions,
+  reason: string,
+): Promise<void> {
+  const key = JSON.stringify(options);
+  const others = (await getInterruptedTransfers()).filter(
+    (transfer) => JSON.stringify(transfer.options) !== key,
+  );
+
+  await saveInterruptedTransfers([
+    {
+      id: randomUUID(),
+      options,
+      interruptedAt: new Date().toISOString(),
+      reason,
+    },
+    ...others,
+  ]);
+}
+
+/**
+ * Removes the record of a transfer, e.g. once it was resumed to completion
+ * @param options - Options of the transfer
+ * @returns Updated transfer list
+ */
+export async function removeInterruptedTransfer(
+  options: TransferOptions,
+): Promise<InterruptedTransfer[]> {
+  const key = JSON.stringify(options);
+  const updated = (await getInterruptedTransfers()).filter(
+    (transfer) => JSON.stringify(transfer.options) !== key,
+  );
+
+  await saveInterruptedTransfers(updated);
+  return updated;
+}
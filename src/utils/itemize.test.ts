@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseItemizeLine,
+  parseItemizedChanges,
+  summarizeChanges,
+} from "./itemize";
+import { ChangeKind } from "../types/server";
+
+describe("Itemize Parser", () => {
+  describe("parseItemizeLine", () => {
+    it("should parse new files", () => {
+      const change = parseItemizeLine(">f+++++++++ project/README.md");
+
+      expect(change).toEqual({
+        kind: ChangeKind.CREATED,
+        path: "project/README.md",
+        isDirectory: false,
+        itemizeCode: ">f+++++++++",
+      });
+    });
+
+    it("should parse new directories", () => {
+      const change = parseItemizeLine("cd+++++++++ project/src/");
+
+      expect(change?.kind).toBe(ChangeKind.CREATED);
+      expect(change?.isDirectory).toBe(true);
+      expect(change?.path).toBe("project/src/");
+    });
+
+    it("should parse updated files in both directions", () => {
+      expect(parseItemizeLine(">f.st...... file.txt")?.kind).toBe(
+        ChangeKind.UPDATED,
+      );
+      expect(parseItemizeLine("<f.st...... file.txt")?.kind).toBe(
+        ChangeKind.UPDATED,
+      );
+    });
+
+    it("should parse attribute-only changes", () => {
+      const change = parseItemizeLine(".d..t...... project/");
+
+      expect(change?.kind).toBe(ChangeKind.ATTRIBUTES);
+      expect(change?.isDirectory).toBe(true);
+    });
+
+    it("should parse deletions", () => {
+      const change = parseItemizeLine("*deleting   old/file.txt");
+
+      expect(change).toEqual({
+        kind: ChangeKind.DELETED,
+        path: "old/file.txt",
+        isDirectory: false,
+        itemizeCode: "*deleting",
+      });
+    });
+
+    it("should strip the target from symlinks", () => {
+      const change = parseItemizeLine("cL+++++++++ current -> releases/42");
+
+      expect(change?.kind).toBe(ChangeKind.CREATED);
+      expect(change?.path).toBe("current");
+    });
+
+    it("should keep spaces in file names", () => {
+      const change = parseItemizeLine(">f+++++++++ my dir/my file.txt");
+
+      expect(change?.path).toBe("my dir/my file.txt");
+    });
+
+    it("should parse the shorter rsync 2.6.9 format", () => {
+      const change = parseItemizeLine(">f+++++++ file.txt");
+
+      expect(change?.kind).toBe(ChangeKind.CREATED);
+      expect(change?.path).toBe("file.txt");
+    });
+
+    it("should ignore unchanged items", () => {
+      expect(parseItemizeLine(".f......... file.txt")).toBeNull();
+    });
+
+    it("should ignore non-itemize lines", () => {
+      expect(parseItemizeLine("sending incremental file list")).toBeNull();
+      expect(parseItemizeLine("")).toBeNull();
+      expect(
+        parseItemizeLine("sent 123 bytes  received 45 bytes  336.00 bytes/sec"),
+      ).toBeNull();
+      expect(
+        parseItemizeLine("total size is 1,234  speedup is 7.35 (DRY RUN)"),
+      ).toBeNull();
+    });
+  });
+
+  describe("parseItemizedChanges", () => {
+    it("should parse a full dry-run output", () => {
+      const output = [
+        "sending incremental file list",
+        "cd+++++++++ project/",
+        ">f+++++++++ project/new.txt",
+        ">f.st...... project/changed.txt",
+        ".f...p..... project/chmod.txt",
+        "*deleting   project/stale.txt",
+        "",
+        "sent 234 bytes  received 56 bytes  580.00 bytes/sec",
+        "total size is 1,234  speedup is 4.26 (DRY RUN)",
+      ].join("\n");
+
+      const changes = parseItemizedChanges(output);
+
+      expect(changes.map((change) => change.kind)).toEqual([
+        ChangeKind.CREATED,
+        ChangeKind.CREATED,
+        ChangeKind.UPDATED,
+        ChangeKind.ATTRIBUTES,
+        ChangeKind.DELETED,
+      ]);
+    });
+  });
+
+  describe("summarizeChanges", () => {
+    it("should count changes per kind", () => {
+      const changes = parseItemizedChanges(
+        [
+          ">f+++++++++ a.txt",
+          ">f+++++++++ b.txt",
+          ">f.st...... c.txt",
+          "*deleting   d.txt",
+        ].join("\n"),
+      );
+
+      expect(summarizeChanges(changes)).toEqual({
+        [ChangeKind.CREATED]: 2,
+        [ChangeKind.UPDATED]: 1,
+        [ChangeKind.DELETED]: 1,
+        [ChangeKind.ATTRIBUTES]: 0,
+      });
+    });
+  });
+});
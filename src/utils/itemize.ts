@@ -0,0 +1,121 @@
+import { ChangeKind, ItemizedChange } from "../types/server";
+
+/**
+ * Matches an rsync --itemize-changes line: YXcstpoguax followed by the path
+ * Y = update type (<, >, c, h, .), X = file type (f, d, L, D, S)
+ * Older rsync (2.6.9) emits fewer attribute columns, so accept 7 to 9
+ */
+const ITEMIZE_LINE = /^([<>ch.])([fdLDS])([^\s]{7,9}) (.+)$/;
+
+/**
+ * Matches a deletion line emitted by --delete together with --itemize-changes
+ */
+const DELETE_LINE = /^\*deleting\s+(.+)$/;
+
+/**
+ * Classifies an itemize code into a change kind
+ * @param updateType - The Y character of the itemize code
+ * @param attributes - The attribute columns following the file type
+ * @returns The change kind, or null if nothing changes for this item
+ */
+function classifyChange(
+  updateType: string,
+  attributes: string,
+): ChangeKind | null {
+  // A new item has all attribute columns set to "+"
+  if (/^\++$/.test(attributes)) {
+    return ChangeKind.CREATED;
+  }
+
+  // Content is sent/received, or a local change (symlink, device) is made
+  if (updateType !== ".") {
+    return ChangeKind.UPDATED;
+  }
+
+  // "." means the content is unchanged; only attributes (if any) are updated
+  return /[^.]/.test(attributes) ? ChangeKind.ATTRIBUTES : null;
+}
+
+/**
+ * Parses a single line of rsync --itemize-changes output
+ * @param line - A line from rsync stdout
+ * @returns Parsed change, or null if the line is not an itemized change
+ */
+export function parseItemizeLine(line: string): ItemizedChange | null {
+  const trimmedLine = line.replace(/\r$/, "");
+
+  const deleteMatch = trimmedLine.match(DELETE_LINE);
+  if (deleteMatch) {
+    const path = deleteMatch[1];
+    return {
+      kind: ChangeKind.DELETED,
+      path,
+      isDirectory: path.endsWith("/"),
+      itemizeCode: "*deleting",
+    };
+  }
+
+  const itemizeMatch = trimmedLine.match(ITEMIZE_LINE);
+  if (!itemizeMatch) {
+    return null;
+  }
+
+  const [, updateType, fileType, attributes, rawPath] = itemizeMatch;
+  const kind = classifyChange(updateType, attributes);
+  if (!kind) {
+    return null;
+  }
+
+  // Symlinks are printed as "name -> target"; keep only the link name
+  const path =
+    fileType === "L" ? rawPath.replace(/ -> .*$/, "") : rawPath.trimEnd();
+
+  return {
+    kind,
+    path,
+    isDirectory: fileType === "d",
+    itemizeCode: `${updateType}${fileType}${attributes}`,
+  };
+}
+
+/**
+ * Parses rsync --itemize-changes output into typed changes
+ * Non-itemize lines (headers, summaries, progress) are ignored
+ * @param output - rsync stdout
+ * @returns Array of itemized changes in output order
+ */
+export function parseItemizedChanges(output: string): ItemizedChange[] {
+  const changes: ItemizedChange[] = [];
+
+  // Progress output (-P) rewrites its lines with \r between the itemized ones
+  for (const line of output.split(/[\r\n]/)) {
+    const change = parseItemizeLine(line);
+    if (change) {
+      changes.push(change);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Counts itemized changes per change kind
+ * @param changes - Parsed changes
+ * @returns Totals keyed by change kind
+ */
+export function summarizeChanges(
+  changes: ItemizedChange[],
+): Record<ChangeKind, number> {
+  const totals: Record<ChangeKind, number> = {
+    [ChangeKind.CREATED]: 0,
+    [ChangeKind.UPDATED]: 0,
+    [ChangeKind.DELETED]: 0,
+    [ChangeKind.ATTRIBUTES]: 0,
+  };
+
+  for (const change of changes) {
+    totals[change.kind]++;
+  }
+
+  return totals;
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, mkdirSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  parseManifest,
+  readManifestFormValues,
+  buildMissingEntriesCommand,
+  findMissingLocalEntries,
+  findMissingRemoteEntries,
+  findMissingManifestEntries,
+  formatMissingEntries,
+} from "./manifest";
+import { SSHHostConfig, TransferDirection } from "../types/server";
+import { executeRemoteCommand } from "./ssh";
+
+vi.mock("./ssh", () => ({
+  executeRemoteCommand: vi.fn(),
+}));
+
+describe("Transfer Manifests", () => {
+  const mockHostConfig: SSHHostConfig = {
+    host: "testserver",
+    hostName: "example.com",
+  };
+  let tempDir: string;
+
+  beforeEach(() => {
+    vi.mocked(executeRemoteCommand).mockReset();
+    tempDir = mkdtempSync(join(tmpdir(), "manifest-test-"));
+    mkdirSync(join(tempDir, "docs"));
+    writeFileSync(join(tempDir, "docs", "guide.pdf"), "");
+    writeFileSync(join(tempDir, "notes.txt"), "");
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe("parseManifest", () => {
+    it("should skip blank lines and comments", () => {
+      expect(
+        parseManifest(
+          "# shipped files\ndocs/guide.pdf\n\n; old\r\nnotes.txt\n",
+        ),
+      ).toEqual(["docs/guide.pdf", "notes.txt"]);
+    });
+
+    it("should make entries relative and drop duplicates", () => {
+      expect(
+        parseManifest("/docs/guide.pdf\n./docs/guide.pdf\n  notes.txt  "),
+      ).toEqual(["docs/guide.pdf", "notes.txt"]);
+    });
+  });
+
+  describe("readManifestFormValues", () => {
+    it("should return no entries when no manifest was given", () => {
+      expect(
+        readManifestFormValues({ manifest: "  ", manifestFile: [] }),
+      ).toEqual({});
+    });
+
+    it("should combine the manifest file and the pasted list", () => {
+      const manifestFile = join(tempDir, "manifest.txt");
+      writeFileSync(manifestFile, "docs/guide.pdf\n");
+
+      expect(
+        readManifestFormValues({
+          manifestFile: [manifestFile],
+          manifest: "notes.txt",
+        }),
+      ).toEqual({ entries: ["docs/guide.pdf", "notes.txt"] });
+    });
+
+    it("should report unreadable files and invalid entries", () => {
+      expect(
+        readManifestFormValues({
+          manifestFile: [join(tempDir, "missing.txt")],
+        }).error,
+      ).toContain("Could not read");
+      expect(readManifestFormValues({ manifest: "../secret" }).error).toContain(
+        "inside the source directory",
+      );
+    });
+  });
+
+  describe("findMissingLocalEntries", () => {
+    it("should list entries that do not exist below the directory", () => {
+      expect(
+        findMissingLocalEntries(tempDir, [
+          "docs",
+          "docs/guide.pdf",
+          "docs/missing.pdf",
+          "notes.txt",
+        ]),
+      ).toEqual(["docs/missing.pdf"]);
+    });
+  });
+
+  describe("findMissingRemoteEntries", () => {
+    it("should pass the base directory and entries as arguments", () => {
+      const command = buildMissingEntriesCommand("~/site", ["it's.txt"]);
+
+      expect(command.startsWith("sh -c '")).toBe(true);
+      expect(command.endsWith(` _ '~/site' 'it'\\''s.txt'`)).toBe(true);
+    });
+
+    it("should return the entries the server reports as missing", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: "docs/missing.pdf\n",
+        stderr: "",
+      });
+
+      expect(
+        await findMissingRemoteEntries(mockHostConfig, "/srv/site", [
+          "docs/guide.pdf",
+          "docs/missing.pdf",
+        ]),
+      ).toEqual(["docs/missing.pdf"]);
+    });
+
+    it("should check large manifests in batches", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: "",
+        stderr: "",
+      });
+      const entries = Array.from({ length: 450 }, (_, index) => `f${index}`);
+
+      await findMissingRemoteEntries(mockHostConfig, "/srv/site", entries);
+
+      expect(executeRemoteCommand).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("findMissingManifestEntries", () => {
+    it("should check uploads against the local directory", async () => {
+      expect(
+        await findMissingManifestEntries({
+          hostConfig: mockHostConfig,
+          localPath: tempDir,
+          remotePath: "/srv/site",
+          direction: TransferDirection.UPLOAD,
+          rsyncOptions: { filesFrom: ["notes.txt", "gone.txt"] },
+        }),
+      ).toEqual(["gone.txt"]);
+      expect(executeRemoteCommand).not.toHaveBeenCalled();
+    });
+
+    it("should check downloads against the remote directory", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: "",
+        stderr: "",
+      });
+
+      await findMissingManifestEntries({
+        hostConfig: mockHostConfig,
+        localPath: tempDir,
+        remotePath: "/srv/site",
+        direction: TransferDirection.DOWNLOAD,
+        rsyncOptions: { filesFrom: ["notes.txt"] },
+      });
+
+      expect(vi.mocked(executeRemoteCommand).mock.calls[0][1]).toBe(
+        buildMissingEntriesCommand("/srv/site", ["notes.txt"]),
+      );
+    });
+  });
+
+  describe("formatMissingEntries", () => {
+    it("should list the first entries and count the rest", () => {
+      const missing = ["a", "b", "c", "d", "e", "f", "g"];
+      expect(formatMissingEntries(missing)).toBe("a\nb\nc\nd\ne\nand 2 more");
+      expect(formatMissingEntries(["a"])).toBe("a");
+    });
+  });
+});
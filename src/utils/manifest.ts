@@ -0,0 +1,184 @@
+import { existsSync, readFileSync } from "fs";
+import { join } from "path";
+import {
+  SSHHostConfig,
+  TimeoutOptions,
+  TransferDirection,
+  TransferOptions,
+} from "../types/server";
+import { executeRemoteCommand } from "./ssh";
+import { shellEscape, shellEscapeArgs } from "./shellEscape";
+import { expandHomeDir } from "./rsync";
+import { isRsyncDaemon } from "./rsyncDaemon";
+import { validateManifest } from "./validation";
+
+/** Entries checked per SSH command, keeping the command line well below ARG_MAX */
+const REMOTE_BATCH_SIZE = 200;
+
+/**
+ * Remote script printing every path argument missing below the base directory ($1)
+ */
+const REMOTE_MISSING_SCRIPT = [
+  'b="$1"; shift',
+  'case "$b" in "~") b="$HOME";; "~/"*) b="$HOME/${b#"~/"}";; esac',
+  "for p; do",
+  `[ -e "$b/$p" ] || [ -L "$b/$p" ] || printf '%s\\n' "$p"`,
+  "done",
+].join("\n");
+
+/**
+ * Manifest fields of the upload and download forms
+ */
+export interface ManifestFormValues {
+  manifestFile?: string[]; // Form.FilePicker value
+  manifest?: string; // Pasted list
+}
+
+/**
+ * Parses a manifest of paths relative to the transfer source
+ * Blank lines and comments (# or ;) are skipped like rsync does, leading "/"
+ * and "./" are dropped and duplicates are removed
+ * @param text - Manifest content, one path per line
+ * @returns Manifest entries in their original order
+ */
+export function parseManifest(text: string): string[] {
+  const entries = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !/^[#;]/.test(line))
+    .map((line) => line.replace(/^(\.?\/)+/, ""))
+    .filter(Boolean);
+  return [...new Set(entries)];
+}
+
+/**
+ * Reads and validates the manifest entered in a form: the chosen manifest file
+ * and the pasted list are combined
+ * @param values - Form values
+ * @returns Manifest entries (undefined when no manifest was given), or an error message
+ */
+export function readManifestFormValues(values: ManifestFormValues): {
+  entries?: string[];
+  error?: string;
+} {
+  const [manifestFile] = values.manifestFile ?? [];
+  let text = values.manifest ?? "";
+
+  if (manifestFile) {
+    try {
+      text = `${readFileSync(manifestFile, "utf8")}\n${text}`;
+    } catch (error) {
+      console.error("Failed to read manifest file:", error);
+      return {
+        error: `Could not read ${manifestFile}: ${error instanceof Error ? error.message : String(error)}`,
+      };
+    }
+  }
+
+  if (!manifestFile && text.trim() === "") {
+    return {};
+  }
+
+  const entries = parseManifest(text);
+  const validation = validateManifest(entries);
+  return validation.valid ? { entries } : { error: validation.error };
+}
+
+/**
+ * Builds the remote command that lists manifest entries missing on the server
+ * @param baseDir - Remote source directory (may start with ~)
+ * @param entries - Manifest entries
+ * @returns Command for the remote shell
+ */
+export function buildMissingEntriesCommand(
+  baseDir: string,
+  entries: string[],
+): string {
+  return `sh -c ${shellEscape(REMOTE_MISSING_SCRIPT)} _ ${shellEscapeArgs([baseDir, ...entries])}`;
+}
+
+/**
+ * Lists manifest entries that do not exist below a local directory
+ * @param baseDir - Local source directory (already ~-expanded)
+ * @param entries - Manifest entries
+ * @returns Missing entries
+ */
+export function findMissingLocalEntries(
+  baseDir: string,
+  entries: string[],
+): string[] {
+  return entries.filter((entry) => !existsSync(join(baseDir, entry)));
+}
+
+/**
+ * Lists manifest entries that do not exist below a remote directory
+ * @param hostConfig - SSH host configuration
+ * @param baseDir - Remote source directory
+ * @param entries - Manifest entries
+ * @param timeouts - Optional timeouts for the SSH commands
+ * @returns Missing entries
+ * @throws Error when the server cannot be checked
+ */
+export async function findMissingRemoteEntries(
+  hostConfig: SSHHostConfig,
+  baseDir: string,
+  entries: string[],
+  timeouts?: TimeoutOptions,
+): Promise<string[]> {
+  const missing: string[] = [];
+
+  for (let start = 0; start < entries.length; start += REMOTE_BATCH_SIZE) {
+    const { stdout } = await executeRemoteCommand(
+      hostConfig,
+      buildMissingEntriesCommand(
+        baseDir,
+        entries.slice(start, start + REMOTE_BATCH_SIZE),
+      ),
+      timeouts,
+    );
+    missing.push(...stdout.split("\n").filter(Boolean));
+  }
+
+  return missing;
+}
+
+/**
+ * Lists the manifest entries of a transfer that are missing on the source side
+ * @param options - Transfer options with rsyncOptions.filesFrom set
+ * @returns Missing entries (empty when everything exists or the source is a daemon module)
+ * @throws Error when the server cannot be checked
+ */
+export async function findMissingManifestEntries(
+  options: TransferOptions,
+): Promise<string[]> {
+  const entries = options.rsyncOptions?.filesFrom ?? [];
+
+  if (
+    options.direction === TransferDirection.UPLOAD ||
+    options.direction === TransferDirection.LOCAL
+  ) {
+    return findMissingLocalEntries(expandHomeDir(options.localPath), entries);
+  }
+  // A daemon module cannot be checked over SSH; rsync reports missing entries itself
+  if (isRsyncDaemon(options.hostConfig)) {
+    return [];
+  }
+  return findMissingRemoteEntries(
+    options.hostConfig,
+    options.remotePath,
+    entries,
+    options.timeouts,
+  );
+}
+
+/**
+ * Formats missing manifest entries for a toast
+ * @param missing - Missing entries
+ * @returns The first few entries, followed by how many more are missing
+ */
+export function formatMissingEntries(missing: string[]): string {
+  const shown = missing.slice(0, 5).join("\n");
+  return missing.length > 5
+    ? `${shown}\nand ${missing.length - 5} more`
+    : shown;
+}
@@ -0,0 +1,72 @@
+import { describe, it, expect } from "vitest";
+import { formatOwnershipOptions, readOwnershipFormValues } from "./ownership";
+
+describe("Ownership Options", () => {
+  describe("readOwnershipFormValues", () => {
+    it("should leave the -a defaults unset", () => {
+      expect(
+        readOwnershipFormValues({
+          chmod: " ",
+          chown: "",
+          preservePermissions: true,
+          preserveOwner: true,
+          preserveGroup: true,
+          numericIds: false,
+        }),
+      ).toEqual({
+        options: {
+          chmod: undefined,
+          chown: undefined,
+          preservePermissions: undefined,
+          preserveOwner: undefined,
+          preserveGroup: undefined,
+          numericIds: undefined,
+        },
+      });
+    });
+
+    it("should return the options that differ from -a", () => {
+      expect(
+        readOwnershipFormValues({
+          chmod: "D755,F644 ",
+          chown: " deploy:www-data",
+          preservePermissions: true,
+          preserveOwner: false,
+          preserveGroup: false,
+          numericIds: true,
+        }).options,
+      ).toEqual({
+        chmod: "D755,F644",
+        chown: "deploy:www-data",
+        preservePermissions: undefined,
+        preserveOwner: false,
+        preserveGroup: false,
+        numericIds: true,
+      });
+    });
+
+    it("should report invalid rules", () => {
+      expect(readOwnershipFormValues({ chmod: "755x" })).toEqual({
+        error: expect.stringContaining('Invalid chmod rule "755x"'),
+      });
+      expect(readOwnershipFormValues({ chown: "deploy:" })).toEqual({
+        error: "Invalid owner: use user, user:group or :group",
+      });
+    });
+  });
+
+  describe("formatOwnershipOptions", () => {
+    it("should list the flags the options add", () => {
+      expect(formatOwnershipOptions(undefined)).toBe("");
+      expect(formatOwnershipOptions({ preservePermissions: true })).toBe("");
+      expect(
+        formatOwnershipOptions({
+          chmod: "D755,F644",
+          preservePermissions: false,
+          preserveGroup: false,
+          numericIds: true,
+        }),
+      ).toBe("--chmod=D755,F644 --no-perms --no-group --numeric-ids");
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { OwnershipOptions } from "../types/server";
+import { validateChmod, validateChown } from "./validation";
+
+/**
+ * Raw permission and ownership inputs from a transfer form
+ * The preserve checkboxes are on by default, like rsync's -a
+ */
+export interface OwnershipFormValues {
+  chmod?: string; // --chmod rules, empty for none
+  chown?: string; // --chown value, empty to keep the owner
+  preservePermissions?: boolean;
+  preserveOwner?: boolean;
+  preserveGroup?: boolean;
+  numericIds?: boolean;
+  rememberOwnership?: boolean; // Save the options as the host default
+}
+
+/**
+ * Reads and validates the Advanced section of a transfer form
+ * Only options that differ from -a are returned, so they can be stored as is
+ * @param values - Form values
+ * @returns Ownership options, or an error message
+ */
+export function readOwnershipFormValues(values: OwnershipFormValues): {
+  options?: OwnershipOptions;
+  error?: string;
+} {
+  const chmod = values.chmod?.trim() ?? "";
+  const chown = values.chown?.trim() ?? "";
+
+  const chmodValidation = validateChmod(chmod);
+  if (!chmodValidation.valid) {
+    return { error: chmodValidation.error };
+  }
+  const chownValidation = validateChown(chown);
+  if (!chownValidation.valid) {
+    return { error: chownValidation.error };
+  }
+
+  return {
+    options: {
+      chmod: chmod || undefined,
+      chown: chown || undefined,
+      preservePermissions:
+        values.preservePermissions === false ? false : undefined,
+      preserveOwner: values.preserveOwner === false ? false : undefined,
+      preserveGroup: values.preserveGroup === false ? false : undefined,
+      numericIds: values.numericIds || undefined,
+    },
+  };
+}
+
+/**
+ * Formats ownership options as the rsync flags they add
+ * @param options - Ownership options
+ * @returns Flags such as "--chmod=D755,F644 --no-owner", empty for the -a defaults
+ */
+export function formatOwnershipOptions(options?: OwnershipOptions): string {
+  if (!options) {
+    return "";
+  }
+
+  return [
+    options.chmod && `--chmod=${options.chmod}`,
+    options.chown && `--chown=${options.chown}`,
+    options.preservePermissions === false && "--no-perms",
+    options.preserveOwner === false && "--no-owner",
+    options.preserveGroup === false && "--no-group",
+    options.numericIds && "--numeric-ids",
+  ]
+    .filter(Boolean)
+    .join(" ");
+}
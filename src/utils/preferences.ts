@@ -1,11 +1,20 @@
 import { getPreferenceValues } from "@raycast/api";
-import { RsyncOptions } from "../types/server";
+import { RetryPolicy, RsyncOptions, TimeoutOptions } from "../types/server";
+import { parseFilterRulePreference } from "./filterRules";
+import { parseRetryPolicy } from "./retry";
+import { DEFAULT_TIMEOUTS, parseTimeoutInput } from "./timeouts";
 
 /** Rsync-related preference keys (matches package.json preferences) */
 interface RsyncPreferences {
   rsyncHumanReadable: boolean;
   rsyncProgress: boolean;
   rsyncDelete: boolean;
+  rsyncFilterRules?: string;
+  connectTimeout?: string;
+  ioTimeout?: string;
+  overallTimeoutMinutes?: string;
+  retryAttempts?: string;
+  retryBaseDelay?: string;
 }
 
 /**
@@ -18,5 +27,48 @@ export function getRsyncPreferences(): RsyncOptions {
     humanReadable: preferences.rsyncHumanReadable,
     progress: preferences.rsyncProgress,
     delete: preferences.rsyncDelete,
+    // Preference text fields are single-line, so rules are semicolon-separated there
+    filterRules: parseFilterRulePreference(preferences.rsyncFilterRules || ""),
   };
 }
+
+/**
+ * Get timeout preferences from Raycast preferences.
+ * Empty or invalid values fall back to the defaults.
+ * @returns TimeoutOptions in seconds
+ */
+export function getTimeoutPreferences(): TimeoutOptions {
+  const preferences = getPreferenceValues<RsyncPreferences>();
+
+  const readSeconds = (value: string | undefined, fallback: number) => {
+    const parsed = parseTimeoutInput(value);
+    return parsed === undefined || Number.isNaN(parsed) ? fallback : parsed;
+  };
+
+  return {
+    connectTimeout: readSeconds(
+      preferences.connectTimeout,
+      DEFAULT_TIMEOUTS.connectTimeout,
+    ),
+    ioTimeout: readSeconds(preferences.ioTimeout, DEFAULT_TIMEOUTS.ioTimeout),
+    // The overall limit is entered in minutes
+    overallTimeout:
+      readSeconds(
+        preferences.overallTimeoutMinutes,
+        DEFAULT_TIMEOUTS.overallTimeout / 60,
+      ) * 60,
+  };
+}
+
+/**
+ * Get the retry policy from Raycast preferences.
+ * Empty or invalid values fall back to the defaults.
+ * @returns RetryPolicy retrying lost connections and stalls
+ */
+export function getRetryPreferences(): RetryPolicy {
+  const preferences = getPreferenceValues<RsyncPreferences>();
+  return parseRetryPolicy(
+    preferences.retryAttempts,
+    preferences.retryBaseDelay,
+  );
+}
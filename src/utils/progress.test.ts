@@ -0,0 +1,78 @@
+import { describe, it, expect } from "vitest";
+import { parseOverallProgressLine, formatTransferProgress } from "./progress";
+
+describe("Progress", () => {
+  describe("parseOverallProgressLine", () => {
+    it("should parse a progress2 line with file counts", () => {
+      expect(
+        parseOverallProgressLine(
+          "    123,456,789  45%   12.34MB/s    0:01:23 (xfr#12, to-chk=345/1000)",
+        ),
+      ).toEqual({
+        bytesTransferred: 123456789,
+        percent: 45,
+        rate: "12.34MB/s",
+        eta: "0:01:23",
+        filesRemaining: 345,
+        filesTotal: 1000,
+      });
+    });
+
+    it("should parse human-readable byte counts", () => {
+      const progress = parseOverallProgressLine(
+        "          1.23G  12%   45.67MB/s    0:10:00 (xfr#3, to-chk=10/20)",
+      );
+      expect(progress?.bytesTransferred).toBe(1230000000);
+    });
+
+    it("should parse a line without file counts", () => {
+      const progress = parseOverallProgressLine(
+        "          0   0%    0.00kB/s    0:00:00",
+      );
+      expect(progress).toMatchObject({ bytesTransferred: 0, percent: 0 });
+      expect(progress?.filesRemaining).toBeUndefined();
+    });
+
+    it("should accept ir-chk counts from incremental recursion", () => {
+      const progress = parseOverallProgressLine(
+        "      5,000  10%    1.00kB/s    0:00:45 (xfr#1, ir-chk=99/120)",
+      );
+      expect(progress?.filesRemaining).toBe(99);
+    });
+
+    it("should return null for other output", () => {
+      expect(
+        parseOverallProgressLine("sending incremental file list"),
+      ).toBeNull();
+      expect(parseOverallProgressLine("")).toBeNull();
+    });
+  });
+
+  describe("formatTransferProgress", () => {
+    it("should include bytes, rate, ETA and files left", () => {
+      expect(
+        formatTransferProgress({
+          bytesTransferred: 1024 * 1024,
+          percent: 45,
+          rate: "12.34MB/s",
+          eta: "0:01:23",
+          filesRemaining: 345,
+          filesTotal: 1000,
+        }),
+      ).toBe(
+        "45% • 1.00 MB • 12.34MB/s • 0:01:23 remaining • 345 of 1000 files left",
+      );
+    });
+
+    it("should omit the file count when it is not reported", () => {
+      expect(
+        formatTransferProgress({
+          bytesTransferred: 512,
+          percent: 3,
+          rate: "1.00kB/s",
+          eta: "0:00:10",
+        }),
+      ).toBe("3% • 512 B • 1.00kB/s • 0:00:10 remaining");
+    });
+  });
+});
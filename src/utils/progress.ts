@@ -0,0 +1,51 @@
+import { TransferProgress } from "../types/server";
+import { formatBytes, parseStatNumber } from "./rsyncStats";
+
+/**
+ * Parses a whole-transfer progress line from --info=progress2 output
+ * Format: "  1,234,567  45%   12.34MB/s    0:01:23 (xfr#12, to-chk=345/1000)"
+ * The bytes column uses -h suffixes ("1.23M") when human-readable sizes are on
+ * @param line - Progress line (rsync separates updates with carriage returns)
+ * @returns Parsed progress, or null if the line is not a progress line
+ */
+export function parseOverallProgressLine(
+  line: string,
+): TransferProgress | null {
+  const match = line.match(
+    /^\s*([\d.,]+[KMGT]?)\s+(\d+)%\s+([\d.,]+[kKMGT]?B\/s)\s+(\d+:\d{2}:\d{2})(?:\s+\(xfr#\d+,\s+(?:to|ir)-chk=(\d+)\/(\d+)\))?/,
+  );
+  if (!match) {
+    return null;
+  }
+
+  const [, bytes, percent, rate, eta, filesRemaining, filesTotal] = match;
+  return {
+    bytesTransferred: parseStatNumber(bytes) ?? 0,
+    percent: Number(percent),
+    rate,
+    eta,
+    filesRemaining:
+      filesRemaining !== undefined ? Number(filesRemaining) : undefined,
+    filesTotal: filesTotal !== undefined ? Number(filesTotal) : undefined,
+  };
+}
+
+/**
+ * Formats whole-transfer progress for the progress toast
+ * @param progress - Parsed progress
+ * @returns Message such as "45% • 1.18 MB • 12.34MB/s • 0:01:23 remaining • 345 of 1000 files left"
+ */
+export function formatTransferProgress(progress: TransferProgress): string {
+  const parts = [
+    `${progress.percent}%`,
+    formatBytes(progress.bytesTransferred),
+    progress.rate,
+    `${progress.eta} remaining`,
+  ];
+  if (progress.filesRemaining !== undefined && progress.filesTotal) {
+    parts.push(
+      `${progress.filesRemaining} of ${progress.filesTotal} files left`,
+    );
+  }
+  return parts.join(" • ");
+}
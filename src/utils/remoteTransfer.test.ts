@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { basename, join } from "path";
+import {
+  executeRemoteTransfer,
+  executeRelayedTransfer,
+} from "./remoteTransfer";
+import {
+  RemoteTransferStrategy,
+  SSHHostConfig,
+  TransferDirection,
+  TransferOptions,
+} from "../types/server";
+import { executeRsync } from "./rsync";
+
+vi.mock("./rsync", () => ({
+  executeRsync: vi.fn(),
+}));
+
+describe("Remote-to-Remote Transfers", () => {
+  const sourceHostConfig: SSHHostConfig = { host: "source" };
+  const destinationHostConfig: SSHHostConfig = { host: "mirror" };
+
+  const options: TransferOptions = {
+    hostConfig: sourceHostConfig,
+    localPath: "",
+    remotePath: "/srv/app",
+    destinationHostConfig,
+    destinationPath: "/srv/copy",
+    direction: TransferDirection.REMOTE_TO_REMOTE,
+    rsyncOptions: { delete: true, backup: true, bandwidthLimit: 500 },
+  };
+
+  beforeEach(() => {
+    vi.mocked(executeRsync).mockReset();
+  });
+
+  describe("executeRemoteTransfer", () => {
+    it("should run a direct transfer as a single rsync", async () => {
+      vi.mocked(executeRsync).mockResolvedValue({
+        success: true,
+        message: "done",
+      });
+
+      await executeRemoteTransfer(options, RemoteTransferStrategy.DIRECT);
+
+      expect(executeRsync).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(executeRsync).mock.calls[0][0]).toBe(options);
+    });
+  });
+
+  describe("executeRelayedTransfer", () => {
+    it("should download into a temporary directory and upload what arrived", async () => {
+      let relayDir = "";
+      vi.mocked(executeRsync)
+        .mockImplementationOnce(async ({ localPath }) => {
+          relayDir = localPath;
+          mkdirSync(join(localPath, "app"));
+          writeFileSync(join(localPath, "app", "index.html"), "hello");
+          return { success: true, message: "downloaded" };
+        })
+        .mockResolvedValueOnce({
+          success: true,
+          message: "uploaded",
+          warnings: ["--mkpath skipped"],
+        });
+      const onProgress = vi.fn();
+
+      const result = await executeRelayedTransfer(options, onProgress);
+
+      const [download, downloadProgress] =
+        vi.mocked(executeRsync).mock.calls[0];
+      expect(download).toMatchObject({
+        hostConfig: sourceHostConfig,
+        remotePath: "/srv/app",
+        direction: TransferDirection.DOWNLOAD,
+        rsyncOptions: { delete: false, backup: false, bandwidthLimit: 500 },
+      });
+      const [upload, uploadProgress] = vi.mocked(executeRsync).mock.calls[1];
+      expect(upload).toMatchObject({
+        hostConfig: destinationHostConfig,
+        localPaths: [join(relayDir, "app")],
+        remotePath: "/srv/copy/",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: { delete: true, backup: true, bandwidthLimit: 500 },
+      });
+
+      downloadProgress?.("50%");
+      uploadProgress?.("75%");
+      expect(onProgress.mock.calls).toEqual([
+        ["1/2 from source: 50%"],
+        ["2/2 to mirror: 75%"],
+      ]);
+
+      expect(result.message).toBe("uploaded");
+      expect(result.warnings).toEqual(["--mkpath skipped"]);
+      expect(basename(relayDir)).toMatch(/^raycast-rsync-relay-/);
+      expect(existsSync(relayDir)).toBe(false);
+    });
+
+    it("should not upload after a failed download", async () => {
+      let relayDir = "";
+      vi.mocked(executeRsync).mockImplementationOnce(async ({ localPath }) => {
+        relayDir = localPath;
+        writeFileSync(join(localPath, "half.bin"), "");
+        return {
+          success: false,
+          partial: true,
+          message: "1 file(s) skipped",
+        };
+      });
+
+      const result = await executeRelayedTransfer(options);
+
+      expect(executeRsync).toHaveBeenCalledTimes(1);
+      expect(result.partial).toBe(true);
+      expect(result.message).toBe(
+        "Download from source failed: 1 file(s) skipped",
+      );
+      expect(existsSync(relayDir)).toBe(false);
+    });
+
+    it("should pass the retry policy and LAN hosts to both legs", async () => {
+      vi.mocked(executeRsync)
+        .mockImplementationOnce(async ({ localPath }) => {
+          writeFileSync(join(localPath, "disk.img"), "data");
+          return { success: true, message: "downloaded" };
+        })
+        .mockResolvedValueOnce({ success: true, message: "uploaded" });
+      const retry = { maxAttempts: 4, baseDelay: 10 };
+
+      await executeRelayedTransfer({ ...options, retry, lanHosts: ["mirror"] });
+
+      expect(executeRsync).toHaveBeenCalledTimes(2);
+      expect(vi.mocked(executeRsync).mock.calls[0][0].retry).toEqual(retry);
+      expect(vi.mocked(executeRsync).mock.calls[1][0].retry).toEqual(retry);
+      // Each leg checks its own host against the LAN hosts
+      expect(vi.mocked(executeRsync).mock.calls[1][0].lanHosts).toEqual([
+        "mirror",
+      ]);
+    });
+
+    it("should stop when nothing was downloaded", async () => {
+      vi.mocked(executeRsync).mockResolvedValueOnce({
+        success: true,
+        message: "0 files transferred",
+      });
+
+      const result = await executeRelayedTransfer(options);
+
+      expect(executeRsync).toHaveBeenCalledTimes(1);
+      expect(result.message).toBe("0 files transferred");
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  RemoteTransferStrategy,
+  RsyncResult,
+  TransferDirection,
+  TransferOptions,
+} from "../types/server";
+import { executeRsync } from "./rsync";
+
+/**
+ * Prefix of the local temporary directories used by relayed transfers
+ */
+const RELAY_DIR_PREFIX = "raycast-rsync-relay-";
+
+/**
+ * Executes a remote-to-remote transfer with the chosen strategy
+ * @param options - Transfer options with direction REMOTE_TO_REMOTE
+ * @param strategy - Direct (source host to destination) or relayed through this machine
+ * @param onProgress - Optional callback function to receive real-time progress updates
+ * @param signal - Optional abort signal to cancel the transfer
+ * @returns Promise resolving to RsyncResult with success status and message
+ */
+export async function executeRemoteTransfer(
+  options: TransferOptions,
+  strategy: RemoteTransferStrategy,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal,
+): Promise<RsyncResult> {
+  return strategy === RemoteTransferStrategy.RELAY
+    ? executeRelayedTransfer(options, onProgress, signal)
+    : executeRsync(options, onProgress, signal);
+}
+
+/**
+ * Relays a remote-to-remote transfer through a local temporary directory, for
+ * hosts that cannot reach each other
+ * The source is downloaded into the empty directory, then everything that
+ * arrived is uploaded to the destination, so the destination ends up as with a
+ * direct transfer. The temporary directory is always removed afterwards
+ * @param options - Transfer options with direction REMOTE_TO_REMOTE
+ * @param onProgress - Optional callback function to receive real-time progress updates
+ * @param signal - Optional abort signal to cancel the transfer
+ * @returns Result of the upload, or of the download if that did not succeed
+ */
+export async function executeRelayedTransfer(
+  options: TransferOptions,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal,
+): Promise<RsyncResult> {
+  const { hostConfig, rsyncOptions, timeouts, retry, lanHosts } = options;
+  const destinationHostConfig = options.destinationHostConfig ?? hostConfig;
+  const relayDir = mkdtempSync(join(tmpdir(), RELAY_DIR_PREFIX));
+
+  try {
+    const download = await executeRsync(
+      {
+        hostConfig,
+        localPath: relayDir,
+        remotePath: options.remotePath,
+        direction: TransferDirection.DOWNLOAD,
+        // Deletions and backups only make sense on the real destination
+        rsyncOptions: {
+          ...rsyncOptions,
+          delete: false,
+          backup: false,
+          verifyAfterTransfer: false,
+        },
+        timeouts,
+        retry,
+        lanHosts,
+      },
+      onProgress &&
+        ((message) => onProgress(`1/2 from ${hostConfig.host}: ${message}`)),
+      signal,
+    );
+
+    // A partial download is not uploaded, as --delete would remove the skipped files
+    if (!download.success) {
+      return {
+        ...download,
+        message: `Download from ${hostConfig.host} failed: ${download.message}`,
+      };
+    }
+
+    const destinationPath = options.destinationPath ?? "";
+    const localPaths = readdirSync(relayDir).map((name) =>
+      join(relayDir, name),
+    );
+    if (localPaths.length === 0) {
+      return download;
+    }
+
+    const upload = await executeRsync(
+      {
+        hostConfig: destinationHostConfig,
+        localPath: localPaths[0],
+        localPaths,
+        // Like a direct transfer, a single file is also placed inside the destination
+        remotePath: destinationPath.endsWith("/")
+          ? destinationPath
+          : `${destinationPath}/`,
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: { ...rsyncOptions, verifyAfterTransfer: false },
+        timeouts,
+        retry,
+        lanHosts,
+      },
+      onProgress &&
+        ((message) =>
+          onProgress(`2/2 to ${destinationHostConfig.host}: ${message}`)),
+      signal,
+    );
+
+    const warnings = [...(download.warnings ?? []), ...(upload.warnings ?? [])];
+    return warnings.length > 0
+      ? { ...upload, warnings: [...new Set(warnings)] }
+      : upload;
+  } finally {
+    try {
+      rmSync(relayDir, { recursive: true, force: true });
+    } catch (error) {
+      console.warn("Could not remove relay directory:", relayDir, error);
+    }
+  }
+}
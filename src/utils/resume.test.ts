@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import {
+  LARGE_FILE_PARTIAL_DIR,
+  describeTransfer,
+  keepsPartialFiles,
+  readLargeFileFormValues,
+} from "./resume";
+import { TransferDirection } from "../types/server";
+
+describe("Resumable Transfers", () => {
+  describe("readLargeFileFormValues", () => {
+    it("should use the partial directory in large file mode", () => {
+      expect(
+        readLargeFileFormValues({ largeFileMode: true, appendVerify: true }),
+      ).toEqual({ partialDir: LARGE_FILE_PARTIAL_DIR, appendVerify: true });
+      expect(readLargeFileFormValues({})).toEqual({
+        partialDir: undefined,
+        appendVerify: undefined,
+      });
+    });
+  });
+
+  describe("keepsPartialFiles", () => {
+    it("should detect -P and --partial-dir", () => {
+      expect(keepsPartialFiles({ progress: true })).toBe(true);
+      expect(keepsPartialFiles({ partialDir: ".rsync-partial" })).toBe(true);
+      expect(keepsPartialFiles({ appendVerify: true })).toBe(false);
+      expect(keepsPartialFiles(undefined)).toBe(false);
+    });
+  });
+
+  describe("describeTransfer", () => {
+    const hostConfig = { host: "web1" };
+
+    it("should describe uploads and downloads", () => {
+      expect(
+        describeTransfer({
+          hostConfig,
+          localPath: "/Users/me/disk.img",
+          remotePath: "/srv/images",
+          direction: TransferDirection.UPLOAD,
+        }),
+      ).toBe("/Users/me/disk.img → web1:/srv/images");
+      expect(
+        describeTransfer({
+          hostConfig,
+          localPath: "/Users/me/Downloads",
+          remotePath: "/var/log/a.log",
+          remotePaths: ["/var/log/a.log", "/var/log/b.log"],
+          direction: TransferDirection.DOWNLOAD,
+        }),
+      ).toBe("web1:2 items → /Users/me/Downloads");
+    });
+
+    it("should describe remote-to-remote and local transfers", () => {
+      expect(
+        describeTransfer({
+          hostConfig,
+          localPath: "",
+          remotePath: "/srv/site",
+          destinationHostConfig: { host: "web2" },
+          destinationPath: "/srv/site",
+          direction: TransferDirection.REMOTE_TO_REMOTE,
+        }),
+      ).toBe("web1:/srv/site → web2:/srv/site");
+      expect(
+        describeTransfer({
+          hostConfig: { host: "localhost" },
+          localPath: "/Users/me/Photos",
+          remotePath: "",
+          destinationPath: "/Volumes/Backup",
+          direction: TransferDirection.LOCAL,
+        }),
+      ).toBe("/Users/me/Photos → /Volumes/Backup");
+    });
+  });
+});
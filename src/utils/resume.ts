@@ -0,0 +1,65 @@
+import {
+  RsyncOptions,
+  TransferDirection,
+  TransferOptions,
+} from "../types/server";
+import { getLocalSources, getRemoteSources } from "./sources";
+
+/**
+ * Partial file directory of large file mode, relative to the destination
+ * rsync excludes it from the transfer and from --delete on its own
+ */
+export const LARGE_FILE_PARTIAL_DIR = ".rsync-partial";
+
+/**
+ * Large file fields of the upload and download forms
+ */
+export interface LargeFileFormValues {
+  largeFileMode?: boolean; // Resumable transfers through --partial-dir
+  appendVerify?: boolean; // --append-verify for files that only grow
+}
+
+/**
+ * Reads the large file fields of a transfer form
+ * @param values - Form values
+ * @returns rsync options for the chosen mode
+ */
+export function readLargeFileFormValues(
+  values: LargeFileFormValues,
+): Pick<RsyncOptions, "partialDir" | "appendVerify"> {
+  return {
+    partialDir: values.largeFileMode ? LARGE_FILE_PARTIAL_DIR : undefined,
+    appendVerify: values.appendVerify || undefined,
+  };
+}
+
+/**
+ * Whether rsync keeps partially transferred files when it is stopped
+ * @param options - Rsync options
+ * @returns True with --partial, -P or --partial-dir
+ */
+export function keepsPartialFiles(options?: RsyncOptions): boolean {
+  return Boolean(options?.partial || options?.progress || options?.partialDir);
+}
+
+/**
+ * Describes a transfer for the list of interrupted transfers
+ * @param options - Transfer options
+ * @returns Description such as "disk.img → web1:/srv/images"
+ */
+export function describeTransfer(options: TransferOptions): string {
+  const describeSources = (sources: string[]) =>
+    sources.length === 1 ? sources[0] : `${sources.length} items`;
+  const host = options.hostConfig.host;
+
+  switch (options.direction) {
+    case TransferDirection.UPLOAD:
+      return `${describeSources(getLocalSources(options))} → ${host}:${options.remotePath}`;
+    case TransferDirection.DOWNLOAD:
+      return `${host}:${describeSources(getRemoteSources(options))} → ${options.localPath}`;
+    case TransferDirection.REMOTE_TO_REMOTE:
+      return `${host}:${options.remotePath} → ${options.destinationHostConfig?.host}:${options.destinationPath}`;
+    default:
+      return `${describeSources(getLocalSources(options))} → ${options.destinationPath}`;
+  }
+}
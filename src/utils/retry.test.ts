@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { RsyncErrorKind, RsyncResult } from "../types/server";
+import {
+  DEFAULT_RETRY_POLICY,
+  formatRetryCountdown,
+  getRetryDelay,
+  parseRetryPolicy,
+  retriesEnabled,
+  shouldRetry,
+  waitForRetry,
+} from "./retry";
+
+describe("Retry Utilities", () => {
+  const policy = { maxAttempts: 5, baseDelay: 4 };
+  const failure = (errorKind: RsyncErrorKind): RsyncResult => ({
+    success: false,
+    message: "Transfer failed",
+    errorKind,
+  });
+
+  describe("shouldRetry", () => {
+    it("should retry dropped connections and stalls", () => {
+      expect(
+        shouldRetry(failure(RsyncErrorKind.CONNECTION_LOST), 1, policy),
+      ).toBe(true);
+      expect(
+        shouldRetry(failure(RsyncErrorKind.PROTOCOL_STREAM), 1, policy),
+      ).toBe(true);
+      expect(shouldRetry(failure(RsyncErrorKind.IO_TIMEOUT), 1, policy)).toBe(
+        true,
+      );
+    });
+
+    it("should stop once all attempts are used", () => {
+      expect(
+        shouldRetry(failure(RsyncErrorKind.CONNECTION_LOST), 5, policy),
+      ).toBe(false);
+    });
+
+    it("should never retry authentication and path errors", () => {
+      const everything = {
+        ...policy,
+        retryableKinds: Object.values(RsyncErrorKind),
+      };
+
+      for (const kind of [
+        RsyncErrorKind.AUTHENTICATION,
+        RsyncErrorKind.HOST_KEY_VERIFICATION,
+        RsyncErrorKind.FILE_NOT_FOUND,
+        RsyncErrorKind.PERMISSION_DENIED,
+      ]) {
+        expect(shouldRetry(failure(kind), 1, everything)).toBe(false);
+      }
+    });
+
+    it("should only retry the kinds a policy lists", () => {
+      const stallsOnly = {
+        ...policy,
+        retryableKinds: [RsyncErrorKind.IO_TIMEOUT],
+      };
+
+      expect(
+        shouldRetry(failure(RsyncErrorKind.IO_TIMEOUT), 1, stallsOnly),
+      ).toBe(true);
+      expect(
+        shouldRetry(failure(RsyncErrorKind.CONNECTION_LOST), 1, stallsOnly),
+      ).toBe(false);
+    });
+
+    it("should not retry cancelled or partial transfers", () => {
+      expect(
+        shouldRetry(
+          { ...failure(RsyncErrorKind.CONNECTION_LOST), cancelled: true },
+          1,
+          policy,
+        ),
+      ).toBe(false);
+      expect(
+        shouldRetry(
+          { ...failure(RsyncErrorKind.PARTIAL_TRANSFER), partial: true },
+          1,
+          { ...policy, retryableKinds: [RsyncErrorKind.PARTIAL_TRANSFER] },
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("should double the delay for each retry", () => {
+      expect(getRetryDelay(policy, 2)).toBe(4);
+      expect(getRetryDelay(policy, 3)).toBe(8);
+      expect(getRetryDelay(policy, 5)).toBe(32);
+    });
+  });
+
+  describe("formatRetryCountdown", () => {
+    it("should show the attempt and the seconds left", () => {
+      expect(formatRetryCountdown(2, 5, 8)).toBe("retry 2/5 in 8s");
+    });
+  });
+
+  describe("retriesEnabled", () => {
+    it("should require more than one attempt", () => {
+      expect(retriesEnabled(undefined)).toBe(false);
+      expect(retriesEnabled({ maxAttempts: 1, baseDelay: 5 })).toBe(false);
+      expect(retriesEnabled({ maxAttempts: 2, baseDelay: 5 })).toBe(true);
+    });
+  });
+
+  describe("waitForRetry", () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should count down once per second", async () => {
+      vi.useFakeTimers();
+      const onTick = vi.fn();
+
+      const waited = waitForRetry(3, onTick);
+      await vi.advanceTimersByTimeAsync(3000);
+
+      expect(await waited).toBe(true);
+      expect(onTick.mock.calls.map(([seconds]) => seconds)).toEqual([3, 2, 1]);
+    });
+
+    it("should stop when aborted", async () => {
+      vi.useFakeTimers();
+      const abortController = new AbortController();
+
+      const waited = waitForRetry(10, undefined, abortController.signal);
+      await vi.advanceTimersByTimeAsync(2000);
+      abortController.abort();
+
+      expect(await waited).toBe(false);
+    });
+  });
+
+  describe("parseRetryPolicy", () => {
+    it("should parse whole numbers", () => {
+      expect(parseRetryPolicy("5", "10")).toEqual({
+        maxAttempts: 5,
+        baseDelay: 10,
+      });
+    });
+
+    it("should fall back to the defaults for empty or invalid values", () => {
+      expect(parseRetryPolicy("", "soon")).toEqual(DEFAULT_RETRY_POLICY);
+    });
+
+    it("should run a transfer at least once", () => {
+      expect(parseRetryPolicy("0", "5").maxAttempts).toBe(1);
+    });
+  });
+});
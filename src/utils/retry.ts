@@ -0,0 +1,166 @@
+import { RetryPolicy, RsyncErrorKind, RsyncResult } from "../types/server";
+
+/**
+ * Default retry policy, used when the preferences are empty or invalid
+ */
+export const DEFAULT_RETRY_POLICY: Required<
+  Omit<RetryPolicy, "retryableKinds">
+> = {
+  maxAttempts: 3,
+  baseDelay: 5,
+};
+
+/**
+ * Error kinds retried unless the policy lists its own: dropped connections
+ * (exit codes 10, 12 and 255), stalls (30) and connections that could not be
+ * made, as happens when Wi-Fi or a VPN reconnects
+ */
+export const DEFAULT_RETRYABLE_KINDS: RsyncErrorKind[] = [
+  RsyncErrorKind.SOCKET_IO,
+  RsyncErrorKind.PROTOCOL_STREAM,
+  RsyncErrorKind.IO_TIMEOUT,
+  RsyncErrorKind.CONNECTION_LOST,
+  RsyncErrorKind.CONNECTION_TIMEOUT,
+  RsyncErrorKind.CONNECTION_FAILED,
+];
+
+/**
+ * Error kinds that fail the same way on every run, so they are never retried
+ * even when a policy lists them: authentication and path errors
+ */
+const NEVER_RETRIED_KINDS: RsyncErrorKind[] = [
+  RsyncErrorKind.AUTHENTICATION,
+  RsyncErrorKind.SUDO_PASSWORD_REQUIRED,
+  RsyncErrorKind.DAEMON_AUTHENTICATION,
+  RsyncErrorKind.HOST_KEY_VERIFICATION,
+  RsyncErrorKind.FILE_NOT_FOUND,
+  RsyncErrorKind.FILE_SELECTION,
+  RsyncErrorKind.PERMISSION_DENIED,
+  RsyncErrorKind.DAEMON_MODULE_NOT_FOUND,
+];
+
+/**
+ * Whether a policy retries transfers at all
+ * @param policy - Retry policy
+ * @returns True when more than one attempt is allowed
+ */
+export function retriesEnabled(policy?: RetryPolicy): boolean {
+  return (policy?.maxAttempts ?? 1) > 1;
+}
+
+/**
+ * Whether a failed run should be retried
+ * Cancelled and partial transfers are never retried
+ * @param result - Result of the failed run
+ * @param attempt - Number of the run that failed, starting at 1
+ * @param policy - Retry policy
+ * @returns True when attempts are left and the error kind is retryable
+ */
+export function shouldRetry(
+  result: RsyncResult,
+  attempt: number,
+  policy?: RetryPolicy,
+): boolean {
+  if (
+    !policy ||
+    attempt >= policy.maxAttempts ||
+    result.success ||
+    result.cancelled ||
+    result.partial ||
+    !result.errorKind ||
+    NEVER_RETRIED_KINDS.includes(result.errorKind)
+  ) {
+    return false;
+  }
+
+  return (policy.retryableKinds ?? DEFAULT_RETRYABLE_KINDS).includes(
+    result.errorKind,
+  );
+}
+
+/**
+ * Delay before a retry, doubling with each retry
+ * @param policy - Retry policy
+ * @param attempt - Number of the upcoming run, starting at 2 for the first retry
+ * @returns Delay in seconds
+ */
+export function getRetryDelay(policy: RetryPolicy, attempt: number): number {
+  return policy.baseDelay * 2 ** Math.max(attempt - 2, 0);
+}
+
+/**
+ * Formats the countdown shown while waiting for a retry
+ * @param attempt - Number of the upcoming run
+ * @param maxAttempts - Runs allowed by the policy
+ * @param seconds - Seconds left until the run starts
+ * @returns Message such as "retry 2/5 in 8s"
+ */
+export function formatRetryCountdown(
+  attempt: number,
+  maxAttempts: number,
+  seconds: number,
+): string {
+  return `retry ${attempt}/${maxAttempts} in ${seconds}s`;
+}
+
+/**
+ * Waits for a retry, reporting the seconds left once per second
+ * @param seconds - Delay in seconds
+ * @param onTick - Called with the seconds left at the start of each second
+ * @param signal - Optional abort signal that stops the wait
+ * @returns True once the delay has passed, false if the wait was aborted
+ */
+export async function waitForRetry(
+  seconds: number,
+  onTick?: (secondsLeft: number) => void,
+  signal?: AbortSignal,
+): Promise<boolean> {
+  for (let secondsLeft = seconds; secondsLeft > 0; secondsLeft--) {
+    if (signal?.aborted) {
+      return false;
+    }
+    onTick?.(secondsLeft);
+
+    const elapsed = await new Promise<boolean>((resolve) => {
+      const onAbort = () => {
+        clearTimeout(timer);
+        resolve(false);
+      };
+      const timer = setTimeout(() => {
+        signal?.removeEventListener("abort", onAbort);
+        resolve(true);
+      }, 1000);
+      signal?.addEventListener("abort", onAbort, { once: true });
+    });
+    if (!elapsed) {
+      return false;
+    }
+  }
+
+  return !signal?.aborted;
+}
+
+/**
+ * Parses the retry preferences
+ * Empty or invalid values fall back to the defaults
+ * @param maxAttempts - Raw attempts preference (whole number, 1 disables retries)
+ * @param baseDelay - Raw base delay preference in seconds
+ * @returns Retry policy with the default retryable kinds
+ */
+export function parseRetryPolicy(
+  maxAttempts: string | undefined,
+  baseDelay: string | undefined,
+): RetryPolicy {
+  const readWholeNumber = (value: string | undefined, fallback: number) => {
+    const trimmedValue = (value ?? "").trim();
+    return /^\d+$/.test(trimmedValue) ? Number(trimmedValue) : fallback;
+  };
+
+  return {
+    maxAttempts: Math.max(
+      readWholeNumber(maxAttempts, DEFAULT_RETRY_POLICY.maxAttempts),
+      1,
+    ),
+    baseDelay: readWholeNumber(baseDelay, DEFAULT_RETRY_POLICY.baseDelay),
+  };
+}
@@ -1,9 +1,24 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { buildRsyncCommand } from "./rsync";
+import {
+  buildRsyncCommand,
+  getPreviewOptions,
+  executeRsync,
+  executeRsyncPreview,
+  getVerificationTargets,
+  LOCAL_HOST,
+} from "./rsync";
 import {
   TransferOptions,
   TransferDirection,
   SSHHostConfig,
+  FilterRuleType,
+  RsyncErrorKind,
+  RsyncFeature,
+  RsyncImplementation,
+  ComparisonMode,
+  CompressionMode,
+  ChangeKind,
+  RsyncDaemonConfig,
 } from "../types/server";
 import { homedir } from "os";
 import { join } from "path";
@@ -11,6 +26,11 @@ import { statSync } from "fs";
 import type { PathLike } from "fs";
 import * as os from "os";
 import * as path from "path";
+import { spawn } from "child_process";
+import { EventEmitter } from "events";
+import { getLocalCapabilities, getRemoteCapabilities } from "./capabilities";
+import { verifyTransfer } from "./verify";
+import { checkRemoteRsyncPath } from "./rsyncPath";
 
 vi.mock("fs", async () => {
   const actual = await vi.importActual<typeof import("fs")>("fs");
@@ -20,6 +40,67 @@ vi.mock("fs", async () => {
   };
 });
 
+vi.mock("child_process", async () => {
+  const actual =
+    await vi.importActual<typeof import("child_process")>("child_process");
+  return {
+    ...actual,
+    spawn: vi.fn(),
+  };
+});
+
+vi.mock("./capabilities", async () => {
+  const actual =
+    await vi.importActual<typeof import("./capabilities")>("./capabilities");
+  return {
+    ...actual,
+    getLocalCapabilities: vi.fn(),
+    getRemoteCapabilities: vi.fn(),
+  };
+});
+
+vi.mock("./verify", async () => {
+  const actual = await vi.importActual<typeof import("./verify")>("./verify");
+  return {
+    ...actual,
+    verifyTransfer: vi.fn(),
+  };
+});
+
+vi.mock("./rsyncPath", async () => {
+  const actual =
+    await vi.importActual<typeof import("./rsyncPath")>("./rsyncPath");
+  return {
+    ...actual,
+    checkRemoteRsyncPath: vi.fn(),
+  };
+});
+
+/**
+ * Creates a fake child process; kill() makes it exit like a signalled rsync
+ */
+function createFakeProcess() {
+  const fakeProcess = Object.assign(new EventEmitter(), {
+    pid: undefined,
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    stdin: Object.assign(new EventEmitter(), { end: vi.fn() }),
+    kill: vi.fn((signal: string) => {
+      setImmediate(() => fakeProcess.emit("close", null, signal));
+      return true;
+    }),
+  });
+  return fakeProcess;
+}
+
+/**
+ * Waits until executeRsync has spawned rsync and returns its command line
+ */
+async function waitForSpawnedCommand(): Promise<string> {
+  await vi.waitFor(() => expect(spawn).toHaveBeenCalled());
+  return (vi.mocked(spawn).mock.calls[0][1] as string[]).join(" ");
+}
+
 describe("Rsync Command Builder", () => {
   const mockHostConfig: SSHHostConfig = {
     host: "testserver",
@@ -67,7 +148,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Paths should be properly escaped
       expect(command).toContain("'/local/path/file.txt'");
@@ -84,7 +165,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.DOWNLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Paths should be properly escaped
       // For downloads, local destination should have trailing slash to ensure directory is created
@@ -102,7 +183,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       expect(command).toContain("-a");
     });
@@ -115,7 +196,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // SSH command should be escaped
       expect(command).toMatch(/rsync -e '/);
@@ -130,7 +211,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Host alias should be escaped
       expect(command).toContain("'testserver':");
@@ -149,7 +230,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.DOWNLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Host alias should be escaped
       expect(command).toContain("'production-server':");
@@ -163,7 +244,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // The malicious command should be escaped, not executed
       expect(command).toContain("'/tmp/test; rm -rf /'");
@@ -180,7 +261,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // The malicious command should be escaped
       expect(command).toContain("'/tmp/test | cat /etc/passwd'");
@@ -199,12 +280,88 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // The malicious host alias should be escaped
       expect(command).toContain("'server; rm -rf /':");
     });
 
+    it("should pass paths with shell metacharacters as single arguments", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/$HOME & notes; draft.txt",
+        remotePath: "/remote/`whoami` $(date).txt",
+        direction: TransferDirection.UPLOAD,
+      };
+
+      const { args } = buildRsyncCommand(options);
+
+      expect(args.slice(-2)).toEqual([
+        "/local/$HOME & notes; draft.txt",
+        "testserver:/remote/`whoami` $(date).txt",
+      ]);
+    });
+
+    it("should keep the ssh command in a single argument", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        timeouts: { connectTimeout: 10 },
+      };
+
+      const { args } = buildRsyncCommand(options);
+
+      expect(args[0]).toBe("-e");
+      expect(args[1]).toMatch(/^ssh -F \S+ -o ConnectTimeout=10$/);
+    });
+
+    it("should protect remote arguments from the remote shell by default", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/my file.txt",
+        direction: TransferDirection.UPLOAD,
+      };
+
+      const { args } = buildRsyncCommand(options);
+
+      expect(args).toContain("--protect-args");
+      expect(args[args.length - 1]).toBe("testserver:/remote/my file.txt");
+    });
+
+    it("should escape the remote path for the remote shell without protect-args", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/my file.txt",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: { protectArgs: false },
+      };
+
+      const { args } = buildRsyncCommand(options);
+
+      expect(args).not.toContain("--protect-args");
+      expect(args[args.length - 1]).toBe("testserver:'/remote/my file.txt'");
+    });
+
+    it("should pass remote home paths relative to the login directory", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "~/backups/site.tar",
+        direction: TransferDirection.UPLOAD,
+      };
+
+      expect(buildRsyncCommand(options).args.pop()).toBe(
+        "testserver:backups/site.tar",
+      );
+      expect(
+        buildRsyncCommand({ ...options, remotePath: "~" }).args.pop(),
+      ).toBe("testserver:.");
+    });
+
     it("should handle paths with spaces", () => {
       const options: TransferOptions = {
         hostConfig: mockHostConfig,
@@ -213,7 +370,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Paths with spaces should be properly escaped
       expect(command).toContain("'/local/path with spaces/file.txt'");
@@ -228,7 +385,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Paths with single quotes should be properly escaped
       expect(command).toContain("'/local/file'\\''name.txt'");
@@ -246,7 +403,7 @@ describe("Rsync Command Builder", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Flag should be included in the combined flags string (e.g., -avzh)
       expect(command).toMatch(/-[avz]+h/);
@@ -263,12 +420,186 @@ describe("Rsync Command Builder", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Flag should be included in the combined flags string (e.g., -avzP)
       expect(command).toMatch(/-[avz]+P/);
     });
 
+    it("should include a bandwidth limit when set", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: { bandwidthLimit: 10240 },
+      };
+
+      expect(buildRsyncCommand(options).args).toContain("--bwlimit=10240");
+      expect(
+        buildRsyncCommand({ ...options, rsyncOptions: { bandwidthLimit: 0 } })
+          .display,
+      ).not.toContain("--bwlimit");
+    });
+
+    it("should upload every source into the destination directory", () => {
+      const { args, display } = buildRsyncCommand({
+        hostConfig: mockHostConfig,
+        localPath: "/local/dir/",
+        localPaths: ["/local/dir/", "/local/notes.txt"],
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+      });
+
+      expect(args.slice(-3)).toEqual([
+        "/local/dir",
+        "/local/notes.txt",
+        "testserver:/remote/path/",
+      ]);
+      expect(display).toMatch(
+        / '\/local\/dir' '\/local\/notes\.txt' 'testserver':'\/remote\/path\/'$/,
+      );
+    });
+
+    it("should download every remote path into the local directory", () => {
+      const { args, display } = buildRsyncCommand({
+        hostConfig: mockHostConfig,
+        localPath: "/local/downloads",
+        remotePath: "/srv/app/logs/",
+        remotePaths: ["/srv/app/logs/", "~/notes.txt"],
+        direction: TransferDirection.DOWNLOAD,
+        rsyncOptions: { relative: true },
+      });
+
+      expect(args).toContain("--relative");
+      expect(args.slice(-3)).toEqual([
+        "testserver:/srv/app/logs",
+        "testserver:notes.txt",
+        "/local/downloads/",
+      ]);
+      expect(display).toMatch(
+        / 'testserver':'\/srv\/app\/logs' 'testserver':'notes\.txt' '\/local\/downloads\/'$/,
+      );
+    });
+
+    it("should read a manifest from stdin with --files-from", () => {
+      const { args } = buildRsyncCommand({
+        hostConfig: mockHostConfig,
+        localPath: "/local/dir",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: { filesFrom: ["docs/guide.pdf"] },
+      });
+
+      expect(args).toContain("--files-from=-");
+      expect(args).toContain("--recursive");
+      expect(args.slice(-2)).toEqual([
+        "/local/dir",
+        "testserver:/remote/path/",
+      ]);
+    });
+
+    it("should hard-link unchanged files against --link-dest", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path/",
+        remotePath: "/snapshots/2024-03-05_14-07-09/",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: { linkDest: "../2024-03-04_14-07-09" },
+      };
+
+      expect(buildRsyncCommand(options).args).toContain(
+        "--link-dest=../2024-03-04_14-07-09",
+      );
+    });
+
+    it("should compare checksums or sizes only when requested", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+      };
+
+      const checksum = buildRsyncCommand({
+        ...options,
+        rsyncOptions: { comparisonMode: ComparisonMode.CHECKSUM },
+      }).args;
+      const sizeOnly = buildRsyncCommand({
+        ...options,
+        rsyncOptions: { comparisonMode: ComparisonMode.SIZE_ONLY },
+      }).args;
+      const standard = buildRsyncCommand({
+        ...options,
+        rsyncOptions: { comparisonMode: ComparisonMode.DEFAULT },
+      }).args;
+
+      expect(checksum).toContain("-avzc");
+      expect(sizeOnly).toContain("--size-only");
+      expect(standard).toContain("-avz");
+      expect(standard).not.toContain("--size-only");
+    });
+
+    it("should back up to a timestamped directory and protect it from --delete", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: { delete: true, backup: true },
+      };
+
+      const { args } = buildRsyncCommand(options);
+      const backupDir = args.find((arg) => arg.startsWith("--backup-dir="));
+
+      expect(args).toContain("--backup");
+      expect(backupDir).toMatch(
+        /^--backup-dir=\.rsync-backups\/\d{4}-\d{2}-\d{2}_\d{2}-\d{2}-\d{2}$/,
+      );
+      expect(args).toContain("--filter=P /.rsync-backups/");
+    });
+
+    it("should protect earlier runs of a timestamped top-level backup directory", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: {
+          delete: true,
+          backup: true,
+          backupDir: "backup-{timestamp}",
+        },
+      };
+
+      const { args } = buildRsyncCommand(
+        options,
+        new Date(2024, 2, 5, 14, 7, 9),
+      );
+
+      expect(args).toContain("--backup-dir=backup-2024-03-05_14-07-09");
+      expect(args).toContain("--filter=P /backup-*/");
+    });
+
+    it("should use a configured backup directory without a protect rule outside the destination", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: {
+          delete: true,
+          backup: true,
+          backupDir: "/srv/backups/site",
+        },
+      };
+
+      const { args } = buildRsyncCommand(options);
+
+      expect(args).toContain("--backup-dir=/srv/backups/site");
+      expect(args.some((arg) => arg.startsWith("--filter=P"))).toBe(false);
+    });
+
     it("should include delete flag when enabled", () => {
       const options: TransferOptions = {
         hostConfig: mockHostConfig,
@@ -280,7 +611,7 @@ describe("Rsync Command Builder", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       expect(command).toContain("--delete");
     });
@@ -298,7 +629,7 @@ describe("Rsync Command Builder", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Combined short flags should include h and P (e.g., -avzhP)
       expect(command).toMatch(/-[avz]+hP/);
@@ -320,7 +651,7 @@ describe("Rsync Command Builder", () => {
         },
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Extract the flags part (between -e and paths)
       // Note: -e argument is now escaped with single quotes
@@ -346,7 +677,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Source directory should not have trailing slash
       expect(command).toContain("'/local/directory'");
@@ -363,7 +694,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Source directory should not have trailing slash (removed)
       expect(command).toContain("'/local/directory'");
@@ -380,7 +711,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // File paths should remain unchanged
       expect(command).toContain("'/local/path/file.txt'");
@@ -396,7 +727,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.DOWNLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Local destination should have trailing slash
       expect(command).toContain("'/local/path/destination/'");
@@ -413,7 +744,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.DOWNLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Local destination should have trailing slash
       expect(command).toContain("'/local/path/destination/'");
@@ -430,7 +761,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Root path should remain as "/" (not modified)
       expect(command).toContain("'/'");
@@ -444,7 +775,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.UPLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Tilde should be expanded to home directory (use homedir() to get actual path)
       const expectedPath = path.join(os.homedir(), "Documents/file.txt");
@@ -461,7 +792,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.DOWNLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Tilde should be expanded to home directory with trailing slash
       const expectedPath = path.join(os.homedir(), "Desktop") + "/";
@@ -478,7 +809,7 @@ describe("Rsync Command Builder", () => {
         direction: TransferDirection.DOWNLOAD,
       };
 
-      const command = buildRsyncCommand(options);
+      const command = buildRsyncCommand(options).display;
 
       // Standalone tilde should be expanded to home directory with trailing slash
       const expectedPath = os.homedir() + "/";
@@ -487,4 +818,1651 @@ describe("Rsync Command Builder", () => {
       expect(command).not.toContain("'~'");
     });
   });
+
+  describe("filter rules", () => {
+    it("should emit filter rules in order", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: {
+          filterRules: [
+            { type: FilterRuleType.INCLUDE, pattern: "keep.log" },
+            { type: FilterRuleType.EXCLUDE, pattern: "*.log" },
+            { type: FilterRuleType.FILTER, pattern: ":- .gitignore" },
+          ],
+        },
+      };
+
+      const { args } = buildRsyncCommand(options);
+
+      const includeIndex = args.indexOf("--include=keep.log");
+      const excludeIndex = args.indexOf("--exclude=*.log");
+      const filterIndex = args.indexOf("--filter=:- .gitignore");
+      expect(includeIndex).toBeGreaterThan(-1);
+      expect(excludeIndex).toBeGreaterThan(includeIndex);
+      expect(filterIndex).toBeGreaterThan(excludeIndex);
+    });
+
+    it("should escape filter patterns to prevent command injection", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: {
+          filterRules: [
+            { type: FilterRuleType.EXCLUDE, pattern: "x'; rm -rf / #" },
+          ],
+        },
+      };
+
+      const command = buildRsyncCommand(options).display;
+
+      expect(command).toContain("'--exclude=x'\\''; rm -rf / #'");
+    });
+  });
+
+  describe("ignore files", () => {
+    it("should add per-directory ignore file merges for uploads", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/directory",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: {
+          honorIgnoreFiles: true,
+          filterRules: [{ type: FilterRuleType.INCLUDE, pattern: "dist/" }],
+        },
+      };
+
+      const command = buildRsyncCommand(options).display;
+
+      expect(command).toContain("'--filter=:- .gitignore'");
+      expect(command).toContain("'--filter=:- .rsyncignore'");
+      // User rules come first so they can override ignore files
+      expect(command.indexOf("'--include=dist/'")).toBeLessThan(
+        command.indexOf("'--filter=:- .rsyncignore'"),
+      );
+    });
+
+    it("should not apply ignore files to downloads", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/directory",
+        remotePath: "/remote/path",
+        direction: TransferDirection.DOWNLOAD,
+        rsyncOptions: { honorIgnoreFiles: true },
+      };
+
+      const command = buildRsyncCommand(options).display;
+
+      expect(command).not.toContain("--filter");
+    });
+  });
+
+  describe("timeouts", () => {
+    it("should add connect and idle timeouts to the command", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        timeouts: { connectTimeout: 15, ioTimeout: 300, overallTimeout: 0 },
+      };
+
+      const command = buildRsyncCommand(options).display;
+
+      expect(command).toContain(
+        `rsync -e 'ssh -F ${configPath} -o ConnectTimeout=15'`,
+      );
+      expect(command).toContain("--timeout=300");
+    });
+
+    it("should omit disabled timeouts", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        timeouts: { connectTimeout: 0, ioTimeout: 0 },
+      };
+
+      const command = buildRsyncCommand(options).display;
+
+      expect(command).not.toContain("ConnectTimeout");
+      expect(command).not.toContain("--timeout");
+    });
+  });
+
+  describe("getPreviewOptions", () => {
+    it("should add dry-run and itemize flags to the transfer command", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: {
+          humanReadable: true,
+          delete: true,
+        },
+      };
+
+      const command = buildRsyncCommand(getPreviewOptions(options)).display;
+
+      expect(command).toContain("--dry-run");
+      expect(command).toContain("--itemize-changes");
+      // Options of the real transfer are kept
+      expect(command).toMatch(/-[avz]+h/);
+      expect(command).toContain("--delete");
+    });
+
+    it("should keep the progress flags of the real transfer", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: { progress: true, delete: true },
+      };
+
+      const { args } = buildRsyncCommand(options);
+      const previewArgs = buildRsyncCommand(getPreviewOptions(options)).args;
+
+      expect(previewArgs.filter((arg) => !args.includes(arg))).toEqual([
+        "--dry-run",
+        "--itemize-changes",
+      ]);
+      expect(previewArgs[2]).toMatch(/-[avz]+P/);
+    });
+
+    it("should run the preview once without retries", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        retry: { maxAttempts: 3, baseDelay: 5 },
+      };
+
+      expect(getPreviewOptions(options).retry?.maxAttempts).toBe(1);
+      expect(options.retry?.maxAttempts).toBe(3);
+    });
+
+    it("should leave the real transfer options untouched", () => {
+      const options: TransferOptions = {
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.DOWNLOAD,
+        rsyncOptions: { progress: true },
+      };
+
+      getPreviewOptions(options);
+      const command = buildRsyncCommand(options).display;
+
+      expect(command).not.toContain("--dry-run");
+      expect(command).not.toContain("--itemize-changes");
+      expect(command).toMatch(/-[avz]+P/);
+    });
+  });
+
+  describe("executed command", () => {
+    const options: TransferOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "/local/path",
+      remotePath: "/remote/path",
+      direction: TransferDirection.UPLOAD,
+      rsyncOptions: { delete: true },
+      retry: { maxAttempts: 3, baseDelay: 5 },
+    };
+
+    beforeEach(() => {
+      vi.mocked(spawn).mockReset();
+    });
+
+    it("should report the command with the flags executeRsync adds", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync(options);
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(result.command).toMatch(/^rsync -e /);
+      expect(result.command).toContain("--stats");
+      expect(result.command).toContain("--partial");
+      expect(result.command).not.toEqual(buildRsyncCommand(options).display);
+    });
+
+    it("should report the dry-run command of a preview", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsyncPreview(options);
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(result.command).toContain("--dry-run");
+      expect(result.command).toContain("--stats");
+      // The preview runs once, so retries add no --partial
+      expect(result.command).not.toContain("--partial");
+    });
+  });
+
+  describe("executeRsync cancellation", () => {
+    const options: TransferOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "/local/path",
+      remotePath: "/remote/path",
+      direction: TransferDirection.UPLOAD,
+      rsyncOptions: { progress: true },
+    };
+
+    beforeEach(() => {
+      vi.mocked(spawn).mockReset();
+    });
+
+    it("should stop rsync and report a cancelled result on abort", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+      const abortController = new AbortController();
+
+      const resultPromise = executeRsync(
+        options,
+        undefined,
+        abortController.signal,
+      );
+      await waitForSpawnedCommand();
+      abortController.abort();
+      const result = await resultPromise;
+
+      expect(fakeProcess.kill).toHaveBeenCalledWith("SIGTERM");
+      expect(result.success).toBe(false);
+      expect(result.cancelled).toBe(true);
+      // -P keeps partial files so the transfer can be resumed
+      expect(result.message).toContain("Partial files were kept");
+    });
+
+    it("should spawn rsync without a shell", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        ...options,
+        localPath: "/local/a;b&c$d.txt",
+      });
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      await resultPromise;
+
+      const [file, args, spawnOptions] = vi.mocked(spawn).mock.calls[0];
+      expect(file).toBe("rsync");
+      expect(args).toContain("/local/a;b&c$d.txt");
+      expect(spawnOptions).not.toHaveProperty("shell");
+    });
+
+    it("should not start rsync when already aborted", async () => {
+      const abortController = new AbortController();
+      abortController.abort();
+
+      const result = await executeRsync(
+        options,
+        undefined,
+        abortController.signal,
+      );
+
+      expect(spawn).not.toHaveBeenCalled();
+      expect(result.cancelled).toBe(true);
+    });
+
+    it("should report progress updates while running", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+      const onProgress = vi.fn();
+
+      // Per-file progress mode
+      const resultPromise = executeRsync(
+        {
+          ...options,
+          rsyncOptions: { progress: true, overallProgress: false },
+        },
+        onProgress,
+      );
+      await waitForSpawnedCommand();
+      fakeProcess.stdout.emit(
+        "data",
+        Buffer.from("    1,234,567  67%  123.45kB/s    0:00:05\n"),
+      );
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(onProgress).toHaveBeenCalledWith(
+        "67% • 123.45kB/s • 0:00:05 remaining",
+      );
+      expect(result.success).toBe(true);
+      expect(result.cancelled).toBeUndefined();
+    });
+
+    it("should point out the bandwidth limit in progress updates", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+      const onProgress = vi.fn();
+
+      const resultPromise = executeRsync(
+        {
+          ...options,
+          rsyncOptions: {
+            progress: true,
+            overallProgress: false,
+            bandwidthLimit: 500,
+          },
+        },
+        onProgress,
+      );
+      await waitForSpawnedCommand();
+      fakeProcess.stdout.emit(
+        "data",
+        Buffer.from("    1,234,567  67%  123.45kB/s    0:00:05\n"),
+      );
+      fakeProcess.emit("close", 0, null);
+      await resultPromise;
+
+      expect(onProgress).toHaveBeenCalledWith(
+        "67% • 123.45kB/s • 0:00:05 remaining • limited to 500 KB/s",
+      );
+    });
+
+    it("should report where backups were stored", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+      vi.mocked(statSync).mockReturnValue({ isDirectory: () => true } as any);
+
+      const resultPromise = executeRsync({
+        ...options,
+        rsyncOptions: { delete: true, backup: true, backupDir: "old" },
+      });
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(result.backupLocation).toBe("testserver:/remote/path/old");
+    });
+
+    it("should run with --stats and parse the statistics", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync(options);
+      const command = await waitForSpawnedCommand();
+      fakeProcess.stdout.emit(
+        "data",
+        Buffer.from(
+          "Number of files: 5 (reg: 4, dir: 1)\nNumber of regular files transferred: 2\nTotal file size: 2,048 bytes\nTotal transferred file size: 1,024 bytes\n",
+        ),
+      );
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(command).toContain("--stats");
+      expect(result.stats?.filesConsidered).toBe(5);
+      expect(result.stats?.filesTransferred).toBe(2);
+      expect(result.message).toBe(
+        "2 of 5 files transferred (1.00 KB of 2.00 KB)",
+      );
+    });
+  });
+
+  describe("executeRsync timeouts", () => {
+    beforeEach(() => {
+      vi.mocked(spawn).mockReset();
+    });
+
+    it("should state the idle timeout that was hit", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        timeouts: { ioTimeout: 120 },
+      });
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 30, null);
+      const result = await resultPromise;
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("no data was transferred for 2 minutes");
+    });
+
+    it("should stop the transfer at the overall time limit", async () => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        timeouts: { overallTimeout: 3600 },
+      });
+      await vi.advanceTimersByTimeAsync(3600 * 1000);
+      vi.useRealTimers();
+      const result = await resultPromise;
+
+      expect(fakeProcess.kill).toHaveBeenCalledWith("SIGTERM");
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("overall time limit of 1 hour");
+    });
+  });
+
+  describe("executeRsync error classification", () => {
+    beforeEach(() => {
+      vi.mocked(spawn).mockReset();
+    });
+
+    const runWithExit = async (code: number, stderr: string) => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        hostConfig: mockHostConfig,
+        localPath: "/local/path",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+      });
+      await waitForSpawnedCommand();
+      fakeProcess.stderr.emit("data", Buffer.from(stderr));
+      fakeProcess.emit("close", code, null);
+      return resultPromise;
+    };
+
+    it("should report exit code 23 as a partial transfer with the skipped files", async () => {
+      const result = await runWithExit(
+        23,
+        'rsync: [sender] send_files failed to open "/local/path/secret.txt": Permission denied (13)\n' +
+          "rsync error: some files/attrs were not transferred (see previous errors) (code 23)\n",
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.partial).toBe(true);
+      expect(result.errorKind).toBe(RsyncErrorKind.PARTIAL_TRANSFER);
+      expect(result.affectedFiles).toEqual(["/local/path/secret.txt"]);
+      expect(result.remediation).toBeTruthy();
+    });
+
+    it("should report exit code 24 as a partial transfer", async () => {
+      const result = await runWithExit(
+        24,
+        'file has vanished: "/local/path/cache.tmp"\n',
+      );
+
+      expect(result.partial).toBe(true);
+      expect(result.errorKind).toBe(RsyncErrorKind.VANISHED_SOURCE_FILES);
+      expect(result.affectedFiles).toEqual(["/local/path/cache.tmp"]);
+    });
+
+    it("should explain rsync missing on the remote server", async () => {
+      const result = await runWithExit(
+        12,
+        "bash: rsync: command not found\nrsync: connection unexpectedly closed (0 bytes received so far) [sender]\n",
+      );
+
+      expect(result.partial).toBeUndefined();
+      expect(result.errorKind).toBe(RsyncErrorKind.RSYNC_NOT_FOUND);
+      expect(result.message).toContain(
+        "rsync was not found on the remote server",
+      );
+    });
+  });
+
+  describe("executeRsync whole-transfer progress", () => {
+    const options: TransferOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "/local/path",
+      remotePath: "/remote/path",
+      direction: TransferDirection.UPLOAD,
+      rsyncOptions: { progress: true },
+    };
+
+    beforeEach(() => {
+      vi.mocked(spawn).mockReset();
+      vi.mocked(getLocalCapabilities).mockReset();
+    });
+
+    it("should use --info=progress2 when the local rsync supports it", async () => {
+      vi.mocked(getLocalCapabilities).mockResolvedValue({
+        implementation: RsyncImplementation.SAMBA,
+        version: { major: 3, minor: 2, patch: 7 },
+        features: [RsyncFeature.PROGRESS2],
+      });
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+      const onProgress = vi.fn();
+
+      const resultPromise = executeRsync(options, onProgress);
+      const command = await waitForSpawnedCommand();
+      fakeProcess.stdout.emit(
+        "data",
+        Buffer.from(
+          "      1,048,576  45%   12.34MB/s    0:01:23 (xfr#12, to-chk=345/1000)\r",
+        ),
+      );
+      fakeProcess.emit("close", 0, null);
+      await resultPromise;
+
+      expect(command).toContain("--info=progress2 --no-inc-recursive");
+      expect(onProgress).toHaveBeenCalledWith(
+        "45% • 1.00 MB • 12.34MB/s • 0:01:23 remaining • 345 of 1000 files left",
+      );
+    });
+
+    it("should fall back to per-file progress on older rsync", async () => {
+      vi.mocked(getLocalCapabilities).mockResolvedValue({
+        implementation: RsyncImplementation.SAMBA,
+        version: { major: 2, minor: 6, patch: 9 },
+        features: [],
+      });
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync(options, vi.fn());
+      const command = await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      await resultPromise;
+
+      expect(command).not.toContain("progress2");
+    });
+
+    it("should not use whole-transfer progress without a progress callback", async () => {
+      vi.mocked(getLocalCapabilities).mockResolvedValue({
+        implementation: RsyncImplementation.SAMBA,
+        version: { major: 3, minor: 2, patch: 7 },
+        features: [RsyncFeature.PROGRESS2],
+      });
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync(options);
+      const command = await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      await resultPromise;
+
+      expect(command).not.toContain("progress2");
+    });
+  });
+
+  describe("executeRsync capability adaptation", () => {
+    const options: TransferOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "/local/path",
+      remotePath: "/remote/path",
+      direction: TransferDirection.UPLOAD,
+      rsyncOptions: { createDestinationPath: true, preserveXattrs: true },
+    };
+
+    beforeEach(() => {
+      vi.mocked(spawn).mockReset();
+      vi.mocked(getLocalCapabilities).mockReset();
+      vi.mocked(getRemoteCapabilities).mockReset();
+      vi.mocked(getLocalCapabilities).mockResolvedValue({
+        implementation: RsyncImplementation.SAMBA,
+        version: { major: 3, minor: 2, patch: 7 },
+        features: [RsyncFeature.MKPATH, RsyncFeature.XATTRS],
+      });
+    });
+
+    const run = async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+      const resultPromise = executeRsync(options);
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      return resultPromise;
+    };
+
+    it("should keep supported flags when both sides support them", async () => {
+      vi.mocked(getRemoteCapabilities).mockResolvedValue({
+        implementation: RsyncImplementation.SAMBA,
+        version: { major: 3, minor: 3, patch: 0 },
+        features: [RsyncFeature.MKPATH, RsyncFeature.XATTRS],
+      });
+
+      const result = await run();
+      const command = (vi.mocked(spawn).mock.calls[0][1] as string[]).join(" ");
+
+      expect(getRemoteCapabilities).toHaveBeenCalledWith(
+        mockHostConfig,
+        undefined,
+      );
+      expect(command).toContain("--mkpath");
+      expect(command).toMatch(/-[avz]+X/);
+      expect(result.warnings).toBeUndefined();
+    });
+
+    it("should skip flags the remote rsync does not support and warn", async () => {
+      vi.mocked(getRemoteCapabilities).mockResolvedValue({
+        implementation: RsyncImplementation.SAMBA,
+        version: { major: 3, minor: 1, patch: 3 },
+        features: [RsyncFeature.XATTRS],
+      });
+
+      const result = await run();
+      const command = (vi.mocked(spawn).mock.calls[0][1] as string[]).join(" ");
+
+      expect(command).not.toContain("--mkpath");
+      expect(command).toMatch(/-[avz]+X/);
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings?.[0]).toContain("remote rsync 3.1.3");
+    });
+  });
+
+  describe("executeRsync protect-args", () => {
+    const options: TransferOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "/local/path",
+      remotePath: "/remote/my folder",
+      direction: TransferDirection.UPLOAD,
+    };
+
+    beforeEach(() => {
+      vi.mocked(spawn).mockReset();
+      vi.mocked(getLocalCapabilities).mockReset();
+      vi.mocked(getRemoteCapabilities).mockReset();
+      vi.mocked(getLocalCapabilities).mockResolvedValue({
+        implementation: RsyncImplementation.SAMBA,
+        version: { major: 3, minor: 2, patch: 7 },
+        features: [RsyncFeature.PROTECT_ARGS],
+      });
+    });
+
+    const run = async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+      const resultPromise = executeRsync(options);
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      await resultPromise;
+      return vi.mocked(spawn).mock.calls[0][1] as string[];
+    };
+
+    it("should protect arguments when both sides support it", async () => {
+      vi.mocked(getRemoteCapabilities).mockResolvedValue({
+        implementation: RsyncImplementation.SAMBA,
+        version: { major: 3, minor: 2, patch: 7 },
+        features: [RsyncFeature.PROTECT_ARGS],
+      });
+
+      const args = await run();
+
+      expect(getRemoteCapabilities).toHaveBeenCalledWith(
+        mockHostConfig,
+        undefined,
+      );
+      expect(args).toContain("--protect-args");
+      expect(args[args.length - 1]).toBe("testserver:/remote/my folder");
+    });
+
+    it("should escape the remote path when the remote rsync is 2.6.9", async () => {
+      vi.mocked(getRemoteCapabilities).mockResolvedValue({
+        implementation: RsyncImplementation.SAMBA,
+        version: { major: 2, minor: 6, patch: 9 },
+        features: [],
+      });
+
+      const args = await run();
+
+      expect(args).not.toContain("--protect-args");
+      expect(args[args.length - 1]).toBe("testserver:'/remote/my folder'");
+    });
+  });
+
+  describe("post-transfer verification", () => {
+    const changes = [
+      {
+        kind: ChangeKind.CREATED,
+        path: "site/",
+        isDirectory: true,
+        itemizeCode: "cd+++++++++",
+      },
+      {
+        kind: ChangeKind.CREATED,
+        path: "site/index.html",
+        isDirectory: false,
+        itemizeCode: "<f+++++++++",
+      },
+    ];
+
+    it("should map uploaded directory contents to both sides", () => {
+      vi.mocked(statSync).mockReturnValue({ isDirectory: () => true } as any);
+
+      expect(
+        getVerificationTargets(
+          {
+            hostConfig: mockHostConfig,
+            localPath: "/local/site/",
+            remotePath: "/var/www",
+            direction: TransferDirection.UPLOAD,
+          },
+          changes,
+        ),
+      ).toEqual([
+        {
+          path: "site/index.html",
+          localPath: "/local/site/index.html",
+          remotePath: "/var/www/site/index.html",
+        },
+      ]);
+    });
+
+    it("should keep the destination name of an uploaded file", () => {
+      vi.mocked(statSync).mockReturnValue({ isDirectory: () => false } as any);
+
+      expect(
+        getVerificationTargets(
+          {
+            hostConfig: mockHostConfig,
+            localPath: "/local/dump.sql",
+            remotePath: "/backups/db.sql",
+            direction: TransferDirection.UPLOAD,
+          },
+          [{ ...changes[1], path: "dump.sql" }],
+        ),
+      ).toEqual([
+        {
+          path: "dump.sql",
+          localPath: "/local/dump.sql",
+          remotePath: "/backups/db.sql",
+        },
+      ]);
+    });
+
+    it("should map files of several uploaded sources to their source", () => {
+      expect(
+        getVerificationTargets(
+          {
+            hostConfig: mockHostConfig,
+            localPath: "/local/dir",
+            localPaths: ["/local/dir", "/home/me/notes.txt"],
+            remotePath: "/var/www",
+            direction: TransferDirection.UPLOAD,
+          },
+          [
+            { ...changes[1], path: "dir/index.html" },
+            { ...changes[1], path: "notes.txt" },
+          ],
+        ),
+      ).toEqual([
+        {
+          path: "dir/index.html",
+          localPath: "/local/dir/index.html",
+          remotePath: "/var/www/dir/index.html",
+        },
+        {
+          path: "notes.txt",
+          localPath: "/home/me/notes.txt",
+          remotePath: "/var/www/notes.txt",
+        },
+      ]);
+    });
+
+    it("should map downloaded files to both sides", () => {
+      expect(
+        getVerificationTargets(
+          {
+            hostConfig: mockHostConfig,
+            localPath: "/local/downloads",
+            remotePath: "~/site/",
+            direction: TransferDirection.DOWNLOAD,
+          },
+          [{ ...changes[1], itemizeCode: ">f+++++++++" }],
+        ),
+      ).toEqual([
+        {
+          path: "site/index.html",
+          localPath: "/local/downloads/site/index.html",
+          remotePath: "~/site/index.html",
+        },
+      ]);
+    });
+
+    it("should map files of remote paths preserved with --relative", () => {
+      expect(
+        getVerificationTargets(
+          {
+            hostConfig: mockHostConfig,
+            localPath: "/local/downloads",
+            remotePath: "/srv/./app/logs",
+            remotePaths: ["/srv/./app/logs", "~/notes.txt"],
+            direction: TransferDirection.DOWNLOAD,
+            rsyncOptions: { relative: true },
+          },
+          [
+            { ...changes[1], path: "app/logs/today.log", itemizeCode: ">f+++" },
+            { ...changes[1], path: "notes.txt", itemizeCode: ">f+++" },
+          ],
+        ),
+      ).toEqual([
+        {
+          path: "app/logs/today.log",
+          localPath: "/local/downloads/app/logs/today.log",
+          remotePath: "/srv/app/logs/today.log",
+        },
+        {
+          path: "notes.txt",
+          localPath: "/local/downloads/notes.txt",
+          remotePath: "~/notes.txt",
+        },
+      ]);
+    });
+
+    it("should map manifest entries below the source directory", () => {
+      expect(
+        getVerificationTargets(
+          {
+            hostConfig: mockHostConfig,
+            localPath: "/local/downloads",
+            remotePath: "/srv/site/",
+            direction: TransferDirection.DOWNLOAD,
+            rsyncOptions: { filesFrom: ["docs/guide.pdf"] },
+          },
+          [{ ...changes[1], path: "docs/guide.pdf", itemizeCode: ">f+++" }],
+        ),
+      ).toEqual([
+        {
+          path: "docs/guide.pdf",
+          localPath: "/local/downloads/docs/guide.pdf",
+          remotePath: "/srv/site/docs/guide.pdf",
+        },
+      ]);
+    });
+
+    it("should verify the itemized files after a successful transfer", async () => {
+      vi.mocked(spawn).mockReset();
+      vi.mocked(verifyTransfer).mockResolvedValue({
+        filesChecked: 1,
+        mismatches: [],
+      });
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        hostConfig: mockHostConfig,
+        localPath: "/local/downloads",
+        remotePath: "/srv/site",
+        direction: TransferDirection.DOWNLOAD,
+        rsyncOptions: { verifyAfterTransfer: true },
+      });
+      const command = await waitForSpawnedCommand();
+      fakeProcess.stdout.emit(
+        "data",
+        Buffer.from("cd+++++++++ site/\n>f+++++++++ site/index.html\n"),
+      );
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(command).toContain("--itemize-changes");
+      expect(verifyTransfer).toHaveBeenCalledWith(
+        mockHostConfig,
+        [
+          {
+            path: "site/index.html",
+            localPath: "/local/downloads/site/index.html",
+            remotePath: "/srv/site/index.html",
+          },
+        ],
+        undefined,
+        "",
+      );
+      expect(result.verification).toEqual({ filesChecked: 1, mismatches: [] });
+    });
+
+    it("should not verify dry-run previews", () => {
+      expect(
+        getPreviewOptions({
+          hostConfig: mockHostConfig,
+          localPath: "/local/path",
+          remotePath: "/remote/path",
+          direction: TransferDirection.UPLOAD,
+          rsyncOptions: { verifyAfterTransfer: true },
+        }).rsyncOptions?.verifyAfterTransfer,
+      ).toBe(false);
+    });
+  });
+
+  describe("executeRsync multiple sources", () => {
+    it("should report the outcome of each source", async () => {
+      vi.mocked(spawn).mockReset();
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        hostConfig: mockHostConfig,
+        localPath: "/local/dir",
+        localPaths: ["/local/dir", "/local/notes.txt"],
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+      });
+      const command = await waitForSpawnedCommand();
+      fakeProcess.stdout.emit(
+        "data",
+        Buffer.from(
+          "cd+++++++++ dir/\n<f+++++++++ dir/a.txt\n<f+++++++++ dir/b.txt\n",
+        ),
+      );
+      fakeProcess.stderr.emit(
+        "data",
+        Buffer.from(
+          'rsync: [sender] send_files failed to open "/local/notes.txt": Permission denied (13)\n',
+        ),
+      );
+      fakeProcess.emit("close", 23, null);
+      const result = await resultPromise;
+
+      expect(command).toContain("--itemize-changes");
+      expect(result.partial).toBe(true);
+      expect(result.sources).toEqual([
+        { path: "/local/dir", filesTransferred: 2, skippedFiles: [] },
+        {
+          path: "/local/notes.txt",
+          filesTransferred: 0,
+          skippedFiles: ["/local/notes.txt"],
+        },
+      ]);
+    });
+
+    it("should not report sources for a single source", async () => {
+      vi.mocked(spawn).mockReset();
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        hostConfig: mockHostConfig,
+        localPath: "/local/notes.txt",
+        localPaths: ["/local/notes.txt"],
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+      });
+      const command = await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(command).not.toContain("--itemize-changes");
+      expect(result.sources).toBeUndefined();
+    });
+  });
+
+  describe("executeRsync manifests", () => {
+    it("should send the manifest on stdin", async () => {
+      vi.mocked(spawn).mockReset();
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        hostConfig: mockHostConfig,
+        localPath: "/local/dir",
+        remotePath: "/remote/path",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: { filesFrom: ["docs/guide.pdf", "notes.txt"] },
+      });
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      await resultPromise;
+
+      expect(fakeProcess.stdin.end).toHaveBeenCalledWith(
+        "docs/guide.pdf\nnotes.txt\n",
+      );
+    });
+  });
+
+  describe("remote-to-remote transfers", () => {
+    const remoteToRemoteOptions: TransferOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "",
+      remotePath: "~/app/",
+      destinationHostConfig: {
+        host: "backup",
+        hostName: "backup.example.com",
+        user: "deploy",
+        port: 2222,
+      },
+      destinationPath: "/srv/mirror",
+      direction: TransferDirection.REMOTE_TO_REMOTE,
+      timeouts: { connectTimeout: 10 },
+    };
+
+    it("should run rsync on the source host with agent forwarding", () => {
+      const command = buildRsyncCommand(remoteToRemoteOptions);
+
+      expect(command.program).toBe("ssh");
+      expect(command.args).toEqual([
+        "-A",
+        "-F",
+        configPath,
+        "-o",
+        "ConnectTimeout=10",
+        "--",
+        "testserver",
+        "rsync -e 'ssh -o BatchMode=yes -p 2222 -o ConnectTimeout=10' -avz --protect-args 'app' 'deploy@backup.example.com:/srv/mirror/'",
+      ]);
+    });
+
+    it("should quote the destination path for its shell without --protect-args", () => {
+      const command = buildRsyncCommand({
+        ...remoteToRemoteOptions,
+        destinationPath: "/srv/my files",
+        rsyncOptions: { protectArgs: false },
+      });
+
+      // Quoted once for the destination shell, then again for the source shell
+      expect(command.args[command.args.length - 1]).toContain(
+        "'deploy@backup.example.com:'\\''/srv/my files/'\\'''",
+      );
+    });
+
+    it("should spawn ssh and probe the source host as the local side", async () => {
+      vi.mocked(spawn).mockReset();
+      vi.mocked(getLocalCapabilities).mockReset();
+      vi.mocked(getRemoteCapabilities).mockReset();
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        ...remoteToRemoteOptions,
+        rsyncOptions: { verifyAfterTransfer: true },
+      });
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(vi.mocked(spawn).mock.calls[0][0]).toBe("ssh");
+      expect(getLocalCapabilities).not.toHaveBeenCalled();
+      expect(getRemoteCapabilities).toHaveBeenCalledWith(mockHostConfig, {
+        connectTimeout: 10,
+      });
+      // There are no local files to compare the transferred files against
+      expect(result.success).toBe(true);
+      expect(result.verification).toBeUndefined();
+    });
+  });
+
+  describe("rsync daemon endpoints", () => {
+    const daemonConfig: RsyncDaemonConfig = {
+      host: "NAS",
+      hostName: "nas.local",
+      port: 8730,
+      module: "backups",
+      user: "backup",
+      passwordFile: "/Users/me/.rsync-password",
+    };
+
+    it("should upload to the module URL without a remote shell", () => {
+      const command = buildRsyncCommand({
+        hostConfig: daemonConfig,
+        localPath: "/local/photos",
+        remotePath: "/photos/2024",
+        direction: TransferDirection.UPLOAD,
+        timeouts: { connectTimeout: 10 },
+      });
+
+      expect(command.args).toEqual([
+        "--password-file=/Users/me/.rsync-password",
+        "--contimeout=10",
+        "-avz",
+        "--protect-args",
+        "/local/photos",
+        "rsync://backup@nas.local:8730/backups/photos/2024",
+      ]);
+      expect(command.args).not.toContain("-e");
+      expect(command.display).toMatch(/^rsync '--password-file=/);
+    });
+
+    it("should download from the module URL", () => {
+      const command = buildRsyncCommand({
+        hostConfig: {
+          ...daemonConfig,
+          user: undefined,
+          passwordFile: undefined,
+        },
+        localPath: "/local/downloads",
+        remotePath: "~/photos",
+        direction: TransferDirection.DOWNLOAD,
+      });
+
+      expect(command.args).toEqual([
+        "-avz",
+        "--protect-args",
+        "rsync://nas.local:8730/backups/photos",
+        "/local/downloads/",
+      ]);
+    });
+
+    it("should neither probe nor verify over SSH", async () => {
+      vi.mocked(spawn).mockReset();
+      vi.mocked(getRemoteCapabilities).mockReset();
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        hostConfig: daemonConfig,
+        localPath: "/local/photos",
+        remotePath: "/photos",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: {
+          createDestinationPath: true,
+          verifyAfterTransfer: true,
+        },
+      });
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(vi.mocked(spawn).mock.calls[0][0]).toBe("rsync");
+      expect(getRemoteCapabilities).not.toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      expect(result.verification).toBeUndefined();
+    });
+  });
+
+  describe("local transfers", () => {
+    const localOptions: TransferOptions = {
+      hostConfig: LOCAL_HOST,
+      localPath: "/Users/me/directory",
+      remotePath: "",
+      destinationPath: "/Volumes/USB Drive/Backups",
+      direction: TransferDirection.LOCAL,
+    };
+
+    it("should sync into the destination folder without a remote shell", () => {
+      const command = buildRsyncCommand(localOptions);
+
+      expect(command.program).toBeUndefined();
+      expect(command.args).toEqual([
+        "-avz",
+        "--protect-args",
+        "/Users/me/directory",
+        "/Volumes/USB Drive/Backups/",
+      ]);
+      expect(command.display).toBe(
+        "rsync -avz --protect-args '/Users/me/directory' '/Volumes/USB Drive/Backups/'",
+      );
+    });
+
+    it("should copy a single file into the destination folder", () => {
+      const command = buildRsyncCommand({
+        ...localOptions,
+        localPath: "/Users/me/notes.txt",
+        destinationPath: "~/Mirror",
+      });
+
+      expect(command.args.slice(-2)).toEqual([
+        "/Users/me/notes.txt",
+        join(homedir(), "Mirror") + "/",
+      ]);
+    });
+
+    it("should add the removable filesystem options", () => {
+      const command = buildRsyncCommand({
+        ...localOptions,
+        rsyncOptions: {
+          preservePermissions: false,
+          preserveOwner: false,
+          preserveGroup: false,
+          omitDirTimes: true,
+          modifyWindow: 1,
+        },
+      });
+
+      expect(command.args).toEqual(
+        expect.arrayContaining([
+          "--no-perms",
+          "--no-owner",
+          "--no-group",
+          "--omit-dir-times",
+          "--modify-window=1",
+        ]),
+      );
+    });
+
+    it("should keep permissions and ownership by default", () => {
+      const command = buildRsyncCommand({
+        ...localOptions,
+        rsyncOptions: { preservePermissions: true, preserveOwner: true },
+      }).display;
+
+      expect(command).not.toContain("--no-");
+      expect(command).not.toContain("--modify-window");
+    });
+
+    it("should preview with --dry-run and protect backups from --delete", () => {
+      const command = buildRsyncCommand(
+        getPreviewOptions({
+          ...localOptions,
+          rsyncOptions: { delete: true, backup: true, backupDir: "old" },
+        }),
+      ).args;
+
+      expect(command).toEqual(
+        expect.arrayContaining([
+          "--delete",
+          "--dry-run",
+          "--backup",
+          "--backup-dir=old",
+          "--filter=P /old/",
+        ]),
+      );
+    });
+
+    it("should only probe the local rsync and report local backups", async () => {
+      vi.mocked(spawn).mockReset();
+      vi.mocked(getRemoteCapabilities).mockReset();
+      vi.mocked(verifyTransfer).mockReset();
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        ...localOptions,
+        rsyncOptions: {
+          createDestinationPath: true,
+          verifyAfterTransfer: true,
+          delete: true,
+          backup: true,
+          backupDir: "old",
+        },
+      });
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(vi.mocked(spawn).mock.calls[0][0]).toBe("rsync");
+      expect(getRemoteCapabilities).not.toHaveBeenCalled();
+      expect(verifyTransfer).not.toHaveBeenCalled();
+      expect(result.backupLocation).toBe("/Volumes/USB Drive/Backups/old");
+    });
+  });
+
+  describe("remote rsync path", () => {
+    const options: TransferOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "/local/directory",
+      remotePath: "/etc/nginx",
+      direction: TransferDirection.UPLOAD,
+      rsyncOptions: { rsyncPath: "sudo -n rsync" },
+    };
+
+    beforeEach(() => {
+      vi.mocked(spawn).mockReset();
+      vi.mocked(checkRemoteRsyncPath).mockReset();
+    });
+
+    it("should pass the remote rsync path", () => {
+      const command = buildRsyncCommand(options);
+
+      expect(command.args).toContain("--rsync-path=sudo -n rsync");
+      expect(command.display).toContain("'--rsync-path=sudo -n rsync'");
+    });
+
+    it("should check the remote rsync path before transferring", async () => {
+      vi.mocked(checkRemoteRsyncPath).mockResolvedValue(undefined);
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync(options);
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(checkRemoteRsyncPath).toHaveBeenCalledWith(
+        mockHostConfig,
+        "sudo -n rsync",
+        undefined,
+      );
+      expect(result.success).toBe(true);
+    });
+
+    it("should not start rsync when sudo needs a password", async () => {
+      vi.mocked(checkRemoteRsyncPath).mockResolvedValue({
+        success: false,
+        message: "sudo on the remote server asked for a password.",
+        errorKind: RsyncErrorKind.SUDO_PASSWORD_REQUIRED,
+      });
+
+      const result = await executeRsync(options);
+
+      expect(spawn).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.errorKind).toBe(RsyncErrorKind.SUDO_PASSWORD_REQUIRED);
+    });
+  });
+
+  describe("permission and ownership options", () => {
+    it("should map permissions and owners for the destination", () => {
+      const command = buildRsyncCommand({
+        hostConfig: mockHostConfig,
+        localPath: "/local/directory",
+        remotePath: "/var/www/site",
+        direction: TransferDirection.UPLOAD,
+        rsyncOptions: {
+          chmod: "D755,F644",
+          chown: "www-data:www-data",
+          preserveOwner: false,
+          numericIds: true,
+        },
+      });
+
+      expect(command.args).toEqual(
+        expect.arrayContaining([
+          "--no-owner",
+          "--chmod=D755,F644",
+          "--chown=www-data:www-data",
+          "--numeric-ids",
+        ]),
+      );
+      expect(command.args).not.toContain("--no-group");
+      expect(command.args).not.toContain("--no-perms");
+    });
+  });
+
+  describe("compression options", () => {
+    const options: TransferOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "/local/directory",
+      remotePath: "/remote/directory",
+      direction: TransferDirection.UPLOAD,
+    };
+
+    it("should not compress transfers with a LAN host", async () => {
+      vi.mocked(spawn).mockReset();
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({
+        ...options,
+        rsyncOptions: {
+          compression: CompressionMode.ZSTD,
+          compressLevel: 12,
+        },
+        lanHosts: ["testserver"],
+      });
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 0, null);
+      await resultPromise;
+
+      const args = vi.mocked(spawn).mock.calls[0][1] as string[];
+      expect(args[2]).toBe("-av");
+      expect(args.join(" ")).not.toContain("--compress");
+    });
+
+    it("should compress with -z by default", () => {
+      const { args } = buildRsyncCommand(options);
+
+      expect(args[2]).toBe("-avz");
+      expect(args.join(" ")).not.toContain("--compress");
+    });
+
+    it("should not compress when compression is off", () => {
+      const { args } = buildRsyncCommand({
+        ...options,
+        rsyncOptions: {
+          compression: CompressionMode.OFF,
+          compressLevel: 3,
+          skipCompress: ["jpg"],
+          humanReadable: true,
+        },
+      });
+
+      expect(args[2]).toBe("-avh");
+      expect(args.join(" ")).not.toContain("compress");
+    });
+
+    it("should choose the algorithm, level and skipped suffixes", () => {
+      const { args } = buildRsyncCommand({
+        ...options,
+        rsyncOptions: {
+          compression: CompressionMode.ZSTD,
+          compressLevel: 12,
+          skipCompress: ["jpg", "mp4", "zip"],
+        },
+      });
+
+      expect(args[2]).toBe("-avz");
+      expect(args).toEqual(
+        expect.arrayContaining([
+          "--compress-choice=zstd",
+          "--compress-level=12",
+          "--skip-compress=jpg/mp4/zip",
+        ]),
+      );
+    });
+  });
+
+  describe("large file mode", () => {
+    const options: TransferOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "/local/disk.img",
+      remotePath: "/srv/images",
+      direction: TransferDirection.UPLOAD,
+      rsyncOptions: { partialDir: ".rsync-partial", appendVerify: true },
+    };
+
+    beforeEach(() => {
+      vi.mocked(spawn).mockReset();
+    });
+
+    it("should keep partial files in the partial directory", () => {
+      const { args } = buildRsyncCommand(options);
+
+      expect(args).toEqual(
+        expect.arrayContaining([
+          "--partial-dir=.rsync-partial",
+          "--append-verify",
+        ]),
+      );
+    });
+
+    it("should mark a dropped connection as resumable", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync(options);
+      await waitForSpawnedCommand();
+      fakeProcess.stderr.emit(
+        "data",
+        Buffer.from(
+          "client_loop: send disconnect: Broken pipe\nrsync error: unexplained error (code 255) at io.c(228)\n",
+        ),
+      );
+      fakeProcess.emit("close", 255, null);
+      const result = await resultPromise;
+
+      expect(result.success).toBe(false);
+      expect(result.resumable).toBe(true);
+    });
+
+    it("should mark a cancelled transfer as resumable", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+      const abortController = new AbortController();
+
+      const resultPromise = executeRsync(
+        options,
+        undefined,
+        abortController.signal,
+      );
+      await waitForSpawnedCommand();
+      abortController.abort();
+      const result = await resultPromise;
+
+      expect(result.cancelled).toBe(true);
+      expect(result.resumable).toBe(true);
+      expect(result.message).toContain("Partial files were kept");
+    });
+
+    it("should not offer to resume failures a rerun cannot fix", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync(options);
+      await waitForSpawnedCommand();
+      fakeProcess.stderr.emit(
+        "data",
+        Buffer.from("Permission denied (publickey).\n"),
+      );
+      fakeProcess.emit("close", 255, null);
+      const result = await resultPromise;
+
+      expect(result.errorKind).toBe(RsyncErrorKind.AUTHENTICATION);
+      expect(result.resumable).toBeUndefined();
+    });
+
+    it("should not mark transfers without partial files as resumable", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync({ ...options, rsyncOptions: {} });
+      await waitForSpawnedCommand();
+      fakeProcess.emit("close", 255, null);
+      const result = await resultPromise;
+
+      expect(result.resumable).toBeUndefined();
+    });
+  });
+
+  describe("retries", () => {
+    const options: TransferOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "/local/disk.img",
+      remotePath: "/srv/images",
+      direction: TransferDirection.UPLOAD,
+      rsyncOptions: {},
+      retry: { maxAttempts: 3, baseDelay: 0 },
+    };
+
+    beforeEach(() => {
+      vi.mocked(spawn).mockReset();
+    });
+
+    const dropConnection = (
+      fakeProcess: ReturnType<typeof createFakeProcess>,
+    ) => {
+      fakeProcess.stderr.emit(
+        "data",
+        Buffer.from(
+          "client_loop: send disconnect: Broken pipe\nrsync error: unexplained error (code 255) at io.c(228)\n",
+        ),
+      );
+      fakeProcess.emit("close", 255, null);
+    };
+
+    it("should keep partial files so retries continue them", () => {
+      const { args } = buildRsyncCommand({
+        ...options,
+        rsyncOptions: { partial: true },
+      });
+
+      expect(args).toContain("--partial");
+    });
+
+    it("should not add --partial when -P already keeps partial files", () => {
+      const { args } = buildRsyncCommand({
+        ...options,
+        rsyncOptions: { partial: true, progress: true },
+      });
+
+      expect(args).not.toContain("--partial");
+    });
+
+    it("should retry a dropped connection and report the attempts", async () => {
+      const firstProcess = createFakeProcess();
+      const secondProcess = createFakeProcess();
+      vi.mocked(spawn)
+        .mockReturnValueOnce(firstProcess as any)
+        .mockReturnValueOnce(secondProcess as any);
+
+      const resultPromise = executeRsync(options);
+      await waitForSpawnedCommand();
+      dropConnection(firstProcess);
+      await vi.waitFor(() => expect(spawn).toHaveBeenCalledTimes(2));
+      secondProcess.emit("close", 0, null);
+      const result = await resultPromise;
+
+      expect(result.success).toBe(true);
+      expect(result.attempts).toBe(2);
+      expect(vi.mocked(spawn).mock.calls[1][1]).toContain("--partial");
+    });
+
+    it("should stop after the last attempt", async () => {
+      const processes = [
+        createFakeProcess(),
+        createFakeProcess(),
+        createFakeProcess(),
+      ];
+      for (const fakeProcess of processes) {
+        vi.mocked(spawn).mockReturnValueOnce(fakeProcess as any);
+      }
+
+      const resultPromise = executeRsync(options);
+      for (const [index, fakeProcess] of processes.entries()) {
+        await vi.waitFor(() => expect(spawn).toHaveBeenCalledTimes(index + 1));
+        dropConnection(fakeProcess);
+      }
+      const result = await resultPromise;
+
+      expect(spawn).toHaveBeenCalledTimes(3);
+      expect(result.success).toBe(false);
+      expect(result.errorKind).toBe(RsyncErrorKind.CONNECTION_LOST);
+      expect(result.attempts).toBe(3);
+      expect(result.resumable).toBe(true);
+    });
+
+    it("should never retry authentication errors", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+
+      const resultPromise = executeRsync(options);
+      await waitForSpawnedCommand();
+      fakeProcess.stderr.emit(
+        "data",
+        Buffer.from("Permission denied (publickey).\n"),
+      );
+      fakeProcess.emit("close", 255, null);
+      const result = await resultPromise;
+
+      expect(spawn).toHaveBeenCalledTimes(1);
+      expect(result.errorKind).toBe(RsyncErrorKind.AUTHENTICATION);
+      expect(result.attempts).toBeUndefined();
+    });
+
+    it("should show a countdown and stop when cancelled while waiting", async () => {
+      const fakeProcess = createFakeProcess();
+      vi.mocked(spawn).mockReturnValue(fakeProcess as any);
+      const abortController = new AbortController();
+      const onProgress = vi.fn();
+
+      const resultPromise = executeRsync(
+        { ...options, retry: { maxAttempts: 5, baseDelay: 8 } },
+        onProgress,
+        abortController.signal,
+      );
+      await waitForSpawnedCommand();
+      dropConnection(fakeProcess);
+      await vi.waitFor(() =>
+        expect(onProgress).toHaveBeenCalledWith(
+          "Transfer interrupted • retry 2/5 in 8s",
+        ),
+      );
+      abortController.abort();
+      const result = await resultPromise;
+
+      expect(spawn).toHaveBeenCalledTimes(1);
+      expect(result.cancelled).toBe(true);
+      expect(result.resumable).toBe(true);
+    });
+  });
 });
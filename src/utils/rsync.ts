@@ -1,26 +1,96 @@
-import { exec } from "child_process";
 import { spawn } from "child_process";
-import { promisify } from "util";
 import { homedir } from "os";
-import { join } from "path";
+import { basename, join, posix } from "path";
 import { statSync } from "fs";
 import {
   TransferOptions,
   TransferDirection,
   RsyncResult,
   RsyncOptions,
+  FilterRule,
+  TimeoutOptions,
+  RsyncErrorKind,
+  RsyncFeature,
+  RsyncCommand,
+  ComparisonMode,
+  CompressionMode,
+  ItemizedChange,
+  VerificationTarget,
+  SSHHostConfig,
 } from "../types/server";
-import { shellEscape } from "./shellEscape";
+import { shellEscape, formatShellCommand } from "./shellEscape";
+import { parseItemizedChanges } from "./itemize";
+import { buildFilterArgs } from "./filterRules";
+import { detectIgnoreFiles, buildIgnoreFileRules } from "./ignoreFiles";
+import { parseRsyncStats, formatStatsSummary } from "./rsyncStats";
+import {
+  classifyRsyncError,
+  describeRsyncError,
+  extractAffectedFiles,
+  isPartialTransfer,
+  isInterruption,
+} from "./rsyncErrors";
+import { parseOverallProgressLine, formatTransferProgress } from "./progress";
+import { formatBandwidthLimit } from "./bandwidth";
+import { isLanTransfer, withoutCompression } from "./compression";
+import {
+  buildDaemonFlags,
+  formatDaemonUrl,
+  isRsyncDaemon,
+} from "./rsyncDaemon";
+import { checkRemoteRsyncPath } from "./rsyncPath";
+import { keepsPartialFiles } from "./resume";
+import {
+  formatRetryCountdown,
+  getRetryDelay,
+  retriesEnabled,
+  shouldRetry,
+  waitForRetry,
+} from "./retry";
+import { getTransferredFiles, verifyTransfer } from "./verify";
+import {
+  getLocalSources,
+  getRemoteSources,
+  getSourceBase,
+  findSourceOfPath,
+  summarizeSources,
+} from "./sources";
+import {
+  resolveBackupDir,
+  buildBackupProtectRule,
+  describeBackupLocation,
+} from "./backup";
+import {
+  getLocalCapabilities,
+  getRemoteCapabilities,
+  needsRemoteCapabilities,
+  adaptRsyncOptions,
+  hasFeature,
+} from "./capabilities";
 
-const execAsync = promisify(exec);
+/**
+ * Host of local transfers, which have no remote side
+ */
+export const LOCAL_HOST: SSHHostConfig = { host: "localhost" };
 
 /**
- * Builds rsync flags string from options
+ * Builds rsync flag arguments from options
  * @param options - Rsync options
- * @returns String of rsync flags
+ * @param timeouts - Optional timeouts (only the I/O idle timeout is an rsync flag)
+ * @param startedAt - Transfer start time, used for the backup directory timestamp
+ * @returns rsync flag arguments
  */
-function buildRsyncFlags(options?: RsyncOptions): string {
-  const shortFlags: string[] = ["a", "v", "z"]; // Base flags: archive, verbose, compress
+function buildRsyncFlags(
+  options?: RsyncOptions,
+  timeouts?: TimeoutOptions,
+  startedAt: Date = new Date(),
+): string[] {
+  const shortFlags: string[] = ["a", "v"]; // Base flags: archive, verbose
+  const compression = options?.compression ?? CompressionMode.DEFAULT;
+
+  if (compression !== CompressionMode.OFF) {
+    shortFlags.push("z"); // Compress file data during the transfer
+  }
 
   if (options?.humanReadable) {
     shortFlags.push("h"); // Human-readable file sizes
@@ -30,6 +100,14 @@ function buildRsyncFlags(options?: RsyncOptions): string {
     shortFlags.push("P"); // Progress and partial transfers (equivalent to --partial --progress)
   }
 
+  if (options?.preserveXattrs) {
+    shortFlags.push("X"); // Extended attributes
+  }
+
+  if (options?.comparisonMode === ComparisonMode.CHECKSUM) {
+    shortFlags.push("c"); // Compare full-file checksums instead of mtime and size
+  }
+
   // Combine short flags into a single -flag string
   const flags = `-${shortFlags.join("")}`;
 
@@ -39,7 +117,136 @@ function buildRsyncFlags(options?: RsyncOptions): string {
     longFlags.push("--delete"); // Delete extraneous files from destination
   }
 
-  return longFlags.length > 0 ? `${flags} ${longFlags.join(" ")}` : flags;
+  if (options?.preservePermissions === false) {
+    longFlags.push("--no-perms"); // Leave permissions to the destination filesystem
+  }
+
+  if (options?.preserveOwner === false) {
+    longFlags.push("--no-owner"); // Leave ownership to the destination filesystem
+  }
+
+  if (options?.preserveGroup === false) {
+    longFlags.push("--no-group");
+  }
+
+  if (options?.chmod) {
+    longFlags.push(`--chmod=${options.chmod}`); // e.g. D755,F644 for a Linux web root
+  }
+
+  if (options?.chown) {
+    longFlags.push(`--chown=${options.chown}`); // Needs root (or sudo) on the receiving side
+  }
+
+  if (options?.numericIds) {
+    longFlags.push("--numeric-ids");
+  }
+
+  if (options?.omitDirTimes) {
+    longFlags.push("--omit-dir-times"); // Directory times cannot be set on some filesystems
+  }
+
+  if (options?.modifyWindow) {
+    longFlags.push(`--modify-window=${options.modifyWindow}`); // Tolerance for coarse timestamps (FAT/exFAT)
+  }
+
+  if (options?.comparisonMode === ComparisonMode.SIZE_ONLY) {
+    longFlags.push("--size-only"); // Skip files whose size matches, ignoring mtime
+  }
+
+  if (options?.createDestinationPath) {
+    longFlags.push("--mkpath"); // Create missing destination directories
+  }
+
+  if (options?.relative) {
+    longFlags.push("--relative"); // Keep source paths (from a "/./" marker, if any)
+  }
+
+  if (options?.filesFrom) {
+    // Only the listed paths, read from stdin; -a does not recurse with --files-from,
+    // so listed directories are sent with their contents explicitly
+    longFlags.push("--files-from=-", "--recursive");
+  }
+
+  if (options?.dryRun) {
+    longFlags.push("--dry-run"); // Trial run, nothing is changed
+  }
+
+  if (options?.itemizeChanges) {
+    longFlags.push("--itemize-changes"); // Change-summary line for every update
+  }
+
+  if (options?.stats) {
+    longFlags.push("--stats"); // Transfer statistics, parsed into RsyncResult.stats
+  }
+
+  if (options?.overallProgress) {
+    // Whole-transfer progress; the full file list is needed up front for real totals
+    longFlags.push("--info=progress2", "--no-inc-recursive");
+  }
+
+  if (options?.partial && !options.progress && !options.partialDir) {
+    longFlags.push("--partial"); // Keep partial files so a rerun continues them
+  }
+
+  if (options?.partialDir) {
+    longFlags.push(`--partial-dir=${options.partialDir}`); // Partial files stay out of the destination until complete
+  }
+
+  if (options?.appendVerify) {
+    longFlags.push("--append-verify"); // Resume growing files by appending, then verify the whole file
+  }
+
+  if (options?.bandwidthLimit) {
+    longFlags.push(`--bwlimit=${options.bandwidthLimit}`); // Maximum rate in KB/s
+  }
+
+  if (compression !== CompressionMode.OFF) {
+    if (compression !== CompressionMode.DEFAULT) {
+      longFlags.push(`--compress-choice=${compression}`);
+    }
+    if (options?.compressLevel !== undefined) {
+      longFlags.push(`--compress-level=${options.compressLevel}`);
+    }
+    if (options?.skipCompress?.length) {
+      longFlags.push(`--skip-compress=${options.skipCompress.join("/")}`); // Already-compressed suffixes
+    }
+  }
+
+  if (options?.rsyncPath) {
+    longFlags.push(`--rsync-path=${options.rsyncPath}`); // Remote command that starts rsync (e.g. sudo -n rsync)
+  }
+
+  if (options?.linkDest) {
+    longFlags.push(`--link-dest=${options.linkDest}`); // Hard-link files unchanged since this directory
+  }
+
+  if (options?.backup) {
+    // Overwritten and deleted files move to a (timestamped) directory on the destination
+    const backupDir = resolveBackupDir(options.backupDir, startedAt);
+    longFlags.push("--backup", `--backup-dir=${backupDir}`);
+
+    // Protect earlier backups from --delete; first so no include rule can override it
+    const protectRule = buildBackupProtectRule(options.backupDir);
+    if (options.delete && protectRule) {
+      longFlags.push(`--filter=${protectRule}`);
+    }
+  }
+
+  // Filter rules are passed as-is: arguments never go through a local shell
+  if (options?.filterRules) {
+    longFlags.push(...buildFilterArgs(options.filterRules));
+  }
+
+  if (timeouts?.ioTimeout) {
+    longFlags.push(`--timeout=${timeouts.ioTimeout}`); // Abort when no data moves for this long
+  }
+
+  // Send paths over the rsync protocol instead of the remote shell command line
+  if (options?.protectArgs ?? true) {
+    longFlags.push("--protect-args");
+  }
+
+  return [flags, ...longFlags];
 }
 
 /**
@@ -47,7 +254,7 @@ function buildRsyncFlags(options?: RsyncOptions): string {
  * @param path - The path that may contain ~
  * @returns Path with ~ expanded to home directory
  */
-function expandHomeDir(path: string): string {
+export function expandHomeDir(path: string): string {
   if (path.startsWith("~/")) {
     return join(homedir(), path.slice(2));
   }
@@ -76,43 +283,71 @@ function ensureTrailingSlash(path: string): string {
   return path.endsWith("/") ? path : `${path}/`;
 }
 
+/**
+ * Normalizes an upload source: expands ~ and removes the trailing slash of a
+ * directory so rsync copies the directory itself rather than its contents
+ * @param localPath - Local upload source
+ * @returns Normalized source and whether it is a directory
+ */
+function normalizeUploadSource(localPath: string): {
+  path: string;
+  isDirectory: boolean;
+} {
+  const expandedLocalPath = expandHomeDir(localPath);
+  try {
+    if (statSync(expandedLocalPath).isDirectory()) {
+      return {
+        path: removeTrailingSlash(expandedLocalPath),
+        isDirectory: true,
+      };
+    }
+  } catch (error) {
+    // If we can't stat the path, proceed with the original path
+    // This could happen if the path doesn't exist yet (shouldn't happen after validation)
+    console.warn("Could not stat local path, using original paths:", error);
+  }
+  return { path: expandedLocalPath, isDirectory: false };
+}
+
 /**
  * Normalizes paths for rsync to ensure directories are copied as directories
  * For upload: if localPath is a directory, remove trailing slash from source and add to destination
+ * (several sources are always created inside the destination). Local transfers are
+ * normalized the same way, with the local destination directory as the remote path
  * For download: add trailing slash to localPath destination to ensure remote directory is created inside
+ * (each of several remote sources is created inside it the same way)
  * @param options - Transfer options
  * @returns Normalized paths
  */
 function normalizePathsForRsync(options: TransferOptions): {
   normalizedLocalPath: string;
+  normalizedLocalPaths: string[];
   normalizedRemotePath: string;
+  normalizedRemotePaths: string[];
 } {
-  const { localPath, remotePath, direction } = options;
+  const { localPath, direction } = options;
 
-  // Expand ~ in local paths (for both upload and download)
-  const expandedLocalPath = expandHomeDir(localPath);
-
-  if (direction === TransferDirection.UPLOAD) {
-    // For upload, check if localPath is a directory
-    try {
-      const stats = statSync(expandedLocalPath);
-      if (stats.isDirectory()) {
-        // Source directory: remove trailing slash (if present) to copy directory itself
-        // Destination: ensure trailing slash to create source directory inside destination
-        return {
-          normalizedLocalPath: removeTrailingSlash(expandedLocalPath),
-          normalizedRemotePath: ensureTrailingSlash(remotePath),
-        };
-      }
-    } catch (error) {
-      // If we can't stat the path, proceed with original paths
-      // This could happen if the path doesn't exist yet (shouldn't happen after validation)
-      console.warn("Could not stat local path, using original paths:", error);
-    }
-    // For files, use paths as-is (but with ~ expanded)
+  if (
+    direction === TransferDirection.UPLOAD ||
+    direction === TransferDirection.LOCAL
+  ) {
+    const sources = getLocalSources(options).map(normalizeUploadSource);
+    // A local destination is always a directory, and ~ is only expanded locally
+    const remotePath =
+      direction === TransferDirection.LOCAL
+        ? ensureTrailingSlash(expandHomeDir(options.destinationPath ?? ""))
+        : options.remotePath;
+    // Destination: ensure trailing slash to create source directories inside destination
+    // For a single file, use paths as-is (but with ~ expanded)
+    const intoDirectory = sources.length > 1 || sources[0].isDirectory;
+    const normalizedRemotePath = intoDirectory
+      ? ensureTrailingSlash(remotePath)
+      : remotePath;
     return {
-      normalizedLocalPath: expandedLocalPath,
-      normalizedRemotePath: remotePath,
+      normalizedLocalPath: sources[0].path,
+      normalizedLocalPaths: sources.map((source) => source.path),
+      normalizedRemotePath,
+      normalizedRemotePaths: [normalizedRemotePath],
     };
   } else {
     // For download, we can't check if remotePath is a directory without SSH access
@@ -120,70 +355,267 @@ function normalizePathsForRsync(options: TransferOptions): {
     // This will make rsync create the remote directory inside the local destination
     // Remove trailing slash from remote path (if present) to copy directory itself
     // Add trailing slash to local path to ensure remote directory is created inside
+    const normalizedLocalPath = ensureTrailingSlash(expandHomeDir(localPath));
+    const normalizedRemotePaths =
+      getRemoteSources(options).map(removeTrailingSlash);
     return {
-      normalizedLocalPath: ensureTrailingSlash(expandedLocalPath),
-      normalizedRemotePath: removeTrailingSlash(remotePath),
+      normalizedLocalPath,
+      normalizedLocalPaths: [normalizedLocalPath],
+      normalizedRemotePath: normalizedRemotePaths[0],
+      normalizedRemotePaths,
     };
   }
 }
 
 /**
- * Builds an rsync command string based on transfer options
+ * Builds the remote shell command passed to rsync with -e
+ * @param configPath - Path to the SSH config file
+ * @param timeouts - Optional timeouts (connect timeout becomes an SSH option)
+ * @returns SSH command string
+ */
+function buildSshCommand(
+  configPath: string,
+  timeouts?: TimeoutOptions,
+): string {
+  const sshCommand = `ssh -F ${configPath}`;
+  return timeouts?.connectTimeout
+    ? `${sshCommand} -o ConnectTimeout=${timeouts.connectTimeout}`
+    : sshCommand;
+}
+
+/**
+ * Builds filter rules for ignore files detected next to a local source
+ * User-provided filter rules are emitted first so they can override ignore files
+ * @param options - Transfer options
+ * @returns Filter rules, empty unless honoring ignore files on an upload or local transfer
+ */
+function getIgnoreFileRules(options: TransferOptions): FilterRule[] {
+  if (
+    (options.direction !== TransferDirection.UPLOAD &&
+      options.direction !== TransferDirection.LOCAL) ||
+    !options.rsyncOptions?.honorIgnoreFiles
+  ) {
+    return [];
+  }
+
+  // Sources sharing a parent directory produce the same rules, so each is kept once
+  const rules = getLocalSources(options).flatMap((localPath) => {
+    const expandedLocalPath = expandHomeDir(localPath);
+    return buildIgnoreFileRules(
+      expandedLocalPath,
+      detectIgnoreFiles(expandedLocalPath),
+    );
+  });
+  return rules.filter(
+    (rule, index) =>
+      rules.findIndex((other) => other.pattern === rule.pattern) === index,
+  );
+}
+
+/**
+ * Formats the remote path of an rsync remote spec (host:path)
+ * Without a shell nothing expands ~, so home-relative paths are made relative
+ * (rsync resolves those against the remote login directory)
+ * @param remotePath - Normalized remote path
+ * @param protectArgs - Whether --protect-args keeps the path away from the remote shell
+ * @returns Remote path for the host:path argument
+ */
+function formatRemotePath(remotePath: string, protectArgs: boolean): string {
+  let path = remotePath;
+  if (path === "~" || path === "~/") {
+    path = ".";
+  } else if (path.startsWith("~/")) {
+    path = path.slice(2);
+  }
+
+  // Older rsync hands the path to the remote shell, so it is quoted for that shell
+  return protectArgs ? path : shellEscape(path);
+}
+
+/**
+ * Builds the command of a direct remote-to-remote transfer
+ * rsync runs on the source host, reached with agent forwarding (-A) so that it
+ * can authenticate to the destination with the locally loaded keys. The local
+ * SSH config is not available there, so the destination is addressed by its
+ * resolved host name, user and port
+ * @param options - Remote-to-remote transfer options
+ * @param startedAt - Transfer start time, used for the backup directory timestamp
+ * @returns ssh arguments and a display string for logs and previews
+ */
+function buildRemoteToRemoteCommand(
+  options: TransferOptions,
+  startedAt: Date,
+): RsyncCommand {
+  const { hostConfig, rsyncOptions, timeouts } = options;
+  const destination = options.destinationHostConfig ?? hostConfig;
+  const configPath = join(homedir(), ".ssh", "config");
+  const protectArgs = rsyncOptions?.protectArgs ?? true;
+
+  // BatchMode makes a missing key or unknown host key fail instead of waiting for input
+  const destinationSsh = [
+    "ssh -o BatchMode=yes",
+    destination.port ? `-p ${destination.port}` : "",
+    timeouts?.connectTimeout
+      ? `-o ConnectTimeout=${timeouts.connectTimeout}`
+      : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  const destinationSpec = `${destination.user ? `${destination.user}@` : ""}${destination.hostName ?? destination.host}:${formatRemotePath(
+    ensureTrailingSlash(options.destinationPath ?? ""),
+    protectArgs,
+  )}`;
+
+  // The source path is local to the remote rsync and quoted for the source shell below
+  const remoteCommand = formatShellCommand([
+    "rsync",
+    "-e",
+    destinationSsh,
+    ...buildRsyncFlags(rsyncOptions, timeouts, startedAt),
+    formatRemotePath(removeTrailingSlash(options.remotePath), true),
+    destinationSpec,
+  ]);
+
+  // ssh -A -F ~/.ssh/config -- {sourceAlias} 'rsync -e "ssh ..." [flags] {sourcePath} {user@destination}:{destinationPath}'
+  const args = [
+    "-A",
+    "-F",
+    configPath,
+    ...(timeouts?.connectTimeout
+      ? ["-o", `ConnectTimeout=${timeouts.connectTimeout}`]
+      : []),
+    "--",
+    hostConfig.host,
+    remoteCommand,
+  ];
+
+  return {
+    program: "ssh",
+    args,
+    display: formatShellCommand(["ssh", ...args]),
+  };
+}
+
+/**
+ * Builds the rsync arguments for a transfer
+ * The arguments are passed to rsync directly, without a local shell, so paths
+ * with characters such as $, & or ; are transferred literally
  * @param options - Transfer options including direction, paths, and host config
- * @returns The constructed rsync command string
+ * @param startedAt - Transfer start time, used for the backup directory timestamp
+ * @returns rsync arguments and a display string for logs and previews
  */
-export function buildRsyncCommand(options: TransferOptions): string {
+export function buildRsyncCommand(
+  options: TransferOptions,
+  startedAt: Date = new Date(),
+): RsyncCommand {
   const { hostConfig, direction, rsyncOptions } = options;
+  if (direction === TransferDirection.REMOTE_TO_REMOTE) {
+    return buildRemoteToRemoteCommand(options, startedAt);
+  }
   const configPath = join(homedir(), ".ssh", "config");
-  const hostAlias = hostConfig.host;
+  const protectArgs = rsyncOptions?.protectArgs ?? true;
 
   // Normalize paths to ensure directories are copied as directories
-  const { normalizedLocalPath, normalizedRemotePath } =
-    normalizePathsForRsync(options);
+  const {
+    normalizedLocalPath,
+    normalizedLocalPaths,
+    normalizedRemotePath,
+    normalizedRemotePaths,
+  } = normalizePathsForRsync(options);
 
   // Build rsync flags
-  const flags = buildRsyncFlags(rsyncOptions);
+  const flags = buildRsyncFlags(
+    {
+      ...rsyncOptions,
+      filterRules: [
+        ...(rsyncOptions?.filterRules ?? []),
+        ...getIgnoreFileRules(options),
+      ],
+    },
+    options.timeouts,
+    startedAt,
+  );
+
+  // Both paths are local, so rsync needs no remote shell
+  if (direction === TransferDirection.LOCAL) {
+    // Local: rsync [flags] {sourcePath...} {destinationPath}
+    const args = [...flags, ...normalizedLocalPaths, normalizedRemotePath];
+    return {
+      args,
+      display: formatShellCommand(["rsync", ...args]),
+    };
+  }
+
+  // An rsync daemon is reached over its own protocol rather than a remote shell
+  if (isRsyncDaemon(hostConfig)) {
+    const daemonUrls = normalizedRemotePaths.map((remotePath) =>
+      formatDaemonUrl(hostConfig, remotePath),
+    );
+    // Upload: rsync [daemon flags] [flags] {localPath...} rsync://{host}/{module}/{path}
+    // Download: rsync [daemon flags] [flags] rsync://{host}/{module}/{path...} {localPath}
+    const daemonArgs = [
+      ...buildDaemonFlags(hostConfig, options.timeouts),
+      ...flags,
+    ];
+    const args =
+      direction === TransferDirection.UPLOAD
+        ? [...daemonArgs, ...normalizedLocalPaths, ...daemonUrls]
+        : [...daemonArgs, ...daemonUrls, normalizedLocalPath];
+    return {
+      args,
+      display: formatShellCommand(["rsync", ...args]),
+    };
+  }
 
-  // Escape all user-provided inputs to prevent command injection
-  const escapedLocalPath = shellEscape(normalizedLocalPath);
-  const escapedRemotePath = shellEscape(normalizedRemotePath);
-  const escapedHostAlias = shellEscape(hostAlias);
+  const remotePaths = normalizedRemotePaths.map((remotePath) =>
+    formatRemotePath(remotePath, protectArgs),
+  );
+  const remoteSpecs = remotePaths.map(
+    (remotePath) => `${hostConfig.host}:${remotePath}`,
+  );
+  const sshCommand = buildSshCommand(configPath, options.timeouts);
 
-  // Escape the SSH command for the -e flag
-  // configPath comes from homedir() so it's safe, but we escape the whole command for consistency
-  const escapedSshCommand = shellEscape(`ssh -F ${configPath}`);
+  // Upload: rsync -e "ssh -F ~/.ssh/config" [flags] {localPath...} {hostAlias}:{remotePath}
+  // Download: rsync -e "ssh -F ~/.ssh/config" [flags] {hostAlias}:{remotePath...} {localPath}
+  const args =
+    direction === TransferDirection.UPLOAD
+      ? ["-e", sshCommand, ...flags, ...normalizedLocalPaths, ...remoteSpecs]
+      : ["-e", sshCommand, ...flags, ...remoteSpecs, normalizedLocalPath];
 
-  // Base command with SSH config
-  // -e: specify SSH command with config file
-  const baseCommand = `rsync -e ${escapedSshCommand} ${flags}`;
+  // Display: the host and path of the remote spec are quoted separately for readability
+  const displayRemoteSpecs = remotePaths
+    .map(
+      (remotePath) =>
+        `${shellEscape(hostConfig.host)}:${shellEscape(remotePath)}`,
+    )
+    .join(" ");
+  const displayPaths =
+    direction === TransferDirection.UPLOAD
+      ? `${normalizedLocalPaths.map(shellEscape).join(" ")} ${displayRemoteSpecs}`
+      : `${displayRemoteSpecs} ${shellEscape(normalizedLocalPath)}`;
 
-  if (direction === TransferDirection.UPLOAD) {
-    // Upload: rsync -e "ssh -F ~/.ssh/config" [flags] {localPath} {hostAlias}:{remotePath}
-    // Escape all user-provided paths to prevent command injection
-    return `${baseCommand} ${escapedLocalPath} ${escapedHostAlias}:${escapedRemotePath}`;
-  } else {
-    // Download: rsync -e "ssh -F ~/.ssh/config" [flags] {hostAlias}:{remotePath} {localPath}
-    // Escape all user-provided paths to prevent command injection
-    return `${baseCommand} ${escapedHostAlias}:${escapedRemotePath} ${escapedLocalPath}`;
-  }
+  return {
+    args,
+    display: `${formatShellCommand(["rsync", "-e", sshCommand, ...flags])} ${displayPaths}`,
+  };
 }
 
 /**
  * Parse error output to provide user-friendly error messages
- * @param error - The error object from exec
- * @returns User-friendly error message
+ * @param error - The error object from the rsync process
+ * @param timeouts - Timeouts the transfer ran with, used to state the limit that was hit
+ * @returns Error kind, user-friendly message and suggested fix
  */
-function parseRsyncError(error: {
-  stderr?: string;
-  message?: string;
-  killed?: boolean;
-  signal?: string;
-  code?: number;
-}): string {
-  const stderr = error.stderr || "";
-  const message = error.message || "";
-  const combinedError = `${stderr} ${message}`.toLowerCase();
-
+function parseRsyncError(
+  error: {
+    stderr?: string;
+    message?: string;
+    killed?: boolean;
+    signal?: string;
+    code?: number;
+  },
+  timeouts?: TimeoutOptions,
+): { kind: RsyncErrorKind; message: string; remediation: string } {
   // Log detailed error for debugging
   console.error("Rsync Error Details:", {
     code: error.code,
@@ -192,76 +624,30 @@ function parseRsyncError(error: {
     message: error.message,
   });
 
-  // Connection timeout
-  if (error.killed && error.signal === "SIGTERM") {
-    return "Connection timed out after 5 minutes. The server may be unreachable or the transfer is taking too long.";
-  }
-
-  // Authentication failures
-  if (
-    combinedError.includes("permission denied") &&
-    combinedError.includes("publickey")
-  ) {
-    return "Authentication failed: SSH key not accepted. Check your SSH key configuration.";
-  }
-  if (combinedError.includes("permission denied")) {
-    return "Authentication failed: Permission denied. Check your credentials and SSH configuration.";
-  }
-  if (combinedError.includes("host key verification failed")) {
-    return "Host key verification failed. You may need to add the host to your known_hosts file.";
-  }
-  if (combinedError.includes("no such identity")) {
-    return "SSH key file not found. Check the IdentityFile path in your SSH config.";
-  }
-
-  // Connection issues
-  if (combinedError.includes("connection refused")) {
-    return "Connection refused: The server is not accepting connections on the specified port.";
-  }
-  if (
-    combinedError.includes("connection timed out") ||
-    combinedError.includes("operation timed out")
-  ) {
-    return "Connection timed out: Unable to reach the server. Check your network connection and server address.";
-  }
-  if (combinedError.includes("no route to host")) {
-    return "No route to host: The server address is unreachable. Check the hostname or IP address.";
-  }
-  if (combinedError.includes("could not resolve hostname")) {
-    return "Could not resolve hostname: The server address is invalid or DNS lookup failed.";
-  }
-  if (combinedError.includes("network is unreachable")) {
-    return "Network is unreachable: Check your internet connection.";
-  }
-
-  // File/directory issues
-  if (combinedError.includes("no such file or directory")) {
-    return "File not found: The specified file or directory does not exist on the remote server.";
-  }
-  if (combinedError.includes("is a directory")) {
-    return "Target is a directory: Use a directory path or ensure the path ends with a slash.";
-  }
-  if (combinedError.includes("not a directory")) {
-    return "Target is not a directory: The destination path must be a directory.";
-  }
-  if (
-    combinedError.includes("permission denied") &&
-    !combinedError.includes("publickey")
-  ) {
-    return "Permission denied: You do not have permission to access the file or directory on the remote server.";
-  }
+  const kind = classifyRsyncError({
+    code: error.code,
+    stderr: error.stderr,
+    message: error.message,
+    // Overall time limit reached (the process was stopped by us)
+    timedOut: error.killed && error.signal === "SIGTERM",
+  });
+  const { explanation, remediation } = describeRsyncError(kind, {
+    stderr: error.stderr,
+    timeouts,
+  });
 
-  // Disk space issues
-  if (combinedError.includes("no space left on device")) {
-    return "No space left on device: The destination has insufficient disk space.";
-  }
-  if (combinedError.includes("disk quota exceeded")) {
-    return "Disk quota exceeded: You have exceeded your disk quota on the remote server.";
+  if (kind === RsyncErrorKind.UNKNOWN) {
+    // Generic fallback with sanitized message
+    const sanitizedMessage =
+      error.stderr || error.message || "Unknown error occurred";
+    return {
+      kind,
+      message: `Transfer failed: ${sanitizedMessage}`,
+      remediation,
+    };
   }
 
-  // Generic fallback with sanitized message
-  const sanitizedMessage = stderr || message || "Unknown error occurred";
-  return `Transfer failed: ${sanitizedMessage}`;
+  return { kind, message: `${explanation} ${remediation}`, remediation };
 }
 
 /**
@@ -273,7 +659,7 @@ function parseProgressLine(line: string): string | null {
   // rsync -P output format: "    1,234,567  67%  123.45kB/s    0:00:05"
   // or: "file.txt\n    1,234,567  67%  123.45kB/s    0:00:05"
   const progressMatch = line.match(
-    /(\d{1,3}(?:,\d{3})*)\s+(\d+)%\s+([\d.]+[KMGT]?B\/s)\s+(\d+:\d{2}:\d{2})/,
+    /(\d{1,3}(?:,\d{3})*)\s+(\d+)%\s+([\d.]+[kKMGT]?B\/s)\s+(\d+:\d{2}:\d{2})/,
   );
 
   if (progressMatch) {
@@ -289,229 +675,624 @@ function parseProgressLine(line: string): string | null {
   return null;
 }
 
+/** Grace period for rsync to clean up after SIGTERM before it is killed */
+const KILL_GRACE_PERIOD_MS = 5000;
+
+/** Minimum interval between progress callbacks */
+const PROGRESS_UPDATE_INTERVAL_MS = 500;
+
+/** Result message of a cancelled transfer whose partial files were kept */
+const RESUMABLE_CANCEL_MESSAGE =
+  "Transfer cancelled. Partial files were kept, run the transfer again to resume.";
+
+/**
+ * Picks the most informative line of rsync output for the success message
+ * Only used when the output has no --stats block to summarize
+ * @param stdout - rsync stdout
+ * @returns Summary message
+ */
+function formatSuccessMessage(stdout: string): string {
+  let outputMessage = "Transfer completed successfully";
+
+  if (stdout) {
+    const lines = stdout.trim().split("\n");
+
+    // Extract summary line (usually the last line with total stats)
+    const summaryLine = lines[lines.length - 1];
+
+    // If using -P (progress), look for progress lines
+    const progressLines = lines.filter(
+      (line) =>
+        line.includes("%") || line.includes("speedup") || line.includes("sent"),
+    );
+
+    // If using -h (human-readable), look for file size info
+    const fileInfoLines = lines.filter(
+      (line) =>
+        line.match(/\d+[KMGT]?B/) || // Matches sizes like 1.5M, 500K, etc.
+        line.includes("files") ||
+        line.includes("bytes"),
+    );
+
+    // Prioritize showing summary or progress info
+    if (
+      summaryLine &&
+      (summaryLine.includes("total") || summaryLine.includes("speedup"))
+    ) {
+      outputMessage = summaryLine;
+    } else if (progressLines.length > 0) {
+      outputMessage = progressLines[progressLines.length - 1];
+    } else if (fileInfoLines.length > 0) {
+      outputMessage = fileInfoLines[fileInfoLines.length - 1];
+    } else if (lines.length > 0) {
+      // Show last few lines if no specific format found
+      outputMessage = lines.slice(-2).join("\n");
+    }
+  }
+
+  return outputMessage;
+}
+
+/**
+ * Probes the rsync capabilities a transfer depends on and adapts its options
+ * The local side is always probed; the remote side whenever a requested option
+ * needs support on both ends, e.g. --mkpath or the default --protect-args.
+ * For a direct remote-to-remote transfer the source host takes the local role;
+ * a local transfer runs the local rsync on both ends
+ * @param options - Transfer options
+ * @param wantsOverallProgress - Enable whole-transfer progress if the local rsync supports it
+ * @returns Adapted rsync options and warnings for options that were skipped
+ */
+async function adaptToCapabilities(
+  options: TransferOptions,
+  wantsOverallProgress: boolean,
+): Promise<{ rsyncOptions: RsyncOptions; warnings: string[] }> {
+  // Transfers with a LAN host run uncompressed, whatever the options were saved with
+  const requested = isLanTransfer(options)
+    ? withoutCompression(options.rsyncOptions)
+    : options.rsyncOptions;
+  // A direct remote-to-remote transfer runs rsync on the source host
+  const remoteToRemote =
+    options.direction === TransferDirection.REMOTE_TO_REMOTE;
+  const [local, remote] = await Promise.all([
+    remoteToRemote
+      ? getRemoteCapabilities(options.hostConfig, options.timeouts)
+      : getLocalCapabilities(),
+    // A daemon cannot be probed over SSH; it is assumed to support the options
+    needsRemoteCapabilities(requested) &&
+    options.direction !== TransferDirection.LOCAL &&
+    !isRsyncDaemon(options.hostConfig)
+      ? getRemoteCapabilities(
+          (remoteToRemote && options.destinationHostConfig) ||
+            options.hostConfig,
+          options.timeouts,
+        )
+      : undefined,
+  ]);
+
+  const { options: rsyncOptions, warnings } = adaptRsyncOptions(
+    {
+      ...requested,
+      overallProgress: wantsOverallProgress
+        ? hasFeature(local, RsyncFeature.PROGRESS2)
+        : options.rsyncOptions?.overallProgress,
+    },
+    local,
+    remote,
+  );
+
+  for (const warning of warnings) {
+    console.warn("Rsync capability warning:", warning);
+  }
+  return { rsyncOptions, warnings };
+}
+
 /**
  * Executes an rsync command and returns the result
+ * rsync is spawned without a shell, in its own process group so that cancelling
+ * or timing out stops the whole process tree (rsync and its ssh child).
+ * Runs that fail on a retryable error are repeated as options.retry allows,
+ * with --partial so each run continues the files the previous one started.
  * @param options - Transfer options including direction, paths, and host config
  * @param onProgress - Optional callback function to receive real-time progress updates
+ * @param signal - Optional abort signal to cancel the transfer
  * @returns Promise resolving to RsyncResult with success status and message
  */
 export async function executeRsync(
   options: TransferOptions,
   onProgress?: (message: string) => void,
+  signal?: AbortSignal,
 ): Promise<RsyncResult> {
-  const command = buildRsyncCommand(options);
-  const isProgressEnabled = options.rsyncOptions?.progress;
-
-  // If progress is enabled and callback provided, use spawn for real-time updates
-  if (isProgressEnabled && onProgress) {
-    return executeRsyncWithProgress(options, onProgress);
+  // A custom remote rsync path (e.g. sudo) is tried first, so a password prompt fails clearly
+  const rsyncPath = options.rsyncOptions?.rsyncPath;
+  if (
+    rsyncPath &&
+    (options.direction === TransferDirection.UPLOAD ||
+      options.direction === TransferDirection.DOWNLOAD) &&
+    !isRsyncDaemon(options.hostConfig)
+  ) {
+    const failure = await checkRemoteRsyncPath(
+      options.hostConfig,
+      rsyncPath,
+      options.timeouts,
+    );
+    if (failure) {
+      return failure;
+    }
   }
 
-  // Otherwise use exec for simpler execution
-  try {
-    // Execute with 5 minute timeout (300000 ms)
-    const { stdout, stderr } = await execAsync(command, {
-      timeout: 300000,
-    });
+  // Whole-transfer progress when the local rsync supports it, per-file otherwise
+  const wantsOverallProgress =
+    options.rsyncOptions?.overallProgress === undefined &&
+    !!options.rsyncOptions?.progress &&
+    onProgress !== undefined;
 
-    // Success if no error thrown
-    // Format output message to show key information
-    let outputMessage = "Transfer completed successfully";
-
-    if (stdout) {
-      const lines = stdout.trim().split("\n");
-
-      // Extract summary line (usually the last line with total stats)
-      const summaryLine = lines[lines.length - 1];
-
-      // If using -P (progress), look for progress lines
-      const progressLines = lines.filter(
-        (line) =>
-          line.includes("%") ||
-          line.includes("speedup") ||
-          line.includes("sent"),
-      );
-
-      // If using -h (human-readable), look for file size info
-      const fileInfoLines = lines.filter(
-        (line) =>
-          line.match(/\d+[KMGT]?B/) || // Matches sizes like 1.5M, 500K, etc.
-          line.includes("files") ||
-          line.includes("bytes"),
-      );
-
-      // Prioritize showing summary or progress info
-      if (
-        summaryLine &&
-        (summaryLine.includes("total") || summaryLine.includes("speedup"))
-      ) {
-        outputMessage = summaryLine;
-      } else if (progressLines.length > 0) {
-        outputMessage = progressLines[progressLines.length - 1];
-      } else if (fileInfoLines.length > 0) {
-        outputMessage = fileInfoLines[fileInfoLines.length - 1];
-      } else if (lines.length > 0) {
-        // Show last few lines if no specific format found
-        outputMessage = lines.slice(-2).join("\n");
-      }
-    }
+  const { rsyncOptions, warnings } = await adaptToCapabilities(
+    options,
+    wantsOverallProgress,
+  );
+  const overallProgress = rsyncOptions.overallProgress ?? false;
+  // Progress messages point out a bandwidth limit, since it caps the rate shown
+  const bandwidthNote = rsyncOptions.bandwidthLimit
+    ? ` • limited to ${formatBandwidthLimit(rsyncOptions.bandwidthLimit)}`
+    : "";
 
-    return {
-      success: true,
-      message: outputMessage,
-      stdout: stdout || undefined,
-      stderr: stderr || undefined,
-    };
-  } catch (error) {
-    const errorObj = error as {
-      stdout?: string;
-      stderr?: string;
-      message?: string;
-      killed?: boolean;
-      signal?: string;
-      code?: number;
-    };
+  // Verification and per-source results need the itemized list of transferred files
+  // (verification hashes files locally and over SSH, so it needs one side of each)
+  const verify =
+    (rsyncOptions.verifyAfterTransfer ?? false) &&
+    (options.direction === TransferDirection.UPLOAD ||
+      options.direction === TransferDirection.DOWNLOAD) &&
+    !isRsyncDaemon(options.hostConfig);
+  const multipleSources =
+    (options.direction === TransferDirection.UPLOAD ||
+      options.direction === TransferDirection.LOCAL) &&
+    getLocalSources(options).length > 1;
+  // Resolve the timestamp once so the reported location matches the command
+  const startedAt = new Date();
+  const backupDir = rsyncOptions.backup
+    ? resolveBackupDir(rsyncOptions.backupDir, startedAt)
+    : undefined;
 
-    // Parse error and provide user-friendly message
-    const userMessage = parseRsyncError(errorObj);
+  // Retries keep partial files so each run continues where the last one stopped
+  const retry = options.retry;
+  const partial = rsyncOptions.partial || retriesEnabled(retry) || undefined;
 
-    // Include stdout if available (rsync might output useful info even on error)
-    const outputMessage = errorObj.stdout
-      ? `${userMessage}\n\nOutput: ${errorObj.stdout.split("\n").slice(-2).join("\n")}`
-      : userMessage;
+  // Statistics are always collected so results report real numbers
+  const command = buildRsyncCommand(
+    {
+      ...options,
+      rsyncOptions: {
+        ...rsyncOptions,
+        partial,
+        stats: true,
+        itemizeChanges:
+          rsyncOptions.itemizeChanges || verify || multipleSources,
+      },
+    },
+    startedAt,
+  );
+  // With --partial (implied by -P and --partial-dir) rsync keeps partially
+  // transferred files on SIGTERM, so a cancelled transfer can be resumed by running it again
+  const resumable = keepsPartialFiles({ ...options.rsyncOptions, partial });
 
-    return {
-      success: false,
-      message: outputMessage,
-      stdout: errorObj.stdout || undefined,
-      stderr: errorObj.stderr || undefined,
-    };
-  }
-}
+  const runRsync = () =>
+    new Promise<RsyncResult>((resolve) => {
+      const startTime = Date.now();
+      const stdoutChunks: Buffer[] = [];
+      const stderrChunks: Buffer[] = [];
+      let lastProgressUpdate = 0;
+      let timedOut = false;
+      let cancelled = signal?.aborted ?? false;
+      let killTimer: NodeJS.Timeout | undefined;
 
-/**
- * Executes rsync with real-time progress updates using spawn
- * @param options - Transfer options
- * @param onProgress - Callback function to receive progress updates
- * @returns Promise resolving to RsyncResult
- */
-async function executeRsyncWithProgress(
-  options: TransferOptions,
-  onProgress: (message: string) => void,
-): Promise<RsyncResult> {
-  // Use the full command string with shell for proper SSH handling
-  const fullCommand = buildRsyncCommand(options);
+      const collectOutput = () => ({
+        stdout:
+          Buffer.concat(stdoutChunks as readonly Uint8Array[]).toString() ||
+          undefined,
+        stderr:
+          Buffer.concat(stderrChunks as readonly Uint8Array[]).toString() ||
+          undefined,
+      });
 
-  return new Promise((resolve) => {
-    const stdoutChunks: Buffer[] = [];
-    const stderrChunks: Buffer[] = [];
-    let lastProgressUpdate = Date.now();
-    const progressUpdateInterval = 500; // Update every 500ms to avoid too frequent updates
+      if (cancelled) {
+        resolve({
+          success: false,
+          cancelled: true,
+          message: "Transfer cancelled",
+        });
+        return;
+      }
 
-    const rsyncProcess = spawn(fullCommand, {
-      shell: true,
-    });
+      console.log("Executing rsync:", command.display);
 
-    // Set timeout
-    const timeout = setTimeout(() => {
-      rsyncProcess.kill("SIGTERM");
-      resolve({
-        success: false,
-        message: "Transfer timed out after 5 minutes",
-        stdout: Buffer.concat(stdoutChunks as readonly Uint8Array[]).toString(),
-        stderr: Buffer.concat(stderrChunks as readonly Uint8Array[]).toString(),
+      const rsyncProcess = spawn(command.program ?? "rsync", command.args, {
+        detached: true,
       });
-    }, 300000); // 5 minutes
-
-    rsyncProcess.stdout.on("data", (data: Buffer) => {
-      stdoutChunks.push(data);
-      const output = data.toString();
-      const lines = output.split("\n");
-
-      // Parse and update progress
-      for (const line of lines) {
-        const progressMessage = parseProgressLine(line);
-        if (progressMessage) {
-          const now = Date.now();
-          // Throttle progress updates
-          if (now - lastProgressUpdate >= progressUpdateInterval) {
-            onProgress(progressMessage);
-            lastProgressUpdate = now;
+
+      // The --files-from manifest is read from stdin
+      if (rsyncOptions.filesFrom) {
+        // rsync exiting early (e.g. on a connection error) closes stdin; the exit code reports it
+        rsyncProcess.stdin.on("error", (error) =>
+          console.warn("Could not send the manifest to rsync:", error),
+        );
+        rsyncProcess.stdin.end(`${rsyncOptions.filesFrom.join("\n")}\n`);
+      }
+
+      /**
+       * Sends a signal to the rsync process group, falling back to the process itself
+       */
+      const signalProcessTree = (killSignal: NodeJS.Signals) => {
+        try {
+          if (rsyncProcess.pid !== undefined) {
+            process.kill(-rsyncProcess.pid, killSignal);
+            return;
           }
+        } catch {
+          // Process group already gone; fall back to the direct child
         }
-      }
-    });
+        rsyncProcess.kill(killSignal);
+      };
 
-    rsyncProcess.stderr.on("data", (data: Buffer) => {
-      stderrChunks.push(data);
-    });
+      const stopProcessTree = () => {
+        // SIGTERM lets rsync clean up (and keep partial files); SIGKILL if it hangs
+        signalProcessTree("SIGTERM");
+        killTimer = setTimeout(
+          () => signalProcessTree("SIGKILL"),
+          KILL_GRACE_PERIOD_MS,
+        );
+      };
 
-    rsyncProcess.on("close", (code) => {
-      clearTimeout(timeout);
-      const stdout = Buffer.concat(
-        stdoutChunks as readonly Uint8Array[],
-      ).toString();
-      const stderr = Buffer.concat(
-        stderrChunks as readonly Uint8Array[],
-      ).toString();
-
-      if (code === 0) {
-        // Format output message
-        let outputMessage = "Transfer completed successfully";
-
-        if (stdout) {
-          const lines = stdout.trim().split("\n");
-          const summaryLine = lines[lines.length - 1];
-
-          if (
-            summaryLine &&
-            (summaryLine.includes("total") || summaryLine.includes("speedup"))
-          ) {
-            outputMessage = summaryLine;
-          } else if (lines.length > 0) {
-            outputMessage = lines.slice(-2).join("\n");
+      const onAbort = () => {
+        cancelled = true;
+        stopProcessTree();
+      };
+      signal?.addEventListener("abort", onAbort, { once: true });
+
+      // Overall wall-clock limit (optional); stalls are caught by rsync --timeout
+      const overallTimeout = options.timeouts?.overallTimeout;
+      const timeout = overallTimeout
+        ? setTimeout(() => {
+            timedOut = true;
+            stopProcessTree();
+          }, overallTimeout * 1000)
+        : undefined;
+
+      const cleanup = () => {
+        clearTimeout(timeout);
+        clearTimeout(killTimer);
+        signal?.removeEventListener("abort", onAbort);
+      };
+
+      rsyncProcess.stdout.on("data", (data: Buffer) => {
+        stdoutChunks.push(data);
+
+        if (!onProgress) {
+          return;
+        }
+
+        // Parse and update progress (rsync rewrites progress lines with \r)
+        for (const line of data.toString().split(/[\r\n]/)) {
+          const overall = overallProgress
+            ? parseOverallProgressLine(line)
+            : null;
+          const progressMessage = overall
+            ? formatTransferProgress(overall)
+            : parseProgressLine(line);
+          if (progressMessage) {
+            const now = Date.now();
+            // Throttle progress updates
+            if (now - lastProgressUpdate >= PROGRESS_UPDATE_INTERVAL_MS) {
+              onProgress(`${progressMessage}${bandwidthNote}`);
+              lastProgressUpdate = now;
+            }
           }
         }
+      });
+
+      rsyncProcess.stderr.on("data", (data: Buffer) => {
+        stderrChunks.push(data);
+      });
+
+      rsyncProcess.on("close", (code, closeSignal) => {
+        cleanup();
+        const { stdout, stderr } = collectOutput();
+
+        if (cancelled) {
+          resolve({
+            success: false,
+            cancelled: true,
+            resumable: resumable || undefined,
+            message: resumable
+              ? RESUMABLE_CANCEL_MESSAGE
+              : "Transfer cancelled",
+            stdout,
+            stderr,
+          });
+          return;
+        }
+
+        if (code === 0 && !timedOut) {
+          const stats = parseRsyncStats(stdout || "", Date.now() - startTime);
+          resolve({
+            success: true,
+            message: stats
+              ? formatStatsSummary(stats)
+              : formatSuccessMessage(stdout || ""),
+            stdout,
+            stderr,
+            stats,
+          });
+          return;
+        }
+
+        const failure = parseRsyncError(
+          {
+            stderr,
+            message: `Process exited with code ${code}`,
+            killed: timedOut,
+            signal: timedOut ? "SIGTERM" : (closeSignal ?? undefined),
+            code: code ?? undefined,
+          },
+          options.timeouts,
+        );
+
+        if (isPartialTransfer(failure.kind)) {
+          // Everything else was transferred, so report the skipped files as warnings
+          const affectedFiles = extractAffectedFiles(stderr || "");
+          const stats = parseRsyncStats(stdout || "", Date.now() - startTime);
+          resolve({
+            success: false,
+            partial: true,
+            message: stats
+              ? `${formatStatsSummary(stats)}, ${affectedFiles.length || "some"} file(s) skipped`
+              : failure.message,
+            errorKind: failure.kind,
+            remediation: failure.remediation,
+            affectedFiles,
+            stdout,
+            stderr,
+            stats,
+          });
+          return;
+        }
+
+        // Include stdout if available (rsync might output useful info even on error)
+        const outputMessage = stdout
+          ? `${failure.message}\n\nOutput: ${stdout.trim().split("\n").slice(-2).join("\n")}`
+          : failure.message;
 
         resolve({
-          success: true,
+          success: false,
+          resumable: (resumable && isInterruption(failure.kind)) || undefined,
           message: outputMessage,
-          stdout: stdout || undefined,
-          stderr: stderr || undefined,
-        });
-      } else {
-        const userMessage = parseRsyncError({
+          errorKind: failure.kind,
+          remediation: failure.remediation,
+          affectedFiles: extractAffectedFiles(stderr || ""),
+          stdout,
           stderr,
-          message: `Process exited with code ${code}`,
-          code: code ?? undefined,
+        });
+      });
+
+      rsyncProcess.on("error", (error) => {
+        cleanup();
+        const failure = parseRsyncError({
+          stderr: error.message,
+          message: error.message,
         });
 
         resolve({
           success: false,
-          message: userMessage,
-          stdout: stdout || undefined,
-          stderr: stderr || undefined,
+          message: failure.message,
+          errorKind: failure.kind,
+          remediation: failure.remediation,
+          ...collectOutput(),
         });
-      }
+      });
     });
 
-    rsyncProcess.on("error", (error) => {
-      clearTimeout(timeout);
-      const userMessage = parseRsyncError({
-        stderr: error.message,
-        message: error.message,
-      });
+  let result = await runRsync();
+  let attempt = 1;
+  while (retry && shouldRetry(result, attempt, retry)) {
+    attempt++;
+    const delay = getRetryDelay(retry, attempt);
+    console.warn(
+      `Transfer failed (${result.errorKind}), retrying in ${delay}s (attempt ${attempt}/${retry.maxAttempts})`,
+    );
 
-      resolve({
+    const waited = await waitForRetry(
+      delay,
+      (secondsLeft) =>
+        onProgress?.(
+          `Transfer interrupted • ${formatRetryCountdown(attempt, retry.maxAttempts, secondsLeft)}`,
+        ),
+      signal,
+    );
+    if (!waited) {
+      // Earlier runs kept their partial files
+      result = {
         success: false,
-        message: userMessage,
-        stdout:
-          Buffer.concat(stdoutChunks as readonly Uint8Array[]).toString() ||
-          undefined,
-        stderr:
-          Buffer.concat(stderrChunks as readonly Uint8Array[]).toString() ||
-          undefined,
-      });
-    });
+        cancelled: true,
+        resumable: true,
+        message: RESUMABLE_CANCEL_MESSAGE,
+      };
+      break;
+    }
+
+    onProgress?.(
+      `Retrying transfer (attempt ${attempt}/${retry.maxAttempts})...`,
+    );
+    result = await runRsync();
+  }
+  if (attempt > 1) {
+    result.attempts = attempt;
+  }
+  result.command = command.display;
+
+  if (verify && result.success && !signal?.aborted) {
+    onProgress?.("Verifying SHA-256 checksums...");
+    const changes = parseItemizedChanges(result.stdout || "");
+    result.verification = await verifyTransfer(
+      options.hostConfig,
+      getVerificationTargets(options, changes),
+      options.timeouts,
+      getDirectoryFallbackName(options),
+    );
+  }
+
+  if (
+    multipleSources &&
+    !rsyncOptions.dryRun &&
+    (result.success || result.partial)
+  ) {
+    result.sources = summarizeSources(
+      normalizePathsForRsync(options).normalizedLocalPaths,
+      parseItemizedChanges(result.stdout || ""),
+      result.affectedFiles ?? [],
+      rsyncOptions.relative,
+    );
+  }
+
+  if (backupDir && !rsyncOptions.dryRun && (result.success || result.partial)) {
+    result.backupLocation = describeBackupLocation(
+      options,
+      backupDir,
+      getDestinationDir(options),
+    );
+  }
+
+  return warnings.length > 0 ? { ...result, warnings } : result;
+}
+
+/**
+ * Directory the transfer writes into, which relative backup directories start from
+ * @param options - Transfer options
+ * @returns Normalized destination directory
+ */
+function getDestinationDir(options: TransferOptions): string {
+  if (options.direction === TransferDirection.REMOTE_TO_REMOTE) {
+    return ensureTrailingSlash(options.destinationPath ?? "");
+  }
+  const { normalizedLocalPath, normalizedRemotePath } =
+    normalizePathsForRsync(options);
+  if (options.direction === TransferDirection.DOWNLOAD) {
+    return normalizedLocalPath;
+  }
+  // A single file sent to a path without a trailing slash lands in its parent
+  return normalizedRemotePath.endsWith("/")
+    ? normalizedRemotePath
+    : posix.dirname(normalizedRemotePath);
+}
+
+/**
+ * Maps the files a transfer sent to their local and remote paths
+ * Itemized paths are relative to the destination directory: the parent of the
+ * source for a directory (or for each of several sources, or the part before
+ * the preserved path with --relative), the destination itself (or its parent)
+ * for a file
+ * @param options - Transfer options of the completed transfer
+ * @param changes - Itemized changes of the transfer
+ * @returns Files to verify
+ */
+export function getVerificationTargets(
+  options: TransferOptions,
+  changes: ItemizedChange[],
+): VerificationTarget[] {
+  const {
+    normalizedLocalPath,
+    normalizedLocalPaths,
+    normalizedRemotePath,
+    normalizedRemotePaths,
+  } = normalizePathsForRsync(options);
+  const relative = options.rsyncOptions?.relative ?? false;
+  // Manifest entries are relative to the source directory itself
+  const getBase = (source: string) =>
+    options.rsyncOptions?.filesFrom
+      ? ensureTrailingSlash(source)
+      : getSourceBase(source, relative);
+
+  return getTransferredFiles(changes).map((path) => {
+    if (options.direction === TransferDirection.UPLOAD) {
+      const source =
+        findSourceOfPath(normalizedLocalPaths, path, relative) ??
+        normalizedLocalPath;
+      return {
+        path,
+        localPath: join(getBase(source), path),
+        // A single file sent to a path without a trailing slash keeps that path
+        remotePath: normalizedRemotePath.endsWith("/")
+          ? `${normalizedRemotePath}${path}`
+          : normalizedRemotePath,
+      };
+    }
+    const source =
+      findSourceOfPath(normalizedRemotePaths, path, relative) ??
+      normalizedRemotePath;
+    return {
+      path,
+      localPath: join(normalizedLocalPath, path),
+      remotePath: posix.join(getBase(source), path),
+    };
   });
 }
+
+/**
+ * Name of an uploaded single file, used on the remote side when its
+ * destination turns out to be an existing directory
+ * @param options - Transfer options
+ * @returns File name, or an empty string when no fallback applies
+ */
+function getDirectoryFallbackName(options: TransferOptions): string {
+  const { normalizedLocalPath, normalizedRemotePath } =
+    normalizePathsForRsync(options);
+  return options.direction === TransferDirection.UPLOAD &&
+    !normalizedRemotePath.endsWith("/")
+    ? basename(normalizedLocalPath)
+    : "";
+}
+
+/**
+ * Runs the transfer as a dry run with itemized changes so the user can review
+ * what would be created, updated or deleted before committing to it.
+ * The transfer options are those of the real transfer plus the preview flags
+ * (see getPreviewOptions); the command that actually ran, with the flags
+ * executeRsync adds or adapts, is returned as result.command.
+ * Progress flags are kept, but no progress is reported.
+ * @param options - Transfer options of the transfer to preview
+ * @returns Promise resolving to RsyncResult with parsed changes
+ */
+export async function executeRsyncPreview(
+  options: TransferOptions,
+): Promise<RsyncResult> {
+  const result = await executeRsync(getPreviewOptions(options));
+
+  if (!result.success) {
+    return result;
+  }
+
+  return {
+    ...result,
+    changes: parseItemizedChanges(result.stdout || ""),
+  };
+}
+
+/**
+ * Derives the dry-run options used to preview a transfer
+ * Only --dry-run and --itemize-changes are added, so the previewed command
+ * matches the real one; the checksum check after a transfer is skipped.
+ * The preview runs once: it has no retry countdown and cannot be cancelled
+ * @param options - Transfer options of the real transfer
+ * @returns Transfer options with --dry-run and --itemize-changes enabled
+ */
+export function getPreviewOptions(options: TransferOptions): TransferOptions {
+  return {
+    ...options,
+    retry: { maxAttempts: 1, baseDelay: 0 },
+    rsyncOptions: {
+      ...options.rsyncOptions,
+      verifyAfterTransfer: false,
+      dryRun: true,
+      itemizeChanges: true,
+    },
+  };
+}
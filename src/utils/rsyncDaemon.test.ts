@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { execFile } from "child_process";
+import {
+  buildDaemonFlags,
+  buildDaemonListArgs,
+  executeDaemonList,
+  formatDaemonUrl,
+  isRsyncDaemon,
+  parseDaemonUrl,
+  parseListOnlyOutput,
+} from "./rsyncDaemon";
+import { RsyncDaemonConfig } from "../types/server";
+
+vi.mock("child_process", () => {
+  const actual = vi.importActual("child_process");
+  return {
+    ...actual,
+    execFile: vi.fn(),
+  };
+});
+
+describe("Rsync Daemons", () => {
+  const daemon: RsyncDaemonConfig = {
+    host: "NAS",
+    hostName: "nas.local",
+    module: "backups",
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe("isRsyncDaemon", () => {
+    it("should tell daemon endpoints apart from SSH hosts", () => {
+      expect(isRsyncDaemon(daemon)).toBe(true);
+      expect(isRsyncDaemon({ host: "server1", hostName: "nas.local" })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("formatDaemonUrl", () => {
+    it("should format the module URL", () => {
+      expect(formatDaemonUrl(daemon)).toBe("rsync://nas.local/backups/");
+    });
+
+    it("should include the user and a non-default port", () => {
+      expect(formatDaemonUrl({ ...daemon, user: "backup", port: 8730 })).toBe(
+        "rsync://backup@nas.local:8730/backups/",
+      );
+      expect(formatDaemonUrl({ ...daemon, port: 873 })).toBe(
+        "rsync://nas.local/backups/",
+      );
+    });
+
+    it("should bracket IPv6 addresses", () => {
+      expect(
+        formatDaemonUrl({ ...daemon, hostName: "fd00::1", port: 8730 }),
+      ).toBe("rsync://[fd00::1]:8730/backups/");
+    });
+
+    it("should treat paths as relative to the module", () => {
+      expect(formatDaemonUrl(daemon, "/photos/2024/")).toBe(
+        "rsync://nas.local/backups/photos/2024/",
+      );
+      expect(formatDaemonUrl(daemon, "~/photos")).toBe(
+        "rsync://nas.local/backups/photos",
+      );
+      expect(formatDaemonUrl(daemon, "~")).toBe("rsync://nas.local/backups/");
+    });
+  });
+
+  describe("parseDaemonUrl", () => {
+    it("should parse a module URL", () => {
+      expect(parseDaemonUrl("rsync://nas.local/backups")).toEqual({
+        endpoint: {
+          hostName: "nas.local",
+          port: undefined,
+          module: "backups",
+          user: undefined,
+        },
+      });
+    });
+
+    it("should parse the user, port and IPv6 addresses", () => {
+      expect(parseDaemonUrl(" rsync://backup@[fd00::1]:8730/photos/ ")).toEqual(
+        {
+          endpoint: {
+            hostName: "fd00::1",
+            port: 8730,
+            module: "photos",
+            user: "backup",
+          },
+        },
+      );
+    });
+
+    it("should round-trip formatted URLs", () => {
+      const endpoint = { ...daemon, user: "backup", port: 8730 };
+      expect(parseDaemonUrl(formatDaemonUrl(endpoint)).endpoint).toEqual({
+        hostName: "nas.local",
+        port: 8730,
+        module: "backups",
+        user: "backup",
+      });
+    });
+
+    it.each([
+      "nas.local/backups",
+      "ssh://nas.local/backups",
+      "rsync://nas.local",
+      "rsync://nas.local/",
+      "rsync://nas.local/backups/photos",
+    ])("should reject %s", (url) => {
+      expect(parseDaemonUrl(url).error).toContain("rsync://");
+    });
+
+    it("should reject out-of-range ports", () => {
+      expect(parseDaemonUrl("rsync://nas.local:70000/backups").error).toBe(
+        "Invalid port number: must be between 1 and 65535",
+      );
+    });
+  });
+
+  describe("buildDaemonFlags", () => {
+    it("should add nothing without a password file or connect timeout", () => {
+      expect(buildDaemonFlags(daemon)).toEqual([]);
+      expect(buildDaemonFlags(daemon, { ioTimeout: 30 })).toEqual([]);
+    });
+
+    it("should pass the password file and connect timeout", () => {
+      expect(
+        buildDaemonFlags(
+          { ...daemon, passwordFile: "/Users/me/.rsync pass" },
+          { connectTimeout: 10 },
+        ),
+      ).toEqual(["--password-file=/Users/me/.rsync pass", "--contimeout=10"]);
+    });
+  });
+
+  describe("buildDaemonListArgs", () => {
+    it("should list the contents of the directory", () => {
+      expect(buildDaemonListArgs(daemon, "/photos")).toEqual([
+        "--list-only",
+        "rsync://nas.local/backups/photos/",
+      ]);
+      expect(buildDaemonListArgs(daemon, "/", { connectTimeout: 5 })).toEqual([
+        "--contimeout=5",
+        "--list-only",
+        "rsync://nas.local/backups/",
+      ]);
+    });
+  });
+
+  describe("parseListOnlyOutput", () => {
+    it("should parse files, directories and symlinks", () => {
+      const output = [
+        "drwxr-xr-x          4,096 2024/03/05 14:07:09 .",
+        "drwxr-xr-x          4,096 2024/03/05 14:07:09 photos",
+        "-rw-r--r--         12,345 2024/03/01 09:00:00 notes with spaces.txt",
+        "lrwxrwxrwx              7 2024/03/02 10:30:00 latest -> photos",
+        "",
+      ].join("\n");
+
+      expect(parseListOnlyOutput(output)).toEqual([
+        {
+          name: "photos",
+          isDirectory: true,
+          size: "",
+          permissions: "drwxr-xr-x",
+          modifiedDate: "2024/03/05 14:07:09",
+        },
+        {
+          name: "notes with spaces.txt",
+          isDirectory: false,
+          size: "12,345",
+          permissions: "-rw-r--r--",
+          modifiedDate: "2024/03/01 09:00:00",
+        },
+        {
+          name: "latest",
+          isDirectory: false,
+          size: "7",
+          permissions: "lrwxrwxrwx",
+          modifiedDate: "2024/03/02 10:30:00",
+        },
+      ]);
+    });
+
+    it("should ignore lines that are not entries", () => {
+      expect(parseListOnlyOutput("backups        Nightly backups\n")).toEqual(
+        [],
+      );
+    });
+  });
+
+  describe("executeDaemonList", () => {
+    it("should run rsync --list-only against the module", async () => {
+      let capturedArgs: string[] = [];
+      (execFile as any).mockImplementation(
+        (_file: string, args: string[], _options: any, callback: any) => {
+          capturedArgs = args;
+          callback(null, {
+            stdout: "-rw-r--r--            100 2024/03/01 09:00:00 a.txt\n",
+            stderr: "",
+          });
+        },
+      );
+
+      const files = await executeDaemonList(daemon, "/docs");
+
+      expect(capturedArgs).toEqual([
+        "--list-only",
+        "rsync://nas.local/backups/docs/",
+      ]);
+      expect(files.map(({ name }) => name)).toEqual(["a.txt"]);
+    });
+
+    it("should explain daemon refusals", async () => {
+      (execFile as any).mockImplementation(
+        (_file: string, _args: string[], _options: any, callback: any) => {
+          callback(
+            Object.assign(new Error("Command failed"), {
+              stderr: "@ERROR: Unknown module 'backup'\n",
+              code: 5,
+            }),
+          );
+        },
+      );
+
+      await expect(executeDaemonList(daemon, "/")).rejects.toThrow(
+        "The rsync daemon does not offer this module.",
+      );
+    });
+
+    it("should report listings that time out", async () => {
+      (execFile as any).mockImplementation(
+        (_file: string, _args: string[], _options: any, callback: any) => {
+          callback(
+            Object.assign(new Error("Command failed"), { killed: true }),
+          );
+        },
+      );
+
+      await expect(
+        executeDaemonList(daemon, "/", { ioTimeout: 30 }),
+      ).rejects.toThrow("Listing timed out after 30 seconds.");
+    });
+  });
+});
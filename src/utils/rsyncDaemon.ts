@@ -0,0 +1,212 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import {
+  HostConfig,
+  RemoteFile,
+  RsyncDaemonConfig,
+  RsyncErrorKind,
+  TimeoutOptions,
+} from "../types/server";
+import { formatShellCommand } from "./shellEscape";
+import { DEFAULT_LIST_TIMEOUT_SECONDS, formatDuration } from "./timeouts";
+import { classifyRsyncError, describeRsyncError } from "./rsyncErrors";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Port rsync daemons listen on unless configured otherwise
+ */
+export const DEFAULT_DAEMON_PORT = 873;
+
+/**
+ * Tells rsync daemon endpoints apart from SSH hosts
+ * @param config - Host configuration
+ * @returns True for an rsync daemon module
+ */
+export function isRsyncDaemon(config: HostConfig): config is RsyncDaemonConfig {
+  return "module" in config;
+}
+
+/**
+ * Formats the URL of a path inside a daemon module
+ * Paths are relative to the module, so leading slashes (and ~/) are dropped
+ * @param config - Daemon endpoint
+ * @param path - Path inside the module
+ * @returns URL such as rsync://backup@nas:8730/photos/2024/
+ */
+export function formatDaemonUrl(config: RsyncDaemonConfig, path = ""): string {
+  const user = config.user ? `${config.user}@` : "";
+  // IPv6 addresses need brackets so the port separator stays unambiguous
+  const hostName = config.hostName.includes(":")
+    ? `[${config.hostName}]`
+    : config.hostName;
+  const port =
+    config.port && config.port !== DEFAULT_DAEMON_PORT ? `:${config.port}` : "";
+  const modulePath = path.replace(/^~(\/|$)/, "").replace(/^\/+/, "");
+  return `rsync://${user}${hostName}${port}/${config.module}/${modulePath}`;
+}
+
+/**
+ * Parses a daemon URL entered by the user
+ * @param url - URL of the form rsync://[user@]host[:port]/module
+ * @returns Connection fields of the endpoint, or an error message
+ */
+export function parseDaemonUrl(url: string): {
+  endpoint?: Pick<RsyncDaemonConfig, "hostName" | "port" | "module" | "user">;
+  error?: string;
+} {
+  const match = url
+    .trim()
+    .match(
+      /^rsync:\/\/(?:([^@/]+)@)?(\[[^\]]+\]|[^:/]+)(?::(\d+))?\/([^/]+)\/?$/,
+    );
+  if (!match) {
+    return {
+      error:
+        "Enter a URL such as rsync://nas.local/backups or rsync://user@nas.local:873/backups",
+    };
+  }
+
+  const [, user, hostName, port, module] = match;
+  const portNumber = port ? Number(port) : undefined;
+  if (portNumber !== undefined && (portNumber < 1 || portNumber > 65535)) {
+    return { error: "Invalid port number: must be between 1 and 65535" };
+  }
+
+  return {
+    endpoint: {
+      hostName: hostName.replace(/^\[(.*)\]$/, "$1"),
+      port: portNumber,
+      module,
+      user: user || undefined,
+    },
+  };
+}
+
+/**
+ * Builds the connection options of a daemon transfer or listing
+ * The connect timeout maps to --contimeout, the daemon counterpart of SSH's ConnectTimeout
+ * @param config - Daemon endpoint
+ * @param timeouts - Optional timeouts
+ * @returns rsync arguments
+ */
+export function buildDaemonFlags(
+  config: RsyncDaemonConfig,
+  timeouts?: TimeoutOptions,
+): string[] {
+  return [
+    ...(config.passwordFile ? [`--password-file=${config.passwordFile}`] : []),
+    ...(timeouts?.connectTimeout
+      ? [`--contimeout=${timeouts.connectTimeout}`]
+      : []),
+  ];
+}
+
+/**
+ * Builds the rsync arguments listing a directory of a daemon module
+ * @param config - Daemon endpoint
+ * @param path - Directory inside the module
+ * @param timeouts - Optional timeouts
+ * @returns rsync arguments
+ */
+export function buildDaemonListArgs(
+  config: RsyncDaemonConfig,
+  path: string,
+  timeouts?: TimeoutOptions,
+): string[] {
+  const url = formatDaemonUrl(config, path);
+  // The trailing slash lists the directory's contents rather than the directory itself
+  return [
+    ...buildDaemonFlags(config, timeouts),
+    "--list-only",
+    url.endsWith("/") ? url : `${url}/`,
+  ];
+}
+
+/**
+ * Parses rsync --list-only output into RemoteFile objects
+ * @param output - stdout of rsync --list-only
+ * @returns Entries of the listed directory, without the directory itself (".")
+ */
+export function parseListOnlyOutput(output: string): RemoteFile[] {
+  const files: RemoteFile[] = [];
+
+  for (const line of output.split("\n")) {
+    // Format: permissions size date time name, e.g.
+    // drwxr-xr-x          4,096 2024/03/05 14:07:09 photos
+    const match = line.match(
+      /^([dlcbps-][\w-]{9})\s+([\d,.]+)\s+(\S+)\s+(\S+)\s(.+)$/,
+    );
+    if (!match) continue;
+
+    const [, permissions, size, date, time, entry] = match;
+    // Symlinks are listed as "name -> target"
+    const name = permissions.startsWith("l") ? entry.split(" -> ")[0] : entry;
+    if (name === ".") continue;
+
+    const isDirectory = permissions.startsWith("d");
+    files.push({
+      name,
+      isDirectory,
+      size: isDirectory ? "" : size,
+      permissions,
+      modifiedDate: `${date} ${time}`,
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Lists a directory of a daemon module with rsync --list-only
+ * This is the daemon counterpart of the ls run over SSH for other hosts
+ * @param config - Daemon endpoint
+ * @param path - Directory inside the module
+ * @param timeouts - Optional timeouts; the idle timeout bounds the whole listing
+ * @returns Promise resolving to array of RemoteFile objects
+ * @throws Error with a user-friendly message if the listing fails
+ */
+export async function executeDaemonList(
+  config: RsyncDaemonConfig,
+  path: string,
+  timeouts?: TimeoutOptions,
+): Promise<RemoteFile[]> {
+  const args = buildDaemonListArgs(config, path, timeouts);
+  const listTimeoutSeconds =
+    timeouts?.ioTimeout ?? DEFAULT_LIST_TIMEOUT_SECONDS;
+
+  console.log(
+    "Executing daemon listing:",
+    formatShellCommand(["rsync", ...args]),
+  );
+
+  try {
+    const { stdout } = await execFileAsync("rsync", args, {
+      timeout: listTimeoutSeconds * 1000,
+    });
+    const files = parseListOnlyOutput(stdout);
+    console.log(
+      `Found ${files.length} files in ${formatDaemonUrl(config, path)}`,
+    );
+    return files;
+  } catch (error) {
+    console.error("Daemon listing error:", error);
+    const { stderr, message, killed, code } = error as {
+      stderr?: string;
+      message?: string;
+      killed?: boolean;
+      code?: number;
+    };
+    if (killed) {
+      throw new Error(
+        `Listing timed out after ${formatDuration(listTimeoutSeconds)}.`,
+      );
+    }
+    const kind = classifyRsyncError({ stderr, message, code });
+    throw new Error(
+      kind === RsyncErrorKind.UNKNOWN
+        ? `Failed to list remote files: ${stderr?.trim() || message || "Unknown error"}`
+        : describeRsyncError(kind, { stderr, timeouts }).explanation,
+    );
+  }
+}
@@ -0,0 +1,273 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyRsyncError,
+  describeRsyncError,
+  extractAffectedFiles,
+  isPartialTransfer,
+  isInterruption,
+  needsSudoPassword,
+} from "./rsyncErrors";
+import { RsyncErrorKind } from "../types/server";
+
+describe("Rsync Errors", () => {
+  describe("classifyRsyncError", () => {
+    it.each([
+      [1, RsyncErrorKind.SYNTAX],
+      [2, RsyncErrorKind.PROTOCOL_INCOMPATIBLE],
+      [3, RsyncErrorKind.FILE_SELECTION],
+      [5, RsyncErrorKind.STARTUP],
+      [10, RsyncErrorKind.SOCKET_IO],
+      [11, RsyncErrorKind.FILE_IO],
+      [12, RsyncErrorKind.PROTOCOL_STREAM],
+      [14, RsyncErrorKind.IPC],
+      [20, RsyncErrorKind.INTERRUPTED],
+      [23, RsyncErrorKind.PARTIAL_TRANSFER],
+      [24, RsyncErrorKind.VANISHED_SOURCE_FILES],
+      [25, RsyncErrorKind.MAX_DELETE],
+      [30, RsyncErrorKind.IO_TIMEOUT],
+      [35, RsyncErrorKind.CONNECTION_TIMEOUT],
+      [127, RsyncErrorKind.RSYNC_NOT_FOUND],
+      [255, RsyncErrorKind.CONNECTION_LOST],
+      [99, RsyncErrorKind.UNKNOWN],
+    ])("should classify exit code %i", (code, kind) => {
+      expect(classifyRsyncError({ code, stderr: "" })).toBe(kind);
+    });
+
+    it("should prefer the overall timeout over the exit code", () => {
+      expect(classifyRsyncError({ code: 20, timedOut: true })).toBe(
+        RsyncErrorKind.OVERALL_TIMEOUT,
+      );
+    });
+
+    it("should detect rsync missing on the remote side behind code 12", () => {
+      const stderr = [
+        "bash: rsync: command not found",
+        "rsync: connection unexpectedly closed (0 bytes received so far) [sender]",
+        "rsync error: error in rsync protocol data stream (code 12) at io.c(228)",
+      ].join("\n");
+
+      expect(classifyRsyncError({ code: 12, stderr })).toBe(
+        RsyncErrorKind.RSYNC_NOT_FOUND,
+      );
+    });
+
+    it("should detect rsync missing on this computer", () => {
+      expect(
+        classifyRsyncError({
+          stderr: "spawn rsync ENOENT",
+          message: "spawn rsync ENOENT",
+        }),
+      ).toBe(RsyncErrorKind.RSYNC_NOT_FOUND);
+      expect(
+        describeRsyncError(RsyncErrorKind.RSYNC_NOT_FOUND, {
+          stderr: "spawn rsync ENOENT",
+        }).explanation,
+      ).toBe("rsync was not found on this computer.");
+    });
+
+    it("should detect SSH authentication failures behind code 255", () => {
+      expect(
+        classifyRsyncError({
+          code: 255,
+          stderr: "user@host: Permission denied (publickey,password).",
+        }),
+      ).toBe(RsyncErrorKind.AUTHENTICATION);
+    });
+
+    it("should detect host key and connection failures", () => {
+      expect(
+        classifyRsyncError({
+          code: 255,
+          stderr: "Host key verification failed.",
+        }),
+      ).toBe(RsyncErrorKind.HOST_KEY_VERIFICATION);
+      expect(
+        classifyRsyncError({
+          code: 255,
+          stderr:
+            "ssh: connect to host example.com port 22: Connection refused",
+        }),
+      ).toBe(RsyncErrorKind.CONNECTION_FAILED);
+      expect(
+        classifyRsyncError({
+          code: 255,
+          stderr:
+            "ssh: connect to host example.com port 22: Operation timed out",
+        }),
+      ).toBe(RsyncErrorKind.CONNECTION_TIMEOUT);
+    });
+
+    it("should detect rsync daemon refusals behind code 5", () => {
+      expect(
+        classifyRsyncError({
+          code: 5,
+          stderr: [
+            "@ERROR: auth failed on module backups",
+            "rsync error: error starting client-server protocol (code 5) at main.c(1850)",
+          ].join("\n"),
+        }),
+      ).toBe(RsyncErrorKind.DAEMON_AUTHENTICATION);
+      expect(
+        classifyRsyncError({
+          code: 5,
+          stderr: "@ERROR: Unknown module 'backup'",
+        }),
+      ).toBe(RsyncErrorKind.DAEMON_MODULE_NOT_FOUND);
+    });
+
+    it("should detect unresolvable daemon hostnames", () => {
+      expect(
+        classifyRsyncError({
+          code: 10,
+          stderr:
+            "rsync: getaddrinfo: nas.invalid 873: Name or service not known",
+        }),
+      ).toBe(RsyncErrorKind.CONNECTION_FAILED);
+    });
+
+    it("should not treat file permission errors as authentication failures", () => {
+      const stderr =
+        'rsync: [sender] send_files failed to open "/src/secret.txt": Permission denied (13)';
+
+      expect(classifyRsyncError({ code: 23, stderr })).toBe(
+        RsyncErrorKind.PARTIAL_TRANSFER,
+      );
+      expect(classifyRsyncError({ stderr })).toBe(
+        RsyncErrorKind.PERMISSION_DENIED,
+      );
+    });
+
+    it("should report a missing source as file not found rather than partial", () => {
+      const stderr = [
+        'rsync: [sender] link_stat "/src/missing" failed: No such file or directory (2)',
+        "rsync error: some files/attrs were not transferred (see previous errors) (code 23)",
+      ].join("\n");
+
+      expect(classifyRsyncError({ code: 23, stderr })).toBe(
+        RsyncErrorKind.FILE_NOT_FOUND,
+      );
+    });
+
+    it("should tell sudo password prompts apart from permission failures", () => {
+      const stderr = [
+        "sudo: a password is required",
+        "rsync: connection unexpectedly closed (0 bytes received so far) [sender]",
+        "rsync error: error in rsync protocol data stream (code 12) at io.c(228)",
+      ].join("\n");
+
+      expect(classifyRsyncError({ code: 12, stderr })).toBe(
+        RsyncErrorKind.SUDO_PASSWORD_REQUIRED,
+      );
+      expect(
+        classifyRsyncError({
+          stderr:
+            'rsync: [receiver] mkstemp "/etc/nginx/.nginx.conf.XXXXXX" failed: Permission denied (13)',
+        }),
+      ).toBe(RsyncErrorKind.PERMISSION_DENIED);
+    });
+
+    it("should fall back to stderr when there is no exit code", () => {
+      expect(
+        classifyRsyncError({ stderr: "write failed: No space left on device" }),
+      ).toBe(RsyncErrorKind.DISK_FULL);
+      expect(
+        classifyRsyncError({
+          stderr: "[receiver] io timeout after 120 seconds",
+        }),
+      ).toBe(RsyncErrorKind.IO_TIMEOUT);
+    });
+  });
+
+  describe("describeRsyncError", () => {
+    it("should provide an explanation and a fix for every kind", () => {
+      for (const kind of Object.values(RsyncErrorKind)) {
+        const description = describeRsyncError(kind);
+        expect(description.explanation).toBeTruthy();
+        expect(description.remediation).toBeTruthy();
+      }
+    });
+
+    it("should state the limit that was hit", () => {
+      expect(
+        describeRsyncError(RsyncErrorKind.IO_TIMEOUT, {
+          timeouts: { ioTimeout: 120 },
+        }).explanation,
+      ).toContain("for 2 minutes");
+      expect(
+        describeRsyncError(RsyncErrorKind.CONNECTION_TIMEOUT, {
+          timeouts: { connectTimeout: 10 },
+        }).explanation,
+      ).toContain("within 10 seconds");
+    });
+
+    it("should explain the specific connection failure", () => {
+      expect(
+        describeRsyncError(RsyncErrorKind.CONNECTION_FAILED, {
+          stderr: "ssh: Could not resolve hostname nowhere: nodename not known",
+        }).explanation,
+      ).toContain("Could not resolve hostname");
+    });
+  });
+
+  describe("needsSudoPassword", () => {
+    it("should recognise sudo refusing to prompt", () => {
+      expect(needsSudoPassword("sudo: a password is required\n")).toBe(true);
+      expect(
+        needsSudoPassword(
+          "sudo: a terminal is required to read the password; either use the -S option",
+        ),
+      ).toBe(true);
+      expect(needsSudoPassword("Permission denied (publickey).")).toBe(false);
+    });
+  });
+
+  describe("isPartialTransfer", () => {
+    it("should only treat codes 23 and 24 as partial transfers", () => {
+      expect(isPartialTransfer(RsyncErrorKind.PARTIAL_TRANSFER)).toBe(true);
+      expect(isPartialTransfer(RsyncErrorKind.VANISHED_SOURCE_FILES)).toBe(
+        true,
+      );
+      expect(isPartialTransfer(RsyncErrorKind.FILE_IO)).toBe(false);
+    });
+  });
+
+  describe("isInterruption", () => {
+    it("should treat lost connections and timeouts as interruptions", () => {
+      expect(isInterruption(RsyncErrorKind.CONNECTION_LOST)).toBe(true);
+      expect(isInterruption(RsyncErrorKind.IO_TIMEOUT)).toBe(true);
+      expect(isInterruption(RsyncErrorKind.OVERALL_TIMEOUT)).toBe(true);
+      expect(isInterruption(RsyncErrorKind.AUTHENTICATION)).toBe(false);
+      expect(isInterruption(RsyncErrorKind.DISK_FULL)).toBe(false);
+    });
+  });
+
+  describe("extractAffectedFiles", () => {
+    it("should list quoted paths from per-file messages", () => {
+      const stderr = [
+        'rsync: [sender] send_files failed to open "/src/a.txt": Permission denied (13)',
+        'file has vanished: "/src/b.log"',
+        'rsync: [receiver] mkstemp "/dest/.c.txt.Xy12" failed: Permission denied (13)',
+        "rsync error: some files/attrs were not transferred (see previous errors) (code 23) at main.c(1338) [sender=3.2.7]",
+      ].join("\n");
+
+      expect(extractAffectedFiles(stderr)).toEqual([
+        "/src/a.txt",
+        "/src/b.log",
+        "/dest/.c.txt.Xy12",
+      ]);
+    });
+
+    it("should not list duplicates", () => {
+      const stderr = [
+        'file has vanished: "/src/b.log"',
+        'file has vanished: "/src/b.log"',
+      ].join("\n");
+
+      expect(extractAffectedFiles(stderr)).toEqual(["/src/b.log"]);
+    });
+
+    it("should return an empty list for output without file messages", () => {
+      expect(extractAffectedFiles("Host key verification failed.")).toEqual([]);
+    });
+  });
+});
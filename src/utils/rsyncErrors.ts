@@ -0,0 +1,445 @@
+import { RsyncErrorKind, TimeoutOptions } from "../types/server";
+import { formatDuration } from "./timeouts";
+
+/**
+ * Failure details used to classify an rsync error
+ */
+export interface RsyncErrorInput {
+  code?: number; // Exit code of the rsync process
+  stderr?: string;
+  message?: string;
+  timedOut?: boolean; // Stopped by the overall time limit
+}
+
+/**
+ * Human explanation of an error kind with a suggested fix
+ */
+export interface RsyncErrorDescription {
+  explanation: string;
+  remediation: string;
+}
+
+/**
+ * rsync exit codes that map directly to an error kind
+ * See "EXIT VALUES" in rsync(1)
+ */
+const EXIT_CODE_KINDS: Record<number, RsyncErrorKind> = {
+  1: RsyncErrorKind.SYNTAX,
+  2: RsyncErrorKind.PROTOCOL_INCOMPATIBLE,
+  3: RsyncErrorKind.FILE_SELECTION,
+  4: RsyncErrorKind.PROTOCOL_INCOMPATIBLE,
+  5: RsyncErrorKind.STARTUP,
+  10: RsyncErrorKind.SOCKET_IO,
+  11: RsyncErrorKind.FILE_IO,
+  12: RsyncErrorKind.PROTOCOL_STREAM,
+  14: RsyncErrorKind.IPC,
+  20: RsyncErrorKind.INTERRUPTED,
+  23: RsyncErrorKind.PARTIAL_TRANSFER,
+  24: RsyncErrorKind.VANISHED_SOURCE_FILES,
+  25: RsyncErrorKind.MAX_DELETE,
+  30: RsyncErrorKind.IO_TIMEOUT,
+  35: RsyncErrorKind.CONNECTION_TIMEOUT,
+  127: RsyncErrorKind.RSYNC_NOT_FOUND,
+};
+
+/**
+ * Explanations and fixes for kinds whose text does not depend on the failure
+ */
+const DESCRIPTIONS: Record<RsyncErrorKind, RsyncErrorDescription> = {
+  [RsyncErrorKind.SYNTAX]: {
+    explanation: "rsync rejected the command line (syntax or usage error).",
+    remediation:
+      "Check the filter rules and options; an option may not be supported by this rsync version.",
+  },
+  [RsyncErrorKind.PROTOCOL_INCOMPATIBLE]: {
+    explanation:
+      "The local and remote rsync versions are incompatible or an action is not supported.",
+    remediation: "Update rsync on both machines to a recent 3.x release.",
+  },
+  [RsyncErrorKind.FILE_SELECTION]: {
+    explanation: "rsync could not select the source or destination files.",
+    remediation:
+      "Check that both paths exist and that the destination is writable.",
+  },
+  [RsyncErrorKind.STARTUP]: {
+    explanation: "rsync could not start its client-server protocol.",
+    remediation:
+      "Make sure the remote shell prints nothing on login (e.g. no echo in .bashrc).",
+  },
+  [RsyncErrorKind.SOCKET_IO]: {
+    explanation: "A socket I/O error interrupted the transfer.",
+    remediation: "Check the network connection and try again.",
+  },
+  [RsyncErrorKind.FILE_IO]: {
+    explanation: "A file I/O error occurred while reading or writing files.",
+    remediation:
+      "Check free disk space and the health of the source and destination disks.",
+  },
+  [RsyncErrorKind.PROTOCOL_STREAM]: {
+    explanation: "The rsync data stream broke off (protocol stream error).",
+    remediation:
+      "This is usually a dropped connection or a remote login script writing output; try again and check the remote shell startup files.",
+  },
+  [RsyncErrorKind.IPC]: {
+    explanation: "rsync failed to communicate with one of its own processes.",
+    remediation:
+      "Try again; if it keeps happening, check the system's process limits.",
+  },
+  [RsyncErrorKind.INTERRUPTED]: {
+    explanation: "rsync was interrupted by a signal.",
+    remediation: "Run the transfer again.",
+  },
+  [RsyncErrorKind.PARTIAL_TRANSFER]: {
+    explanation:
+      "Transfer completed with warnings: some files could not be transferred.",
+    remediation:
+      "Check permissions of the files listed and run the transfer again.",
+  },
+  [RsyncErrorKind.VANISHED_SOURCE_FILES]: {
+    explanation:
+      "Transfer completed with warnings: some source files disappeared while copying.",
+    remediation:
+      "This is harmless if the files were deleted on purpose; otherwise run the transfer again.",
+  },
+  [RsyncErrorKind.MAX_DELETE]: {
+    explanation:
+      "rsync stopped deleting files because the deletion limit was reached.",
+    remediation:
+      "Review the files to be deleted with Preview Changes before raising the limit.",
+  },
+  [RsyncErrorKind.IO_TIMEOUT]: {
+    explanation: "Transfer stalled: no data was transferred (I/O timeout).",
+    remediation: "Check the connection or increase the idle timeout.",
+  },
+  [RsyncErrorKind.CONNECTION_TIMEOUT]: {
+    explanation: "Connection timed out: Unable to reach the server.",
+    remediation: "Check your network connection and server address.",
+  },
+  [RsyncErrorKind.OVERALL_TIMEOUT]: {
+    explanation: "Transfer stopped: it exceeded the overall time limit.",
+    remediation:
+      "Increase the limit or leave it empty to rely on the idle timeout.",
+  },
+  [RsyncErrorKind.RSYNC_NOT_FOUND]: {
+    explanation: "rsync was not found on the remote server.",
+    remediation:
+      "Install rsync on the server (e.g. apt install rsync) and make sure it is in the PATH of non-interactive shells.",
+  },
+  [RsyncErrorKind.AUTHENTICATION]: {
+    explanation: "Authentication failed: SSH key not accepted.",
+    remediation:
+      "Check your SSH key configuration and the IdentityFile path in your SSH config.",
+  },
+  [RsyncErrorKind.SUDO_PASSWORD_REQUIRED]: {
+    explanation: "sudo on the remote server asked for a password.",
+    remediation:
+      "Allow passwordless sudo for rsync on the server (e.g. `deploy ALL=(root) NOPASSWD: /usr/bin/rsync` in sudoers), or clear the remote rsync path.",
+  },
+  [RsyncErrorKind.DAEMON_AUTHENTICATION]: {
+    explanation: "The rsync daemon rejected the username or password.",
+    remediation:
+      "Check the username and the password file of the daemon endpoint; the file must hold only the password and must not be readable by others.",
+  },
+  [RsyncErrorKind.DAEMON_MODULE_NOT_FOUND]: {
+    explanation: "The rsync daemon does not offer this module.",
+    remediation:
+      "Check the module name of the daemon endpoint; `rsync rsync://HOST/` lists the modules it offers.",
+  },
+  [RsyncErrorKind.HOST_KEY_VERIFICATION]: {
+    explanation: "Host key verification failed.",
+    remediation: "You may need to add the host to your known_hosts file.",
+  },
+  [RsyncErrorKind.CONNECTION_FAILED]: {
+    explanation: "Could not connect to the server.",
+    remediation: "Check the hostname, port and your network connection.",
+  },
+  [RsyncErrorKind.CONNECTION_LOST]: {
+    explanation: "The SSH connection closed unexpectedly.",
+    remediation:
+      "Check that the server is reachable and that SSH works with this host.",
+  },
+  [RsyncErrorKind.FILE_NOT_FOUND]: {
+    explanation:
+      "File not found: The specified file or directory does not exist.",
+    remediation: "Check the source path.",
+  },
+  [RsyncErrorKind.PERMISSION_DENIED]: {
+    explanation:
+      "Permission denied: You do not have permission to access the file or directory.",
+    remediation:
+      "Check the ownership and permissions of the source and destination. To write root-owned remote paths such as /etc, set the remote rsync path to `sudo -n rsync`.",
+  },
+  [RsyncErrorKind.DISK_FULL]: {
+    explanation: "The destination has insufficient disk space or quota.",
+    remediation: "Free up space on the destination or choose another location.",
+  },
+  [RsyncErrorKind.UNKNOWN]: {
+    explanation: "Transfer failed.",
+    remediation: "Check the rsync output for details.",
+  },
+};
+
+/** Connection failures reported by ssh, with their specific explanation */
+const CONNECTION_FAILURES: { pattern: string; explanation: string }[] = [
+  {
+    pattern: "connection refused",
+    explanation:
+      "Connection refused: The server is not accepting connections on the specified port.",
+  },
+  {
+    pattern: "no route to host",
+    explanation: "No route to host: The server address is unreachable.",
+  },
+  {
+    pattern: "could not resolve hostname",
+    explanation:
+      "Could not resolve hostname: The server address is invalid or DNS lookup failed.",
+  },
+  {
+    pattern: "name or service not known",
+    explanation:
+      "Could not resolve hostname: The server address is invalid or DNS lookup failed.",
+  },
+  {
+    pattern: "network is unreachable",
+    explanation: "Network is unreachable: Check your internet connection.",
+  },
+];
+
+/**
+ * Messages of sudo refusing to run without a password (sudo -n, or no terminal)
+ */
+const SUDO_PASSWORD_PROMPTS = [
+  "sudo: a password is required",
+  "sudo: a terminal is required to read the password",
+  "sudo: no tty present",
+  "sudo: sorry, you must have a tty",
+];
+
+/**
+ * Tells whether error output shows sudo asking for a password
+ * @param output - Error output of a remote command
+ * @returns True if sudo needed a password it could not ask for
+ */
+export function needsSudoPassword(output: string): boolean {
+  const lowerOutput = output.toLowerCase();
+  return SUDO_PASSWORD_PROMPTS.some((prompt) => lowerOutput.includes(prompt));
+}
+
+/**
+ * Classifies an rsync failure from its exit code and error output
+ * SSH-level and daemon failures are recognised from stderr first, since rsync
+ * reports them with generic exit codes (5, 12 or 255)
+ * @param error - Exit code and output of the failed process
+ * @returns Error kind
+ */
+export function classifyRsyncError(error: RsyncErrorInput): RsyncErrorKind {
+  const combinedError =
+    `${error.stderr || ""} ${error.message || ""}`.toLowerCase();
+
+  if (error.timedOut) {
+    return RsyncErrorKind.OVERALL_TIMEOUT;
+  }
+
+  // SSH and remote shell failures
+  if (
+    combinedError.includes("rsync: command not found") ||
+    combinedError.includes("rsync: not found") ||
+    combinedError.includes("spawn rsync enoent")
+  ) {
+    return RsyncErrorKind.RSYNC_NOT_FOUND;
+  }
+  if (
+    /permission denied \((publickey|password|keyboard-interactive)/.test(
+      combinedError,
+    ) ||
+    combinedError.includes("permission denied, please try again") ||
+    combinedError.includes("no such identity") ||
+    combinedError.includes("too many authentication failures")
+  ) {
+    return RsyncErrorKind.AUTHENTICATION;
+  }
+  // sudo in the remote rsync path, before the generic permission and exit code checks
+  if (needsSudoPassword(combinedError)) {
+    return RsyncErrorKind.SUDO_PASSWORD_REQUIRED;
+  }
+  // rsync daemon refusals ("@ERROR: ..." before the transfer starts)
+  if (combinedError.includes("@error: auth failed")) {
+    return RsyncErrorKind.DAEMON_AUTHENTICATION;
+  }
+  if (combinedError.includes("@error: unknown module")) {
+    return RsyncErrorKind.DAEMON_MODULE_NOT_FOUND;
+  }
+  if (combinedError.includes("host key verification failed")) {
+    return RsyncErrorKind.HOST_KEY_VERIFICATION;
+  }
+  if (
+    combinedError.includes("connection timed out") ||
+    combinedError.includes("operation timed out")
+  ) {
+    return RsyncErrorKind.CONNECTION_TIMEOUT;
+  }
+  if (
+    CONNECTION_FAILURES.some(({ pattern }) => combinedError.includes(pattern))
+  ) {
+    return RsyncErrorKind.CONNECTION_FAILED;
+  }
+
+  // A missing source makes rsync exit with 23, but nothing was transferred
+  if (
+    error.code === 23 &&
+    /(link_stat|change_dir) .* failed: no such file or directory/.test(
+      combinedError,
+    ) &&
+    !combinedError.includes("permission denied")
+  ) {
+    return RsyncErrorKind.FILE_NOT_FOUND;
+  }
+
+  if (error.code !== undefined && EXIT_CODE_KINDS[error.code]) {
+    return EXIT_CODE_KINDS[error.code];
+  }
+  if (combinedError.includes("io timeout")) {
+    return RsyncErrorKind.IO_TIMEOUT;
+  }
+
+  // File system failures reported without a specific exit code
+  if (
+    combinedError.includes("no space left on device") ||
+    combinedError.includes("disk quota exceeded")
+  ) {
+    return RsyncErrorKind.DISK_FULL;
+  }
+  if (combinedError.includes("no such file or directory")) {
+    return RsyncErrorKind.FILE_NOT_FOUND;
+  }
+  if (combinedError.includes("permission denied")) {
+    return RsyncErrorKind.PERMISSION_DENIED;
+  }
+
+  if (error.code === 255) {
+    return RsyncErrorKind.CONNECTION_LOST;
+  }
+  return RsyncErrorKind.UNKNOWN;
+}
+
+/**
+ * Describes an error kind for the user
+ * @param kind - Error kind
+ * @param context - Error output and the timeouts the transfer ran with, used for specifics
+ * @returns Explanation and suggested fix
+ */
+export function describeRsyncError(
+  kind: RsyncErrorKind,
+  context: { stderr?: string; timeouts?: TimeoutOptions } = {},
+): RsyncErrorDescription {
+  const { timeouts } = context;
+  const description = DESCRIPTIONS[kind];
+
+  switch (kind) {
+    case RsyncErrorKind.OVERALL_TIMEOUT:
+      if (timeouts?.overallTimeout) {
+        return {
+          ...description,
+          explanation: `Transfer stopped: it exceeded the overall time limit of ${formatDuration(timeouts.overallTimeout)}.`,
+        };
+      }
+      break;
+    case RsyncErrorKind.IO_TIMEOUT:
+      if (timeouts?.ioTimeout) {
+        return {
+          ...description,
+          explanation: `Transfer stalled: no data was transferred for ${formatDuration(timeouts.ioTimeout)} (I/O timeout).`,
+        };
+      }
+      break;
+    case RsyncErrorKind.CONNECTION_TIMEOUT:
+      if (timeouts?.connectTimeout) {
+        return {
+          ...description,
+          explanation: `Connection timed out: Unable to reach the server within ${formatDuration(timeouts.connectTimeout)}.`,
+        };
+      }
+      break;
+    case RsyncErrorKind.RSYNC_NOT_FOUND:
+      // spawn fails with ENOENT when rsync is missing on this machine
+      if ((context.stderr || "").toLowerCase().includes("spawn rsync enoent")) {
+        return {
+          explanation: "rsync was not found on this computer.",
+          remediation:
+            "Install rsync (e.g. brew install rsync) and make sure it is in your PATH.",
+        };
+      }
+      break;
+    case RsyncErrorKind.CONNECTION_FAILED: {
+      const stderr = (context.stderr || "").toLowerCase();
+      const failure = CONNECTION_FAILURES.find(({ pattern }) =>
+        stderr.includes(pattern),
+      );
+      if (failure) {
+        return { ...description, explanation: failure.explanation };
+      }
+      break;
+    }
+  }
+
+  return description;
+}
+
+/**
+ * Whether an error kind means the transfer finished but skipped some files
+ * @param kind - Error kind
+ * @returns True for partial transfers (exit codes 23 and 24)
+ */
+export function isPartialTransfer(kind: RsyncErrorKind): boolean {
+  return (
+    kind === RsyncErrorKind.PARTIAL_TRANSFER ||
+    kind === RsyncErrorKind.VANISHED_SOURCE_FILES
+  );
+}
+
+/**
+ * Whether an error kind means the transfer was cut off midway
+ * @param kind - Error kind
+ * @returns True for lost connections, stalls, timeouts and signals
+ */
+export function isInterruption(kind: RsyncErrorKind): boolean {
+  return [
+    RsyncErrorKind.SOCKET_IO,
+    RsyncErrorKind.PROTOCOL_STREAM,
+    RsyncErrorKind.INTERRUPTED,
+    RsyncErrorKind.IO_TIMEOUT,
+    RsyncErrorKind.OVERALL_TIMEOUT,
+    RsyncErrorKind.CONNECTION_LOST,
+  ].includes(kind);
+}
+
+/**
+ * Extracts the files named in rsync's error output
+ * rsync quotes the path in its per-file messages, e.g.
+ * `rsync: [sender] send_files failed to open "/src/a.txt": Permission denied (13)`
+ * or `file has vanished: "/src/b.log"`
+ * @param stderr - rsync stderr
+ * @returns Unique file paths in the order they were reported
+ */
+export function extractAffectedFiles(stderr: string): string[] {
+  const files = new Set<string>();
+
+  for (const line of stderr.split("\n")) {
+    const trimmedLine = line.trim();
+    // "rsync error: ... (code 23)" is the summary line, not a per-file message
+    if (
+      !/^(rsync|file has vanished)/.test(trimmedLine) ||
+      trimmedLine.startsWith("rsync error:")
+    ) {
+      continue;
+    }
+
+    const match = trimmedLine.match(/"([^"]+)"/);
+    if (match) {
+      files.add(match[1]);
+    }
+  }
+
+  return [...files];
+}
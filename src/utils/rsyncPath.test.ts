@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { checkRemoteRsyncPath, usesSudo } from "./rsyncPath";
+import { executeRemoteCommand } from "./ssh";
+import { RsyncErrorKind, SSHHostConfig } from "../types/server";
+
+vi.mock("./ssh", () => ({
+  executeRemoteCommand: vi.fn(),
+}));
+
+describe("Remote Rsync Path", () => {
+  const hostConfig: SSHHostConfig = {
+    host: "web1",
+    hostName: "web1.example.com",
+  };
+
+  beforeEach(() => {
+    vi.mocked(executeRemoteCommand).mockReset();
+  });
+
+  describe("usesSudo", () => {
+    it("should detect paths that start with sudo", () => {
+      expect(usesSudo("sudo -n rsync")).toBe(true);
+      expect(usesSudo("  sudo rsync")).toBe(true);
+      expect(usesSudo("sudoedit")).toBe(false);
+      expect(usesSudo("/usr/local/bin/rsync")).toBe(false);
+      expect(usesSudo(undefined)).toBe(false);
+    });
+  });
+
+  describe("checkRemoteRsyncPath", () => {
+    it("should run the path with --version", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: "rsync  version 3.2.7  protocol version 31\n",
+        stderr: "",
+      });
+
+      const result = await checkRemoteRsyncPath(hostConfig, "sudo -n rsync", {
+        connectTimeout: 5,
+      });
+
+      expect(result).toBeUndefined();
+      expect(executeRemoteCommand).toHaveBeenCalledWith(
+        hostConfig,
+        "sudo -n rsync --version",
+        { connectTimeout: 5, ioTimeout: 15 },
+      );
+    });
+
+    it("should report sudo asking for a password", async () => {
+      vi.mocked(executeRemoteCommand).mockRejectedValue(
+        Object.assign(new Error("Command failed"), {
+          stderr: "sudo: a password is required\n",
+          code: 1,
+        }),
+      );
+
+      const result = await checkRemoteRsyncPath(hostConfig, "sudo -n rsync");
+
+      expect(result?.success).toBe(false);
+      expect(result?.errorKind).toBe(RsyncErrorKind.SUDO_PASSWORD_REQUIRED);
+      expect(result?.remediation).toContain("NOPASSWD");
+    });
+
+    it("should report a check that does not finish", async () => {
+      vi.mocked(executeRemoteCommand).mockRejectedValue(
+        Object.assign(new Error("Command failed"), { killed: true }),
+      );
+
+      const result = await checkRemoteRsyncPath(hostConfig, "sudo rsync");
+
+      expect(result?.errorKind).toBe(RsyncErrorKind.IO_TIMEOUT);
+      expect(result?.message).toBe(
+        '"sudo rsync" did not finish on web1 within 15 seconds.',
+      );
+    });
+
+    it("should include the output of unrecognised failures", async () => {
+      vi.mocked(executeRemoteCommand).mockRejectedValue(
+        Object.assign(new Error("Command failed"), {
+          stderr: "doas: rsync: not permitted\n",
+        }),
+      );
+
+      const result = await checkRemoteRsyncPath(hostConfig, "doas rsync");
+
+      expect(result?.errorKind).toBe(RsyncErrorKind.UNKNOWN);
+      expect(result?.message).toBe(
+        'Could not run "doas rsync" on web1: doas: rsync: not permitted',
+      );
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import {
+  RsyncErrorKind,
+  RsyncResult,
+  SSHHostConfig,
+  TimeoutOptions,
+} from "../types/server";
+import { executeRemoteCommand } from "./ssh";
+import { formatDuration } from "./timeouts";
+import { classifyRsyncError, describeRsyncError } from "./rsyncErrors";
+
+/**
+ * Remote rsync path that runs rsync as root, failing instead of prompting for a password
+ */
+export const SUDO_RSYNC_PATH = "sudo -n rsync";
+
+/**
+ * Time limit of the remote rsync path check, in seconds
+ */
+const RSYNC_PATH_CHECK_TIMEOUT_SECONDS = 15;
+
+/**
+ * Raw remote rsync path inputs from a transfer form
+ */
+export interface RsyncPathFormValues {
+  rsyncPath?: string; // Remote rsync command, empty for plain rsync
+  rememberRsyncPath?: boolean; // Save the path as the host default
+}
+
+/**
+ * Tells whether a remote rsync path elevates with sudo
+ * @param rsyncPath - Remote rsync command
+ * @returns True if the command starts with sudo
+ */
+export function usesSudo(rsyncPath?: string): boolean {
+  return /^\s*sudo(\s|$)/.test(rsyncPath ?? "");
+}
+
+/**
+ * Runs the remote rsync path once with --version before a transfer
+ * Without this check a sudo password prompt surfaces as a closed connection
+ * halfway through rsync's startup. Running the exact command also honors
+ * sudoers rules that only allow rsync (sudo -n true would be refused)
+ * @param hostConfig - SSH host configuration
+ * @param rsyncPath - Remote rsync command, e.g. "sudo -n rsync"
+ * @param timeouts - Optional timeouts; only the connect timeout applies
+ * @returns Failed result describing the problem, or undefined when the command works
+ */
+export async function checkRemoteRsyncPath(
+  hostConfig: SSHHostConfig,
+  rsyncPath: string,
+  timeouts?: TimeoutOptions,
+): Promise<RsyncResult | undefined> {
+  try {
+    // The path is a command line for the remote shell, as rsync's --rsync-path is
+    await executeRemoteCommand(hostConfig, `${rsyncPath} --version`, {
+      connectTimeout: timeouts?.connectTimeout,
+      ioTimeout: RSYNC_PATH_CHECK_TIMEOUT_SECONDS,
+    });
+    return undefined;
+  } catch (error) {
+    console.error("Remote rsync path check failed:", error);
+    const { stderr, message, code, killed } = error as {
+      stderr?: string;
+      message?: string;
+      code?: number;
+      killed?: boolean;
+    };
+    if (killed) {
+      return {
+        success: false,
+        message: `"${rsyncPath}" did not finish on ${hostConfig.host} within ${formatDuration(RSYNC_PATH_CHECK_TIMEOUT_SECONDS)}.`,
+        errorKind: RsyncErrorKind.IO_TIMEOUT,
+        remediation: `Make sure the remote rsync path does not wait for input, e.g. use "${SUDO_RSYNC_PATH}".`,
+      };
+    }
+
+    const kind = classifyRsyncError({ stderr, message, code });
+    const { explanation, remediation } =
+      kind === RsyncErrorKind.UNKNOWN
+        ? {
+            explanation: `Could not run "${rsyncPath}" on ${hostConfig.host}: ${stderr?.trim() || message || "Unknown error"}`,
+            remediation: "Check the remote rsync path.",
+          }
+        : describeRsyncError(kind, { stderr, timeouts });
+    return {
+      success: false,
+      message: explanation,
+      errorKind: kind,
+      remediation,
+      stderr,
+    };
+  }
+}
@@ -0,0 +1,125 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseRsyncStats,
+  parseStatNumber,
+  formatBytes,
+  formatStatsSummary,
+  formatElapsedTime,
+} from "./rsyncStats";
+
+const RSYNC_3_STATS = `sending incremental file list
+project/
+project/a.txt
+
+Number of files: 3 (reg: 2, dir: 1)
+Number of created files: 2 (reg: 1, dir: 1)
+Number of deleted files: 0
+Number of regular files transferred: 1
+Total file size: 1,234,567 bytes
+Total transferred file size: 4,096 bytes
+Literal data: 1,024 bytes
+Matched data: 3,072 bytes
+File list size: 0
+File list generation time: 0.001 seconds
+File list transfer time: 0.000 seconds
+Total bytes sent: 1,500
+Total bytes received: 70
+
+sent 1,500 bytes  received 70 bytes  3,140.00 bytes/sec
+total size is 1,234,567  speedup is 786.35
+`;
+
+const RSYNC_2_STATS = `Number of files: 12
+Number of files transferred: 4
+Total file size: 2048 bytes
+Total transferred file size: 512 bytes
+Literal data: 512 bytes
+Matched data: 0 bytes
+File list size: 200
+Total bytes sent: 800
+Total bytes received: 92
+
+sent 800 bytes  received 92 bytes  1784.00 bytes/sec
+total size is 2048  speedup is 2.30
+`;
+
+describe("Rsync Stats", () => {
+  describe("parseRsyncStats", () => {
+    it("should parse rsync 3.x stats", () => {
+      expect(parseRsyncStats(RSYNC_3_STATS, 1500)).toEqual({
+        filesConsidered: 3,
+        filesTransferred: 1,
+        filesCreated: 2,
+        filesDeleted: 0,
+        totalSize: 1234567,
+        transferredSize: 4096,
+        literalData: 1024,
+        matchedData: 3072,
+        bytesSent: 1500,
+        bytesReceived: 70,
+        speedup: 786.35,
+        durationMs: 1500,
+      });
+    });
+
+    it("should parse rsync 2.6.9 stats", () => {
+      const stats = parseRsyncStats(RSYNC_2_STATS, 10);
+
+      expect(stats?.filesConsidered).toBe(12);
+      expect(stats?.filesTransferred).toBe(4);
+      expect(stats?.filesCreated).toBeUndefined();
+      expect(stats?.filesDeleted).toBeUndefined();
+      expect(stats?.totalSize).toBe(2048);
+      expect(stats?.speedup).toBe(2.3);
+    });
+
+    it("should parse human-readable stats", () => {
+      const stats = parseRsyncStats(
+        "Number of files: 1.20K (reg: 1.10K, dir: 100)\nTotal file size: 3.50G bytes\nTotal transferred file size: 12.30M bytes\n",
+        0,
+      );
+
+      expect(stats?.filesConsidered).toBe(1200);
+      expect(stats?.totalSize).toBe(3500000000);
+      expect(stats?.transferredSize).toBe(12300000);
+    });
+
+    it("should return undefined without a stats block", () => {
+      expect(parseRsyncStats("sending incremental file list\n", 0)).toBe(
+        undefined,
+      );
+    });
+  });
+
+  describe("parseStatNumber", () => {
+    it("should parse plain, separated and suffixed numbers", () => {
+      expect(parseStatNumber("42")).toBe(42);
+      expect(parseStatNumber("1,234,567")).toBe(1234567);
+      expect(parseStatNumber("1.5K")).toBe(1500);
+      expect(parseStatNumber("bytes")).toBeUndefined();
+    });
+  });
+
+  describe("formatting", () => {
+    it("should format byte counts", () => {
+      expect(formatBytes(500)).toBe("500 B");
+      expect(formatBytes(1536)).toBe("1.50 KB");
+      expect(formatBytes(1073741824)).toBe("1.00 GB");
+    });
+
+    it("should summarize stats", () => {
+      const stats = parseRsyncStats(RSYNC_3_STATS, 0)!;
+
+      expect(formatStatsSummary(stats)).toBe(
+        "1 of 3 files transferred (4.00 KB of 1.18 MB)",
+      );
+    });
+
+    it("should format elapsed time", () => {
+      expect(formatElapsedTime(850)).toBe("850 ms");
+      expect(formatElapsedTime(42300)).toBe("42.3 s");
+      expect(formatElapsedTime(125000)).toBe("2m 05s");
+      expect(formatElapsedTime(3725000)).toBe("1h 02m 05s");
+    });
+  });
+});
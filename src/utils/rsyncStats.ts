@@ -0,0 +1,126 @@
+import { RsyncStats } from "../types/server";
+
+/** Multipliers for rsync's human-readable suffixes (-h uses powers of 1000) */
+const SUFFIX_MULTIPLIERS: Record<string, number> = {
+  "": 1,
+  K: 1e3,
+  M: 1e6,
+  G: 1e9,
+  T: 1e12,
+  P: 1e15,
+};
+
+/**
+ * Parses a number from rsync --stats output
+ * Handles thousands separators ("1,234,567") and -h suffixes ("1.23M")
+ * @param value - Raw number text
+ * @returns Parsed number, or undefined if the text is not a number
+ */
+export function parseStatNumber(value: string): number | undefined {
+  const match = value.replace(/,/g, "").match(/^([\d.]+)([KMGTP]?)$/i);
+  if (!match) {
+    return undefined;
+  }
+  const number = Number(match[1]);
+  if (Number.isNaN(number)) {
+    return undefined;
+  }
+  return Math.round(number * SUFFIX_MULTIPLIERS[match[2].toUpperCase()]);
+}
+
+/**
+ * Reads the numeric value of a "Label: value" line from --stats output
+ * @param output - rsync stdout
+ * @param label - Line label, e.g. "Total file size"
+ * @returns Parsed value, or undefined if the line is missing
+ */
+function readStat(output: string, label: string): number | undefined {
+  const escapedLabel = label.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  const match = output.match(
+    new RegExp(`^${escapedLabel}:\\s+([\\d.,]+[KMGTP]?)`, "im"),
+  );
+  return match ? parseStatNumber(match[1]) : undefined;
+}
+
+/**
+ * Parses rsync --stats output into typed statistics
+ * Supports rsync 3.x and the older 2.6.9 wording ("Number of files transferred")
+ * @param output - rsync stdout
+ * @param durationMs - Measured duration of the transfer
+ * @returns Parsed statistics, or undefined if the output has no stats block
+ */
+export function parseRsyncStats(
+  output: string,
+  durationMs: number,
+): RsyncStats | undefined {
+  const filesConsidered = readStat(output, "Number of files");
+  const totalSize = readStat(output, "Total file size");
+
+  if (filesConsidered === undefined || totalSize === undefined) {
+    return undefined;
+  }
+
+  const speedupMatch = output.match(/speedup is ([\d.,]+)/);
+
+  return {
+    filesConsidered,
+    filesTransferred:
+      readStat(output, "Number of regular files transferred") ??
+      readStat(output, "Number of files transferred") ??
+      0,
+    filesCreated: readStat(output, "Number of created files"),
+    filesDeleted: readStat(output, "Number of deleted files"),
+    totalSize,
+    transferredSize: readStat(output, "Total transferred file size") ?? 0,
+    literalData: readStat(output, "Literal data") ?? 0,
+    matchedData: readStat(output, "Matched data") ?? 0,
+    bytesSent: readStat(output, "Total bytes sent") ?? 0,
+    bytesReceived: readStat(output, "Total bytes received") ?? 0,
+    speedup: speedupMatch
+      ? Number(speedupMatch[1].replace(/,/g, ""))
+      : undefined,
+    durationMs,
+  };
+}
+
+/**
+ * Formats a byte count for display
+ * @param bytes - Number of bytes
+ * @returns Formatted size such as "512 B" or "1.50 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(2)} KB`;
+  if (bytes < 1024 * 1024 * 1024)
+    return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+}
+
+/**
+ * Builds a one-line summary of transfer statistics
+ * @param stats - Parsed statistics
+ * @returns Summary such as "3 of 120 files transferred (1.50 MB of 20.00 MB)"
+ */
+export function formatStatsSummary(stats: RsyncStats): string {
+  return `${stats.filesTransferred} of ${stats.filesConsidered} files transferred (${formatBytes(stats.transferredSize)} of ${formatBytes(stats.totalSize)})`;
+}
+
+/**
+ * Formats an elapsed time for display
+ * @param durationMs - Duration in milliseconds
+ * @returns Elapsed time such as "850 ms", "42.3 s" or "1h 02m 05s"
+ */
+export function formatElapsedTime(durationMs: number): string {
+  if (durationMs < 1000) return `${durationMs} ms`;
+  if (durationMs < 60000) return `${(durationMs / 1000).toFixed(1)} s`;
+
+  const totalSeconds = Math.round(durationMs / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}h ${pad(minutes)}m ${pad(seconds)}s`
+    : `${minutes}m ${pad(seconds)}s`;
+}
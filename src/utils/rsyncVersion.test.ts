@@ -0,0 +1,79 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseRsyncVersion,
+  isVersionAtLeast,
+  supportsOverallProgress,
+} from "./rsyncVersion";
+
+describe("Rsync Version", () => {
+  describe("parseRsyncVersion", () => {
+    it("should parse rsync 3.x output", () => {
+      expect(
+        parseRsyncVersion(
+          "rsync  version 3.2.7  protocol version 31\nCopyright (C) 1996-2022 by Andrew Tridgell, Wayne Davison, and others.",
+        ),
+      ).toEqual({ major: 3, minor: 2, patch: 7 });
+    });
+
+    it("should parse the version prefixed with v", () => {
+      expect(
+        parseRsyncVersion("rsync  version v3.2.3  protocol version 31"),
+      ).toEqual({ major: 3, minor: 2, patch: 3 });
+    });
+
+    it("should parse the macOS rsync 2.6.9 output", () => {
+      expect(
+        parseRsyncVersion("rsync  version 2.6.9  protocol version 29"),
+      ).toEqual({ major: 2, minor: 6, patch: 9 });
+    });
+
+    it("should parse the compatible version printed by openrsync", () => {
+      expect(
+        parseRsyncVersion(
+          "openrsync: protocol version 29\nrsync version 2.6.9 compatible",
+        ),
+      ).toEqual({ major: 2, minor: 6, patch: 9 });
+    });
+
+    it("should return undefined for unrecognised output", () => {
+      expect(
+        parseRsyncVersion("openrsync: protocol version 29"),
+      ).toBeUndefined();
+      expect(parseRsyncVersion("")).toBeUndefined();
+    });
+  });
+
+  describe("isVersionAtLeast", () => {
+    it("should compare major and minor versions", () => {
+      const version = { major: 3, minor: 1, patch: 0 };
+      expect(isVersionAtLeast(version, 3, 1)).toBe(true);
+      expect(isVersionAtLeast(version, 3, 2)).toBe(false);
+      expect(isVersionAtLeast(version, 2, 9)).toBe(true);
+      expect(isVersionAtLeast(version, 4, 0)).toBe(false);
+    });
+
+    it("should compare patch versions", () => {
+      expect(isVersionAtLeast({ major: 3, minor: 2, patch: 3 }, 3, 2, 3)).toBe(
+        true,
+      );
+      expect(isVersionAtLeast({ major: 3, minor: 2, patch: 2 }, 3, 2, 3)).toBe(
+        false,
+      );
+      expect(isVersionAtLeast({ major: 3, minor: 3, patch: 0 }, 3, 2, 3)).toBe(
+        true,
+      );
+    });
+  });
+
+  describe("supportsOverallProgress", () => {
+    it("should require rsync 3.1 or newer", () => {
+      expect(supportsOverallProgress({ major: 3, minor: 1, patch: 3 })).toBe(
+        true,
+      );
+      expect(supportsOverallProgress({ major: 3, minor: 0, patch: 9 })).toBe(
+        false,
+      );
+      expect(supportsOverallProgress(undefined)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { RsyncVersion } from "../types/server";
+
+/**
+ * Parses the version from `rsync --version` output
+ * @param output - Output such as "rsync  version 3.2.7  protocol version 31"
+ *   (openrsync prints "rsync version 2.6.9 compatible")
+ * @returns Parsed version, or undefined if the output has no version line
+ */
+export function parseRsyncVersion(output: string): RsyncVersion | undefined {
+  const match = output.match(/^rsync\s+version\s+v?(\d+)\.(\d+)(?:\.(\d+))?/m);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3] ?? 0),
+  };
+}
+
+/**
+ * Checks whether a version is at least the given release
+ * @param version - Version to check
+ * @param major - Minimum major version
+ * @param minor - Minimum minor version
+ * @param patch - Minimum patch version
+ * @returns True if the version is the same or newer
+ */
+export function isVersionAtLeast(
+  version: RsyncVersion,
+  major: number,
+  minor: number,
+  patch = 0,
+): boolean {
+  if (version.major !== major) return version.major > major;
+  if (version.minor !== minor) return version.minor > minor;
+  return version.patch >= patch;
+}
+
+/**
+ * Checks whether an rsync version supports whole-transfer progress
+ * @param version - Detected version, undefined if unknown
+ * @returns True for rsync 3.1 and newer (--info=progress2)
+ */
+export function supportsOverallProgress(version?: RsyncVersion): boolean {
+  return version !== undefined && isVersionAtLeast(version, 3, 1);
+}
@@ -1,5 +1,9 @@
 import { describe, it, expect } from "vitest";
-import { shellEscape, shellEscapeArgs } from "./shellEscape";
+import {
+  shellEscape,
+  shellEscapeArgs,
+  formatShellCommand,
+} from "./shellEscape";
 
 describe("shellEscape", () => {
   it("should escape simple strings", () => {
@@ -96,3 +100,23 @@ describe("shellEscapeArgs", () => {
     expect(shellEscapeArgs([])).toBe("");
   });
 });
+
+describe("formatShellCommand", () => {
+  it("should leave the command and plain options bare", () => {
+    expect(formatShellCommand(["rsync", "-avz", "--timeout=30", "--"])).toBe(
+      "rsync -avz --timeout=30 --",
+    );
+  });
+
+  it("should quote every other argument", () => {
+    expect(
+      formatShellCommand(["ssh", "-F", "/tmp/config", "host", "ls -la"]),
+    ).toBe("ssh -F '/tmp/config' 'host' 'ls -la'");
+  });
+
+  it("should quote options that contain shell metacharacters", () => {
+    expect(formatShellCommand(["rsync", "--exclude=*.log; rm -rf /"])).toBe(
+      "rsync '--exclude=*.log; rm -rf /'",
+    );
+  });
+});
@@ -34,3 +34,22 @@ export function shellEscape(str: string): string {
 export function shellEscapeArgs(args: string[]): string {
   return args.map(shellEscape).join(" ");
 }
+
+/**
+ * Renders a command and its arguments as a copyable shell command line
+ * The command and plain options are left bare; every other argument is escaped.
+ * Used for logs and previews; commands are executed without a shell.
+ *
+ * @param args - Command followed by its arguments
+ * @returns Display string
+ *
+ * @example
+ * formatShellCommand(["ssh", "-F", "/tmp/config", "host"]) => "ssh -F '/tmp/config' 'host'"
+ */
+export function formatShellCommand(args: string[]): string {
+  return args
+    .map((arg, index) =>
+      index === 0 || /^-[\w=,.+-]*$/.test(arg) ? arg : shellEscape(arg),
+    )
+    .join(" ");
+}
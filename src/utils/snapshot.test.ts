@@ -0,0 +1,320 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  parseSnapshotName,
+  selectSnapshotsToPrune,
+  parseRetentionPolicy,
+  buildListSnapshotsCommand,
+  buildFinishSnapshotCommand,
+  executeSnapshotBackup,
+} from "./snapshot";
+import {
+  SnapshotBackupOptions,
+  SSHHostConfig,
+  TransferDirection,
+} from "../types/server";
+import { executeRemoteCommand } from "./ssh";
+import { executeRsync } from "./rsync";
+
+vi.mock("./ssh", () => ({
+  executeRemoteCommand: vi.fn(),
+}));
+
+vi.mock("./rsync", () => ({
+  executeRsync: vi.fn(),
+}));
+
+describe("Snapshot Backups", () => {
+  const mockHostConfig: SSHHostConfig = {
+    host: "testserver",
+    hostName: "example.com",
+  };
+
+  describe("parseSnapshotName", () => {
+    it("should parse the date of a snapshot directory", () => {
+      expect(parseSnapshotName("2024-03-05_14-07-09")).toEqual(
+        new Date(2024, 2, 5, 14, 7, 9),
+      );
+    });
+
+    it("should ignore other directory entries", () => {
+      expect(parseSnapshotName("latest")).toBeUndefined();
+      expect(parseSnapshotName("2024-03-05")).toBeUndefined();
+      expect(parseSnapshotName("2024-03-05_14-07-09.tmp")).toBeUndefined();
+    });
+  });
+
+  describe("selectSnapshotsToPrune", () => {
+    it("should keep the newest snapshot of each recent day", () => {
+      const names = [
+        "2024-03-05_08-00-00",
+        "2024-03-05_20-00-00",
+        "2024-03-06_08-00-00",
+        "2024-03-07_08-00-00",
+      ];
+
+      expect(selectSnapshotsToPrune(names, { daily: 2, weekly: 0 })).toEqual([
+        "2024-03-05_08-00-00",
+        "2024-03-05_20-00-00",
+      ]);
+    });
+
+    it("should keep the newest snapshot of each recent week", () => {
+      // 2024-03-04 and 2024-03-11 are Mondays
+      const names = [
+        "2024-02-26_08-00-00",
+        "2024-03-04_08-00-00",
+        "2024-03-10_08-00-00",
+        "2024-03-11_08-00-00",
+        "2024-03-12_08-00-00",
+      ];
+
+      expect(selectSnapshotsToPrune(names, { daily: 1, weekly: 2 })).toEqual([
+        "2024-02-26_08-00-00",
+        "2024-03-04_08-00-00",
+        "2024-03-11_08-00-00",
+      ]);
+    });
+
+    it("should always keep the newest snapshot and ignore other entries", () => {
+      const names = ["latest", "2024-03-05_08-00-00", "2024-03-06_08-00-00"];
+
+      expect(selectSnapshotsToPrune(names, { daily: 0, weekly: 0 })).toEqual([
+        "2024-03-05_08-00-00",
+      ]);
+    });
+  });
+
+  describe("parseRetentionPolicy", () => {
+    it("should use the defaults for empty values", () => {
+      expect(parseRetentionPolicy({})).toEqual({
+        policy: { daily: 7, weekly: 4 },
+      });
+    });
+
+    it("should parse whole numbers", () => {
+      expect(
+        parseRetentionPolicy({ keepDaily: " 14 ", keepWeekly: "0" }),
+      ).toEqual({ policy: { daily: 14, weekly: 0 } });
+    });
+
+    it("should reject invalid counts", () => {
+      expect(parseRetentionPolicy({ keepDaily: "-1" }).error).toBeDefined();
+      expect(parseRetentionPolicy({ keepWeekly: "2.5" }).error).toBeDefined();
+    });
+  });
+
+  describe("remote commands", () => {
+    it("should pass the snapshot root as an argument", () => {
+      const command = buildListSnapshotsCommand("~/snap shots");
+
+      expect(command).toMatch(/^sh -c '.*mkdir -p -- "\$r".*' _ /);
+      expect(command.endsWith(" _ '~/snap shots'")).toBe(true);
+    });
+
+    it("should rename the finished upload before updating latest", () => {
+      const command = buildFinishSnapshotCommand(
+        "/snapshots",
+        "2024-03-06_08-00-00",
+        [],
+      );
+
+      expect(command).toContain('mv -- "$n.incomplete" "$n" || exit 1');
+      expect(command.indexOf("mv --")).toBeLessThan(command.indexOf("ln -sfn"));
+    });
+
+    it("should update latest before pruning old snapshots", () => {
+      const command = buildFinishSnapshotCommand(
+        "/snapshots",
+        "2024-03-06_08-00-00",
+        ["2024-03-05_08-00-00"],
+      );
+
+      expect(command.indexOf("ln -sfn")).toBeLessThan(
+        command.indexOf("rm -rf"),
+      );
+      expect(
+        command.endsWith(
+          " _ '/snapshots' '2024-03-06_08-00-00' '2024-03-05_08-00-00'",
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe("executeSnapshotBackup", () => {
+    const options: SnapshotBackupOptions = {
+      hostConfig: mockHostConfig,
+      localPath: "/local/site",
+      snapshotRoot: "/snapshots",
+      retention: { daily: 1, weekly: 0 },
+      rsyncOptions: { delete: true, backup: true },
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2024, 2, 6, 8, 0, 0));
+      vi.mocked(executeRemoteCommand).mockReset();
+      vi.mocked(executeRsync).mockReset();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it("should link against the previous snapshot and prune old ones", async () => {
+      vi.mocked(executeRemoteCommand)
+        .mockResolvedValueOnce({
+          stdout: "2024-03-04_08-00-00\n2024-03-05_08-00-00\nlatest\n",
+          stderr: "",
+        })
+        .mockResolvedValueOnce({ stdout: "", stderr: "" });
+      vi.mocked(executeRsync).mockResolvedValue({
+        success: true,
+        message: "Upload completed successfully",
+      });
+
+      const result = await executeSnapshotBackup(options);
+
+      expect(executeRsync).toHaveBeenCalledWith(
+        expect.objectContaining({
+          localPath: "/local/site",
+          remotePath: "/snapshots/2024-03-06_08-00-00.incomplete/",
+          direction: TransferDirection.UPLOAD,
+          rsyncOptions: {
+            delete: false,
+            backup: false,
+            linkDest: "../2024-03-05_08-00-00",
+          },
+        }),
+        undefined,
+        undefined,
+      );
+      expect(vi.mocked(executeRemoteCommand).mock.calls[1][1]).toBe(
+        buildFinishSnapshotCommand("/snapshots", "2024-03-06_08-00-00", [
+          "2024-03-04_08-00-00",
+          "2024-03-05_08-00-00",
+        ]),
+      );
+      expect(result.snapshot).toEqual({
+        name: "2024-03-06_08-00-00",
+        location: "testserver:/snapshots/2024-03-06_08-00-00",
+        linkedTo: "2024-03-05_08-00-00",
+        pruned: ["2024-03-04_08-00-00", "2024-03-05_08-00-00"],
+      });
+    });
+
+    it("should copy everything for the first snapshot", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: "",
+        stderr: "",
+      });
+      vi.mocked(executeRsync).mockResolvedValue({
+        success: true,
+        message: "Upload completed successfully",
+      });
+
+      const result = await executeSnapshotBackup(options);
+
+      expect(
+        vi.mocked(executeRsync).mock.calls[0][0].rsyncOptions?.linkDest,
+      ).toBeUndefined();
+      expect(result.snapshot?.linkedTo).toBeUndefined();
+    });
+
+    it("should leave latest and old snapshots alone when the transfer fails", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: "2024-03-05_08-00-00\n",
+        stderr: "",
+      });
+      vi.mocked(executeRsync).mockResolvedValue({
+        success: false,
+        message: "Connection refused",
+      });
+
+      const result = await executeSnapshotBackup(options);
+
+      expect(executeRemoteCommand).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        success: false,
+        message: "Connection refused",
+      });
+    });
+
+    it("should not link against or keep an unfinished snapshot of a failed run", async () => {
+      // The failed run leaves its upload behind under the unfinished name
+      vi.mocked(executeRemoteCommand).mockResolvedValueOnce({
+        stdout: "2024-03-05_08-00-00\n",
+        stderr: "",
+      });
+      vi.mocked(executeRsync).mockResolvedValueOnce({
+        success: false,
+        message: "Connection closed",
+      });
+      await executeSnapshotBackup(options);
+
+      expect(executeRemoteCommand).toHaveBeenCalledTimes(1);
+
+      vi.setSystemTime(new Date(2024, 2, 6, 20, 0, 0));
+      vi.mocked(executeRemoteCommand)
+        .mockResolvedValueOnce({
+          stdout: "2024-03-05_08-00-00\n2024-03-06_08-00-00.incomplete\n",
+          stderr: "",
+        })
+        .mockResolvedValueOnce({ stdout: "", stderr: "" });
+      vi.mocked(executeRsync).mockResolvedValueOnce({
+        success: true,
+        message: "Upload completed successfully",
+      });
+      const result = await executeSnapshotBackup(options);
+
+      expect(
+        vi.mocked(executeRsync).mock.calls[1][0].rsyncOptions?.linkDest,
+      ).toBe("../2024-03-05_08-00-00");
+      expect(vi.mocked(executeRemoteCommand).mock.calls[2][1]).toBe(
+        buildFinishSnapshotCommand("/snapshots", "2024-03-06_20-00-00", [
+          "2024-03-05_08-00-00",
+          "2024-03-06_08-00-00.incomplete",
+        ]),
+      );
+      expect(result.snapshot).toEqual({
+        name: "2024-03-06_20-00-00",
+        location: "testserver:/snapshots/2024-03-06_20-00-00",
+        linkedTo: "2024-03-05_08-00-00",
+        pruned: ["2024-03-05_08-00-00"],
+      });
+    });
+
+    it("should warn when latest cannot be updated", async () => {
+      vi.mocked(executeRemoteCommand)
+        .mockResolvedValueOnce({ stdout: "", stderr: "" })
+        .mockRejectedValueOnce(
+          Object.assign(new Error("Command failed"), {
+            stderr: "rm: Permission denied\n",
+          }),
+        );
+      vi.mocked(executeRsync).mockResolvedValue({
+        success: true,
+        message: "Upload completed successfully",
+      });
+
+      const result = await executeSnapshotBackup(options);
+
+      expect(result.success).toBe(true);
+      expect(result.snapshot?.pruned).toEqual([]);
+      expect(result.warnings?.[0]).toContain("rm: Permission denied");
+    });
+
+    it("should fail when the snapshot directory cannot be listed", async () => {
+      vi.mocked(executeRemoteCommand).mockRejectedValue(
+        Object.assign(new Error("Command failed"), {
+          stderr: "mkdir: Permission denied\n",
+        }),
+      );
+
+      const result = await executeSnapshotBackup(options);
+
+      expect(executeRsync).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("mkdir: Permission denied");
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { posix } from "path";
+import {
+  RetentionPolicy,
+  RsyncResult,
+  SnapshotBackupOptions,
+  TransferDirection,
+} from "../types/server";
+import { executeRsync } from "./rsync";
+import { executeRemoteCommand } from "./ssh";
+import { shellEscape, shellEscapeArgs } from "./shellEscape";
+import { formatBackupTimestamp } from "./backup";
+
+/**
+ * Default retention: one snapshot per day for a week, one per week for a month
+ */
+export const DEFAULT_RETENTION: RetentionPolicy = { daily: 7, weekly: 4 };
+
+/**
+ * Name of the symlink pointing at the newest snapshot
+ */
+export const LATEST_LINK = "latest";
+
+/**
+ * Time allowed for preparing the snapshot root and for updating "latest" and
+ * pruning (deleting large hard-linked trees takes a while)
+ */
+const SNAPSHOT_COMMAND_TIMEOUT_SECONDS = 600;
+
+/**
+ * Suffix of the directory a snapshot is uploaded into until it is complete
+ * Unfinished snapshots never match SNAPSHOT_NAME, so they are neither linked
+ * against nor counted for retention
+ */
+export const INCOMPLETE_SUFFIX = ".incomplete";
+
+/**
+ * Snapshot directory names, as produced by formatBackupTimestamp
+ */
+const SNAPSHOT_NAME = /^(\d{4})-(\d{2})-(\d{2})_(\d{2})-(\d{2})-(\d{2})$/;
+
+/**
+ * Remote shell snippet expanding a leading ~ in $r
+ */
+const EXPAND_ROOT =
+  'case "$r" in "~") r="$HOME";; "~/"*) r="$HOME/${r#"~/"}";; esac';
+
+/**
+ * Parses the date of a snapshot directory name
+ * @param name - Directory name such as "2024-03-05_14-07-09"
+ * @returns Local date, or undefined if the name is not a snapshot
+ */
+export function parseSnapshotName(name: string): Date | undefined {
+  const match = name.match(SNAPSHOT_NAME);
+  if (!match) {
+    return undefined;
+  }
+  const [year, month, day, hours, minutes, seconds] = match
+    .slice(1)
+    .map(Number);
+  return new Date(year, month - 1, day, hours, minutes, seconds);
+}
+
+/**
+ * Key of the calendar day of a date
+ */
+function dayKey(date: Date): string {
+  return formatBackupTimestamp(date).slice(0, 10);
+}
+
+/**
+ * Key of the week (starting Monday) of a date
+ */
+function weekKey(date: Date): string {
+  const monday = new Date(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate() - ((date.getDay() + 6) % 7),
+  );
+  return dayKey(monday);
+}
+
+/**
+ * Selects the snapshots a retention policy no longer keeps
+ * The newest snapshot of each of the most recent `daily` days and `weekly`
+ * weeks is kept, as is the newest snapshot overall
+ * @param names - Directory names in the snapshot root (non-snapshots are ignored)
+ * @param policy - Retention policy
+ * @returns Snapshot names to delete, oldest first
+ */
+export function selectSnapshotsToPrune(
+  names: string[],
+  policy: RetentionPolicy,
+): string[] {
+  const snapshots = names
+    .filter((name) => parseSnapshotName(name))
+    .sort()
+    .reverse();
+  const keep = new Set<string>(snapshots.slice(0, 1));
+
+  const keepNewestPerPeriod = (key: (date: Date) => string, count: number) => {
+    const periods = new Set<string>();
+    for (const name of snapshots) {
+      const period = key(parseSnapshotName(name) as Date);
+      if (periods.has(period)) continue;
+      if (periods.size >= count) break;
+      periods.add(period);
+      keep.add(name);
+    }
+  };
+  keepNewestPerPeriod(dayKey, policy.daily);
+  keepNewestPerPeriod(weekKey, policy.weekly);
+
+  return snapshots.filter((name) => !keep.has(name)).reverse();
+}
+
+/**
+ * Parses retention counts entered by the user
+ * @param values - Raw daily and weekly counts (empty uses the default)
+ * @returns Retention policy, or an error message for invalid input
+ */
+export function parseRetentionPolicy(values: {
+  keepDaily?: string;
+  keepWeekly?: string;
+}): { policy?: RetentionPolicy; error?: string } {
+  const parseCount = (value: string | undefined, fallback: number) => {
+    const trimmedValue = (value ?? "").trim();
+    if (trimmedValue === "") return fallback;
+    return /^\d+$/.test(trimmedValue) ? Number(trimmedValue) : NaN;
+  };
+
+  const daily = parseCount(values.keepDaily, DEFAULT_RETENTION.daily);
+  const weekly = parseCount(values.keepWeekly, DEFAULT_RETENTION.weekly);
+  if (Number.isNaN(daily) || Number.isNaN(weekly)) {
+    return { error: "Retention counts must be whole numbers" };
+  }
+
+  return { policy: { daily, weekly } };
+}
+
+/**
+ * Builds the remote command that creates the snapshot root and lists it
+ * @param snapshotRoot - Remote snapshot root (may start with ~)
+ * @returns Command for the remote shell
+ */
+export function buildListSnapshotsCommand(snapshotRoot: string): string {
+  const script = `r="$1"; ${EXPAND_ROOT}; mkdir -p -- "$r" && ls -1 -- "$r"`;
+  return `sh -c ${shellEscape(script)} _ ${shellEscape(snapshotRoot)}`;
+}
+
+/**
+ * Builds the remote command that renames the completed upload to its snapshot
+ * name, points "latest" at it and deletes pruned snapshots
+ * @param snapshotRoot - Remote snapshot root (may start with ~)
+ * @param name - New snapshot, uploaded into name + INCOMPLETE_SUFFIX
+ * @param pruned - Snapshots and leftover unfinished uploads to delete
+ * @returns Command for the remote shell
+ */
+export function buildFinishSnapshotCommand(
+  snapshotRoot: string,
+  name: string,
+  pruned: string[],
+): string {
+  const script = [
+    `r="$1"; n="$2"; shift 2; ${EXPAND_ROOT}`,
+    'cd -- "$r" || exit 1',
+    `mv -- "$n${INCOMPLETE_SUFFIX}" "$n" || exit 1`,
+    `ln -sfn -- "$n" ${LATEST_LINK} || exit 1`,
+    'for s; do rm -rf -- "$s" || exit 1; done',
+  ].join("\n");
+  return `sh -c ${shellEscape(script)} _ ${shellEscapeArgs([snapshotRoot, name, ...pruned])}`;
+}
+
+/**
+ * Runs a snapshot backup
+ * The local directory is uploaded into a new dated directory under the snapshot
+ * root, hard-linked against the previous snapshot with --link-dest so unchanged
+ * files take no extra space. The upload goes to an unfinished name that is only
+ * renamed once the transfer succeeds; afterwards "latest" points at the new
+ * snapshot, and snapshots outside the retention policy as well as unfinished
+ * uploads of earlier failed runs are deleted.
+ * @param options - Snapshot backup options
+ * @param onProgress - Optional callback function to receive real-time progress updates
+ * @param signal - Optional abort signal to cancel the transfer
+ * @returns Promise resolving to the transfer result with snapshot details
+ */
+export async function executeSnapshotBackup(
+  options: SnapshotBackupOptions,
+  onProgress?: (message: string) => void,
+  signal?: AbortSignal,
+): Promise<RsyncResult> {
+  const { hostConfig, snapshotRoot, retention, timeouts } = options;
+  const commandTimeouts = {
+    connectTimeout: timeouts?.connectTimeout,
+    ioTimeout: SNAPSHOT_COMMAND_TIMEOUT_SECONDS,
+  };
+  const name = formatBackupTimestamp(new Date());
+
+  let existing: string[];
+  let unfinished: string[];
+  try {
+    const { stdout } = await executeRemoteCommand(
+      hostConfig,
+      buildListSnapshotsCommand(snapshotRoot),
+      commandTimeouts,
+    );
+    const entries = stdout.split("\n").map((line) => line.trim());
+    existing = entries.filter(
+      (line) => parseSnapshotName(line) && line !== name,
+    );
+    unfinished = entries.filter(
+      (line) =>
+        line.endsWith(INCOMPLETE_SUFFIX) &&
+        parseSnapshotName(line.slice(0, -INCOMPLETE_SUFFIX.length)) &&
+        line !== `${name}${INCOMPLETE_SUFFIX}`,
+    );
+  } catch (error) {
+    console.error("Failed to list snapshots:", error);
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    return {
+      success: false,
+      message: `Could not prepare the snapshot directory: ${stderr || (error instanceof Error ? error.message : String(error))}`,
+    };
+  }
+
+  // Snapshot names sort chronologically
+  const previous = [...existing].sort().pop();
+  const result = await executeRsync(
+    {
+      hostConfig,
+      localPath: options.localPath,
+      remotePath: `${posix.join(snapshotRoot, `${name}${INCOMPLETE_SUFFIX}`)}/`,
+      direction: TransferDirection.UPLOAD,
+      rsyncOptions: {
+        ...options.rsyncOptions,
+        // Every snapshot is a fresh directory, so there is nothing to delete or back up
+        delete: false,
+        backup: false,
+        linkDest: previous ? `../${previous}` : undefined,
+      },
+      timeouts,
+      retry: options.retry,
+      lanHosts: options.lanHosts,
+    },
+    onProgress,
+    signal,
+  );
+
+  // Keep "latest" and older snapshots untouched unless the new one is complete;
+  // the unfinished upload stays under its unfinished name
+  if (!result.success) {
+    return result;
+  }
+
+  const pruned = selectSnapshotsToPrune([...existing, name], retention);
+  const snapshot = {
+    name,
+    location: `${hostConfig.host}:${posix.join(snapshotRoot, name)}`,
+    linkedTo: previous,
+    pruned,
+  };
+
+  onProgress?.(`Updating ${LATEST_LINK} and pruning snapshots...`);
+  try {
+    await executeRemoteCommand(
+      hostConfig,
+      buildFinishSnapshotCommand(snapshotRoot, name, [
+        ...pruned,
+        ...unfinished,
+      ]),
+      commandTimeouts,
+    );
+  } catch (error) {
+    console.error("Failed to finish snapshot:", error);
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    return {
+      ...result,
+      snapshot: { ...snapshot, pruned: [] },
+      warnings: [
+        ...(result.warnings ?? []),
+        `Snapshot ${name} was uploaded, but renaming it, updating "${LATEST_LINK}" or pruning failed: ${stderr || (error instanceof Error ? error.message : String(error))}`,
+      ],
+    };
+  }
+
+  return { ...result, snapshot };
+}
@@ -0,0 +1,177 @@
+import { describe, it, expect } from "vitest";
+import {
+  getLocalSources,
+  getRemoteSources,
+  parseRemotePaths,
+  getSourceDestinationName,
+  getSourceBase,
+  findSourceOfPath,
+  summarizeSources,
+} from "./sources";
+import {
+  ChangeKind,
+  ItemizedChange,
+  SSHHostConfig,
+  TransferDirection,
+} from "../types/server";
+
+describe("Transfer Sources", () => {
+  const mockHostConfig: SSHHostConfig = {
+    host: "testserver",
+    hostName: "example.com",
+  };
+
+  describe("getLocalSources", () => {
+    it("should return every source of a multi-source upload", () => {
+      expect(
+        getLocalSources({
+          hostConfig: mockHostConfig,
+          localPath: "/a",
+          localPaths: ["/a", "/b"],
+          remotePath: "/remote",
+          direction: TransferDirection.UPLOAD,
+        }),
+      ).toEqual(["/a", "/b"]);
+    });
+
+    it("should fall back to the local path", () => {
+      expect(
+        getLocalSources({
+          hostConfig: mockHostConfig,
+          localPath: "/a",
+          localPaths: [],
+          remotePath: "/remote",
+          direction: TransferDirection.UPLOAD,
+        }),
+      ).toEqual(["/a"]);
+    });
+  });
+
+  describe("getRemoteSources", () => {
+    it("should return every source of a multi-path download", () => {
+      expect(
+        getRemoteSources({
+          hostConfig: mockHostConfig,
+          localPath: "/local",
+          remotePath: "/srv/a",
+          remotePaths: ["/srv/a", "~/b"],
+          direction: TransferDirection.DOWNLOAD,
+        }),
+      ).toEqual(["/srv/a", "~/b"]);
+    });
+
+    it("should fall back to the remote path", () => {
+      expect(
+        getRemoteSources({
+          hostConfig: mockHostConfig,
+          localPath: "/local",
+          remotePath: "/srv/a",
+          direction: TransferDirection.DOWNLOAD,
+        }),
+      ).toEqual(["/srv/a"]);
+    });
+  });
+
+  describe("parseRemotePaths", () => {
+    it("should return one trimmed path per non-empty line", () => {
+      expect(parseRemotePaths(" /srv/a \n\n~/b\n  \n")).toEqual([
+        "/srv/a",
+        "~/b",
+      ]);
+    });
+  });
+
+  describe("getSourceDestinationName", () => {
+    it("should use the source name without --relative", () => {
+      expect(getSourceDestinationName("/srv/app/logs")).toBe("logs");
+    });
+
+    it("should keep the whole path with --relative", () => {
+      expect(getSourceDestinationName("/srv/app/logs", true)).toBe(
+        "srv/app/logs",
+      );
+      expect(getSourceDestinationName("~/app/logs", true)).toBe("app/logs");
+      expect(getSourceDestinationName("app/logs", true)).toBe("app/logs");
+    });
+
+    it("should keep the part after a /./ marker with --relative", () => {
+      expect(getSourceDestinationName("/srv/./app/logs", true)).toBe(
+        "app/logs",
+      );
+    });
+  });
+
+  describe("getSourceBase", () => {
+    it("should return the directory the destination name starts in", () => {
+      expect(getSourceBase("/srv/app/logs")).toBe("/srv/app/");
+      expect(getSourceBase("/srv/app/logs", true)).toBe("/");
+      expect(getSourceBase("~/app/logs", true)).toBe("~/");
+      expect(getSourceBase("/srv/./app/logs", true)).toBe("/srv/./");
+      expect(getSourceBase("logs")).toBe("");
+    });
+  });
+
+  describe("findSourceOfPath", () => {
+    const sources = ["/home/me/site", "/tmp/notes.txt"];
+
+    it("should match the first path segment to the source name", () => {
+      expect(findSourceOfPath(sources, "site/css/main.css")).toBe(
+        "/home/me/site",
+      );
+      expect(findSourceOfPath(sources, "notes.txt")).toBe("/tmp/notes.txt");
+      expect(findSourceOfPath(sources, "other.txt")).toBeUndefined();
+    });
+
+    it("should match the preserved path with --relative", () => {
+      const relativeSources = ["/srv/a/logs", "/srv/b/logs"];
+      expect(
+        findSourceOfPath(relativeSources, "srv/b/logs/today.log", true),
+      ).toBe("/srv/b/logs");
+    });
+
+    it("should attribute everything to a single source", () => {
+      expect(findSourceOfPath(["/tmp/dump.sql"], "db.sql")).toBe(
+        "/tmp/dump.sql",
+      );
+    });
+  });
+
+  describe("summarizeSources", () => {
+    const change = (path: string, itemizeCode: string): ItemizedChange => ({
+      kind: ChangeKind.CREATED,
+      path,
+      isDirectory: itemizeCode.startsWith("cd"),
+      itemizeCode,
+    });
+
+    it("should count transferred and skipped files per source", () => {
+      const sources = ["/home/me/site", "/home/me/site-old", "/tmp/notes.txt"];
+      const changes = [
+        change("site/", "cd+++++++++"),
+        change("site/index.html", "<f+++++++++"),
+        change("site/about.html", "<f.st......"),
+        change("site/logo.png", ".f....og..."),
+        change("notes.txt", "<f+++++++++"),
+      ];
+
+      expect(
+        summarizeSources(sources, changes, [
+          "/home/me/site-old/secret.txt",
+          "/home/me/site/private.key",
+        ]),
+      ).toEqual([
+        {
+          path: "/home/me/site",
+          filesTransferred: 2,
+          skippedFiles: ["/home/me/site/private.key"],
+        },
+        {
+          path: "/home/me/site-old",
+          filesTransferred: 0,
+          skippedFiles: ["/home/me/site-old/secret.txt"],
+        },
+        { path: "/tmp/notes.txt", filesTransferred: 1, skippedFiles: [] },
+      ]);
+    });
+  });
+});
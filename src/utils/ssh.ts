@@ -1,16 +1,20 @@
-import { exec } from "child_process";
+import { execFile } from "child_process";
 import { promisify } from "util";
 import { homedir } from "os";
 import { join } from "path";
-import { SSHHostConfig, RemoteFile } from "../types/server";
-import { shellEscape } from "./shellEscape";
+import { SSHHostConfig, RemoteFile, TimeoutOptions } from "../types/server";
+import { shellEscape, formatShellCommand } from "./shellEscape";
+import { DEFAULT_LIST_TIMEOUT_SECONDS, formatDuration } from "./timeouts";
+import { needsSudoPassword } from "./rsyncErrors";
 
-const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 /**
  * Execute ls command on remote server to list files
  * @param hostConfig - SSH host configuration
  * @param remotePath - Path to list on remote server
+ * @param timeouts - Optional connect and listing timeouts
+ * @param sudo - Run ls through passwordless sudo to list root-only directories
  * @returns Promise resolving to array of RemoteFile objects
  */
 /**
@@ -25,29 +29,30 @@ function escapeRemotePath(remotePath: string): string {
 export async function executeRemoteLs(
   hostConfig: SSHHostConfig,
   remotePath: string,
+  timeouts?: TimeoutOptions,
+  sudo = false,
 ): Promise<RemoteFile[]> {
-  const configPath = join(homedir(), ".ssh", "config");
-  const hostAlias = hostConfig.host;
-
-  // Escape all user-provided inputs to prevent command injection
-  const escapedConfigPath = shellEscape(configPath);
-  const escapedHostAlias = shellEscape(hostAlias);
   // Escape entire path to prevent injection; tilde expansion is done on remote in the wrapper
   const escapedRemotePath = escapeRemotePath(remotePath);
 
   // Use ls -lAh for detailed listing with human-readable sizes
   // -l: long format, -A: all files except . and .., -h: human-readable sizes
   // Remote wrapper: receive path as $1, expand ~ to $HOME safely, then run ls -lAh
-  const remoteCommand = `sh -c 'p="$1"; case "$p" in ~/*) p="$HOME\${p#~/}";; ~) p="$HOME";; esac; ls -lAh "$p"' _ ${escapedRemotePath}`;
-  const escapedRemoteCommand = shellEscape(remoteCommand);
+  // With sudo, ~ still means the login user's home; -n fails instead of prompting
+  const lsCommand = sudo ? "sudo -n ls -lAh" : "ls -lAh";
+  const remoteCommand = `sh -c 'p="$1"; case "$p" in ~/*) p="$HOME\${p#~/}";; ~) p="$HOME";; esac; ${lsCommand} "$p"' _ ${escapedRemotePath}`;
+  const args = buildSshArgs(hostConfig, remoteCommand, timeouts);
 
-  const command = `ssh -F ${escapedConfigPath} ${escapedHostAlias} ${escapedRemoteCommand}`;
+  // A listing is a single short response, so the idle timeout bounds the whole command
+  // (0 disables it, as for transfers)
+  const listTimeoutSeconds =
+    timeouts?.ioTimeout ?? DEFAULT_LIST_TIMEOUT_SECONDS;
 
-  console.log("Executing remote ls:", command);
+  console.log("Executing remote ls:", formatShellCommand(["ssh", ...args]));
 
   try {
-    const { stdout } = await execAsync(command, {
-      timeout: 30000, // 30 second timeout
+    const { stdout } = await execFileAsync("ssh", args, {
+      timeout: listTimeoutSeconds * 1000,
     });
 
     // Parse ls output
@@ -60,14 +65,68 @@ export async function executeRemoteLs(
       error as {
         stderr?: string;
         message?: string;
+        killed?: boolean;
         code?: number;
       },
+      { ...timeouts, ioTimeout: listTimeoutSeconds },
     );
     console.error("Remote ls error:", error);
     throw new Error(errorMessage);
   }
 }
 
+/**
+ * Builds the ssh arguments that run a command on the remote host
+ * ssh is spawned without a local shell; only the remote shell parses remoteCommand
+ * @param hostConfig - SSH host configuration
+ * @param remoteCommand - Command for the remote shell; callers escape its arguments
+ * @param timeouts - Optional timeouts (only the connect timeout is an ssh option)
+ * @returns ssh arguments
+ */
+function buildSshArgs(
+  hostConfig: SSHHostConfig,
+  remoteCommand: string,
+  timeouts?: TimeoutOptions,
+): string[] {
+  const configPath = join(homedir(), ".ssh", "config");
+
+  return [
+    "-F",
+    configPath,
+    ...(timeouts?.connectTimeout
+      ? ["-o", `ConnectTimeout=${timeouts.connectTimeout}`]
+      : []),
+    // End of options, so a host alias can never be read as an ssh option
+    "--",
+    hostConfig.host,
+    remoteCommand,
+  ];
+}
+
+/**
+ * Runs a short command on the remote host over SSH
+ * @param hostConfig - SSH host configuration
+ * @param remoteCommand - Command for the remote shell; callers escape its arguments
+ * @param timeouts - Optional timeouts; the idle timeout bounds the whole command
+ * @returns Promise resolving to the command output
+ * @throws The execFile error (with stderr and code) if the command fails
+ */
+export async function executeRemoteCommand(
+  hostConfig: SSHHostConfig,
+  remoteCommand: string,
+  timeouts?: TimeoutOptions,
+): Promise<{ stdout: string; stderr: string }> {
+  const args = buildSshArgs(hostConfig, remoteCommand, timeouts);
+  const timeoutSeconds = timeouts?.ioTimeout ?? DEFAULT_LIST_TIMEOUT_SECONDS;
+
+  console.log(
+    "Executing remote command:",
+    formatShellCommand(["ssh", ...args]),
+  );
+
+  return execFileAsync("ssh", args, { timeout: timeoutSeconds * 1000 });
+}
+
 /**
  * Parse ls -lAh output into RemoteFile objects
  * @param output - stdout from ls command
@@ -114,14 +173,19 @@ function parseLsOutput(output: string): RemoteFile[] {
 
 /**
  * Parse error output from remote ls command
- * @param error - The error object from exec
+ * @param error - The error object from execFile
+ * @param timeouts - Timeouts the listing ran with, used to state the limit that was hit
  * @returns User-friendly error message
  */
-function parseRemoteLsError(error: {
-  stderr?: string;
-  message?: string;
-  code?: number;
-}): string {
+function parseRemoteLsError(
+  error: {
+    stderr?: string;
+    message?: string;
+    killed?: boolean;
+    code?: number;
+  },
+  timeouts?: TimeoutOptions,
+): string {
   const stderr = error.stderr || "";
   const message = error.message || "";
   const combinedError = `${stderr} ${message}`.toLowerCase();
@@ -132,6 +196,13 @@ function parseRemoteLsError(error: {
     message: error.message,
   });
 
+  // Listing was stopped because it exceeded its time limit
+  if (error.killed) {
+    return timeouts?.ioTimeout
+      ? `Listing timed out after ${formatDuration(timeouts.ioTimeout)}.`
+      : "Listing timed out.";
+  }
+
   // Connection errors
   if (combinedError.includes("connection refused")) {
     return "Connection refused: The server is not accepting connections.";
@@ -140,12 +211,19 @@ function parseRemoteLsError(error: {
     combinedError.includes("connection timed out") ||
     combinedError.includes("operation timed out")
   ) {
-    return "Connection timed out: Unable to reach the server.";
+    return timeouts?.connectTimeout
+      ? `Connection timed out: Unable to reach the server within ${formatDuration(timeouts.connectTimeout)}.`
+      : "Connection timed out: Unable to reach the server.";
   }
   if (combinedError.includes("could not resolve hostname")) {
     return "Could not resolve hostname: The server address is invalid.";
   }
 
+  // sudo refused to run without a password
+  if (needsSudoPassword(combinedError)) {
+    return "sudo requires a password: Allow passwordless sudo for ls on the server, or list without sudo.";
+  }
+
   // Authentication errors
   if (
     combinedError.includes("permission denied") &&
@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import {
+  resolveTimeouts,
+  parseTimeoutInput,
+  parseTimeoutOverrides,
+  formatDuration,
+} from "./timeouts";
+
+describe("Timeout Utilities", () => {
+  describe("resolveTimeouts", () => {
+    it("should apply defined overrides over defaults", () => {
+      const resolved = resolveTimeouts(
+        { connectTimeout: 10, ioTimeout: 120, overallTimeout: 0 },
+        { ioTimeout: 600, overallTimeout: undefined },
+      );
+
+      expect(resolved).toEqual({
+        connectTimeout: 10,
+        ioTimeout: 600,
+        overallTimeout: 0,
+      });
+    });
+
+    it("should allow disabling a timeout with 0", () => {
+      const resolved = resolveTimeouts(
+        { connectTimeout: 10 },
+        { connectTimeout: 0 },
+      );
+
+      expect(resolved.connectTimeout).toBe(0);
+    });
+  });
+
+  describe("parseTimeoutInput", () => {
+    it("should parse whole numbers", () => {
+      expect(parseTimeoutInput("30")).toBe(30);
+      expect(parseTimeoutInput(" 0 ")).toBe(0);
+    });
+
+    it("should treat empty input as unset", () => {
+      expect(parseTimeoutInput("")).toBeUndefined();
+      expect(parseTimeoutInput(undefined)).toBeUndefined();
+    });
+
+    it("should reject invalid input", () => {
+      expect(parseTimeoutInput("-5")).toBeNaN();
+      expect(parseTimeoutInput("1.5")).toBeNaN();
+      expect(parseTimeoutInput("ten")).toBeNaN();
+    });
+  });
+
+  describe("parseTimeoutOverrides", () => {
+    it("should convert the time limit from minutes to seconds", () => {
+      const { timeouts, error } = parseTimeoutOverrides({
+        connectTimeout: "5",
+        ioTimeout: "",
+        overallTimeoutMinutes: "90",
+      });
+
+      expect(error).toBeUndefined();
+      expect(timeouts).toEqual({
+        connectTimeout: 5,
+        ioTimeout: undefined,
+        overallTimeout: 5400,
+      });
+    });
+
+    it("should treat an empty time limit as no limit", () => {
+      const { timeouts } = parseTimeoutOverrides({ overallTimeoutMinutes: "" });
+
+      expect(timeouts?.overallTimeout).toBe(0);
+    });
+
+    it("should report invalid values", () => {
+      const { timeouts, error } = parseTimeoutOverrides({ ioTimeout: "abc" });
+
+      expect(timeouts).toBeUndefined();
+      expect(error).toContain("whole numbers");
+    });
+  });
+
+  describe("formatDuration", () => {
+    it("should use the largest whole unit", () => {
+      expect(formatDuration(1)).toBe("1 second");
+      expect(formatDuration(90)).toBe("90 seconds");
+      expect(formatDuration(300)).toBe("5 minutes");
+      expect(formatDuration(3600)).toBe("1 hour");
+      expect(formatDuration(7200)).toBe("2 hours");
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { TimeoutOptions } from "../types/server";
+
+/**
+ * Default timeouts, used when neither preferences nor the transfer override them
+ */
+export const DEFAULT_TIMEOUTS: Required<TimeoutOptions> = {
+  connectTimeout: 10,
+  ioTimeout: 120,
+  overallTimeout: 0, // No wall-clock limit; the idle timeout catches stalled transfers
+};
+
+/**
+ * Fallback limit for remote listings and commands when no idle timeout is set
+ * An idle timeout of 0 disables the limit, as it does for transfers
+ */
+export const DEFAULT_LIST_TIMEOUT_SECONDS = 30;
+
+/**
+ * Merges per-transfer timeout overrides over default timeouts
+ * Undefined override values keep the default
+ * @param defaults - Default timeouts (usually from preferences)
+ * @param overrides - Per-transfer overrides
+ * @returns Merged timeouts
+ */
+export function resolveTimeouts(
+  defaults: TimeoutOptions,
+  overrides?: TimeoutOptions,
+): TimeoutOptions {
+  const resolved: TimeoutOptions = { ...defaults };
+
+  for (const key of Object.keys(overrides ?? {}) as (keyof TimeoutOptions)[]) {
+    const value = overrides?.[key];
+    if (value !== undefined) {
+      resolved[key] = value;
+    }
+  }
+
+  return resolved;
+}
+
+/**
+ * Parses a timeout entered by the user
+ * @param value - Raw input (whole number, empty means "not set")
+ * @returns Parsed number, undefined if empty, or NaN if invalid
+ */
+export function parseTimeoutInput(
+  value: string | undefined,
+): number | undefined {
+  const trimmedValue = (value ?? "").trim();
+  if (trimmedValue === "") {
+    return undefined;
+  }
+  return /^\d+$/.test(trimmedValue) ? Number(trimmedValue) : NaN;
+}
+
+/**
+ * Formats a duration in seconds for error messages
+ * @param seconds - Duration in seconds
+ * @returns Human-readable duration such as "90 seconds", "5 minutes" or "2 hours"
+ */
+export function formatDuration(seconds: number): string {
+  const plural = (value: number, unit: string) =>
+    `${value} ${unit}${value === 1 ? "" : "s"}`;
+
+  if (seconds >= 3600 && seconds % 3600 === 0) {
+    return plural(seconds / 3600, "hour");
+  }
+  if (seconds >= 60 && seconds % 60 === 0) {
+    return plural(seconds / 60, "minute");
+  }
+  return plural(seconds, "second");
+}
+
+/**
+ * Raw timeout inputs from a transfer form
+ */
+export interface TimeoutFormValues {
+  connectTimeout?: string; // Seconds
+  ioTimeout?: string; // Seconds
+  overallTimeoutMinutes?: string; // Minutes
+}
+
+/**
+ * Parses per-transfer timeout overrides from form input
+ * Empty connect/idle fields are left unset so the preference value applies;
+ * an empty time limit means no limit, matching its "No limit" placeholder
+ * @param values - Raw form values
+ * @returns Parsed overrides in seconds, or an error message for invalid input
+ */
+export function parseTimeoutOverrides(values: TimeoutFormValues): {
+  timeouts?: TimeoutOptions;
+  error?: string;
+} {
+  const connectTimeout = parseTimeoutInput(values.connectTimeout);
+  const ioTimeout = parseTimeoutInput(values.ioTimeout);
+  const overallTimeoutMinutes = parseTimeoutInput(values.overallTimeoutMinutes);
+
+  if (
+    [connectTimeout, ioTimeout, overallTimeoutMinutes].some((value) =>
+      Number.isNaN(value),
+    )
+  ) {
+    return { error: "Timeouts must be whole numbers (0 disables a timeout)" };
+  }
+
+  return {
+    timeouts: {
+      connectTimeout,
+      ioTimeout,
+      overallTimeout: (overallTimeoutMinutes ?? 0) * 60,
+    },
+  };
+}
@@ -5,8 +5,17 @@ import {
   validateRemotePath,
   validatePort,
   validateHostConfig,
+  validateBackupDir,
+  validateLocalSources,
+  validateLocalDestination,
+  validateRemoteSources,
+  validateManifest,
+  validateDaemonConfig,
+  validateRsyncPath,
+  validateChmod,
+  validateChown,
 } from "./validation";
-import { SSHHostConfig } from "../types/server";
+import { RsyncDaemonConfig, SSHHostConfig } from "../types/server";
 
 // Type definitions for mocked fs module
 type MockedFS = typeof fs & {
@@ -61,6 +70,109 @@ describe("Validation Utilities", () => {
     });
   });
 
+  describe("validateLocalSources", () => {
+    it("should return valid for existing sources with distinct names", () => {
+      (fs as unknown as MockedFS).__setMockFileExists(true);
+      const result = validateLocalSources(["/a/file.txt", "/b/folder/"]);
+      expect(result.valid).toBe(true);
+    });
+
+    it("should name the source that does not exist", () => {
+      (fs as unknown as MockedFS).__setMockFileExists(false);
+      const result = validateLocalSources(["/a/file.txt"]);
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe("File not found: /a/file.txt");
+    });
+
+    it("should reject sources that would land on the same name", () => {
+      (fs as unknown as MockedFS).__setMockFileExists(true);
+      const result = validateLocalSources(["/a/docs", "/b/docs/"]);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('"docs"');
+    });
+
+    it("should reject an empty selection", () => {
+      expect(validateLocalSources([]).valid).toBe(false);
+    });
+  });
+
+  describe("validateLocalDestination", () => {
+    const sources = ["/Users/me/project", "/Users/me/notes.txt"];
+
+    it("should return valid for an existing folder outside the sources", () => {
+      (fs as unknown as MockedFS).__setMockFileExists(true);
+      expect(validateLocalDestination("/Volumes/USB/Backups", sources)).toEqual(
+        { valid: true },
+      );
+      expect(
+        validateLocalDestination("/Users/me/project-mirror", sources).valid,
+      ).toBe(true);
+    });
+
+    it("should return invalid for an empty or missing destination", () => {
+      expect(validateLocalDestination(" ", sources).error).toBe(
+        "Destination folder cannot be empty",
+      );
+      (fs as unknown as MockedFS).__setMockFileExists(false);
+      expect(validateLocalDestination("/Volumes/USB", sources).error).toBe(
+        "Destination folder not found",
+      );
+    });
+
+    it("should return invalid for a destination inside a source", () => {
+      (fs as unknown as MockedFS).__setMockFileExists(true);
+      for (const destination of [
+        "/Users/me/project",
+        "/Users/me/project/backup/",
+        "/Users/me/other/../project/backup",
+      ]) {
+        expect(validateLocalDestination(destination, sources).error).toBe(
+          "The destination folder is inside the source /Users/me/project",
+        );
+      }
+    });
+  });
+
+  describe("validateRemoteSources", () => {
+    it("should return valid for remote paths with distinct names", () => {
+      expect(validateRemoteSources(["/srv/site/", "~/logs"]).valid).toBe(true);
+    });
+
+    it("should reject remote paths that would land on the same name", () => {
+      const result = validateRemoteSources(["/srv/a/logs", "/srv/b/logs/"]);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('"logs"');
+    });
+
+    it("should allow the same name when the remote paths are preserved", () => {
+      expect(
+        validateRemoteSources(["/srv/a/logs", "/srv/b/logs/"], true).valid,
+      ).toBe(true);
+    });
+
+    it("should reject an empty list", () => {
+      expect(validateRemoteSources([]).error).toBe(
+        "Remote path cannot be empty",
+      );
+    });
+  });
+
+  describe("validateManifest", () => {
+    it("should return valid for paths inside the source directory", () => {
+      expect(validateManifest(["docs/readme.md", "a..b/c"]).valid).toBe(true);
+    });
+
+    it("should reject paths leaving the source directory", () => {
+      const result = validateManifest(["docs/../../etc/passwd"]);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("docs/../../etc/passwd");
+    });
+
+    it("should reject an empty manifest", () => {
+      expect(validateManifest([]).valid).toBe(false);
+    });
+  });
+
   describe("validateRemotePath", () => {
     it("should return valid for valid path format", () => {
       const result = validateRemotePath("/home/user/file.txt");
@@ -86,46 +198,91 @@ describe("Validation Utilities", () => {
       expect(result.error).toContain("Invalid path format");
     });
 
-    it("should return invalid for path with shell metacharacters (semicolon)", () => {
-      const result = validateRemotePath("/tmp/test; rm -rf /");
-      expect(result.valid).toBe(false);
-      expect(result.error).toContain("shell metacharacters");
+    it.each([
+      ["semicolon", "/tmp/notes; draft.txt"],
+      ["pipe", "/tmp/a | b.txt"],
+      ["ampersand", "/tmp/Tom & Jerry"],
+      ["backtick", "/tmp/`quoted`.txt"],
+      ["dollar sign", "/tmp/$HOME"],
+    ])("should allow shell metacharacters in paths (%s)", (_name, path) => {
+      // Paths are never interpreted by a local shell, so these are plain filename characters
+      expect(validateRemotePath(path)).toEqual({ valid: true });
     });
 
-    it("should return invalid for path with shell metacharacters (pipe)", () => {
-      const result = validateRemotePath("/tmp/test | cat");
-      expect(result.valid).toBe(false);
-      expect(result.error).toContain("shell metacharacters");
+    it("should allow parentheses in paths (legitimate filename characters)", () => {
+      const result = validateRemotePath("/tmp/test(file)");
+      // Parentheses are allowed as they can legitimately appear in filenames
+      // and are safely handled by our escaping
+      expect(result.valid).toBe(true);
     });
 
-    it("should return invalid for path with shell metacharacters (ampersand)", () => {
-      const result = validateRemotePath("/tmp/test & echo");
-      expect(result.valid).toBe(false);
-      expect(result.error).toContain("shell metacharacters");
+    it("should allow backslash in paths (valid in Unix filenames)", () => {
+      const result = validateRemotePath("/tmp/path\\with\\backslashes");
+      expect(result.valid).toBe(true);
+    });
+  });
+
+  describe("validateBackupDir", () => {
+    it("should accept empty, relative and absolute directories", () => {
+      expect(validateBackupDir("").valid).toBe(true);
+      expect(validateBackupDir(".rsync-backups/{timestamp}").valid).toBe(true);
+      expect(validateBackupDir("/srv/backups").valid).toBe(true);
     });
 
-    it("should return invalid for path with shell metacharacters (backtick)", () => {
-      const result = validateRemotePath("/tmp/test`whoami`");
+    it("should reject directories starting with ~", () => {
+      const result = validateBackupDir("~/backups");
       expect(result.valid).toBe(false);
-      expect(result.error).toContain("shell metacharacters");
+      expect(result.error).toContain("~ is not expanded");
     });
 
-    it("should return invalid for path with shell metacharacters (dollar sign)", () => {
-      const result = validateRemotePath("/tmp/test$HOME");
+    it("should reject control characters", () => {
+      expect(validateBackupDir("backups\n").valid).toBe(false);
+    });
+  });
+
+  describe("validateRsyncPath", () => {
+    it("should accept empty and command paths", () => {
+      expect(validateRsyncPath("").valid).toBe(true);
+      expect(validateRsyncPath("sudo -n rsync").valid).toBe(true);
+      expect(validateRsyncPath("/opt/homebrew/bin/rsync").valid).toBe(true);
+    });
+
+    it("should reject control characters", () => {
+      expect(validateRsyncPath("sudo -n rsync\n").valid).toBe(false);
+    });
+  });
+
+  describe("validateChmod", () => {
+    it("should accept octal and symbolic rules", () => {
+      expect(validateChmod("").valid).toBe(true);
+      expect(validateChmod("D755,F644").valid).toBe(true);
+      expect(validateChmod("Dg+s, ug+w, Fo-w,+X").valid).toBe(true);
+      expect(validateChmod("u=rwx,go=rx").valid).toBe(true);
+    });
+
+    it("should name the invalid rule", () => {
+      const result = validateChmod("D755,F64");
       expect(result.valid).toBe(false);
-      expect(result.error).toContain("shell metacharacters");
+      expect(result.error).toContain('"F64"');
+      expect(validateChmod("F644,").valid).toBe(false);
+      expect(validateChmod("rwxr-xr-x").valid).toBe(false);
     });
+  });
 
-    it("should allow parentheses in paths (legitimate filename characters)", () => {
-      const result = validateRemotePath("/tmp/test(file)");
-      // Parentheses are allowed as they can legitimately appear in filenames
-      // and are safely handled by our escaping
-      expect(result.valid).toBe(true);
+  describe("validateChown", () => {
+    it("should accept users, groups and both", () => {
+      expect(validateChown("").valid).toBe(true);
+      expect(validateChown("www-data").valid).toBe(true);
+      expect(validateChown("www-data:www-data").valid).toBe(true);
+      expect(validateChown(":staff").valid).toBe(true);
+      expect(validateChown("1000:1000").valid).toBe(true);
     });
 
-    it("should allow backslash in paths (valid in Unix filenames)", () => {
-      const result = validateRemotePath("/tmp/path\\with\\backslashes");
-      expect(result.valid).toBe(true);
+    it("should reject malformed owners", () => {
+      expect(validateChown("www-data:").valid).toBe(false);
+      expect(validateChown("a:b:c").valid).toBe(false);
+      expect(validateChown("user name").valid).toBe(false);
+      expect(validateChown("-user").valid).toBe(false);
     });
   });
 
@@ -226,4 +383,71 @@ describe("Validation Utilities", () => {
       expect(result.error).toBe("Host configuration is required");
     });
   });
+
+  describe("validateDaemonConfig", () => {
+    const daemon: RsyncDaemonConfig = {
+      host: "NAS",
+      hostName: "nas.local",
+      module: "backups",
+    };
+
+    it("should return valid for a complete endpoint", () => {
+      expect(validateDaemonConfig({ ...daemon, port: 8730 })).toEqual({
+        valid: true,
+      });
+    });
+
+    it("should be used by validateHostConfig for daemon endpoints", () => {
+      const result = validateHostConfig({ ...daemon, module: "" });
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe("Module name is required and cannot contain /");
+    });
+
+    it("should return invalid for a missing name", () => {
+      const result = validateDaemonConfig({ ...daemon, host: " " });
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe("Name is required");
+    });
+
+    it.each(["", "nas local", "user@nas.local", "nas.local/backups"])(
+      "should return invalid for hostname %j",
+      (hostName) => {
+        const result = validateDaemonConfig({ ...daemon, hostName });
+        expect(result.valid).toBe(false);
+        expect(result.error).toBe("A daemon hostname or IP is required");
+      },
+    );
+
+    it("should return invalid for a module with a slash", () => {
+      const result = validateDaemonConfig({ ...daemon, module: "a/b" });
+      expect(result.valid).toBe(false);
+    });
+
+    it("should return invalid for an invalid port", () => {
+      const result = validateDaemonConfig({ ...daemon, port: 0 });
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe(
+        "Invalid port number: must be between 1 and 65535",
+      );
+    });
+
+    it("should return invalid for a missing password file", () => {
+      (fs as unknown as MockedFS).__setMockFileExists(false);
+      const result = validateDaemonConfig({
+        ...daemon,
+        passwordFile: "/missing/password",
+      });
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe("Password file not found");
+    });
+
+    it("should return valid for an existing password file", () => {
+      (fs as unknown as MockedFS).__setMockFileExists(true);
+      const result = validateDaemonConfig({
+        ...daemon,
+        passwordFile: "/Users/me/.rsync-password",
+      });
+      expect(result.valid).toBe(true);
+    });
+  });
 });
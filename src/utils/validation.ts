@@ -1,5 +1,7 @@
 import { existsSync } from "fs";
-import { SSHHostConfig } from "../types/server";
+import { basename, posix, resolve } from "path";
+import { HostConfig, RsyncDaemonConfig } from "../types/server";
+import { isRsyncDaemon } from "./rsyncDaemon";
 
 /**
  * Validation result structure
@@ -26,6 +28,74 @@ export function validateLocalPath(path: string): ValidationResult {
   return { valid: true };
 }
 
+/**
+ * Validates the local sources of an upload
+ * Every source lands in the destination under its own name, so two sources
+ * with the same name would overwrite each other
+ * @param paths - The local file or directory paths to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateLocalSources(paths: string[]): ValidationResult {
+  if (paths.length === 0) {
+    return { valid: false, error: "Select at least one file or folder" };
+  }
+
+  const names = new Set<string>();
+  for (const path of paths) {
+    const pathValidation = validateLocalPath(path);
+    if (!pathValidation.valid) {
+      return { valid: false, error: `${pathValidation.error}: ${path}` };
+    }
+
+    const name = basename(path);
+    if (names.has(name)) {
+      return {
+        valid: false,
+        error: `More than one selected item is named "${name}", upload them separately`,
+      };
+    }
+    names.add(name);
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates the destination directory of a local transfer
+ * A destination inside one of the sources would be copied into itself on every run
+ * @param path - The destination directory to validate
+ * @param sources - The local sources of the transfer
+ * @returns Validation result with error message if invalid
+ */
+export function validateLocalDestination(
+  path: string,
+  sources: string[],
+): ValidationResult {
+  if (!path || path.trim() === "") {
+    return { valid: false, error: "Destination folder cannot be empty" };
+  }
+
+  if (!existsSync(path)) {
+    return { valid: false, error: "Destination folder not found" };
+  }
+
+  const destination = resolve(path);
+  for (const source of sources) {
+    const resolvedSource = resolve(source);
+    if (
+      destination === resolvedSource ||
+      destination.startsWith(`${resolvedSource}/`)
+    ) {
+      return {
+        valid: false,
+        error: `The destination folder is inside the source ${source}`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
 /**
  * Validates remote path format
  * @param path - The remote path to validate
@@ -46,19 +116,164 @@ export function validateRemotePath(path: string): ValidationResult {
     };
   }
 
-  // Defense in depth: Detect dangerous shell metacharacters that could indicate injection attempts
-  // Note: While we now properly escape all paths, this validation provides early detection
-  // of potentially malicious input. We only reject clearly dangerous characters:
-  // - ; (command separator)
-  // - | (pipe)
-  // - & (background execution)
-  // - ` (command substitution)
-  // - $ (variable expansion)
-  const dangerousMetacharacters = /[;&|`$]/;
-  if (dangerousMetacharacters.test(path)) {
+  // Shell metacharacters ($, &, ; ...) are legitimate filename characters:
+  // rsync and ssh run without a local shell and remote paths are protected
+
+  return { valid: true };
+}
+
+/**
+ * Validates the remote sources of a download
+ * Without --relative every source lands in the destination under its own
+ * name, so two sources with the same name would overwrite each other
+ * @param paths - The remote paths to validate
+ * @param relative - Whether the download preserves the remote paths (--relative)
+ * @returns Validation result with error message if invalid
+ */
+export function validateRemoteSources(
+  paths: string[],
+  relative = false,
+): ValidationResult {
+  if (paths.length === 0) {
+    return { valid: false, error: "Remote path cannot be empty" };
+  }
+
+  const names = new Set<string>();
+  for (const path of paths) {
+    const pathValidation = validateRemotePath(path);
+    if (!pathValidation.valid) {
+      return pathValidation;
+    }
+
+    const name = posix.basename(path);
+    if (!relative && names.has(name)) {
+      return {
+        valid: false,
+        error: `More than one remote path is named "${name}", preserve the remote paths or download them separately`,
+      };
+    }
+    names.add(name);
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates the entries of a --files-from manifest
+ * @param entries - Parsed manifest entries, relative to the source directory
+ * @returns Validation result with error message if invalid
+ */
+export function validateManifest(entries: string[]): ValidationResult {
+  if (entries.length === 0) {
+    return { valid: false, error: "The manifest does not list any paths" };
+  }
+
+  for (const entry of entries) {
+    // eslint-disable-next-line no-control-regex
+    if (/[\x00-\x1F\x7F]/.test(entry)) {
+      return {
+        valid: false,
+        error: `Invalid manifest entry: contains control characters: ${entry}`,
+      };
+    }
+    if (entry.split("/").includes("..")) {
+      return {
+        valid: false,
+        error: `Manifest entries must stay inside the source directory: ${entry}`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a backup directory (empty uses the default)
+ * rsync does not expand ~ in option values, so only absolute paths and paths
+ * relative to the destination are accepted
+ * @param dir - The backup directory to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateBackupDir(dir: string): ValidationResult {
+  // eslint-disable-next-line no-control-regex
+  if (/[\x00-\x1F\x7F]/.test(dir)) {
     return {
       valid: false,
-      error: "Invalid path format: contains dangerous shell metacharacters.",
+      error: "Invalid backup directory: contains control characters",
+    };
+  }
+
+  if (dir.trim().startsWith("~")) {
+    return {
+      valid: false,
+      error:
+        "Backup directory must be an absolute path or relative to the destination (~ is not expanded)",
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a remote rsync path (empty runs plain rsync)
+ * The value is a command line for the remote shell, as with --rsync-path
+ * @param rsyncPath - The remote rsync command to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateRsyncPath(rsyncPath: string): ValidationResult {
+  // eslint-disable-next-line no-control-regex
+  if (/[\x00-\x1F\x7F]/.test(rsyncPath)) {
+    return {
+      valid: false,
+      error: "Invalid remote rsync path: contains control characters",
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates --chmod rules (empty applies none)
+ * Each comma separated rule is octal (755) or symbolic (u+rw,go-w), optionally
+ * prefixed with D or F to apply it to directories or files only
+ * @param rules - The chmod rules to validate, e.g. "D755,F644"
+ * @returns Validation result with error message if invalid
+ */
+export function validateChmod(rules: string): ValidationResult {
+  if (rules.trim() === "") {
+    return { valid: true };
+  }
+
+  const invalid = rules
+    .split(",")
+    .map((rule) => rule.trim())
+    .find(
+      (rule) => !/^[DF]?(?:[0-7]{3,4}|[ugoa]*(?:[-+=][rwxXst]*)+)$/.test(rule),
+    );
+  if (invalid !== undefined) {
+    return {
+      valid: false,
+      error: `Invalid chmod rule "${invalid}": use octal (D755) or symbolic rules (Fgo-w), separated by commas`,
+    };
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Validates a --chown value (empty keeps the owner)
+ * @param owner - "user", "user:group" or ":group"
+ * @returns Validation result with error message if invalid
+ */
+export function validateChown(owner: string): ValidationResult {
+  const name = "[A-Za-z0-9_.][A-Za-z0-9_.-]*";
+  if (
+    owner.trim() !== "" &&
+    !new RegExp(`^(?:${name}(?::${name})?|:${name})$`).test(owner.trim())
+  ) {
+    return {
+      valid: false,
+      error: "Invalid owner: use user, user:group or :group",
     };
   }
 
@@ -87,14 +302,18 @@ export function validatePort(port: number): ValidationResult {
 
 /**
  * Validates that a host configuration has required fields and valid values
- * @param config - The SSH host configuration to validate
+ * @param config - The SSH host or rsync daemon configuration to validate
  * @returns Validation result with error message if invalid
  */
-export function validateHostConfig(config: SSHHostConfig): ValidationResult {
+export function validateHostConfig(config: HostConfig): ValidationResult {
   if (!config) {
     return { valid: false, error: "Host configuration is required" };
   }
 
+  if (isRsyncDaemon(config)) {
+    return validateDaemonConfig(config);
+  }
+
   if (!config.host || config.host.trim() === "") {
     return { valid: false, error: "Host alias is required" };
   }
@@ -109,3 +328,41 @@ export function validateHostConfig(config: SSHHostConfig): ValidationResult {
 
   return { valid: true };
 }
+
+/**
+ * Validates an rsync daemon endpoint
+ * @param config - The daemon endpoint to validate
+ * @returns Validation result with error message if invalid
+ */
+export function validateDaemonConfig(
+  config: RsyncDaemonConfig,
+): ValidationResult {
+  if (!config.host || config.host.trim() === "") {
+    return { valid: false, error: "Name is required" };
+  }
+
+  if (!config.hostName || /[\s/@]/.test(config.hostName)) {
+    return { valid: false, error: "A daemon hostname or IP is required" };
+  }
+
+  // eslint-disable-next-line no-control-regex
+  if (!config.module || /[/\x00-\x1F\x7F]/.test(config.module)) {
+    return {
+      valid: false,
+      error: "Module name is required and cannot contain /",
+    };
+  }
+
+  if (config.port !== undefined) {
+    const portValidation = validatePort(config.port);
+    if (!portValidation.valid) {
+      return portValidation;
+    }
+  }
+
+  if (config.passwordFile && !existsSync(config.passwordFile)) {
+    return { valid: false, error: "Password file not found" };
+  }
+
+  return { valid: true };
+}
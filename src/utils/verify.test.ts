@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, writeFileSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  getTransferredFiles,
+  hashLocalFile,
+  buildRemoteHashCommand,
+  parseRemoteHashOutput,
+  verifyTransfer,
+} from "./verify";
+import { ChangeKind, SSHHostConfig } from "../types/server";
+import { executeRemoteCommand } from "./ssh";
+
+vi.mock("./ssh", () => ({
+  executeRemoteCommand: vi.fn(),
+}));
+
+// SHA-256 of "hello\n" and "world\n"
+const HELLO_HASH =
+  "5891b5b522d5df086d0ff0b110fbd9d21bb4fc7163af34d08286a2e846f6be03";
+const WORLD_HASH =
+  "e258d248fda94c63753607f7c4494ee0fcbe92f1a76bfdac795c9d84101eb317";
+
+describe("Transfer Verification", () => {
+  const mockHostConfig: SSHHostConfig = {
+    host: "testserver",
+    hostName: "example.com",
+  };
+  let tempDir: string;
+
+  beforeEach(() => {
+    vi.mocked(executeRemoteCommand).mockReset();
+    tempDir = mkdtempSync(join(tmpdir(), "verify-test-"));
+    writeFileSync(join(tempDir, "a.txt"), "hello\n");
+    writeFileSync(join(tempDir, "b.txt"), "world\n");
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  describe("getTransferredFiles", () => {
+    it("should keep only files whose content was sent or received", () => {
+      expect(
+        getTransferredFiles([
+          {
+            kind: ChangeKind.CREATED,
+            path: "dir/",
+            isDirectory: true,
+            itemizeCode: "cd+++++++++",
+          },
+          {
+            kind: ChangeKind.CREATED,
+            path: "dir/new.txt",
+            isDirectory: false,
+            itemizeCode: ">f+++++++++",
+          },
+          {
+            kind: ChangeKind.UPDATED,
+            path: "dir/sent.txt",
+            isDirectory: false,
+            itemizeCode: "<f.st......",
+          },
+          {
+            kind: ChangeKind.ATTRIBUTES,
+            path: "dir/touched.txt",
+            isDirectory: false,
+            itemizeCode: ".f..t......",
+          },
+          {
+            kind: ChangeKind.DELETED,
+            path: "dir/old.txt",
+            isDirectory: false,
+            itemizeCode: "*deleting",
+          },
+        ]),
+      ).toEqual(["dir/new.txt", "dir/sent.txt"]);
+    });
+  });
+
+  describe("hashLocalFile", () => {
+    it("should compute the SHA-256 of a file", async () => {
+      expect(await hashLocalFile(join(tempDir, "a.txt"))).toBe(HELLO_HASH);
+    });
+
+    it("should return undefined for unreadable files", async () => {
+      expect(await hashLocalFile(join(tempDir, "missing.txt"))).toBeUndefined();
+    });
+  });
+
+  describe("buildRemoteHashCommand", () => {
+    it("should pass every path as a single escaped argument", () => {
+      const command = buildRemoteHashCommand(
+        ["/srv/a; rm -rf /", "~/b.txt"],
+        "a.txt",
+      );
+
+      expect(command).toMatch(/^sh -c '[^]+' _ 'a\.txt' /);
+      expect(command).toContain("'/srv/a; rm -rf /'");
+      expect(command).toContain("'~/b.txt'");
+    });
+  });
+
+  describe("parseRemoteHashOutput", () => {
+    it("should return one digest per file, undefined for unreadable files", () => {
+      expect(parseRemoteHashOutput(`${HELLO_HASH}\n\n`, 3)).toEqual([
+        HELLO_HASH,
+        undefined,
+        undefined,
+      ]);
+    });
+  });
+
+  describe("verifyTransfer", () => {
+    const targets = () => [
+      {
+        path: "a.txt",
+        localPath: join(tempDir, "a.txt"),
+        remotePath: "/srv/a.txt",
+      },
+      {
+        path: "b.txt",
+        localPath: join(tempDir, "b.txt"),
+        remotePath: "/srv/b.txt",
+      },
+    ];
+
+    it("should report no mismatches when all hashes match", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: `${HELLO_HASH}\n${WORLD_HASH}\n`,
+        stderr: "",
+      });
+
+      expect(await verifyTransfer(mockHostConfig, targets())).toEqual({
+        filesChecked: 2,
+        mismatches: [],
+      });
+    });
+
+    it("should list files whose hashes differ or are unreadable", async () => {
+      vi.mocked(executeRemoteCommand).mockResolvedValue({
+        stdout: `${WORLD_HASH}\n\n`,
+        stderr: "",
+      });
+
+      const verification = await verifyTransfer(mockHostConfig, targets());
+
+      expect(verification.mismatches).toEqual([
+        { path: "a.txt", localHash: HELLO_HASH, remoteHash: WORLD_HASH },
+        { path: "b.txt", localHash: WORLD_HASH, remoteHash: undefined },
+      ]);
+    });
+
+    it("should report an error when the remote side cannot be checked", async () => {
+      vi.mocked(executeRemoteCommand).mockRejectedValue(
+        Object.assign(new Error("Command failed"), {
+          stderr:
+            "ssh: connect to host example.com port 22: Connection refused",
+        }),
+      );
+
+      const verification = await verifyTransfer(mockHostConfig, targets());
+
+      expect(verification.filesChecked).toBe(0);
+      expect(verification.error).toContain("Connection refused");
+    });
+  });
+});
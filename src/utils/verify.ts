@@ -0,0 +1,144 @@
+import { createHash } from "crypto";
+import { createReadStream } from "fs";
+import {
+  ItemizedChange,
+  SSHHostConfig,
+  TimeoutOptions,
+  TransferVerification,
+  VerificationMismatch,
+  VerificationTarget,
+} from "../types/server";
+import { executeRemoteCommand } from "./ssh";
+import { shellEscape, shellEscapeArgs } from "./shellEscape";
+
+/** Files hashed per SSH command, keeping the command line well below ARG_MAX */
+const REMOTE_BATCH_SIZE = 200;
+
+/** Time allowed for hashing one batch when no overall limit is configured */
+const REMOTE_HASH_TIMEOUT_SECONDS = 3600;
+
+/**
+ * Remote wrapper that prints one SHA-256 per path argument, in order
+ * $1 is a file name appended when a path turns out to be a directory (a single
+ * file uploaded into an existing directory); an empty line means unreadable.
+ * Hashing stdin keeps odd file names out of the output; shasum covers macOS.
+ */
+const REMOTE_HASH_SCRIPT = [
+  'n="$1"; shift',
+  "for f; do",
+  'case "$f" in "~") f="$HOME";; "~/"*) f="$HOME/${f#"~/"}";; esac',
+  'if [ -n "$n" ] && [ -d "$f" ]; then f="$f/$n"; fi',
+  'if command -v sha256sum >/dev/null 2>&1; then h=$(sha256sum 2>/dev/null < "$f"); else h=$(shasum -a 256 2>/dev/null < "$f"); fi',
+  'echo "${h%% *}"',
+  "done",
+].join("\n");
+
+/**
+ * Lists the regular files whose content was sent or received
+ * @param changes - Itemized changes of the transfer
+ * @returns Paths relative to the transfer root
+ */
+export function getTransferredFiles(changes: ItemizedChange[]): string[] {
+  return changes
+    .filter((change) => /^[<>]f/.test(change.itemizeCode))
+    .map((change) => change.path);
+}
+
+/**
+ * Computes the SHA-256 of a local file
+ * @param path - Local file path
+ * @returns Hex digest, or undefined if the file could not be read
+ */
+export function hashLocalFile(path: string): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const hash = createHash("sha256");
+    createReadStream(path)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", () => resolve(undefined));
+  });
+}
+
+/**
+ * Builds the remote command that hashes a batch of files
+ * @param remotePaths - Remote file paths
+ * @param directoryFallbackName - Name appended to paths that are directories
+ * @returns Command for the remote shell
+ */
+export function buildRemoteHashCommand(
+  remotePaths: string[],
+  directoryFallbackName = "",
+): string {
+  return `sh -c ${shellEscape(REMOTE_HASH_SCRIPT)} _ ${shellEscapeArgs([directoryFallbackName, ...remotePaths])}`;
+}
+
+/**
+ * Parses the output of the remote hash command
+ * @param output - stdout with one digest (or an empty line) per file
+ * @param count - Number of files in the batch
+ * @returns Digests in batch order, undefined for unreadable files
+ */
+export function parseRemoteHashOutput(
+  output: string,
+  count: number,
+): (string | undefined)[] {
+  const lines = output.split("\n");
+  return Array.from({ length: count }, (_, index) => {
+    const digest = (lines[index] ?? "").trim().toLowerCase();
+    return /^[0-9a-f]{64}$/.test(digest) ? digest : undefined;
+  });
+}
+
+/**
+ * Compares the SHA-256 of transferred files on both sides
+ * @param hostConfig - SSH host configuration
+ * @param targets - Transferred files with their local and remote paths
+ * @param timeouts - Optional timeouts for the SSH commands
+ * @param directoryFallbackName - Name appended to remote paths that are directories
+ * @returns Number of checked files and the files that did not match
+ */
+export async function verifyTransfer(
+  hostConfig: SSHHostConfig,
+  targets: VerificationTarget[],
+  timeouts?: TimeoutOptions,
+  directoryFallbackName?: string,
+): Promise<TransferVerification> {
+  const mismatches: VerificationMismatch[] = [];
+
+  try {
+    for (let start = 0; start < targets.length; start += REMOTE_BATCH_SIZE) {
+      const batch = targets.slice(start, start + REMOTE_BATCH_SIZE);
+      const { stdout } = await executeRemoteCommand(
+        hostConfig,
+        buildRemoteHashCommand(
+          batch.map((target) => target.remotePath),
+          directoryFallbackName,
+        ),
+        // Hashing large files takes a while, so the short listing limit does not apply
+        {
+          connectTimeout: timeouts?.connectTimeout,
+          ioTimeout: timeouts?.overallTimeout || REMOTE_HASH_TIMEOUT_SECONDS,
+        },
+      );
+      const remoteHashes = parseRemoteHashOutput(stdout, batch.length);
+
+      for (const [index, target] of batch.entries()) {
+        const localHash = await hashLocalFile(target.localPath);
+        const remoteHash = remoteHashes[index];
+        if (!localHash || !remoteHash || localHash !== remoteHash) {
+          mismatches.push({ path: target.path, localHash, remoteHash });
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Verification failed:", error);
+    const stderr = (error as { stderr?: string }).stderr?.trim();
+    return {
+      filesChecked: 0,
+      mismatches: [],
+      error: `Could not compute remote checksums: ${stderr || (error instanceof Error ? error.message : String(error))}`,
+    };
+  }
+
+  return { filesChecked: targets.length, mismatches };
+}